@@ -9,7 +9,22 @@ declare namespace Cloudflare {
 		DATABASE_URL: string;
 		OPENAI_API_KEY: string;
 		DISABLE_RATE_LIMIT: string;
+		PERPLEXITY_API_KEY: string;
+		GEMINI_API_KEY: string;
+		ANTHROPIC_API_KEY: string;
+		SEARCH_PROVIDERS: string;
+		APP_URL: string;
+		RESEND_API_KEY: string;
+		EMAIL_FROM: string;
+		ROBOTS_TXT_OVERRIDE_HOSTS: string;
+		PAGE_RENDERER: string;
+		BROWSER_RENDERING_ACCOUNT_ID: string;
+		BROWSER_RENDERING_API_TOKEN: string;
+		SCRAPE_CREDENTIALS_KEY: string;
+		WORKSPACE_DAILY_QUOTA: string;
 		ASSETS: Fetcher;
+		ARTICLE_ANALYSIS_QUEUE: Queue;
+		ARTICLE_ANALYSIS_DLQ: Queue;
 	}
 }
 interface CloudflareEnv extends Cloudflare.Env {}
@@ -0,0 +1,2 @@
+ALTER TABLE "content_analysis_results" ADD COLUMN "llm_response" text;--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "last_completed_phase" varchar(20);
\ No newline at end of file
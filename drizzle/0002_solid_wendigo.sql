@@ -0,0 +1,2 @@
+ALTER TABLE "content_analysis_results" ADD COLUMN "provider" varchar(20) DEFAULT 'openai' NOT NULL;--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "search_providers" jsonb DEFAULT '["openai"]'::jsonb NOT NULL;
\ No newline at end of file
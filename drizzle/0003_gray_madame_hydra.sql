@@ -0,0 +1,17 @@
+CREATE TABLE "content_analysis_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"submission_id" uuid NOT NULL,
+	"frequency" varchar(10) NOT NULL,
+	"active" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp with time zone NOT NULL,
+	"last_run_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "content_analysis_schedules_submission_id_unique" UNIQUE("submission_id")
+);
+--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "parent_submission_id" uuid;--> statement-breakpoint
+ALTER TABLE "content_analysis_schedules" ADD CONSTRAINT "content_analysis_schedules_submission_id_content_analysis_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."content_analysis_submissions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "content_analysis_schedules_due_idx" ON "content_analysis_schedules" USING btree ("active","next_run_at");--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD CONSTRAINT "content_analysis_submissions_parent_submission_id_content_analysis_submissions_id_fk" FOREIGN KEY ("parent_submission_id") REFERENCES "public"."content_analysis_submissions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "content_analysis_submissions_parent_idx" ON "content_analysis_submissions" USING btree ("parent_submission_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "content_analysis_results" ADD COLUMN "match_type" varchar(20);--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "match_mode" varchar(20) DEFAULT 'domain' NOT NULL;--> statement-breakpoint
+-- Submissions made before match modes existed were matched on the exact page
+UPDATE "content_analysis_submissions" SET "match_mode" = 'exact';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "url_aliases" jsonb;
\ No newline at end of file
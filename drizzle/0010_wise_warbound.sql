@@ -0,0 +1 @@
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "notify_email" varchar(255);
\ No newline at end of file
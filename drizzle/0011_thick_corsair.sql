@@ -0,0 +1,22 @@
+CREATE TABLE "submission_batches" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"workspace_id" uuid NOT NULL,
+	"project_id" uuid,
+	"created_by_user_id" uuid,
+	"name" varchar(100) NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"source_url" text,
+	"search_providers" jsonb NOT NULL,
+	"match_mode" varchar(20) DEFAULT 'domain' NOT NULL,
+	"total_count" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "batch_id" uuid;--> statement-breakpoint
+ALTER TABLE "submission_batches" ADD CONSTRAINT "submission_batches_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submission_batches" ADD CONSTRAINT "submission_batches_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submission_batches" ADD CONSTRAINT "submission_batches_created_by_user_id_users_id_fk" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "submission_batches_workspace_id_idx" ON "submission_batches" USING btree ("workspace_id");--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD CONSTRAINT "content_analysis_submissions_batch_id_submission_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."submission_batches"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "content_analysis_submissions_batch_idx" ON "content_analysis_submissions" USING btree ("batch_id");
\ No newline at end of file
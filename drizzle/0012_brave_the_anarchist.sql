@@ -0,0 +1 @@
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "page_metadata" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "ai_readiness_audit" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "partial_content" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "content_analysis_submissions" ADD COLUMN "scrape_credentials" text;
\ No newline at end of file
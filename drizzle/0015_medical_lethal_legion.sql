@@ -0,0 +1,2 @@
+ALTER TABLE "content_analysis_submissions" ALTER COLUMN "match_mode" SET DEFAULT 'exact';--> statement-breakpoint
+ALTER TABLE "submission_batches" ALTER COLUMN "match_mode" SET DEFAULT 'exact';
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "auth_attempts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" varchar(20) NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"ip_address" varchar(45),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "auth_attempts_email_idx" ON "auth_attempts" USING btree ("kind","email","created_at");--> statement-breakpoint
+CREATE INDEX "auth_attempts_ip_idx" ON "auth_attempts" USING btree ("kind","ip_address","created_at");
\ No newline at end of file
@@ -0,0 +1,10 @@
+/**
+ * Types for the OpenNext-generated worker
+ *
+ * `.open-next/worker.js` only exists after `opennextjs-cloudflare build`,
+ * so worker-wrapper.ts type-checks against this declaration instead.
+ */
+declare module '*/.open-next/worker.js' {
+  const worker: ExportedHandler<CloudflareEnv>
+  export default worker
+}
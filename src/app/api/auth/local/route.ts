@@ -0,0 +1,50 @@
+/**
+ * Article Analyzer - Local Sign-In API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Local auth provider for development and tests: signs in by email alone.
+ * Disabled in production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { signInLocal, AuthError } from '@/services/auth.service'
+import { setSessionCookie } from '@/lib/auth/session'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as { email?: unknown }
+
+    if (typeof body.email !== 'string') {
+      return NextResponse.json(
+        { message: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    const session = await signInLocal(body.email)
+
+    const response = NextResponse.json(
+      { user: { id: session.user.id, email: session.user.email } },
+      { status: 200 }
+    )
+    setSessionCookie(response, session)
+
+    return response
+  } catch (error) {
+    console.error('Local Sign-In API error:', error)
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
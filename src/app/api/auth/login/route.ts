@@ -0,0 +1,60 @@
+/**
+ * Article Analyzer - Login API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Signs in with email and password.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { loginWithPassword, AuthError } from '@/services/auth.service'
+import { setSessionCookie } from '@/lib/auth/session'
+import { extractUserIP } from '@/lib/client-ip'
+import {
+  checkAuthRateLimit,
+  RateLimitError,
+} from '@/services/rate-limiter.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as { email?: unknown; password?: unknown }
+
+    if (typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json(
+        { message: 'Email and password are required' },
+        { status: 400 }
+      )
+    }
+
+    await checkAuthRateLimit('login', body.email, extractUserIP(request))
+
+    const session = await loginWithPassword(body.email, body.password)
+
+    const response = NextResponse.json(
+      { user: { id: session.user.id, email: session.user.email } },
+      { status: 200 }
+    )
+    setSessionCookie(response, session)
+
+    return response
+  } catch (error) {
+    console.error('Login API error:', error)
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ message: error.message }, { status: 429 })
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to sign in' },
+      { status: 500 }
+    )
+  }
+}
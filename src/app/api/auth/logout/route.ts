@@ -0,0 +1,37 @@
+/**
+ * Article Analyzer - Logout API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Ends the current session and clears the session cookie.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { signOut } from '@/services/auth.service'
+import { getSessionToken, clearSessionCookie } from '@/lib/auth/session'
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = getSessionToken(request)
+
+    if (token) {
+      await signOut(token)
+    }
+
+    const response = NextResponse.json(
+      { message: 'Signed out' },
+      { status: 200 }
+    )
+    clearSessionCookie(response)
+
+    return response
+  } catch (error) {
+    console.error('Logout API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to sign out' },
+      { status: 500 }
+    )
+  }
+}
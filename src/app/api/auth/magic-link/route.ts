@@ -0,0 +1,59 @@
+/**
+ * Article Analyzer - Magic Link API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Emails a single-use sign-in link. Always responds the same way for
+ * known and unknown emails so accounts cannot be enumerated.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+import { requestMagicLink, AuthError } from '@/services/auth.service'
+import { extractUserIP } from '@/lib/client-ip'
+import {
+  checkAuthRateLimit,
+  RateLimitError,
+} from '@/services/rate-limiter.service'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as { email?: unknown }
+
+    if (typeof body.email !== 'string') {
+      return NextResponse.json(
+        { message: 'Email is required' },
+        { status: 400 }
+      )
+    }
+
+    await checkAuthRateLimit('magic_link', body.email, extractUserIP(request))
+
+    const { env } = await getCloudflareContext()
+    await requestMagicLink(body.email, env)
+
+    return NextResponse.json(
+      { message: 'Check your email for a sign-in link' },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Magic Link API error:', error)
+
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ message: error.message }, { status: 429 })
+    }
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to send sign-in link' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Article Analyzer - Magic Link Verify API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Target of emailed sign-in links: starts a session and redirects home.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyMagicLink, AuthError } from '@/services/auth.service'
+import { setSessionCookie } from '@/lib/auth/session'
+
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+
+  try {
+    if (!token) {
+      throw new AuthError('This sign-in link is invalid or has expired', 400)
+    }
+
+    const session = await verifyMagicLink(token)
+
+    const response = NextResponse.redirect(new URL('/', request.url))
+    setSessionCookie(response, session)
+
+    return response
+  } catch (error) {
+    console.error('Magic Link Verify API error:', error)
+
+    const loginUrl = new URL('/login', request.url)
+    loginUrl.searchParams.set(
+      'error',
+      error instanceof AuthError ? error.message : 'Failed to sign in'
+    )
+
+    return NextResponse.redirect(loginUrl)
+  }
+}
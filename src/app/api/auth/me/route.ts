@@ -0,0 +1,29 @@
+/**
+ * Article Analyzer - Current User API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Returns the signed-in user, or null for anonymous visitors.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    return NextResponse.json(
+      { user: user ? { id: user.id, email: user.email } : null },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Current User API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+}
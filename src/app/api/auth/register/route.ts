@@ -0,0 +1,49 @@
+/**
+ * Article Analyzer - Register API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Creates an account with email and password and signs it in.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { registerWithPassword, AuthError } from '@/services/auth.service'
+import { setSessionCookie } from '@/lib/auth/session'
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as { email?: unknown; password?: unknown }
+
+    if (typeof body.email !== 'string' || typeof body.password !== 'string') {
+      return NextResponse.json(
+        { message: 'Email and password are required' },
+        { status: 400 }
+      )
+    }
+
+    const session = await registerWithPassword(body.email, body.password)
+
+    const response = NextResponse.json(
+      { user: { id: session.user.id, email: session.user.email } },
+      { status: 201 }
+    )
+    setSessionCookie(response, session)
+
+    return response
+  } catch (error) {
+    console.error('Register API error:', error)
+
+    if (error instanceof AuthError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to create account' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Article Analyzer - Batch Results API Route
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Batch submissions
+ *
+ * Returns a batch's progress, Tier 1/2/3 rates aggregated across its
+ * member submissions, and the members themselves.
+ * Any member of the batch's workspace may view it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import { getBatchSummary } from '@/services/batch.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in required' }, { status: 401 })
+    }
+
+    const { batch, progress, rates, members } = await getBatchSummary(id, user)
+
+    return NextResponse.json(
+      {
+        batch: {
+          id: batch.id,
+          name: batch.name,
+          source: batch.source,
+          sourceUrl: batch.sourceUrl,
+          searchProviders: batch.searchProviders,
+          matchMode: batch.matchMode,
+          createdAt: batch.createdAt,
+        },
+        progress,
+        rates,
+        members: members.map((member) => ({
+          id: member.id,
+          url: member.url,
+          status: member.status,
+          articleTitle: member.articleTitle,
+          error: member.scrapingError,
+          testMetrics: member.testMetrics,
+          createdAt: member.createdAt,
+          completedAt: member.completedAt,
+        })),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Batch API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to fetch batch' },
+      { status: 500 }
+    )
+  }
+}
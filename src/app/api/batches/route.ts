@@ -0,0 +1,144 @@
+/**
+ * Article Analyzer - Batches API Route
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Starts a batch analysis from a pasted URL list, CSV text or sitemap URL
+ * in the active workspace (editors only), and lists the workspace's
+ * recent batches. Every URL counts against the workspace's daily quota.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  resolveActiveWorkspace,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import { startBatch } from '@/services/batch.service'
+import { AnalysisQueueError } from '@/services/submission.service'
+import { RateLimitError } from '@/services/rate-limiter.service'
+import { getRecentBatches } from '@/repositories/batch.repository'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in required' }, { status: 401 })
+    }
+
+    const { workspaceId } = await resolveActiveWorkspace(
+      request,
+      user,
+      'viewer',
+      request.nextUrl.searchParams.get('workspaceId')
+    )
+    const batches = await getRecentBatches(workspaceId, 20)
+
+    return NextResponse.json({ batches }, { status: 200 })
+  } catch (error) {
+    console.error('Batches API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to fetch batches' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { message: 'Sign in to analyze URLs in bulk' },
+        { status: 401 }
+      )
+    }
+
+    const body = (await request.json()) as {
+      urls?: unknown
+      csv?: unknown
+      sitemapUrl?: unknown
+      name?: unknown
+      providers?: unknown
+      matchMode?: unknown
+      workspaceId?: string
+      projectId?: string
+    }
+
+    const { env } = await getCloudflareContext()
+    const { workspaceId } = await resolveActiveWorkspace(
+      request,
+      user,
+      'editor',
+      body.workspaceId
+    )
+
+    const { batch, rejected } = await startBatch(
+      {
+        urls: body.urls,
+        csv: body.csv,
+        sitemapUrl: body.sitemapUrl,
+        name: body.name,
+        providers: body.providers,
+        matchMode: body.matchMode,
+        workspaceId,
+        projectId: body.projectId,
+        createdByUserId: user.id,
+      },
+      env
+    )
+
+    return NextResponse.json(
+      {
+        batchId: batch.id,
+        name: batch.name,
+        totalCount: batch.totalCount,
+        rejected,
+        resultsUrl: `/batches/${batch.id}`,
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Batches API error:', error)
+
+    // Handle workspace quota errors (each URL counts as an analysis)
+    if (error instanceof RateLimitError) {
+      return NextResponse.json({ message: error.message }, { status: 429 })
+    }
+
+    // Handle queue failures
+    if (error instanceof AnalysisQueueError) {
+      return NextResponse.json({ message: error.message }, { status: 503 })
+    }
+
+    // Handle workspace permission errors
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    // Handle validation errors
+    if (error instanceof Error) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { message: 'An error occurred. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Article Analyzer - Discover API Route
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Sitemap and feed discovery
+ *
+ * Lists the articles found in a sitemap (or sitemap index) or RSS/Atom
+ * feed with their last-modified dates, so signed-in users can pick which
+ * ones to analyze as a batch.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import { discoverArticles } from '@/services/discovery.service'
+import { sanitizeURL } from '@/services/url-validator.service'
+import { ScrapingError } from '@/types/scraping-errors'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in required' }, { status: 401 })
+    }
+
+    const url = request.nextUrl.searchParams.get('url')
+
+    if (!url) {
+      return NextResponse.json(
+        { message: 'url is required' },
+        { status: 400 }
+      )
+    }
+
+    const discovery = await discoverArticles(sanitizeURL(url))
+
+    return NextResponse.json(discovery, { status: 200 })
+  } catch (error) {
+    console.error('Discover API error:', error)
+
+    // Fetch or parse failures for the sitemap/feed
+    if (error instanceof ScrapingError) {
+      return NextResponse.json({ message: error.message }, { status: 422 })
+    }
+
+    // Handle validation errors
+    if (error instanceof Error) {
+      return NextResponse.json({ message: error.message }, { status: 400 })
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to discover articles' },
+      { status: 500 }
+    )
+  }
+}
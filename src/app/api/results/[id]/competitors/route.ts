@@ -0,0 +1,60 @@
+/**
+ * Article Analyzer - Competitor Report API Route
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Competitor share-of-voice
+ *
+ * Aggregates the domains cited by AI search engines across a submission's
+ * tests, with share of voice compared to the target article's domain.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getViewableSubmission } from '@/services/submission-access.service'
+import { getResultsBySubmission } from '@/repositories/results.repository'
+import { buildCompetitorReport } from '@/utils/competitor-report'
+import { getTargetUrls, isMatchMode } from '@/utils/citation-parser'
+import type { UrlAliasesData } from '@/db/schema'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const access = await getViewableSubmission(request, id)
+
+    if (!access) {
+      return NextResponse.json(
+        { message: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const { submission, scope } = access
+
+    const results = await getResultsBySubmission(id, scope)
+    const report = buildCompetitorReport(
+      getTargetUrls(
+        submission.url,
+        submission.urlAliases as UrlAliasesData | null
+      ),
+      results.map((r) => ({
+        question: r.question,
+        provider: r.provider,
+        allCitations: r.allCitations,
+        allSources: r.allSources,
+      })),
+      isMatchMode(submission.matchMode) ? submission.matchMode : 'exact'
+    )
+
+    return NextResponse.json(report, { status: 200 })
+  } catch (error) {
+    console.error('Competitors API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to build competitor report' },
+      { status: 500 }
+    )
+  }
+}
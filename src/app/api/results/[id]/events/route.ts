@@ -0,0 +1,62 @@
+/**
+ * Article Analyzer - Results Events API Route
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Live analysis progress
+ *
+ * Server-Sent Events stream of a submission's phase transitions, saved
+ * FAQ test results and final metrics while it is being analyzed.
+ * Pass `after` (or the Last-Event-ID header on reconnect) to skip results
+ * the client already has.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getViewableSubmission } from '@/services/submission-access.service'
+import { createResultsEventStream } from '@/services/results-stream.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    // Same visibility as the results API (workspace member or share link)
+    const access = await getViewableSubmission(request, id)
+
+    if (!access) {
+      return NextResponse.json(
+        { message: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const lastResultId = Number(
+      request.headers.get('last-event-id') ??
+        request.nextUrl.searchParams.get('after') ??
+        0
+    )
+
+    const stream = createResultsEventStream(id, access.scope, {
+      canEdit: access.canEdit,
+      lastResultId: Number.isInteger(lastResultId) ? lastResultId : 0,
+      signal: request.signal,
+    })
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Results events API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to stream results' },
+      { status: 500 }
+    )
+  }
+}
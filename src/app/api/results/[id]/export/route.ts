@@ -0,0 +1,72 @@
+/**
+ * Article Analyzer - Results Export API Route
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Results exports
+ *
+ * Exports a completed analysis as CSV (?format=csv), a full JSON dump
+ * (?format=json) or a branded printable HTML report (?format=html, the
+ * default) that can be saved as PDF from the browser.
+ * Same visibility as the results page (workspace member or share link).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+import { getViewableSubmission } from '@/services/submission-access.service'
+import { exportResults, ExportError } from '@/services/export.service'
+import { EXPORT_FORMATS, type ExportFormat } from '@/types/export'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const format = request.nextUrl.searchParams.get('format') ?? 'html'
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return NextResponse.json(
+        { message: `format must be one of: ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const access = await getViewableSubmission(request, id)
+
+    if (!access) {
+      return NextResponse.json(
+        { message: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const { env } = await getCloudflareContext()
+    const exported = await exportResults(access, format as ExportFormat, env)
+
+    // The HTML report opens in the browser for printing; data files download
+    const disposition = format === 'html' ? 'inline' : 'attachment'
+
+    return new Response(exported.body, {
+      status: 200,
+      headers: {
+        'Content-Type': exported.contentType,
+        'Content-Disposition': `${disposition}; filename="${exported.filename}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Results export API error:', error)
+
+    if (error instanceof ExportError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to export results' },
+      { status: 500 }
+    )
+  }
+}
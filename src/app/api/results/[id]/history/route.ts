@@ -0,0 +1,66 @@
+/**
+ * Article Analyzer - Visibility History API Route
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Scheduled re-testing
+ *
+ * Returns Tier 1-3 results for the original submission and every re-test
+ * run, oldest first, together with the current re-test schedule.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getViewableSubmission } from '@/services/submission-access.service'
+import { getScheduleBySubmission } from '@/repositories/schedule.repository'
+import {
+  getVisibilityHistory,
+  getRootSubmissionId,
+} from '@/services/retest-scheduler.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const access = await getViewableSubmission(request, id)
+
+    if (!access) {
+      return NextResponse.json(
+        { message: 'Submission not found' },
+        { status: 404 }
+      )
+    }
+
+    const { submission, scope } = access
+
+    const rootId = getRootSubmissionId(submission)
+    const [history, schedule] = await Promise.all([
+      getVisibilityHistory(rootId, scope),
+      getScheduleBySubmission(rootId),
+    ])
+
+    return NextResponse.json(
+      {
+        rootSubmissionId: rootId,
+        schedule: schedule
+          ? {
+              frequency: schedule.frequency,
+              active: schedule.active,
+              nextRunAt: schedule.nextRunAt,
+              lastRunAt: schedule.lastRunAt,
+            }
+          : null,
+        history,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('History API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to fetch history' },
+      { status: 500 }
+    )
+  }
+}
@@ -9,9 +9,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { getSubmissionById } from '@/repositories/submission.repository'
+import { getViewableSubmission } from '@/services/submission-access.service'
 import { getResultsBySubmission } from '@/repositories/results.repository'
-import type { CitationInfo, TestMetricsData } from '@/db/schema'
+import { buildResultsPayload } from '@/services/results.service'
 
 export async function GET(
   request: NextRequest,
@@ -20,114 +20,24 @@ export async function GET(
   try {
     const { id } = await params
 
-    // Get submission
-    const submission = await getSubmissionById(id)
+    // Get submission (owner or share link only)
+    const access = await getViewableSubmission(request, id)
 
-    if (!submission) {
+    if (!access) {
       return NextResponse.json(
         { message: 'Submission not found' },
         { status: 404 }
       )
     }
 
-    // Get test results
-    const results = await getResultsBySubmission(id)
-
-    // Calculate statistics
-    const totalTests = results.length
-    const citedCount = results.filter((r) => r.foundInCitations).length
-    const mentionedCount = results.filter((r) => r.foundInSources).length
-    const notFoundCount = results.filter((r) => !r.targetUrlFound).length
-
-    // Calculate total sources and citations across all results
-    const totalSources = results.reduce((sum, r) => {
-      const sources = r.allSources as unknown
-      return sum + (Array.isArray(sources) ? sources.length : 0)
-    }, 0)
-
-    const totalCitations = results.reduce((sum, r) => {
-      const citations = r.allCitations as CitationInfo[]
-      return sum + (citations?.length || 0)
-    }, 0)
+    const { submission, scope, canEdit } = access
 
-    const citationPositions = results
-      .filter((r) => {
-        const citations = r.allCitations as CitationInfo[]
-        return r.foundInCitations && citations.length > 0
-      })
-      .map((r) => {
-        const citations = r.allCitations as CitationInfo[]
-        const targetCitation = citations.find((c) =>
-          normalizeUrl(c.url) === normalizeUrl(submission.url)
-        )
-        return targetCitation?.position ?? 999
-      })
-
-    const averagePosition =
-      citationPositions.length > 0
-        ? citationPositions.reduce((sum, pos) => sum + pos, 0) /
-          citationPositions.length
-        : undefined
-
-    // Calculate 3-tier metrics from testMetrics if available
-    const testMetrics = submission.testMetrics as TestMetricsData | null
-    const tier2SuccessRate =
-      testMetrics && testMetrics.totalFaqs > 0
-        ? (testMetrics.inSourcesCount / testMetrics.totalFaqs) * 100
-        : undefined
-    const tier3SuccessRate =
-      testMetrics && testMetrics.totalFaqs > 0
-        ? (testMetrics.inCitationsCount / testMetrics.totalFaqs) * 100
-        : undefined
+    // Get test results
+    const results = await getResultsBySubmission(id, scope)
 
-    // Return combined data
+    // Return combined data (submission, results and statistics)
     return NextResponse.json(
-      {
-        submission: {
-          id: submission.id,
-          url: submission.url,
-          status: submission.status,
-          articleTitle: submission.articleTitle,
-          scrapingError: submission.scrapingError,
-          createdAt: submission.createdAt,
-          completedAt: submission.completedAt,
-          generatedFaqs: submission.generatedFaqs,
-          testMetrics: testMetrics
-            ? {
-                ...testMetrics,
-                tier2SuccessRate:
-                  tier2SuccessRate !== undefined
-                    ? Math.round(tier2SuccessRate * 10) / 10
-                    : undefined,
-                tier3SuccessRate:
-                  tier3SuccessRate !== undefined
-                    ? Math.round(tier3SuccessRate * 10) / 10
-                    : undefined,
-              }
-            : null,
-        },
-        results: results.map((r) => ({
-          id: r.id,
-          question: r.question,
-          llmResponse: r.llmResponse,
-          targetUrlFound: r.targetUrlFound,
-          foundInSources: r.foundInSources,
-          foundInCitations: r.foundInCitations,
-          citations: r.allCitations,
-          sources: r.allSources,
-        })),
-        statistics: {
-          totalTests,
-          citedCount,
-          mentionedCount,
-          notFoundCount,
-          citationRate:
-            totalTests > 0 ? (citedCount / totalTests) * 100 : 0,
-          averagePosition,
-          totalSources,
-          totalCitations,
-        },
-      },
+      buildResultsPayload(submission, results, canEdit),
       { status: 200 }
     )
   } catch (error) {
@@ -140,22 +50,3 @@ export async function GET(
   }
 }
 
-/**
- * Normalize URL for comparison
- */
-function normalizeUrl(url: string): string {
-  try {
-    const parsed = new URL(url)
-    let hostname = parsed.hostname.toLowerCase()
-    if (hostname.startsWith('www.')) {
-      hostname = hostname.substring(4)
-    }
-    let pathname = parsed.pathname
-    if (pathname.endsWith('/')) {
-      pathname = pathname.slice(0, -1)
-    }
-    return `${parsed.protocol}//${hostname}${pathname}`
-  } catch {
-    return url.toLowerCase().replace(/\/+$/, '')
-  }
-}
@@ -0,0 +1,134 @@
+/**
+ * Article Analyzer - Re-test Schedule API Route
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Scheduled re-testing
+ *
+ * Creates, updates or stops the recurring re-test schedule for a submission.
+ * Schedules always attach to the original submission, even when called
+ * with the ID of one of its re-test runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { deactivateSchedule } from '@/repositories/schedule.repository'
+import {
+  scheduleRetests,
+  isScheduleFrequency,
+  getRootSubmissionId,
+} from '@/services/retest-scheduler.service'
+import {
+  getViewableSubmission,
+  type SubmissionAccess,
+} from '@/services/submission-access.service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json()) as { frequency?: unknown }
+
+    const access = await getManageableSubmission(request, id)
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    if (!isScheduleFrequency(body.frequency)) {
+      return NextResponse.json(
+        { message: "Frequency must be 'daily' or 'weekly'" },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await scheduleRetests(
+      access.submission.id,
+      body.frequency,
+      access.scope
+    )
+
+    return NextResponse.json(
+      {
+        schedule: {
+          frequency: schedule.frequency,
+          active: schedule.active,
+          nextRunAt: schedule.nextRunAt,
+          lastRunAt: schedule.lastRunAt,
+        },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Schedule API error:', error)
+
+    if (error instanceof Error) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.message === 'Submission not found' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to schedule re-tests' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const access = await getManageableSubmission(request, id)
+    if (access instanceof NextResponse) {
+      return access
+    }
+
+    await deactivateSchedule(getRootSubmissionId(access.submission))
+
+    return NextResponse.json({ message: 'Schedule stopped' }, { status: 200 })
+  } catch (error) {
+    console.error('Schedule API error:', error)
+
+    return NextResponse.json(
+      { message: 'Failed to stop schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Load a submission whose schedule the caller may change: a signed-in
+ * editor of the workspace that owns it. Returns an error response otherwise.
+ */
+async function getManageableSubmission(
+  request: NextRequest,
+  id: string
+): Promise<SubmissionAccess | NextResponse> {
+  const access = await getViewableSubmission(request, id)
+
+  if (!access) {
+    return NextResponse.json(
+      { message: 'Submission not found' },
+      { status: 404 }
+    )
+  }
+
+  if (!access.user) {
+    return NextResponse.json(
+      { message: 'Sign in to schedule re-tests' },
+      { status: 401 }
+    )
+  }
+
+  if (!access.canEdit) {
+    return NextResponse.json(
+      { message: 'Only workspace editors can change the re-test schedule' },
+      { status: 403 }
+    )
+  }
+
+  return access
+}
@@ -1,18 +1,56 @@
 /**
  * Recent Submissions API Route
  *
- * Returns list of recent submissions for the home page table
+ * Returns the active workspace's recent submissions for the home page table,
+ * optionally filtered by ?projectId=. Anonymous visitors get an empty list
+ * (their results are reached by share link).
  */
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { getRecentSubmissions } from '@/repositories/submission.repository'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  getCallerScope,
+  resolveActiveWorkspace,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    const submissions = await getRecentSubmissions(10)
-    return NextResponse.json({ submissions })
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ submissions: [], signedIn: false })
+    }
+
+    const { searchParams } = request.nextUrl
+    const { workspaceId } = await resolveActiveWorkspace(
+      request,
+      user,
+      'viewer',
+      searchParams.get('workspaceId')
+    )
+    const scope = await getCallerScope(request, user, 'viewer', {
+      includeShareToken: false,
+    })
+
+    const submissions = await getRecentSubmissions(
+      workspaceId,
+      scope,
+      10,
+      searchParams.get('projectId') ?? undefined
+    )
+    return NextResponse.json({ submissions, workspaceId, signedIn: true })
   } catch (error) {
     console.error('Error fetching recent submissions:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     return NextResponse.json(
       { message: 'Failed to fetch submissions' },
       { status: 500 }
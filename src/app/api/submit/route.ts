@@ -4,20 +4,38 @@
  * Epic: Epic 1 - Article Submission & Validation
  * Stories: US-1.1, US-1.2, US-1.3
  *
- * Handles article URL submissions with validation and rate limiting.
+ * Handles article URL submissions with validation and rate limiting,
+ * then enqueues a submission job for the queue consumer.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getCloudflareContext } from '@opennextjs/cloudflare'
 import { validateURL, sanitizeURL } from '@/services/url-validator.service'
 import { checkRateLimit, RateLimitError } from '@/services/rate-limiter.service'
-import { createSubmission } from '@/repositories/submission.repository'
-import { analyzeArticle } from '@/services/analysis.service'
+import { extractUserIP } from '@/lib/client-ip'
+import { getCurrentUser } from '@/services/auth.service'
+import { getShareResultsPath } from '@/services/submission-access.service'
+import {
+  resolveActiveWorkspace,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import {
+  startAnalysis,
+  AnalysisQueueError,
+} from '@/services/submission.service'
 
 export async function POST(request: NextRequest) {
   try {
     // Parse request body
-    const body = (await request.json()) as { url?: string }
+    const body = (await request.json()) as {
+      url?: string
+      providers?: unknown
+      matchMode?: unknown
+      workspaceId?: string
+      projectId?: string
+      notifyEmail?: unknown
+      credentials?: unknown
+    }
     const { url } = body
 
     // Validate URL format
@@ -40,35 +58,50 @@ export async function POST(request: NextRequest) {
       await checkRateLimit(userIp)
     }
 
-    // Create submission record
-    const submission = await createSubmission(cleanUrl, userIp)
-
-    // Get Cloudflare context for background processing
-    const { ctx } = await getCloudflareContext()
+    const { env } = await getCloudflareContext()
+
+    // Signed-in users submit into their active workspace (editors only);
+    // anonymous submissions have no workspace and are reached by share link
+    const user = await getCurrentUser(request)
+    const workspaceId = user
+      ? (
+          await resolveActiveWorkspace(
+            request,
+            user,
+            'editor',
+            body.workspaceId
+          )
+        ).workspaceId
+      : undefined
+
+    // Create the submission and hand it off to the queue consumer
+    const submission = await startAnalysis(
+      {
+        url: cleanUrl,
+        providers: body.providers,
+        matchMode: body.matchMode,
+        userIp,
+        ownerId: user?.id,
+        workspaceId,
+        projectId: body.projectId,
+        notifyEmail: body.notifyEmail,
+        verifiedEmail: user?.emailVerifiedAt ? user.email : undefined,
+        credentials: body.credentials,
+      },
+      env
+    )
 
     // Return immediately with submission ID
-    const response = NextResponse.json(
+    return NextResponse.json(
       {
         submissionId: submission.id,
         url: submission.url,
         status: 'pending',
         message: 'Analysis started',
-        resultsUrl: `/results/${submission.id}`,
+        resultsUrl: getShareResultsPath(submission),
       },
       { status: 200 }
     )
-
-    // Run analysis in background (continues after response sent)
-    ctx.waitUntil(
-      analyzeArticle(submission.id, submission.url).catch((error) => {
-        console.error(
-          `[Submit API] Background analysis failed for ${submission.id}:`,
-          error
-        )
-      })
-    )
-
-    return response
   } catch (error) {
     console.error('Submit API error:', error)
 
@@ -80,6 +113,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Handle queue failures
+    if (error instanceof AnalysisQueueError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: 503 }
+      )
+    }
+
+    // Handle workspace permission errors
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
     // Handle validation errors
     if (error instanceof Error) {
       return NextResponse.json(
@@ -95,54 +144,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-/**
- * Check if IP is localhost
- */
-function isLocalhostIP(ip: string): boolean {
-  const localhostPatterns = [
-    '127.0.0.1',
-    '::1',
-    '::ffff:127.0.0.1',
-    'localhost',
-  ]
-  return localhostPatterns.includes(ip)
-}
-
-/**
- * Extract user IP address from request
- */
-function extractUserIP(request: NextRequest): string | undefined {
-  let ip: string | undefined
-
-  // Cloudflare-specific header (most reliable on Cloudflare)
-  const cfConnectingIp = request.headers.get('cf-connecting-ip')
-  if (cfConnectingIp && !isLocalhostIP(cfConnectingIp)) {
-    return cfConnectingIp
-  }
-
-  // Try X-Forwarded-For header (proxies)
-  const forwardedFor = request.headers.get('x-forwarded-for')
-  if (forwardedFor) {
-    // Take first IP if multiple
-    ip = forwardedFor.split(',')[0].trim()
-    if (ip && !isLocalhostIP(ip)) {
-      return ip
-    }
-  }
-
-  // Try X-Real-IP header
-  const realIp = request.headers.get('x-real-ip')
-  if (realIp && !isLocalhostIP(realIp)) {
-    return realIp
-  }
-
-  // Try to access IP from request object (if available)
-  const requestWithIp = request as NextRequest & { ip?: string }
-  if (requestWithIp.ip && !isLocalhostIP(requestWithIp.ip)) {
-    return requestWithIp.ip
-  }
-
-  // Return undefined for localhost (no rate limiting during local dev)
-  return undefined
-}
@@ -0,0 +1,47 @@
+/**
+ * Article Analyzer - Public Analysis API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Returns an analysis with its metrics and per-question results.
+ * Callers poll this until the status is completed or failed.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { getResultsBySubmission } from '@/repositories/results.repository'
+import {
+  authenticateApiKey,
+  getApiKeyScope,
+} from '@/services/api-key.service'
+import { apiError, handleApiError, toAnalysis } from '@/lib/api/v1/responses'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const apiKey = await authenticateApiKey(request)
+    const scope = getApiKeyScope(apiKey)
+
+    const submission = z.uuid().safeParse(id).success
+      ? await getSubmissionById(id, scope)
+      : null
+
+    if (!submission) {
+      return apiError('not_found', 'Analysis not found', 404)
+    }
+
+    const results = await getResultsBySubmission(id, scope)
+
+    return NextResponse.json(
+      { analysis: toAnalysis(submission, results) },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Article Analyzer - Public Analyses API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * POST starts an analysis in the API key's workspace (counts against the
+ * key's daily quota); GET lists the workspace's recent analyses.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+import { getRecentSubmissions } from '@/repositories/submission.repository'
+import {
+  authenticateApiKey,
+  getApiKeyScope,
+} from '@/services/api-key.service'
+import { checkApiKeyQuota } from '@/services/rate-limiter.service'
+import { startAnalysis } from '@/services/submission.service'
+import { validateURL, sanitizeURL } from '@/services/url-validator.service'
+import {
+  CreateAnalysisRequestSchema,
+  ListAnalysesQuerySchema,
+} from '@/lib/api/v1/schemas'
+import {
+  handleApiError,
+  quotaHeaders,
+  toAnalysis,
+  toAnalysisSummary,
+} from '@/lib/api/v1/responses'
+
+export async function POST(request: NextRequest) {
+  try {
+    const apiKey = await authenticateApiKey(request)
+    const body = CreateAnalysisRequestSchema.parse(await request.json())
+
+    const cleanUrl = sanitizeURL(body.url)
+    validateURL(cleanUrl)
+
+    const quota = await checkApiKeyQuota(apiKey)
+    const { env } = await getCloudflareContext()
+
+    const submission = await startAnalysis(
+      {
+        url: cleanUrl,
+        providers: body.providers,
+        matchMode: body.matchMode,
+        ownerId: apiKey.createdByUserId ?? undefined,
+        workspaceId: apiKey.workspaceId,
+        projectId: body.projectId,
+        apiKeyId: apiKey.id,
+        credentials: body.credentials,
+      },
+      env
+    )
+
+    return NextResponse.json(
+      { analysis: toAnalysis(submission, []) },
+      {
+        status: 202,
+        headers: quotaHeaders({ ...quota, remaining: quota.remaining - 1 }),
+      }
+    )
+  } catch (error) {
+    return handleApiError(error, { plainErrorsAreInvalidInput: true })
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const apiKey = await authenticateApiKey(request)
+    const { searchParams } = request.nextUrl
+    const query = ListAnalysesQuerySchema.parse({
+      limit: searchParams.get('limit') ?? undefined,
+      projectId: searchParams.get('projectId') ?? undefined,
+    })
+
+    const submissions = await getRecentSubmissions(
+      apiKey.workspaceId,
+      getApiKeyScope(apiKey),
+      query.limit,
+      query.projectId
+    )
+
+    return NextResponse.json(
+      { analyses: submissions.map(toAnalysisSummary) },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleApiError(error)
+  }
+}
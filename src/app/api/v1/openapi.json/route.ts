@@ -0,0 +1,17 @@
+/**
+ * Article Analyzer - OpenAPI Document Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Serves the /api/v1 OpenAPI document (no authentication required).
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { buildOpenApiDocument } from '@/lib/api/v1/openapi'
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    status: 200,
+  })
+}
@@ -0,0 +1,120 @@
+/**
+ * Article Analyzer - Workspace API Keys Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Lets workspace owners list, create and revoke API keys for /api/v1.
+ * The full key is only returned once, by POST.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  createWorkspaceApiKey,
+  listWorkspaceApiKeys,
+  revokeWorkspaceApiKey,
+} from '@/services/api-key.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+import type { ApiKey } from '@/db/schema'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+    const apiKeys = await listWorkspaceApiKeys(id, user)
+
+    return NextResponse.json(
+      { apiKeys: apiKeys.map(toApiKeySummary) },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to fetch API keys')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json()) as {
+      name?: unknown
+      dailyQuota?: unknown
+    }
+    const user = await getCurrentUser(request)
+
+    const { apiKey, secret } = await createWorkspaceApiKey(
+      id,
+      user,
+      typeof body.name === 'string' ? body.name : '',
+      typeof body.dailyQuota === 'number' ? body.dailyQuota : undefined
+    )
+
+    return NextResponse.json(
+      { apiKey: toApiKeySummary(apiKey), secret },
+      { status: 201 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to create API key')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const apiKeyId = request.nextUrl.searchParams.get('apiKeyId')
+
+    if (!apiKeyId) {
+      return NextResponse.json(
+        { message: 'apiKeyId is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getCurrentUser(request)
+    await revokeWorkspaceApiKey(id, user, apiKeyId)
+
+    return NextResponse.json({ message: 'API key revoked' }, { status: 200 })
+  } catch (error) {
+    return handleError(error, 'Failed to revoke API key')
+  }
+}
+
+/**
+ * API key fields safe to return (never the hash)
+ */
+function toApiKeySummary(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    dailyQuota: apiKey.dailyQuota,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  }
+}
+
+/**
+ * Map workspace permission errors to their status code
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  console.error('Workspace API Keys API error:', error)
+
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json(
+      { message: error.message },
+      { status: error.statusCode }
+    )
+  }
+
+  return NextResponse.json({ message: fallbackMessage }, { status: 500 })
+}
@@ -0,0 +1,107 @@
+/**
+ * Article Analyzer - Workspace Members API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Lists members (any member), adds members or changes roles (owners),
+ * and removes members (owners, or a member leaving). Members are added
+ * by the email of an existing account.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  addMember,
+  isWorkspaceRole,
+  listMembers,
+  removeWorkspaceMember,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import { WORKSPACE_ROLES } from '@/types/workspace'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+    const members = await listMembers(id, user)
+
+    return NextResponse.json({ members }, { status: 200 })
+  } catch (error) {
+    return handleError(error, 'Failed to fetch members')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json()) as { email?: unknown; role?: unknown }
+
+    if (typeof body.email !== 'string' || !body.email.trim()) {
+      return NextResponse.json({ message: 'Email is required' }, { status: 400 })
+    }
+
+    if (!isWorkspaceRole(body.role)) {
+      return NextResponse.json(
+        { message: `Role must be one of: ${WORKSPACE_ROLES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const user = await getCurrentUser(request)
+    const member = await addMember(id, user, body.email, body.role)
+
+    return NextResponse.json(
+      { member: { userId: member.userId, role: member.role } },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to add member')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const userId = request.nextUrl.searchParams.get('userId')
+
+    if (!userId) {
+      return NextResponse.json(
+        { message: 'userId is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getCurrentUser(request)
+    await removeWorkspaceMember(id, user, userId)
+
+    return NextResponse.json({ message: 'Member removed' }, { status: 200 })
+  } catch (error) {
+    return handleError(error, 'Failed to remove member')
+  }
+}
+
+/**
+ * Map workspace permission errors to their status code
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  console.error('Workspace Members API error:', error)
+
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json(
+      { message: error.message },
+      { status: error.statusCode }
+    )
+  }
+
+  return NextResponse.json({ message: fallbackMessage }, { status: 500 })
+}
@@ -0,0 +1,75 @@
+/**
+ * Article Analyzer - Workspace Projects API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Lists a workspace's projects (any member) and creates projects
+ * (editors and owners). Projects group submissions within a workspace.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  createWorkspaceProject,
+  listProjects,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+    const projects = await listProjects(id, user)
+
+    return NextResponse.json(
+      { projects: projects.map((p) => ({ id: p.id, name: p.name })) },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to fetch projects')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json()) as { name?: unknown }
+    const user = await getCurrentUser(request)
+
+    const project = await createWorkspaceProject(
+      id,
+      user,
+      typeof body.name === 'string' ? body.name : ''
+    )
+
+    return NextResponse.json(
+      { project: { id: project.id, name: project.name } },
+      { status: 201 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to create project')
+  }
+}
+
+/**
+ * Map workspace permission errors to their status code
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  console.error('Workspace Projects API error:', error)
+
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json(
+      { message: error.message },
+      { status: error.statusCode }
+    )
+  }
+
+  return NextResponse.json({ message: fallbackMessage }, { status: 500 })
+}
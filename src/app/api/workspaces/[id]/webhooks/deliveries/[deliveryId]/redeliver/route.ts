@@ -0,0 +1,47 @@
+/**
+ * Article Analyzer - Webhook Redelivery API Route
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Sends a logged webhook delivery again with the same payload.
+ * The redelivery appears in the log as a new delivery. Owners only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCloudflareContext } from '@opennextjs/cloudflare'
+import { getCurrentUser } from '@/services/auth.service'
+import { redeliverWebhook } from '@/services/webhook.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  try {
+    const { id, deliveryId } = await params
+    const user = await getCurrentUser(request)
+    const { env } = await getCloudflareContext()
+
+    const delivery = await redeliverWebhook(id, user, deliveryId, env)
+
+    return NextResponse.json(
+      { delivery: { id: delivery.id, status: delivery.status } },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Webhook Redelivery API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to redeliver webhook' },
+      { status: 500 }
+    )
+  }
+}
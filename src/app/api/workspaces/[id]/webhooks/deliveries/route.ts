@@ -0,0 +1,61 @@
+/**
+ * Article Analyzer - Webhook Deliveries API Route
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Returns the workspace's webhook delivery log (newest first), optionally
+ * filtered by ?endpointId=. Owners only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import { listWebhookDeliveries } from '@/services/webhook.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+    const deliveries = await listWebhookDeliveries(
+      id,
+      user,
+      request.nextUrl.searchParams.get('endpointId') ?? undefined
+    )
+
+    return NextResponse.json(
+      {
+        deliveries: deliveries.map((d) => ({
+          id: d.id,
+          endpointId: d.endpointId,
+          submissionId: d.submissionId,
+          event: d.event,
+          status: d.status,
+          attempts: d.attempts,
+          responseStatus: d.responseStatus,
+          lastError: d.lastError,
+          createdAt: d.createdAt,
+          deliveredAt: d.deliveredAt,
+        })),
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Webhook Deliveries API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to fetch deliveries' },
+      { status: 500 }
+    )
+  }
+}
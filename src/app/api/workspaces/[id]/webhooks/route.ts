@@ -0,0 +1,131 @@
+/**
+ * Article Analyzer - Workspace Webhooks API Route
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Lets workspace owners list, register and delete webhook endpoints.
+ * The signing secret is only returned once, by POST.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  isWebhookEvent,
+  listWebhookEndpoints,
+  registerWebhookEndpoint,
+  removeWebhookEndpoint,
+} from '@/services/webhook.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+import { WEBHOOK_EVENTS } from '@/types/webhook'
+import type { WebhookEndpoint } from '@/db/schema'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getCurrentUser(request)
+    const endpoints = await listWebhookEndpoints(id, user)
+
+    return NextResponse.json(
+      { endpoints: endpoints.map(toEndpointSummary) },
+      { status: 200 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to fetch webhooks')
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = (await request.json()) as { url?: unknown; events?: unknown }
+
+    if (typeof body.url !== 'string' || !body.url.trim()) {
+      return NextResponse.json({ message: 'URL is required' }, { status: 400 })
+    }
+
+    if (
+      body.events !== undefined &&
+      (!Array.isArray(body.events) || !body.events.every(isWebhookEvent))
+    ) {
+      return NextResponse.json(
+        { message: `events must be a list of: ${WEBHOOK_EVENTS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const user = await getCurrentUser(request)
+    const { endpoint, secret } = await registerWebhookEndpoint(
+      id,
+      user,
+      body.url.trim(),
+      body.events
+    )
+
+    return NextResponse.json(
+      { endpoint: toEndpointSummary(endpoint), secret },
+      { status: 201 }
+    )
+  } catch (error) {
+    return handleError(error, 'Failed to register webhook')
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const endpointId = request.nextUrl.searchParams.get('endpointId')
+
+    if (!endpointId) {
+      return NextResponse.json(
+        { message: 'endpointId is required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await getCurrentUser(request)
+    await removeWebhookEndpoint(id, user, endpointId)
+
+    return NextResponse.json({ message: 'Webhook deleted' }, { status: 200 })
+  } catch (error) {
+    return handleError(error, 'Failed to delete webhook')
+  }
+}
+
+/**
+ * Endpoint fields safe to return (never the secret)
+ */
+function toEndpointSummary(endpoint: WebhookEndpoint) {
+  return {
+    id: endpoint.id,
+    url: endpoint.url,
+    events: endpoint.events,
+    active: endpoint.active,
+    createdAt: endpoint.createdAt,
+  }
+}
+
+/**
+ * Map workspace permission errors to their status code
+ */
+function handleError(error: unknown, fallbackMessage: string) {
+  console.error('Workspace Webhooks API error:', error)
+
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json(
+      { message: error.message },
+      { status: error.statusCode }
+    )
+  }
+
+  return NextResponse.json({ message: fallbackMessage }, { status: 500 })
+}
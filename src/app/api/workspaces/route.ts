@@ -0,0 +1,94 @@
+/**
+ * Article Analyzer - Workspaces API Route
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Lists the signed-in user's workspaces (with the active one) and creates
+ * new workspaces owned by the user.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  createUserWorkspace,
+  listUserWorkspaces,
+  resolveActiveWorkspace,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in required' }, { status: 401 })
+    }
+
+    const [memberships, active] = await Promise.all([
+      listUserWorkspaces(user),
+      resolveActiveWorkspace(request, user, 'viewer'),
+    ])
+
+    return NextResponse.json(
+      {
+        workspaces: memberships.map(({ workspace, role }) => ({
+          id: workspace.id,
+          name: workspace.name,
+          role,
+        })),
+        activeWorkspaceId: active.workspaceId,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    console.error('Workspaces API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to fetch workspaces' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request)
+
+    if (!user) {
+      return NextResponse.json({ message: 'Sign in required' }, { status: 401 })
+    }
+
+    const body = (await request.json()) as { name?: unknown }
+    const workspace = await createUserWorkspace(
+      user,
+      typeof body.name === 'string' ? body.name : ''
+    )
+
+    return NextResponse.json(
+      { workspace: { id: workspace.id, name: workspace.name, role: 'owner' } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Workspaces API error:', error)
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json(
+        { message: error.message },
+        { status: error.statusCode }
+      )
+    }
+
+    return NextResponse.json(
+      { message: 'Failed to create workspace' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Article Analyzer - Batch Results Page
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Batch submissions
+ *
+ * Displays a batch's progress and aggregated Tier 1/2/3 rates.
+ */
+
+import { BatchView } from '@/components/batch-view'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function BatchPage({ params }: PageProps) {
+  const { id } = await params
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-background to-muted/20 px-6 py-12">
+      <div className="max-w-5xl mx-auto">
+        <BatchView batchId={id} />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,20 @@
+/**
+ * Article Analyzer - New Batch Page
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Start a batch analysis from a URL list, CSV file or sitemap.
+ */
+
+import { BatchForm } from '@/components/batch-form'
+
+export default function NewBatchPage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-background to-muted/20 px-6 py-12">
+      <div className="max-w-3xl mx-auto">
+        <BatchForm />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,24 @@
+/**
+ * Article Analyzer - Login Page
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Sign in with a password or an emailed magic link.
+ */
+
+import { LoginForm } from '@/components/login-form'
+
+interface PageProps {
+  searchParams: Promise<{ error?: string }>
+}
+
+export default async function LoginPage({ searchParams }: PageProps) {
+  const { error } = await searchParams
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-gradient-to-b from-background to-muted/20 px-6">
+      <LoginForm initialError={error} />
+    </main>
+  )
+}
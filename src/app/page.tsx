@@ -10,6 +10,7 @@
 
 import { SubmitForm } from '@/components/submit-form'
 import { RecentSubmissions } from '@/components/recent-submissions'
+import { UserMenu } from '@/components/user-menu'
 import { Search, TrendingUp, Target } from 'lucide-react'
 import { Card, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card'
 import Image from 'next/image'
@@ -19,7 +20,7 @@ export default function Home() {
     <main className="min-h-screen bg-gradient-to-b from-background to-muted/20">
       {/* Header */}
       <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
-        <div className="container mx-auto px-6 h-16 flex items-center">
+        <div className="container mx-auto px-6 h-16 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <Image
               src="/datagum-logo.png"
@@ -30,6 +31,7 @@ export default function Home() {
             />
             <span className="text-xl font-semibold">datagum.ai</span>
           </div>
+          <UserMenu />
         </div>
       </header>
 
@@ -12,10 +12,12 @@ import { ResultsView } from '@/components/results-view'
 
 interface PageProps {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ share?: string }>
 }
 
-export default async function ResultsPage({ params }: PageProps) {
+export default async function ResultsPage({ params, searchParams }: PageProps) {
   const { id } = await params
+  const { share } = await searchParams
 
-  return <ResultsView submissionId={id} />
+  return <ResultsView submissionId={id} shareToken={share} />
 }
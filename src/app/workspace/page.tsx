@@ -0,0 +1,20 @@
+/**
+ * Article Analyzer - Workspace Settings Page
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Manage the active workspace's members, roles and projects.
+ */
+
+import { WorkspaceSettings } from '@/components/workspace-settings'
+
+export default function WorkspacePage() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-background to-muted/20 px-6 py-12">
+      <div className="max-w-3xl mx-auto">
+        <WorkspaceSettings />
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,116 @@
+/**
+ * Article Analyzer - AI Readiness Panel Component
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: AI-readiness audit
+ *
+ * Shows the scored AI-readiness checklist of the analyzed page next to
+ * the Tier 1 control test: which AI crawlers robots.txt lets in, and the
+ * llms.txt, robots directive, canonical, content and heading checks.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { AlertCircle, CheckCircle, ChevronDown, ChevronUp, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import type { AiReadinessAudit, ReadinessStatus } from '@/types/ai-readiness'
+
+interface AiReadinessPanelProps {
+  audit: AiReadinessAudit
+}
+
+export function AiReadinessPanel({ audit }: AiReadinessPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const issues = audit.checks.filter((check) => check.status !== 'pass').length
+
+  return (
+    <div className="bg-muted/30 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-muted-foreground">
+          AI Readiness Audit
+        </h3>
+        <span className={`text-sm font-semibold tabular-nums ${scoreColor(audit.score)}`}>
+          {audit.score}/100
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {issues === 0
+          ? 'Nothing on the page keeps AI crawlers from reading it'
+          : `${issues} ${issues === 1 ? 'check needs' : 'checks need'} attention before AI crawlers can read the page well`}
+      </p>
+
+      <div className="mt-2 flex flex-wrap gap-2">
+        {audit.crawlerAccess.map((crawler) => (
+          <Badge key={crawler.userAgent} variant="outline" title={crawler.label}>
+            {crawler.allowed === null ? (
+              <AlertCircle className="h-3 w-3 text-yellow-600" />
+            ) : crawler.allowed ? (
+              <CheckCircle className="h-3 w-3 text-green-600" />
+            ) : (
+              <XCircle className="h-3 w-3 text-red-600" />
+            )}
+            {crawler.userAgent}
+          </Badge>
+        ))}
+      </div>
+
+      {expanded && (
+        <ul className="mt-3 divide-y">
+          {audit.checks.map((check) => (
+            <li key={check.id} className="flex items-start gap-2 py-2">
+              <StatusIcon status={check.status} />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium">{check.label}</span>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {check.status === 'pass'
+                      ? check.weight
+                      : check.status === 'warn'
+                        ? check.weight / 2
+                        : 0}
+                    /{check.weight}
+                  </span>
+                </div>
+                <p className="break-words text-xs text-muted-foreground">
+                  {check.detail}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="mt-2 h-7 px-2 text-xs"
+        onClick={() => setExpanded(!expanded)}
+      >
+        {expanded ? (
+          <ChevronUp className="h-3 w-3" />
+        ) : (
+          <ChevronDown className="h-3 w-3" />
+        )}
+        {expanded ? 'Hide checklist' : 'Show checklist'}
+      </Button>
+    </div>
+  )
+}
+
+function StatusIcon({ status }: { status: ReadinessStatus }) {
+  if (status === 'pass') {
+    return <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+  }
+  if (status === 'warn') {
+    return <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-yellow-600" />
+  }
+  return <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+}
+
+function scoreColor(score: number): string {
+  if (score >= 80) return 'text-green-600'
+  if (score >= 50) return 'text-yellow-600'
+  return 'text-red-600'
+}
@@ -0,0 +1,202 @@
+/**
+ * Article Analyzer - API Keys Card Component
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Client component for workspace owners to create and revoke API keys.
+ * A new key is shown once, right after it is created.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Copy, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+
+interface ApiKeySummary {
+  id: string
+  name: string
+  keyPrefix: string
+  dailyQuota: number
+  lastUsedAt: string | null
+  revokedAt: string | null
+}
+
+interface ApiKeysCardProps {
+  workspaceId: string
+}
+
+export function ApiKeysCard({ workspaceId }: ApiKeysCardProps) {
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([])
+  const [name, setName] = useState('')
+  const [dailyQuota, setDailyQuota] = useState('100')
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+
+  const path = `/api/workspaces/${workspaceId}/api-keys`
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch(path)
+      if (response.ok) {
+        const data = (await response.json()) as { apiKeys: ApiKeySummary[] }
+        setApiKeys(data.apiKeys)
+      }
+    } catch (err) {
+      console.error('Failed to load API keys:', err)
+    }
+  }, [path])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, dailyQuota: Number(dailyQuota) }),
+    })
+    const data = (await response.json()) as { message?: string; secret?: string }
+
+    if (!response.ok) {
+      setError(data.message || 'Failed to create API key')
+      return
+    }
+
+    setSecret(data.secret || '')
+    setName('')
+    await load()
+  }
+
+  async function handleRevoke(apiKey: ApiKeySummary) {
+    await fetch(`${path}?apiKeyId=${encodeURIComponent(apiKey.id)}`, {
+      method: 'DELETE',
+    })
+    await load()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API keys</CardTitle>
+        <CardDescription>
+          Create and poll analyses from your own tools with the{' '}
+          <a href="/api/v1/openapi.json" className="underline">
+            v1 API
+          </a>
+          . Each key has its own daily quota.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {secret && (
+          <div className="rounded-md border bg-muted/50 p-3 space-y-2">
+            <p className="text-sm">
+              Copy your new key now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={secret} className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(secret)}
+                aria-label="Copy API key"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {apiKeys.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Daily quota</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.map((apiKey) => (
+                <TableRow key={apiKey.id}>
+                  <TableCell>{apiKey.name}</TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {apiKey.keyPrefix}…
+                  </TableCell>
+                  <TableCell>{apiKey.dailyQuota}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {apiKey.lastUsedAt
+                      ? new Date(apiKey.lastUsedAt).toLocaleDateString()
+                      : 'Never'}
+                  </TableCell>
+                  <TableCell>
+                    {apiKey.revokedAt ? (
+                      <Badge variant="secondary">Revoked</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(apiKey)}
+                        aria-label={`Revoke ${apiKey.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="Key name (e.g. Reporting dashboard)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            required
+          />
+          <Input
+            type="number"
+            min={1}
+            value={dailyQuota}
+            onChange={(e) => setDailyQuota(e.target.value)}
+            className="w-28"
+            aria-label="Daily quota"
+          />
+          <Button type="submit">Create key</Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
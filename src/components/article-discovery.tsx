@@ -0,0 +1,239 @@
+/**
+ * Article Analyzer - Article Discovery Component
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Sitemap and feed discovery
+ *
+ * Client component that lists the articles found in a sitemap or RSS/Atom
+ * feed with their last-modified dates and lets the user pick which ones
+ * to analyze (up to the batch limit).
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+const MAX_SELECTED = 100 // Matches the batch size limit
+
+interface DiscoveredArticle {
+  url: string
+  title?: string
+  lastModified?: string
+}
+
+interface DiscoveryResponse {
+  source: 'sitemap' | 'rss' | 'atom'
+  sourceUrl: string
+  articles: DiscoveredArticle[]
+  sitemapCount: number
+  truncated: boolean
+}
+
+export interface DiscoverySelection {
+  sourceUrl: string
+  urls: string[]
+}
+
+interface ArticleDiscoveryProps {
+  disabled?: boolean
+  onSelectionChange: (selection: DiscoverySelection | null) => void
+}
+
+const SOURCE_LABELS: Record<DiscoveryResponse['source'], string> = {
+  sitemap: 'sitemap',
+  rss: 'RSS feed',
+  atom: 'Atom feed',
+}
+
+export function ArticleDiscovery({
+  disabled,
+  onSelectionChange,
+}: ArticleDiscoveryProps) {
+  const [url, setUrl] = useState('')
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [discovery, setDiscovery] = useState<DiscoveryResponse | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+
+  function updateSelection(next: Set<string>, source = discovery) {
+    setSelected(next)
+    onSelectionChange(
+      source ? { sourceUrl: source.sourceUrl, urls: Array.from(next) } : null
+    )
+  }
+
+  async function handleDiscover() {
+    if (!url.trim()) return
+
+    setError('')
+    setIsLoading(true)
+
+    try {
+      const response = await fetch(
+        `/api/discover?url=${encodeURIComponent(url.trim())}`
+      )
+      const data = (await response.json()) as DiscoveryResponse & {
+        message?: string
+      }
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to discover articles')
+      }
+
+      setDiscovery(data)
+      // Start with the newest articles selected
+      updateSelection(
+        new Set(data.articles.slice(0, MAX_SELECTED).map((a) => a.url)),
+        data
+      )
+    } catch (err) {
+      setDiscovery(null)
+      updateSelection(new Set(), null)
+      setError(
+        err instanceof Error ? err.message : 'Failed to discover articles'
+      )
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  function toggle(articleUrl: string, checked: boolean) {
+    const next = new Set(selected)
+    if (checked) {
+      next.add(articleUrl)
+    } else {
+      next.delete(articleUrl)
+    }
+    updateSelection(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      <Label htmlFor="discover-url">Sitemap or RSS/Atom feed URL</Label>
+      <div className="flex gap-2">
+        <Input
+          id="discover-url"
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter discovers instead of submitting the batch form
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              handleDiscover()
+            }
+          }}
+          placeholder="https://example.com/sitemap.xml"
+          disabled={disabled || isLoading}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleDiscover}
+          disabled={disabled || isLoading || !url.trim()}
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Search className="h-4 w-4" />
+          )}
+          Discover
+        </Button>
+      </div>
+
+      {error && <p className="text-destructive text-sm">{error}</p>}
+
+      {discovery && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+            <p className="text-muted-foreground">
+              {discovery.articles.length} articles found in{' '}
+              {discovery.sitemapCount > 1
+                ? `${discovery.sitemapCount} sitemaps`
+                : `the ${SOURCE_LABELS[discovery.source]}`}
+              {discovery.truncated && ' (newest shown)'} • {selected.size}{' '}
+              selected
+            </p>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  updateSelection(
+                    new Set(
+                      discovery.articles
+                        .slice(0, MAX_SELECTED)
+                        .map((a) => a.url)
+                    )
+                  )
+                }
+                disabled={disabled}
+              >
+                Newest {MAX_SELECTED}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateSelection(new Set())}
+                disabled={disabled}
+              >
+                Clear
+              </Button>
+            </div>
+          </div>
+
+          <ul className="max-h-80 overflow-y-auto rounded-md border divide-y">
+            {discovery.articles.map((article) => {
+              const isSelected = selected.has(article.url)
+
+              return (
+                <li
+                  key={article.url}
+                  className="flex items-start gap-3 px-3 py-2 text-sm"
+                >
+                  <Checkbox
+                    id={`article-${article.url}`}
+                    checked={isSelected}
+                    onCheckedChange={(checked) =>
+                      toggle(article.url, checked === true)
+                    }
+                    disabled={
+                      disabled ||
+                      (!isSelected && selected.size >= MAX_SELECTED)
+                    }
+                    className="mt-0.5"
+                  />
+                  <label
+                    htmlFor={`article-${article.url}`}
+                    className="flex-1 min-w-0"
+                  >
+                    {article.title && (
+                      <div className="truncate font-medium">
+                        {article.title}
+                      </div>
+                    )}
+                    <div className="truncate text-xs text-muted-foreground">
+                      {article.url}
+                    </div>
+                  </label>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {article.lastModified
+                      ? new Date(article.lastModified).toLocaleDateString()
+                      : '—'}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,211 @@
+/**
+ * Article Analyzer - Batch Form Component
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions, Sitemap and feed discovery
+ *
+ * Client component for analyzing many URLs at once from a pasted list,
+ * a CSV file (read in the browser) or articles picked from a sitemap or
+ * RSS/Atom feed.
+ * Redirects to the batch results page once the batch is queued.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  ArticleDiscovery,
+  type DiscoverySelection,
+} from '@/components/article-discovery'
+
+type BatchSourceTab = 'list' | 'csv' | 'sitemap'
+
+interface RejectedUrl {
+  url: string
+  reason: string
+}
+
+export function BatchForm() {
+  const [source, setSource] = useState<BatchSourceTab>('list')
+  const [name, setName] = useState('')
+  const [urlList, setUrlList] = useState('')
+  const [csvText, setCsvText] = useState('')
+  const [csvFileName, setCsvFileName] = useState('')
+  const [discovered, setDiscovered] = useState<DiscoverySelection | null>(
+    null
+  )
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [rejected, setRejected] = useState<RejectedUrl[]>([])
+  const router = useRouter()
+
+  async function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0]
+    setCsvFileName(file?.name ?? '')
+    setCsvText(file ? await file.text() : '')
+  }
+
+  function getSourceBody() {
+    if (source === 'list') return { urls: urlList }
+    if (source === 'csv') return { csv: csvText }
+    return { sitemapUrl: discovered?.sourceUrl, urls: discovered?.urls }
+  }
+
+  const hasInput =
+    (source === 'list' && urlList.trim().length > 0) ||
+    (source === 'csv' && csvText.trim().length > 0) ||
+    (source === 'sitemap' && (discovered?.urls.length ?? 0) > 0)
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+    setRejected([])
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/batches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...getSourceBody(),
+          name: name.trim() || undefined,
+        }),
+      })
+
+      const data = (await response.json()) as {
+        message?: string
+        resultsUrl?: string
+        rejected?: RejectedUrl[]
+      }
+
+      if (!response.ok || !data.resultsUrl) {
+        throw new Error(data.message || 'Failed to start batch')
+      }
+
+      if (data.rejected && data.rejected.length > 0) {
+        // Show skipped URLs before moving on
+        setRejected(data.rejected)
+        setTimeout(() => router.push(data.resultsUrl!), 4000)
+        return
+      }
+
+      router.push(data.resultsUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start batch')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Analyze URLs in bulk</CardTitle>
+        <CardDescription>
+          Paste a list, upload a CSV or pick articles from a sitemap or feed.
+          Up to 100 URLs per batch are analyzed in your active workspace.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-name">Name (optional)</Label>
+            <Input
+              id="batch-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Blog posts, Q3"
+              maxLength={100}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <Tabs
+            value={source}
+            onValueChange={(value) => setSource(value as BatchSourceTab)}
+          >
+            <TabsList>
+              <TabsTrigger value="list">Paste URLs</TabsTrigger>
+              <TabsTrigger value="csv">CSV file</TabsTrigger>
+              <TabsTrigger value="sitemap">Sitemap / feed</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="list" className="space-y-2">
+              <Label htmlFor="batch-urls">One URL per line</Label>
+              <textarea
+                id="batch-urls"
+                value={urlList}
+                onChange={(e) => setUrlList(e.target.value)}
+                placeholder={'https://example.com/article-1\nhttps://example.com/article-2'}
+                rows={8}
+                className="w-full rounded-md border bg-transparent px-3 py-2 text-sm font-mono"
+                disabled={isSubmitting}
+              />
+            </TabsContent>
+
+            <TabsContent value="csv" className="space-y-2">
+              <Label htmlFor="batch-csv">
+                CSV with a &quot;url&quot; column (or URLs in any column)
+              </Label>
+              <Input
+                id="batch-csv"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFileChange}
+                disabled={isSubmitting}
+              />
+              {csvFileName && (
+                <p className="text-xs text-muted-foreground">{csvFileName}</p>
+              )}
+            </TabsContent>
+
+            <TabsContent value="sitemap">
+              <ArticleDiscovery
+                disabled={isSubmitting}
+                onSelectionChange={setDiscovered}
+              />
+            </TabsContent>
+          </Tabs>
+
+          {error && <p className="text-destructive text-sm">{error}</p>}
+
+          {rejected.length > 0 && (
+            <div className="text-sm space-y-1">
+              <p className="text-muted-foreground">
+                Batch started. {rejected.length} URL
+                {rejected.length === 1 ? ' was' : 's were'} skipped:
+              </p>
+              <ul className="max-h-40 overflow-y-auto text-xs space-y-1">
+                {rejected.map((item) => (
+                  <li key={item.url} className="break-all">
+                    <span className="font-mono">{item.url}</span> —{' '}
+                    {item.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            disabled={isSubmitting || !hasInput || rejected.length > 0}
+          >
+            {isSubmitting ? 'Starting...' : 'Start batch'}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
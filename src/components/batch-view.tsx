@@ -0,0 +1,312 @@
+/**
+ * Article Analyzer - Batch View Component
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Batch submissions
+ *
+ * Client component showing a batch's progress, its Tier 1/2/3 rates
+ * aggregated across member submissions, and each member's result.
+ * Polls until every member has completed or failed.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+
+interface BatchViewProps {
+  batchId: string
+}
+
+interface BatchMember {
+  id: string
+  url: string
+  status: string
+  articleTitle: string | null
+  error: string | null
+  testMetrics: {
+    isAccessible: boolean
+    inSourcesCount: number
+    inCitationsCount: number
+    totalFaqs: number
+  } | null
+}
+
+interface BatchResponse {
+  batch: {
+    id: string
+    name: string
+    source: string
+    sourceUrl: string | null
+    createdAt: string
+  }
+  progress: {
+    total: number
+    created: number
+    pending: number
+    completed: number
+    failed: number
+    isFinished: boolean
+  }
+  rates: {
+    analyzedCount: number
+    tier1PassRate: number
+    tier2SuccessRate: number
+    tier3SuccessRate: number
+    totalFaqs: number
+  }
+  members: BatchMember[]
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  list: 'Pasted list',
+  csv: 'CSV upload',
+  sitemap: 'Sitemap',
+}
+
+export function BatchView({ batchId }: BatchViewProps) {
+  const [data, setData] = useState<BatchResponse | null>(null)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    let isMounted = true
+    let pollInterval: NodeJS.Timeout | null = null
+
+    async function fetchBatch() {
+      if (!isMounted) return
+
+      try {
+        const response = await fetch(`/api/batches/${batchId}`)
+
+        if (!response.ok) {
+          setError(
+            response.status === 404 ? 'Batch not found' : 'Failed to load batch'
+          )
+          return
+        }
+
+        const batch = (await response.json()) as BatchResponse
+        setData(batch)
+
+        // Keep polling until every member has finished
+        if (isMounted && !batch.progress.isFinished) {
+          if (!pollInterval) {
+            pollInterval = setInterval(() => {
+              fetchBatch()
+            }, 5000)
+          }
+        } else if (pollInterval) {
+          clearInterval(pollInterval)
+          pollInterval = null
+        }
+      } catch {
+        setError('Failed to load batch')
+      }
+    }
+
+    fetchBatch()
+
+    return () => {
+      isMounted = false
+      if (pollInterval) {
+        clearInterval(pollInterval)
+      }
+    }
+  }, [batchId])
+
+  if (error) {
+    return (
+      <div className="text-center py-24">
+        <AlertCircle className="h-8 w-8 text-destructive mx-auto mb-4" />
+        <p className="text-destructive">{error}</p>
+        <Button asChild variant="outline" className="mt-4">
+          <Link href="/batches/new">New batch</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    )
+  }
+
+  const { batch, progress, rates, members } = data
+  const finishedCount = progress.completed + progress.failed
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">{batch.name}</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          {SOURCE_LABELS[batch.source] ?? batch.source}
+          {batch.sourceUrl && ` • ${batch.sourceUrl}`} •{' '}
+          {new Date(batch.createdAt).toLocaleString()}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {!progress.isFinished && <Loader2 className="h-4 w-4 animate-spin" />}
+            {finishedCount} of {progress.total} analyses finished
+          </CardTitle>
+          <CardDescription>
+            {progress.completed} completed • {progress.failed} failed •{' '}
+            {progress.total - finishedCount} in progress
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full bg-primary transition-all"
+              style={{
+                width: `${progress.total > 0 ? (finishedCount / progress.total) * 100 : 0}%`,
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <RateCard
+          label="Tier 1: Accessible"
+          value={rates.tier1PassRate}
+          detail={`of ${rates.analyzedCount} analyzed pages`}
+        />
+        <RateCard
+          label="Tier 2: In sources"
+          value={rates.tier2SuccessRate}
+          detail={`of ${rates.totalFaqs} questions tested`}
+        />
+        <RateCard
+          label="Tier 3: Cited"
+          value={rates.tier3SuccessRate}
+          detail={`of ${rates.totalFaqs} questions tested`}
+        />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pages</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Page</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Sources</TableHead>
+                <TableHead className="text-right">Cited</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map((member) => (
+                <TableRow key={member.id}>
+                  <TableCell className="max-w-md">
+                    <Link
+                      href={`/results/${member.id}`}
+                      className="hover:underline"
+                    >
+                      <div className="truncate font-medium">
+                        {member.articleTitle || member.url}
+                      </div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {member.url}
+                      </div>
+                    </Link>
+                    {member.error && (
+                      <div className="text-xs text-destructive truncate">
+                        {member.error}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={
+                        member.status === 'failed' ? 'destructive' : 'outline'
+                      }
+                    >
+                      {member.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCount(member, 'inSourcesCount')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCount(member, 'inCitationsCount')}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {members.length < progress.total && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-muted-foreground">
+                    Queuing {progress.total - members.length} more pages...
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function RateCard({
+  label,
+  value,
+  detail,
+}: {
+  label: string
+  value: number
+  detail: string
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardDescription>{label}</CardDescription>
+        <CardTitle className="text-3xl">{value}%</CardTitle>
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardHeader>
+    </Card>
+  )
+}
+
+/**
+ * Format a member's Tier 2/3 count as "found / total"
+ */
+function formatCount(
+  member: BatchMember,
+  key: 'inSourcesCount' | 'inCitationsCount'
+): string {
+  if (!member.testMetrics) {
+    return '—'
+  }
+
+  return `${member.testMetrics[key]} / ${member.testMetrics.totalFaqs}`
+}
@@ -0,0 +1,173 @@
+/**
+ * Article Analyzer - Competitor Report Component
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Competitor share-of-voice
+ *
+ * Table of the domains AI search engines cited across all tests, with
+ * share of voice for the target domain, filterable by question.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { withShareToken } from '@/lib/share-link'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { CompetitorReport as CompetitorReportData } from '@/types/competitor-report'
+
+interface CompetitorReportProps {
+  submissionId: string
+  shareToken?: string
+}
+
+const MAX_ROWS = 10
+const ALL_QUESTIONS = 'all'
+
+export function CompetitorReport({
+  submissionId,
+  shareToken,
+}: CompetitorReportProps) {
+  const [report, setReport] = useState<CompetitorReportData | null>(null)
+  const [selected, setSelected] = useState(ALL_QUESTIONS)
+
+  useEffect(() => {
+    async function fetchReport() {
+      try {
+        const response = await fetch(
+          withShareToken(`/api/results/${submissionId}/competitors`, shareToken)
+        )
+        if (response.ok) {
+          setReport((await response.json()) as CompetitorReportData)
+        }
+      } catch (err) {
+        console.error('Failed to fetch competitor report:', err)
+      }
+    }
+
+    fetchReport()
+  }, [submissionId, shareToken])
+
+  if (!report || report.totalCitations === 0) {
+    return null
+  }
+
+  const question =
+    selected === ALL_QUESTIONS ? null : report.questions[Number(selected)]
+  const domains = (question ?? report).domains.filter(
+    (d) => d.citationCount > 0
+  )
+  const targetShare = (question ?? report).targetShareOfVoice
+  const totalCitations = (question ?? report).totalCitations
+
+  // Always keep the target rows visible, even outside the top rows
+  const rows = domains.slice(0, MAX_ROWS)
+  for (const target of domains.filter((d) => d.isTarget)) {
+    if (!rows.includes(target)) {
+      rows.push(target)
+    }
+  }
+
+  return (
+    <Card className="@container/card mb-8 from-primary/5 to-card bg-gradient-to-t dark:bg-card shadow-xs">
+      <CardHeader>
+        <CardTitle>Competitor Share of Voice</CardTitle>
+        <CardDescription>
+          {report.targetDomain ?? 'Your site'} earned {targetShare}% of{' '}
+          {totalCitations} citations
+        </CardDescription>
+        <CardAction>
+          <Select value={selected} onValueChange={setSelected}>
+            <SelectTrigger size="sm" className="w-56" aria-label="Question">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_QUESTIONS}>All questions</SelectItem>
+              {report.questions.map((q, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {q.provider}: {q.question}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No citations for this question
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Domain</TableHead>
+                <TableHead className="text-right">Citations</TableHead>
+                <TableHead className="text-right">Avg Position</TableHead>
+                <TableHead className="text-right">Share of Voice</TableHead>
+                {!question && (
+                  <TableHead className="text-right">Questions</TableHead>
+                )}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((d) => (
+                <TableRow
+                  key={d.domain}
+                  className={d.isTarget ? 'bg-green-50 dark:bg-green-950/30' : ''}
+                >
+                  <TableCell className="font-medium">
+                    {d.domain}
+                    {d.isTarget && (
+                      <Badge variant="outline" className="ml-2">
+                        You
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {d.citationCount}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {d.averagePosition !== undefined
+                      ? `#${d.averagePosition}`
+                      : '-'}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {d.shareOfVoice}%
+                  </TableCell>
+                  {!question && (
+                    <TableCell className="text-right tabular-nums">
+                      {d.questionCount}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,137 @@
+/**
+ * Article Analyzer - FAQ Schema Snippets Component
+ *
+ * Epic: Epic 3 - FAQ Generation & Testing
+ * Stories: FAQ schema snippets
+ *
+ * Offers the generated FAQs as FAQPage JSON-LD, semantic HTML and
+ * Markdown with copy buttons, so users can publish them on their page.
+ * The JSON-LD is only offered once it passes schema.org validation.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { AlertCircle, Check, CheckCircle, Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  buildFaqPageJsonLd,
+  renderFaqHtml,
+  renderFaqJsonLdScript,
+  renderFaqMarkdown,
+  validateFaqPageJsonLd,
+  type FaqSnippetInput,
+} from '@/utils/faq-schema'
+
+interface FaqSchemaSnippetsProps {
+  faqs: FaqSnippetInput[]
+  pageUrl: string // Article URL the FAQs will be published on
+}
+
+type SnippetFormat = 'json-ld' | 'html' | 'markdown'
+
+export function FaqSchemaSnippets({ faqs, pageUrl }: FaqSchemaSnippetsProps) {
+  const [copied, setCopied] = useState<SnippetFormat | null>(null)
+
+  const { snippets, issues } = useMemo(() => {
+    const jsonLd = buildFaqPageJsonLd(faqs, pageUrl)
+
+    return {
+      snippets: {
+        'json-ld': renderFaqJsonLdScript(jsonLd),
+        html: renderFaqHtml(faqs),
+        markdown: renderFaqMarkdown(faqs),
+      } satisfies Record<SnippetFormat, string>,
+      issues: validateFaqPageJsonLd(jsonLd),
+    }
+  }, [faqs, pageUrl])
+
+  async function copySnippet(format: SnippetFormat) {
+    await navigator.clipboard.writeText(snippets[format])
+    setCopied(format)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  function renderSnippet(format: SnippetFormat) {
+    return (
+      <div className="relative">
+        <pre className="max-h-80 overflow-auto rounded-md border bg-muted/40 p-4 text-xs">
+          <code>{snippets[format]}</code>
+        </pre>
+        <Button
+          variant="outline"
+          size="sm"
+          className="absolute right-2 top-2"
+          onClick={() => copySnippet(format)}
+        >
+          {copied === format ? (
+            <Check className="h-4 w-4" />
+          ) : (
+            <Copy className="h-4 w-4" />
+          )}
+          {copied === format ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Publish these FAQs</CardTitle>
+        <CardDescription>
+          Add the FAQ section and its structured data to your page so AI search
+          engines can match these questions to your article.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue={issues.length === 0 ? 'json-ld' : 'html'}>
+          <TabsList>
+            <TabsTrigger value="json-ld">JSON-LD</TabsTrigger>
+            <TabsTrigger value="html">HTML</TabsTrigger>
+            <TabsTrigger value="markdown">Markdown</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="json-ld" className="space-y-3">
+            {issues.length === 0 ? (
+              <>
+                <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  Valid schema.org FAQPage. Paste it into your page&apos;s
+                  &lt;head&gt; or body alongside the visible FAQ section.
+                </p>
+                {renderSnippet('json-ld')}
+              </>
+            ) : (
+              <div className="text-sm space-y-2">
+                <p className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  These FAQs don&apos;t produce valid FAQPage structured data:
+                </p>
+                <ul className="list-disc pl-6 text-muted-foreground">
+                  {issues.map((issue) => (
+                    <li key={`${issue.path}:${issue.message}`}>
+                      <code>{issue.path}</code>: {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="html">{renderSnippet('html')}</TabsContent>
+
+          <TabsContent value="markdown">{renderSnippet('markdown')}</TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,173 @@
+/**
+ * Article Analyzer - Login Form Component
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Client component for signing in with a password (or creating an
+ * account) and for requesting an emailed magic link.
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface LoginFormProps {
+  initialError?: string
+}
+
+export function LoginForm({ initialError }: LoginFormProps) {
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState(initialError || '')
+  const [message, setMessage] = useState('')
+  const router = useRouter()
+
+  async function post(path: string, body: Record<string, string>) {
+    setIsSubmitting(true)
+    setError('')
+    setMessage('')
+
+    try {
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = (await response.json()) as { message?: string }
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to sign in')
+      }
+
+      return data
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in')
+      return null
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  async function handlePassword(e: React.FormEvent, mode: 'login' | 'register') {
+    e.preventDefault()
+
+    if (await post(`/api/auth/${mode}`, { email, password })) {
+      router.push('/')
+      router.refresh()
+    }
+  }
+
+  async function handleMagicLink(e: React.FormEvent) {
+    e.preventDefault()
+
+    const data = await post('/api/auth/magic-link', { email })
+    if (data) {
+      setMessage(data.message || 'Check your email for a sign-in link')
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Sign in to datagum.ai</CardTitle>
+        <CardDescription>
+          Keep track of your analyses and share results with others
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="password">
+          <TabsList className="w-full mb-4">
+            <TabsTrigger value="password">Password</TabsTrigger>
+            <TabsTrigger value="magic-link">Email link</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="password">
+            <form
+              onSubmit={(e) => handlePassword(e, 'login')}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  disabled={isSubmitting}
+                  minLength={8}
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Sign in
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1"
+                  disabled={isSubmitting}
+                  onClick={(e) => handlePassword(e, 'register')}
+                >
+                  Create account
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="magic-link">
+            <form onSubmit={handleMagicLink} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="magic-email">Email</Label>
+                <Input
+                  id="magic-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  disabled={isSubmitting}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Email me a sign-in link
+              </Button>
+            </form>
+          </TabsContent>
+        </Tabs>
+
+        {error && <p className="text-destructive text-sm mt-4">{error}</p>}
+        {message && (
+          <p className="text-muted-foreground text-sm mt-4">{message}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,82 @@
+/**
+ * Article Analyzer - Markup Report Component
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Structured data detection
+ *
+ * Shows which AI-relevant markup (FAQPage, Article, author, dates,
+ * OpenGraph/Twitter, Product, HowTo) the analyzed page already has
+ * and which is missing.
+ */
+
+'use client'
+
+import { AlertCircle, CheckCircle, XCircle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import type { MarkupCheck } from '@/types/page-metadata'
+
+interface MarkupReportProps {
+  checks: MarkupCheck[]
+  jsonLdTypes: string[] // Every schema.org type found, for reference
+}
+
+export function MarkupReport({ checks, jsonLdTypes }: MarkupReportProps) {
+  const missing = checks.filter(
+    (check) => check.status !== 'present' && check.importance === 'recommended'
+  ).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Structured Data &amp; Metadata</CardTitle>
+        <CardDescription>
+          {missing === 0
+            ? 'All recommended AI-relevant markup was found on the page'
+            : `${missing} recommended ${missing === 1 ? 'item is' : 'items are'} missing or invalid on the page`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ul className="divide-y">
+          {checks.map((check) => (
+            <li key={check.id} className="flex items-start gap-3 py-2">
+              {check.status === 'present' ? (
+                <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-green-600" />
+              ) : check.status === 'invalid' ? (
+                <AlertCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+              ) : check.importance === 'recommended' ? (
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+              ) : (
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{check.label}</span>
+                  {check.importance === 'optional' && (
+                    <Badge variant="outline" className="text-xs">
+                      Optional
+                    </Badge>
+                  )}
+                </div>
+                <p className="break-words text-sm text-muted-foreground">
+                  {check.detail}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+        {jsonLdTypes.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            JSON-LD types found: {jsonLdTypes.join(', ')}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 /**
  * Recent Submissions Table
  *
- * Displays recent article analysis submissions on the home page
+ * Displays the signed-in user's recent article analysis submissions on the home page
  */
 
 'use client'
@@ -32,6 +32,7 @@ interface Submission {
 
 export function RecentSubmissions() {
   const [submissions, setSubmissions] = useState<Submission[]>([])
+  const [signedIn, setSignedIn] = useState(false)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -39,8 +40,12 @@ export function RecentSubmissions() {
       try {
         const response = await fetch('/api/submissions')
         if (response.ok) {
-          const data = (await response.json()) as { submissions: Submission[] }
+          const data = (await response.json()) as {
+            submissions: Submission[]
+            signedIn: boolean
+          }
           setSubmissions(data.submissions)
+          setSignedIn(data.signedIn)
         }
       } catch (error) {
         console.error('Failed to fetch submissions:', error)
@@ -108,7 +113,16 @@ export function RecentSubmissions() {
         <div className="p-6 text-center">
           <h2 className="text-lg font-semibold mb-2">Recent Analyses</h2>
           <p className="text-muted-foreground text-sm">
-            No submissions yet. Be the first to analyze an article!
+            {signedIn ? (
+              'No submissions yet. Analyze your first article above!'
+            ) : (
+              <>
+                <Link href="/login" className="underline hover:text-foreground">
+                  Sign in
+                </Link>{' '}
+                to keep track of your analyses.
+              </>
+            )}
           </p>
         </div>
       </Card>
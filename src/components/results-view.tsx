@@ -2,23 +2,42 @@
  * Article Analyzer - Results View Component
  *
  * Epic: Epic 5 - Results Display
- * Stories: US-5.1, US-5.2, US-5.3, US-5.4
+ * Stories: US-5.1, US-5.2, US-5.3, US-5.4, Live analysis progress
  *
  * Client component that fetches and displays analysis results with progressive loading.
  * Uses skeleton states for instant page render and progressive data population.
+ * Live progress comes from the results event stream (SSE), falling back to
+ * polling when the stream is unavailable.
  */
 
 'use client'
 
-import { useEffect, useState } from 'react'
-import { Loader2, CheckCircle, XCircle, AlertCircle, ExternalLink } from 'lucide-react'
+import { Fragment, useEffect, useState } from 'react'
+import { Loader2, CheckCircle, XCircle, AlertCircle, ExternalLink, Check, Link2, Download } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Card, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { VisibilityHistory } from '@/components/visibility-history'
+import { CompetitorReport } from '@/components/competitor-report'
+import { FaqSchemaSnippets } from '@/components/faq-schema-snippets'
+import { MarkupReport } from '@/components/markup-report'
+import { AiReadinessPanel } from '@/components/ai-readiness-panel'
+import { withShareToken } from '@/lib/share-link'
+import { calculateResultStatistics } from '@/utils/test-results-formatter'
+import { isMatchMode } from '@/utils/citation-parser'
+import type { MarkupCheck, PageMetadata } from '@/types/page-metadata'
+import type { AiReadinessAudit } from '@/types/ai-readiness'
 
 interface ResultsViewProps {
   submissionId: string
+  shareToken?: string // From the share link, needed for anonymous results
 }
 
 interface FAQ {
@@ -35,15 +54,25 @@ interface AnalysisResults {
     status: string
     articleTitle?: string
     scrapingError?: string
+    partialContent?: boolean
     createdAt: string
     completedAt?: string
     generatedFaqs?: FAQ[]
+    searchProviders?: string[]
+    canEdit?: boolean
+    shareToken?: string | null
+    matchMode?: string
+    targetUrls?: string[]
     testMetrics?: {
       isAccessible: boolean
       inSourcesCount: number
       inCitationsCount: number
       totalFaqs: number
+      providerMetrics?: Record<string, { isAccessible: boolean }>
     }
+    pageMetadata?: PageMetadata | null
+    markupReport?: MarkupCheck[] | null
+    aiReadinessAudit?: AiReadinessAudit | null
   }
   results: TestResult[]
   statistics: {
@@ -61,10 +90,12 @@ interface AnalysisResults {
 interface TestResult {
   id: number
   question: string
+  provider: string
   llmResponse?: string
   targetUrlFound: boolean
   foundInSources: boolean
   foundInCitations: boolean
+  matchType?: 'exact' | 'path_prefix' | 'domain' | null
   citations: Citation[]
   sources: string[]
 }
@@ -75,19 +106,112 @@ interface Citation {
   position: number
 }
 
-export function ResultsView({ submissionId }: ResultsViewProps) {
+const PROVIDER_LABELS: Record<string, string> = {
+  openai: 'ChatGPT',
+  perplexity: 'Perplexity',
+  gemini: 'Gemini',
+  claude: 'Claude',
+  fake: 'Fake',
+}
+
+// Downloadable deliverables (the report prints to PDF from the browser)
+const EXPORT_OPTIONS = [
+  { format: 'csv', label: 'CSV (per question)' },
+  { format: 'json', label: 'JSON (full results)' },
+  { format: 'html', label: 'Printable report (PDF)' },
+]
+
+// How the target matched: the submitted page, its section, or anywhere on the site
+const MATCH_TYPE_LABELS: Record<string, string> = {
+  exact: 'Your page',
+  path_prefix: 'Your section',
+  domain: 'Your site',
+}
+
+export function ResultsView({ submissionId, shareToken }: ResultsViewProps) {
   const [data, setData] = useState<AnalysisResults | null>(null)
   const [error, setError] = useState('')
+  const [shareLinkCopied, setShareLinkCopied] = useState(false)
 
   useEffect(() => {
     let isMounted = true
     let pollInterval: NodeJS.Timeout | null = null
+    let eventSource: EventSource | null = null
+
+    function stopLiveUpdates() {
+      eventSource?.close()
+      eventSource = null
+      if (pollInterval) {
+        clearInterval(pollInterval)
+        pollInterval = null
+      }
+    }
+
+    function startPolling() {
+      if (pollInterval) return
+      pollInterval = setInterval(() => {
+        fetchResults()
+      }, 3000) // Poll every 3 seconds
+    }
+
+    // Subscribe to live progress; poll only when SSE is unavailable
+    function subscribe(lastResultId: number) {
+      if (typeof EventSource === 'undefined') {
+        startPolling()
+        return
+      }
+
+      const source = new EventSource(
+        withShareToken(
+          `/api/results/${submissionId}/events?after=${lastResultId}`,
+          shareToken
+        )
+      )
+      eventSource = source
+
+      source.addEventListener('status', (event) => {
+        const { submission: update } = JSON.parse(
+          (event as MessageEvent<string>).data
+        ) as Pick<AnalysisResults, 'submission'>
+        setData((current) =>
+          current ? { ...current, submission: update } : current
+        )
+      })
+
+      source.addEventListener('result', (event) => {
+        const result = JSON.parse(
+          (event as MessageEvent<string>).data
+        ) as TestResult
+        setData((current) => (current ? withResult(current, result) : current))
+      })
+
+      source.addEventListener('complete', (event) => {
+        stopLiveUpdates()
+        setData(JSON.parse((event as MessageEvent<string>).data) as AnalysisResults)
+      })
+
+      source.addEventListener('not-found', () => {
+        stopLiveUpdates()
+        setError('Results not found')
+      })
+
+      // EventSource reconnects by itself; a closed source means the
+      // stream endpoint is unavailable, so fall back to polling
+      source.onerror = () => {
+        if (source.readyState === EventSource.CLOSED && isMounted) {
+          eventSource = null
+          startPolling()
+        }
+      }
+    }
 
     async function fetchResults() {
       if (!isMounted) return
 
       try {
-        const response = await fetch(`/api/results/${submissionId}`)
+        const response = await fetch(
+          withShareToken(`/api/results/${submissionId}`, shareToken)
+        )
 
         if (!response.ok) {
           if (response.status === 404) {
@@ -99,25 +223,14 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
         }
 
         const results = (await response.json()) as AnalysisResults
+        if (!isMounted) return
         setData(results)
 
-        // Continue polling if still processing
-        if (
-          isMounted &&
-          results.submission.status &&
-          !['completed', 'failed'].includes(results.submission.status)
-        ) {
-          if (!pollInterval) {
-            pollInterval = setInterval(() => {
-              fetchResults()
-            }, 3000) // Poll every 3 seconds
-          }
-        } else {
-          // Stop polling when completed or failed
-          if (pollInterval) {
-            clearInterval(pollInterval)
-            pollInterval = null
-          }
+        if (['completed', 'failed'].includes(results.submission.status)) {
+          // Stop live updates when completed or failed
+          stopLiveUpdates()
+        } else if (!eventSource && !pollInterval) {
+          subscribe(results.results.at(-1)?.id ?? 0)
         }
       } catch {
         setError('Failed to load results')
@@ -129,11 +242,21 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
 
     return () => {
       isMounted = false
-      if (pollInterval) {
-        clearInterval(pollInterval)
-      }
+      stopLiveUpdates()
     }
-  }, [submissionId])
+  }, [submissionId, shareToken])
+
+  async function copyShareLink() {
+    if (!data?.submission.shareToken) return
+
+    const path = withShareToken(
+      `/results/${data.submission.id}`,
+      data.submission.shareToken
+    )
+    await navigator.clipboard.writeText(`${window.location.origin}${path}`)
+    setShareLinkCopied(true)
+    setTimeout(() => setShareLinkCopied(false), 2000)
+  }
 
   // Error state - full page replacement
   if (error) {
@@ -158,6 +281,8 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
   const results = data?.results || []
   const statistics = data?.statistics
   const isProcessing = submission?.status && !['completed', 'failed'].includes(submission.status)
+  const providerCount = submission?.searchProviders?.length || 1
+  const expectedTests = (submission?.generatedFaqs?.length || 5) * providerCount
 
   // Failed state - full page replacement
   if (submission?.status === 'failed') {
@@ -188,6 +313,48 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
             {isProcessing && (
               <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
             )}
+            <div className="ml-auto flex items-center gap-2">
+              {submission?.status === 'completed' && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    {EXPORT_OPTIONS.map((option) => (
+                      <DropdownMenuItem key={option.format} asChild>
+                        <a
+                          href={withShareToken(
+                            `/api/results/${submissionId}/export?format=${option.format}`,
+                            shareToken
+                          )}
+                          target={option.format === 'html' ? '_blank' : undefined}
+                          rel="noopener noreferrer"
+                        >
+                          {option.label}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {submission?.shareToken && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={copyShareLink}
+                >
+                  {shareLinkCopied ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Link2 className="h-4 w-4" />
+                  )}
+                  {shareLinkCopied ? 'Link copied' : 'Copy share link'}
+                </Button>
+              )}
+            </div>
           </div>
           {submission?.url ? (
             <a
@@ -202,12 +369,19 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
           ) : (
             <Skeleton className="h-6 w-96 max-w-full" />
           )}
+          {submission?.partialContent && (
+            <p className="text-sm text-yellow-700 mt-2 flex items-center gap-1.5">
+              <AlertCircle className="h-4 w-4" />
+              Partial content: a paywall was detected, so only the article&apos;s
+              preview was analyzed
+            </p>
+          )}
           {isProcessing && (
             <p className="text-sm text-muted-foreground mt-2">
               {submission.status === 'scraping' && '📄 Scraping article...'}
               {submission.status === 'generating_faqs' && '🤔 Generating FAQ questions...'}
               {submission.status === 'running_control' && '🔍 Running control test (Tier 1)...'}
-              {submission.status === 'testing_faqs' && `🧪 Testing FAQs... (${results.length} of 5 completed)`}
+              {submission.status === 'testing_faqs' && `🧪 Testing FAQs... (${results.length} of ${expectedTests} completed)`}
               {!submission.status && 'Analyzing your article...'}
             </p>
           )}
@@ -361,13 +535,41 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
           </Card>
         )}
 
+        {/* Visibility history and re-test scheduling (completed analyses) */}
+        {submission?.status === 'completed' && (
+          <VisibilityHistory submissionId={submissionId} shareToken={shareToken} />
+        )}
+
+        {/* Competitor share of voice (completed analyses) */}
+        {submission?.status === 'completed' && (
+          <CompetitorReport submissionId={submissionId} shareToken={shareToken} />
+        )}
+
+        {/* Existing structured data on the page (once scraped) */}
+        {submission?.markupReport && (
+          <MarkupReport
+            checks={submission.markupReport}
+            jsonLdTypes={submission.pageMetadata?.jsonLdTypes ?? []}
+          />
+        )}
+
+        {/* FAQ schema snippets for publishing (completed analyses) */}
+        {submission?.status === 'completed' &&
+          submission.generatedFaqs &&
+          submission.generatedFaqs.length > 0 && (
+            <FaqSchemaSnippets
+              faqs={submission.generatedFaqs}
+              pageUrl={submission.url}
+            />
+          )}
+
         {/* Test Results - with progressive loading */}
         <div className="space-y-4">
           <div className="flex items-center gap-3 mb-4">
             <h2 className="text-2xl font-bold">Test Results</h2>
             {submission?.status === 'testing_faqs' && submission.generatedFaqs && (
               <span className="text-sm font-medium text-blue-600">
-                {results.length} of {submission.generatedFaqs.length} tests completed
+                {results.length} of {expectedTests} tests completed
               </span>
             )}
             {(submission?.status === 'scraping' ||
@@ -415,139 +617,176 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
                 )}
               </div>
               <p className="text-xs text-muted-foreground mt-1">
-                Verifies if OpenAI can access the article directly
+                Verifies if the AI search engines can access the article directly
               </p>
+              {data?.submission?.testMetrics?.providerMetrics &&
+                Object.keys(data.submission.testMetrics.providerMetrics).length > 1 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {Object.entries(data.submission.testMetrics.providerMetrics).map(
+                      ([provider, metrics]) => (
+                        <Badge key={provider} variant="outline">
+                          {metrics.isAccessible ? (
+                            <CheckCircle className="h-3 w-3 text-green-600" />
+                          ) : (
+                            <XCircle className="h-3 w-3 text-red-600" />
+                          )}
+                          {PROVIDER_LABELS[provider] || provider}
+                        </Badge>
+                      )
+                    )}
+                  </div>
+                )}
             </div>
           )}
 
+          {/* AI readiness audit of the page, next to the Tier 1 result */}
+          {submission?.aiReadinessAudit && (
+            <AiReadinessPanel audit={submission.aiReadinessAudit} />
+          )}
+
           {/* Show generated questions with progressive results loading */}
           {submission?.generatedFaqs && submission.generatedFaqs.length > 0 ? (
             // We have generated questions - show all of them with results or skeletons
             submission.generatedFaqs.map((faq, index) => {
-              const result = results.find(r => r.question === faq.question)
+              const faqResults = results.filter(r => r.question === faq.question)
 
-              if (result) {
-                // Question has completed results - show full result card
+              if (faqResults.length > 0) {
+                // Question has completed results - show a result card per provider
                 return (
-                  <div
-                    key={result.id}
-                    className="bg-card border rounded-lg p-6 animate-in fade-in duration-300"
-                  >
-                    <div className="flex items-start gap-3">
-                      {result.foundInCitations ? (
-                        <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
-                      ) : result.foundInSources ? (
-                        <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
-                      ) : (
-                        <XCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-                      )}
-                      <div className="flex-1">
-                        <h3 className="font-semibold mb-3">{result.question}</h3>
-
-                        {/* Primary Insight: Citation vs Sources Status */}
-                        <div className="mb-4 flex flex-wrap gap-2">
-                          {result.foundInCitations && (
-                            <Badge variant="outline" className="text-green-700 dark:text-green-400 border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/20">
-                              <CheckCircle className="h-3 w-3 text-green-600" />
-                              Found in Citations (Tier 3)
-                            </Badge>
+                  <Fragment key={`faq-${index}`}>
+                    {faqResults.map((result) => (
+                      <div
+                        key={result.id}
+                        className="bg-card border rounded-lg p-6 animate-in fade-in duration-300"
+                      >
+                        <div className="flex items-start gap-3">
+                          {result.foundInCitations ? (
+                            <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
+                          ) : result.foundInSources ? (
+                            <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+                          ) : (
+                            <XCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
                           )}
+                          <div className="flex-1">
+                            <h3 className="font-semibold mb-3">{result.question}</h3>
 
-                          {result.foundInSources && !result.foundInCitations && (
-                            <Badge variant="outline" className="text-yellow-700 dark:text-yellow-400 border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20">
-                              <AlertCircle className="h-3 w-3 text-yellow-600" />
-                              In Sources Only (Tier 2)
-                            </Badge>
-                          )}
-
-                          {!result.targetUrlFound && (
-                            <Badge variant="outline" className="text-red-700 dark:text-red-400 border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/20">
-                              <XCircle className="h-3 w-3 text-red-600" />
-                              Not Found
-                            </Badge>
-                          )}
-                        </div>
+                            {/* Primary Insight: Citation vs Sources Status */}
+                            <div className="mb-4 flex flex-wrap gap-2">
+                              <Badge variant="secondary">
+                                {PROVIDER_LABELS[result.provider] || result.provider}
+                              </Badge>
 
-                        {/* Citations - collapsed by default */}
-                        {result.citations.length > 0 && (
-                          <details className="mb-3">
-                            <summary className="text-sm font-medium cursor-pointer hover:text-foreground flex items-center gap-2">
-                              <span>Citations ({result.citations.length})</span>
                               {result.foundInCitations && (
-                                <Badge variant="outline" className="text-green-700 dark:text-green-400 border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/20 text-xs px-1.5 py-0">
-                                  <CheckCircle className="h-2.5 w-2.5" />
-                                  Your article
+                                <Badge variant="outline" className="text-green-700 dark:text-green-400 border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/20">
+                                  <CheckCircle className="h-3 w-3 text-green-600" />
+                                  Found in Citations (Tier 3)
                                 </Badge>
                               )}
-                            </summary>
-                            <ul className="mt-2 space-y-1 text-sm pl-4 border-l-2 border-muted">
-                              {result.citations.map((citation, idx) => (
-                                <li key={idx} className="flex items-start gap-2 py-1">
-                                  <span className="text-muted-foreground flex-shrink-0 font-mono text-xs">
-                                    [{citation.position}]
-                                  </span>
-                                  <a
-                                    href={citation.url}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-blue-600 hover:text-blue-800 hover:underline flex items-center gap-1 break-all"
-                                  >
-                                    {citation.title || citation.url}
-                                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
-                                  </a>
-                                </li>
-                              ))}
-                            </ul>
-                          </details>
-                        )}
-
-                        {/* Sources - collapsed by default */}
-                        {result.sources.length > 0 && (
-                          <details className="mb-3">
-                            <summary className="text-sm font-medium cursor-pointer hover:text-foreground flex items-center gap-2">
-                              <span>Sources ({result.sources.length})</span>
-                              {result.foundInSources && (
-                                <Badge variant="outline" className="text-yellow-700 dark:text-yellow-400 border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20 text-xs px-1.5 py-0">
-                                  <AlertCircle className="h-2.5 w-2.5" />
-                                  Your article
+
+                              {result.targetUrlFound && (
+                                <Badge variant="outline">
+                                  {MATCH_TYPE_LABELS[result.matchType || 'exact']}{' '}
+                                  {result.foundInCitations ? 'was cited' : 'was in sources'}
+                                </Badge>
+                              )}
+
+                              {result.foundInSources && !result.foundInCitations && (
+                                <Badge variant="outline" className="text-yellow-700 dark:text-yellow-400 border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20">
+                                  <AlertCircle className="h-3 w-3 text-yellow-600" />
+                                  In Sources Only (Tier 2)
+                                </Badge>
+                              )}
+
+                              {!result.targetUrlFound && (
+                                <Badge variant="outline" className="text-red-700 dark:text-red-400 border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-950/20">
+                                  <XCircle className="h-3 w-3 text-red-600" />
+                                  Not Found
                                 </Badge>
                               )}
-                            </summary>
-                            <ul className="mt-2 space-y-1 text-sm pl-4 border-l-2 border-muted">
-                              {result.sources.map((source, idx) => (
-                                <li key={idx} className="flex items-start gap-2 py-1">
-                                  <span className="text-muted-foreground flex-shrink-0 font-mono text-xs">
-                                    [{idx + 1}]
-                                  </span>
-                                  <a
-                                    href={source}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-blue-600 hover:text-blue-800 hover:underline flex items-center gap-1 break-all"
-                                  >
-                                    {source}
-                                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
-                                  </a>
-                                </li>
-                              ))}
-                            </ul>
-                          </details>
-                        )}
-
-                        {/* LLM Response - collapsed, under citations/sources */}
-                        {result.llmResponse && (
-                          <details className="mt-3">
-                            <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
-                              View full AI response
-                            </summary>
-                            <div className="mt-2 p-3 bg-muted/30 rounded border border-border">
-                              <p className="text-sm text-muted-foreground">{result.llmResponse}</p>
                             </div>
-                          </details>
-                        )}
+
+                            {/* Citations - collapsed by default */}
+                            {result.citations.length > 0 && (
+                              <details className="mb-3">
+                                <summary className="text-sm font-medium cursor-pointer hover:text-foreground flex items-center gap-2">
+                                  <span>Citations ({result.citations.length})</span>
+                                  {result.foundInCitations && (
+                                    <Badge variant="outline" className="text-green-700 dark:text-green-400 border-green-200 dark:border-green-900 bg-green-50 dark:bg-green-950/20 text-xs px-1.5 py-0">
+                                      <CheckCircle className="h-2.5 w-2.5" />
+                                      {MATCH_TYPE_LABELS[result.matchType || 'exact']}
+                                    </Badge>
+                                  )}
+                                </summary>
+                                <ul className="mt-2 space-y-1 text-sm pl-4 border-l-2 border-muted">
+                                  {result.citations.map((citation, idx) => (
+                                    <li key={idx} className="flex items-start gap-2 py-1">
+                                      <span className="text-muted-foreground flex-shrink-0 font-mono text-xs">
+                                        [{citation.position}]
+                                      </span>
+                                      <a
+                                        href={citation.url}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-blue-600 hover:text-blue-800 hover:underline flex items-center gap-1 break-all"
+                                      >
+                                        {citation.title || citation.url}
+                                        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                                      </a>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </details>
+                            )}
+
+                            {/* Sources - collapsed by default */}
+                            {result.sources.length > 0 && (
+                              <details className="mb-3">
+                                <summary className="text-sm font-medium cursor-pointer hover:text-foreground flex items-center gap-2">
+                                  <span>Sources ({result.sources.length})</span>
+                                  {result.foundInSources && (
+                                    <Badge variant="outline" className="text-yellow-700 dark:text-yellow-400 border-yellow-200 dark:border-yellow-900 bg-yellow-50 dark:bg-yellow-950/20 text-xs px-1.5 py-0">
+                                      <AlertCircle className="h-2.5 w-2.5" />
+                                      {MATCH_TYPE_LABELS[result.matchType || 'exact']}
+                                    </Badge>
+                                  )}
+                                </summary>
+                                <ul className="mt-2 space-y-1 text-sm pl-4 border-l-2 border-muted">
+                                  {result.sources.map((source, idx) => (
+                                    <li key={idx} className="flex items-start gap-2 py-1">
+                                      <span className="text-muted-foreground flex-shrink-0 font-mono text-xs">
+                                        [{idx + 1}]
+                                      </span>
+                                      <a
+                                        href={source}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-blue-600 hover:text-blue-800 hover:underline flex items-center gap-1 break-all"
+                                      >
+                                        {source}
+                                        <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                                      </a>
+                                    </li>
+                                  ))}
+                                </ul>
+                              </details>
+                            )}
+
+                            {/* LLM Response - collapsed, under citations/sources */}
+                            {result.llmResponse && (
+                              <details className="mt-3">
+                                <summary className="text-sm text-muted-foreground cursor-pointer hover:text-foreground">
+                                  View full AI response
+                                </summary>
+                                <div className="mt-2 p-3 bg-muted/30 rounded border border-border">
+                                  <p className="text-sm text-muted-foreground">{result.llmResponse}</p>
+                                </div>
+                              </details>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
+                    ))}
+                  </Fragment>
                 )
               } else {
                 // Question hasn't been tested yet - show question with skeleton loaders
@@ -601,3 +840,25 @@ export function ResultsView({ submissionId }: ResultsViewProps) {
     </main>
   )
 }
+
+/**
+ * Add a streamed test result and update the statistics
+ */
+function withResult(data: AnalysisResults, result: TestResult): AnalysisResults {
+  if (data.results.some((r) => r.id === result.id)) {
+    return data
+  }
+
+  const results = [...data.results, result]
+  const { matchMode, targetUrls } = data.submission
+
+  return {
+    ...data,
+    results,
+    statistics: calculateResultStatistics(
+      results,
+      targetUrls ?? [],
+      isMatchMode(matchMode) ? matchMode : 'exact'
+    ),
+  }
+}
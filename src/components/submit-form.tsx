@@ -6,6 +6,8 @@
  *
  * Client component that handles article URL submission.
  * Validates input, calls submit API, and redirects to results page.
+ * Users can opt in to an email when the analysis finishes, and signed-in
+ * users can provide credentials for articles behind a login.
  */
 
 'use client'
@@ -13,10 +15,20 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
 
 export function SubmitForm() {
   const [url, setUrl] = useState('')
+  const [notify, setNotify] = useState(false)
+  const [notifyEmail, setNotifyEmail] = useState('')
+  const [gated, setGated] = useState(false)
+  const [cookies, setCookies] = useState('')
+  const [headerName, setHeaderName] = useState('')
+  const [headerValue, setHeaderValue] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
   const router = useRouter()
@@ -39,13 +51,27 @@ export function SubmitForm() {
       return
     }
 
+    if (notify && !notifyEmail.trim()) {
+      setError('Please enter the email address to notify')
+      return
+    }
+
+    if (headerValue.trim() && !headerName.trim()) {
+      setError('Please enter the name of the request header')
+      return
+    }
+
     setIsSubmitting(true)
 
     try {
       const response = await fetch('/api/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url: url.trim() }),
+        body: JSON.stringify({
+          url: url.trim(),
+          notifyEmail: notify ? notifyEmail.trim() : undefined,
+          credentials: gated ? buildCredentials() : undefined,
+        }),
       })
 
       if (!response.ok) {
@@ -53,10 +79,13 @@ export function SubmitForm() {
         throw new Error(data.message || 'Failed to submit')
       }
 
-      const data = (await response.json()) as { submissionId: string }
+      const data = (await response.json()) as {
+        submissionId: string
+        resultsUrl: string
+      }
 
-      // Redirect to results page
-      router.push(`/results/${data.submissionId}`)
+      // Redirect to results page (share link, so anonymous users keep access)
+      router.push(data.resultsUrl)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to submit your article. Please try again.')
     } finally {
@@ -64,6 +93,23 @@ export function SubmitForm() {
     }
   }
 
+  // Only the fields that were filled in are sent
+  function buildCredentials() {
+    const credentials = {
+      cookies: cookies.trim() || undefined,
+      headers: headerName.trim()
+        ? { [headerName.trim()]: headerValue.trim() }
+        : undefined,
+      basicAuth: username.trim()
+        ? { username: username.trim(), password }
+        : undefined,
+    }
+
+    return credentials.cookies || credentials.headers || credentials.basicAuth
+      ? credentials
+      : undefined
+  }
+
   return (
     <form onSubmit={handleSubmit} className="max-w-2xl mx-auto px-6">
       <div className="flex flex-col sm:flex-row gap-3">
@@ -84,6 +130,91 @@ export function SubmitForm() {
         </Button>
       </div>
 
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mt-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="notify"
+            checked={notify}
+            onCheckedChange={(checked) => setNotify(checked === true)}
+            disabled={isSubmitting}
+          />
+          <Label htmlFor="notify" className="text-sm font-normal">
+            Email me when the analysis finishes (verified accounts)
+          </Label>
+        </div>
+        {notify && (
+          <Input
+            type="email"
+            value={notifyEmail}
+            onChange={(e) => setNotifyEmail(e.target.value)}
+            placeholder="you@example.com"
+            className="sm:max-w-xs"
+            disabled={isSubmitting}
+            aria-label="Notification email"
+          />
+        )}
+      </div>
+
+      <div className="mt-3">
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="gated"
+            checked={gated}
+            onCheckedChange={(checked) => setGated(checked === true)}
+            disabled={isSubmitting}
+          />
+          <Label htmlFor="gated" className="text-sm font-normal">
+            The article is behind a login or paywall (signed-in users)
+          </Label>
+        </div>
+        {gated && (
+          <div className="mt-3 grid gap-3 rounded-md border p-4 sm:grid-cols-2">
+            <p className="text-xs text-muted-foreground sm:col-span-2">
+              Stored encrypted and only sent when fetching this article.
+            </p>
+            <Input
+              value={cookies}
+              onChange={(e) => setCookies(e.target.value)}
+              placeholder="Cookies, e.g. session=abc123"
+              className="sm:col-span-2"
+              disabled={isSubmitting}
+              aria-label="Cookies"
+            />
+            <Input
+              value={headerName}
+              onChange={(e) => setHeaderName(e.target.value)}
+              placeholder="Header name, e.g. Authorization"
+              disabled={isSubmitting}
+              aria-label="Request header name"
+            />
+            <Input
+              value={headerValue}
+              onChange={(e) => setHeaderValue(e.target.value)}
+              placeholder="Header value"
+              disabled={isSubmitting}
+              aria-label="Request header value"
+            />
+            <Input
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              placeholder="Basic auth username"
+              autoComplete="off"
+              disabled={isSubmitting}
+              aria-label="Basic auth username"
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Basic auth password"
+              autoComplete="new-password"
+              disabled={isSubmitting}
+              aria-label="Basic auth password"
+            />
+          </div>
+        )}
+      </div>
+
       {error && <p className="text-destructive text-sm mt-2">{error}</p>}
 
       <p className="text-sm text-muted-foreground mt-4 text-center">
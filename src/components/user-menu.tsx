@@ -0,0 +1,86 @@
+/**
+ * Article Analyzer - User Menu Component
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership, Workspaces and team roles,
+ *          Batch submissions
+ *
+ * Header control showing the signed-in user with their workspace switcher
+ * and a sign-out button, or a sign-in link for anonymous visitors.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Layers, LogOut, Users } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { WorkspaceSwitcher } from '@/components/workspace-switcher'
+
+interface CurrentUser {
+  id: string
+  email: string
+}
+
+export function UserMenu() {
+  const [user, setUser] = useState<CurrentUser | null>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  useEffect(() => {
+    async function fetchUser() {
+      try {
+        const response = await fetch('/api/auth/me')
+        if (response.ok) {
+          const data = (await response.json()) as { user: CurrentUser | null }
+          setUser(data.user)
+        }
+      } catch (error) {
+        console.error('Failed to fetch current user:', error)
+      } finally {
+        setLoaded(true)
+      }
+    }
+
+    fetchUser()
+  }, [])
+
+  async function handleSignOut() {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    window.location.href = '/'
+  }
+
+  if (!loaded) {
+    return null
+  }
+
+  if (!user) {
+    return (
+      <Button asChild variant="outline" size="sm">
+        <Link href="/login">Sign in</Link>
+      </Button>
+    )
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      <WorkspaceSwitcher />
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/batches/new">
+          <Layers className="h-4 w-4" />
+          Bulk
+        </Link>
+      </Button>
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/workspace">
+          <Users className="h-4 w-4" />
+          Team
+        </Link>
+      </Button>
+      <span className="text-sm text-muted-foreground">{user.email}</span>
+      <Button variant="ghost" size="sm" onClick={handleSignOut}>
+        <LogOut className="h-4 w-4" />
+        Sign out
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+/**
+ * Article Analyzer - Visibility History Component
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Scheduled re-testing
+ *
+ * Charts Tier 2/Tier 3 success rates across the original analysis and its
+ * scheduled re-test runs, and lets the user schedule daily/weekly re-tests.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts'
+import { CalendarClock, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { withShareToken } from '@/lib/share-link'
+
+interface VisibilityHistoryProps {
+  submissionId: string
+  shareToken?: string
+}
+
+interface HistoryPoint {
+  submissionId: string
+  runAt: string
+  status: string
+  isAccessible: boolean | null
+  tier2SuccessRate: number | null
+  tier3SuccessRate: number | null
+}
+
+interface HistoryResponse {
+  rootSubmissionId: string
+  schedule: {
+    frequency: 'daily' | 'weekly'
+    active: boolean
+    nextRunAt: string
+    lastRunAt?: string | null
+  } | null
+  history: HistoryPoint[]
+}
+
+const chartConfig = {
+  tier2: {
+    label: 'Tier 2 (In Sources)',
+    color: 'var(--chart-2)',
+  },
+  tier3: {
+    label: 'Tier 3 (Cited)',
+    color: 'var(--chart-1)',
+  },
+} satisfies ChartConfig
+
+export function VisibilityHistory({
+  submissionId,
+  shareToken,
+}: VisibilityHistoryProps) {
+  const [data, setData] = useState<HistoryResponse | null>(null)
+  const [frequency, setFrequency] = useState<'daily' | 'weekly'>('weekly')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(
+        withShareToken(`/api/results/${submissionId}/history`, shareToken)
+      )
+      if (response.ok) {
+        const history = (await response.json()) as HistoryResponse
+        setData(history)
+        if (history.schedule) {
+          setFrequency(history.schedule.frequency)
+        }
+      }
+    } catch (err) {
+      console.error('Failed to fetch visibility history:', err)
+    }
+  }, [submissionId, shareToken])
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  async function updateSchedule(method: 'POST' | 'DELETE') {
+    setIsSaving(true)
+    setError('')
+
+    try {
+      const url = withShareToken(
+        `/api/results/${submissionId}/schedule`,
+        shareToken
+      )
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'POST' ? JSON.stringify({ frequency }) : undefined,
+      })
+
+      if (!response.ok) {
+        const body = (await response.json()) as { message?: string }
+        throw new Error(body.message || 'Failed to update schedule')
+      }
+
+      await fetchHistory()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!data) {
+    return null
+  }
+
+  const chartData = data.history
+    .filter((point) => point.status === 'completed')
+    .map((point) => ({
+      runAt: point.runAt,
+      tier2: point.tier2SuccessRate ?? 0,
+      tier3: point.tier3SuccessRate ?? 0,
+    }))
+  const isScheduled = data.schedule?.active ?? false
+
+  return (
+    <Card className="@container/card mb-8 from-primary/5 to-card bg-gradient-to-t dark:bg-card shadow-xs">
+      <CardHeader>
+        <CardTitle>Visibility Over Time</CardTitle>
+        <CardDescription>
+          {isScheduled && data.schedule
+            ? `Re-testing ${data.schedule.frequency} • next run ${formatDate(data.schedule.nextRunAt)}`
+            : 'Schedule re-tests to track how AI search results drift'}
+        </CardDescription>
+        <CardAction className="flex items-center gap-2">
+          <Select
+            value={frequency}
+            onValueChange={(value) => setFrequency(value as 'daily' | 'weekly')}
+          >
+            <SelectTrigger size="sm" className="w-28" aria-label="Re-test frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            disabled={isSaving}
+            onClick={() => updateSchedule('POST')}
+          >
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <CalendarClock className="h-4 w-4" />
+            )}
+            {isScheduled ? 'Update' : 'Schedule'}
+          </Button>
+          {isScheduled && (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSaving}
+              onClick={() => updateSchedule('DELETE')}
+            >
+              Stop
+            </Button>
+          )}
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-destructive text-sm mb-4">{error}</p>}
+
+        {chartData.length > 1 ? (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+            <LineChart data={chartData} margin={{ left: 0, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="runAt"
+                tickLine={false}
+                axisLine={false}
+                tickMargin={8}
+                minTickGap={32}
+                tickFormatter={(value) => formatDate(value)}
+              />
+              <YAxis
+                domain={[0, 100]}
+                tickLine={false}
+                axisLine={false}
+                width={40}
+                tickFormatter={(value) => `${value}%`}
+              />
+              <ChartTooltip
+                cursor={false}
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(value) => formatDate(value)}
+                    indicator="dot"
+                  />
+                }
+              />
+              <Line
+                dataKey="tier2"
+                type="monotone"
+                stroke="var(--color-tier2)"
+                strokeWidth={2}
+                dot
+              />
+              <Line
+                dataKey="tier3"
+                type="monotone"
+                stroke="var(--color-tier3)"
+                strokeWidth={2}
+                dot
+              />
+            </LineChart>
+          </ChartContainer>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            The chart appears once at least one re-test has completed.
+          </p>
+        )}
+
+        {data.history.length > 1 && (
+          <ul className="mt-4 space-y-1 text-sm">
+            {data.history.map((point) => (
+              <li key={point.submissionId} className="flex items-center justify-between">
+                <Link
+                  href={withShareToken(`/results/${point.submissionId}`, shareToken)}
+                  className={
+                    point.submissionId === submissionId
+                      ? 'font-medium'
+                      : 'text-muted-foreground hover:text-foreground'
+                  }
+                >
+                  {formatDate(point.runAt)}
+                  {point.submissionId === data.rootSubmissionId && ' (original)'}
+                </Link>
+                <span className="text-muted-foreground tabular-nums">
+                  {point.status === 'completed'
+                    ? `${point.tier2SuccessRate ?? 0}% / ${point.tier3SuccessRate ?? 0}%`
+                    : point.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function formatDate(date: string | Date) {
+  return new Date(date).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
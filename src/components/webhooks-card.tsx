@@ -0,0 +1,257 @@
+/**
+ * Article Analyzer - Webhooks Card Component
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Client component for workspace owners to register webhook endpoints,
+ * browse the delivery log and redeliver failed deliveries.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Copy, RotateCw, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+
+interface EndpointSummary {
+  id: string
+  url: string
+  events: string[]
+}
+
+interface DeliverySummary {
+  id: string
+  endpointId: string
+  event: string
+  status: 'pending' | 'succeeded' | 'failed'
+  attempts: number
+  responseStatus: number | null
+  lastError: string | null
+  createdAt: string
+}
+
+const STATUS_VARIANTS = {
+  pending: 'secondary',
+  succeeded: 'default',
+  failed: 'destructive',
+} as const
+
+interface WebhooksCardProps {
+  workspaceId: string
+}
+
+export function WebhooksCard({ workspaceId }: WebhooksCardProps) {
+  const [endpoints, setEndpoints] = useState<EndpointSummary[]>([])
+  const [deliveries, setDeliveries] = useState<DeliverySummary[]>([])
+  const [url, setUrl] = useState('')
+  const [secret, setSecret] = useState('')
+  const [error, setError] = useState('')
+
+  const path = `/api/workspaces/${workspaceId}/webhooks`
+
+  const load = useCallback(async () => {
+    try {
+      const [endpointsRes, deliveriesRes] = await Promise.all([
+        fetch(path),
+        fetch(`${path}/deliveries`),
+      ])
+      if (endpointsRes.ok) {
+        const data = (await endpointsRes.json()) as {
+          endpoints: EndpointSummary[]
+        }
+        setEndpoints(data.endpoints)
+      }
+      if (deliveriesRes.ok) {
+        const data = (await deliveriesRes.json()) as {
+          deliveries: DeliverySummary[]
+        }
+        setDeliveries(data.deliveries)
+      }
+    } catch (err) {
+      console.error('Failed to load webhooks:', err)
+    }
+  }, [path])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault()
+    setError('')
+
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    })
+    const data = (await response.json()) as { message?: string; secret?: string }
+
+    if (!response.ok) {
+      setError(data.message || 'Failed to register webhook')
+      return
+    }
+
+    setSecret(data.secret || '')
+    setUrl('')
+    await load()
+  }
+
+  async function handleDelete(endpoint: EndpointSummary) {
+    await fetch(`${path}?endpointId=${encodeURIComponent(endpoint.id)}`, {
+      method: 'DELETE',
+    })
+    await load()
+  }
+
+  async function handleRedeliver(delivery: DeliverySummary) {
+    await fetch(`${path}/deliveries/${delivery.id}/redeliver`, {
+      method: 'POST',
+    })
+    await load()
+  }
+
+  const endpointUrls = new Map(endpoints.map((e) => [e.id, e.url]))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Webhooks</CardTitle>
+        <CardDescription>
+          Receive a signed POST when an analysis changes status, completes
+          or fails. Verify the X-Datagum-Signature header with your secret.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {secret && (
+          <div className="rounded-md border bg-muted/50 p-3 space-y-2">
+            <p className="text-sm">
+              Copy your signing secret now. It will not be shown again.
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={secret} className="font-mono text-xs" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigator.clipboard.writeText(secret)}
+                aria-label="Copy signing secret"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        {endpoints.length > 0 && (
+          <ul className="space-y-2">
+            {endpoints.map((endpoint) => (
+              <li
+                key={endpoint.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <span className="font-mono text-xs truncate">
+                  {endpoint.url}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(endpoint)}
+                  aria-label={`Delete webhook ${endpoint.url}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            type="url"
+            placeholder="https://example.com/webhooks/datagum"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            required
+          />
+          <Button type="submit">Add endpoint</Button>
+        </form>
+
+        {deliveries.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Event</TableHead>
+                <TableHead>Endpoint</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Sent</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id}>
+                  <TableCell className="font-mono text-xs">
+                    {delivery.event}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs max-w-40 truncate">
+                    {endpointUrls.get(delivery.endpointId)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={STATUS_VARIANTS[delivery.status]}
+                      title={delivery.lastError ?? undefined}
+                    >
+                      {delivery.status}
+                      {delivery.responseStatus
+                        ? ` (${delivery.responseStatus})`
+                        : ''}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {new Date(delivery.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {delivery.status !== 'pending' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRedeliver(delivery)}
+                        aria-label="Redeliver"
+                      >
+                        <RotateCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
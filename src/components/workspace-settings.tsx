@@ -0,0 +1,358 @@
+/**
+ * Article Analyzer - Workspace Settings Component
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Client component for the active workspace: members and their roles
+ * (owners can add, change and remove), projects (editors can create),
+ * API keys and webhooks (owners) and creating a new workspace.
+ */
+
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Loader2, Trash2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import type { WorkspaceSummary } from '@/components/workspace-switcher'
+import { ApiKeysCard } from '@/components/api-keys-card'
+import { WebhooksCard } from '@/components/webhooks-card'
+import { ACTIVE_WORKSPACE_COOKIE_NAME } from '@/lib/auth/session'
+import { WORKSPACE_ROLES, type WorkspaceRole } from '@/types/workspace'
+
+interface Member {
+  userId: string
+  email: string
+  role: WorkspaceRole
+}
+
+interface ProjectSummary {
+  id: string
+  name: string
+}
+
+export function WorkspaceSettings() {
+  const [workspace, setWorkspace] = useState<WorkspaceSummary | null>(null)
+  const [members, setMembers] = useState<Member[]>([])
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('viewer')
+  const [projectName, setProjectName] = useState('')
+  const [workspaceName, setWorkspaceName] = useState('')
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState('')
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspaces')
+      if (response.status === 401) {
+        window.location.href = '/login'
+        return
+      }
+
+      const data = (await response.json()) as {
+        workspaces: WorkspaceSummary[]
+        activeWorkspaceId: string
+      }
+      const active = data.workspaces.find(
+        (w) => w.id === data.activeWorkspaceId
+      )
+      setWorkspace(active ?? null)
+
+      if (active) {
+        const [membersRes, projectsRes] = await Promise.all([
+          fetch(`/api/workspaces/${active.id}/members`),
+          fetch(`/api/workspaces/${active.id}/projects`),
+        ])
+        setMembers(((await membersRes.json()) as { members: Member[] }).members)
+        setProjects(
+          ((await projectsRes.json()) as { projects: ProjectSummary[] }).projects
+        )
+      }
+    } catch (err) {
+      console.error('Failed to load workspace:', err)
+      setError('Failed to load workspace')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  async function send(path: string, method: string, body?: unknown) {
+    setError('')
+
+    const response = await fetch(path, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body ? JSON.stringify(body) : undefined,
+    })
+    const data = (await response.json()) as {
+      message?: string
+      workspace?: WorkspaceSummary
+    }
+
+    if (!response.ok) {
+      setError(data.message || 'Request failed')
+      return null
+    }
+
+    return data
+  }
+
+  async function handleAddMember(e: React.FormEvent) {
+    e.preventDefault()
+    if (!workspace) return
+
+    if (await send(`/api/workspaces/${workspace.id}/members`, 'POST', { email, role })) {
+      setEmail('')
+      await load()
+    }
+  }
+
+  async function handleChangeRole(member: Member, newRole: WorkspaceRole) {
+    if (!workspace) return
+
+    await send(`/api/workspaces/${workspace.id}/members`, 'POST', {
+      email: member.email,
+      role: newRole,
+    })
+    await load()
+  }
+
+  async function handleRemoveMember(member: Member) {
+    if (!workspace) return
+
+    await send(
+      `/api/workspaces/${workspace.id}/members?userId=${encodeURIComponent(member.userId)}`,
+      'DELETE'
+    )
+    await load()
+  }
+
+  async function handleCreateProject(e: React.FormEvent) {
+    e.preventDefault()
+    if (!workspace) return
+
+    if (await send(`/api/workspaces/${workspace.id}/projects`, 'POST', { name: projectName })) {
+      setProjectName('')
+      await load()
+    }
+  }
+
+  async function handleCreateWorkspace(e: React.FormEvent) {
+    e.preventDefault()
+
+    const data = await send('/api/workspaces', 'POST', { name: workspaceName })
+    if (data?.workspace) {
+      document.cookie = `${ACTIVE_WORKSPACE_COOKIE_NAME}=${data.workspace.id}; path=/; max-age=31536000; samesite=lax`
+      setWorkspaceName('')
+      await load()
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    )
+  }
+
+  const isOwner = workspace?.role === 'owner'
+  const canEdit = workspace?.role === 'owner' || workspace?.role === 'editor'
+
+  return (
+    <div className="space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Link>
+      </Button>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {workspace && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {workspace.name}
+              <Badge variant="secondary">{workspace.role}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Viewers can see results, editors can run and schedule analyses,
+              owners manage members.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => (
+                  <TableRow key={member.userId}>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      {isOwner ? (
+                        <RoleSelect
+                          value={member.role}
+                          onChange={(r) => handleChangeRole(member, r)}
+                        />
+                      ) : (
+                        member.role
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {isOwner && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveMember(member)}
+                          aria-label={`Remove ${member.email}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {isOwner && (
+              <form onSubmit={handleAddMember} className="flex gap-2">
+                <Input
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+                <RoleSelect value={role} onChange={setRole} />
+                <Button type="submit">Add</Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {workspace && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Projects</CardTitle>
+            <CardDescription>
+              Group analyses within this workspace.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {projects.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No projects yet.</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {projects.map((project) => (
+                  <li key={project.id}>{project.name}</li>
+                ))}
+              </ul>
+            )}
+
+            {canEdit && (
+              <form onSubmit={handleCreateProject} className="flex gap-2">
+                <Input
+                  placeholder="Project name"
+                  value={projectName}
+                  onChange={(e) => setProjectName(e.target.value)}
+                  required
+                />
+                <Button type="submit">Create</Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {workspace && isOwner && <ApiKeysCard workspaceId={workspace.id} />}
+
+      {workspace && isOwner && <WebhooksCard workspaceId={workspace.id} />}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New workspace</CardTitle>
+          <CardDescription>
+            Create a shared workspace for your team. You will be its owner.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleCreateWorkspace} className="flex gap-2">
+            <Input
+              placeholder="Workspace name"
+              value={workspaceName}
+              onChange={(e) => setWorkspaceName(e.target.value)}
+              required
+            />
+            <Button type="submit">Create</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function RoleSelect({
+  value,
+  onChange,
+}: {
+  value: WorkspaceRole
+  onChange: (role: WorkspaceRole) => void
+}) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as WorkspaceRole)}>
+      <SelectTrigger size="sm" className="w-28">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {WORKSPACE_ROLES.map((r) => (
+          <SelectItem key={r} value={r}>
+            {r}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
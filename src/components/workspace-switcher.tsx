@@ -0,0 +1,77 @@
+/**
+ * Article Analyzer - Workspace Switcher Component
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Header select for the active workspace. The choice is stored in a cookie
+ * that the API validates against the user's memberships on every request.
+ */
+
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { ACTIVE_WORKSPACE_COOKIE_NAME } from '@/lib/auth/session'
+
+export interface WorkspaceSummary {
+  id: string
+  name: string
+  role: string
+}
+
+export function WorkspaceSwitcher() {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [activeId, setActiveId] = useState<string>('')
+
+  useEffect(() => {
+    async function fetchWorkspaces() {
+      try {
+        const response = await fetch('/api/workspaces')
+        if (response.ok) {
+          const data = (await response.json()) as {
+            workspaces: WorkspaceSummary[]
+            activeWorkspaceId: string
+          }
+          setWorkspaces(data.workspaces)
+          setActiveId(data.activeWorkspaceId)
+        }
+      } catch (error) {
+        console.error('Failed to fetch workspaces:', error)
+      }
+    }
+
+    fetchWorkspaces()
+  }, [])
+
+  function handleChange(workspaceId: string) {
+    setActiveId(workspaceId)
+    document.cookie = `${ACTIVE_WORKSPACE_COOKIE_NAME}=${workspaceId}; path=/; max-age=31536000; samesite=lax`
+    window.location.reload()
+  }
+
+  if (workspaces.length === 0) {
+    return null
+  }
+
+  return (
+    <Select value={activeId} onValueChange={handleChange}>
+      <SelectTrigger size="sm" className="w-44">
+        <SelectValue placeholder="Workspace" />
+      </SelectTrigger>
+      <SelectContent>
+        {workspaces.map((workspace) => (
+          <SelectItem key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -23,8 +23,307 @@ import {
   integer,
   jsonb,
   index,
+  uniqueIndex,
+  type AnyPgColumn,
 } from 'drizzle-orm/pg-core'
 
+/**
+ * Users Table
+ *
+ * Accounts that own submissions. Users sign in with a password or an
+ * emailed magic link (a local provider signs in by email in development).
+ */
+export const users = pgTable('users', {
+  // Primary key
+  id: uuid('id').defaultRandom().primaryKey(),
+
+  // Login identity (stored lowercase)
+  email: varchar('email', { length: 255 }).notNull().unique(),
+
+  // PBKDF2 hash, null for magic-link-only accounts
+  // Format: pbkdf2$<iterations>$<salt>$<hash>
+  passwordHash: text('password_hash'),
+
+  // Set when a magic link sent to the email is used
+  emailVerifiedAt: timestamp('email_verified_at', { withTimezone: true }),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+})
+
+/**
+ * User Sessions Table
+ *
+ * Browser sessions. Only a SHA-256 hash of the session cookie is stored.
+ */
+export const userSessions = pgTable(
+  'user_sessions',
+  {
+    // SHA-256 hash of the session token (hex)
+    id: varchar('id', { length: 64 }).primaryKey(),
+
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    userIdIdx: index('user_sessions_user_id_idx').on(table.userId),
+  })
+)
+
+/**
+ * Login Tokens Table
+ *
+ * Single-use magic link tokens. Only a SHA-256 hash of the token is stored.
+ */
+export const loginTokens = pgTable('login_tokens', {
+  // SHA-256 hash of the emailed token (hex)
+  id: varchar('id', { length: 64 }).primaryKey(),
+
+  email: varchar('email', { length: 255 }).notNull(),
+
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+})
+
+/**
+ * Auth Attempts Table
+ *
+ * Password sign-ins and magic link requests, counted per email and per IP
+ * to rate limit guessing and mail flooding.
+ */
+export const authAttempts = pgTable(
+  'auth_attempts',
+  {
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // 'login' or 'magic_link'
+    kind: varchar('kind', { length: 20 }).notNull(),
+
+    // Email the attempt was for (lowercase)
+    email: varchar('email', { length: 255 }).notNull(),
+
+    // Caller IP (null for localhost)
+    ipAddress: varchar('ip_address', { length: 45 }),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    emailIdx: index('auth_attempts_email_idx').on(
+      table.kind,
+      table.email,
+      table.createdAt
+    ),
+    ipIdx: index('auth_attempts_ip_idx').on(
+      table.kind,
+      table.ipAddress,
+      table.createdAt
+    ),
+  })
+)
+
+/**
+ * Workspaces Table
+ *
+ * Organizations (e.g. an agency's client) that own submissions, projects
+ * and API keys. Every user gets a personal workspace on first sign-in.
+ */
+export const workspaces = pgTable('workspaces', {
+  // Primary key
+  id: uuid('id').defaultRandom().primaryKey(),
+
+  name: varchar('name', { length: 100 }).notNull(),
+
+  // Timestamps
+  createdAt: timestamp('created_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+  updatedAt: timestamp('updated_at', { withTimezone: true })
+    .defaultNow()
+    .notNull(),
+})
+
+/**
+ * Workspace Members Table
+ *
+ * Users in a workspace and their role:
+ * - owner: manage members and API keys, plus everything editors can do
+ * - editor: submit articles, create projects, schedule re-tests
+ * - viewer: read-only access to results
+ */
+export const workspaceMembers = pgTable(
+  'workspace_members',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+    userId: uuid('user_id')
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+
+    role: varchar('role', { length: 10 }).notNull().default('viewer'),
+    // Role values: 'owner' | 'editor' | 'viewer'
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    memberIdx: uniqueIndex('workspace_members_workspace_user_idx').on(
+      table.workspaceId,
+      table.userId
+    ),
+    userIdIdx: index('workspace_members_user_id_idx').on(table.userId),
+  })
+)
+
+/**
+ * Projects Table
+ *
+ * Groups of submissions within a workspace (e.g. one per client site).
+ */
+export const projects = pgTable(
+  'projects',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+
+    name: varchar('name', { length: 100 }).notNull(),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    workspaceIdIdx: index('projects_workspace_id_idx').on(table.workspaceId),
+  })
+)
+
+/**
+ * API Keys Table
+ *
+ * Workspace-owned keys for the public /api/v1 API.
+ * Only a SHA-256 hash of the key is stored; the prefix is kept for display.
+ */
+export const apiKeys = pgTable(
+  'api_keys',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+
+    // Member who created the key (analyses are attributed to them)
+    createdByUserId: uuid('created_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+
+    name: varchar('name', { length: 100 }).notNull(),
+
+    // SHA-256 hash of the full key (hex)
+    keyHash: varchar('key_hash', { length: 64 }).notNull().unique(),
+
+    // First characters of the key, e.g. 'dg_3fA9k2' (shown in the UI)
+    keyPrefix: varchar('key_prefix', { length: 16 }).notNull(),
+
+    // Analyses the key may create per rolling 24 hours
+    dailyQuota: integer('daily_quota').notNull().default(100),
+
+    lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+    revokedAt: timestamp('revoked_at', { withTimezone: true }),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    workspaceIdIdx: index('api_keys_workspace_id_idx').on(table.workspaceId),
+  })
+)
+
+/**
+ * Submission Batches Table
+ *
+ * A group of URLs analyzed together (pasted list, CSV, sitemap or feed).
+ * The queue consumer creates one submission per URL with these settings.
+ */
+export const submissionBatches = pgTable(
+  'submission_batches',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+
+    projectId: uuid('project_id').references(() => projects.id, {
+      onDelete: 'set null',
+    }),
+
+    createdByUserId: uuid('created_by_user_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+
+    name: varchar('name', { length: 100 }).notNull(),
+
+    // Where the URLs came from
+    // Values: 'list' | 'csv' | 'sitemap'
+    source: varchar('source', { length: 20 }).notNull(),
+    sourceUrl: text('source_url'), // Sitemap or feed URL
+
+    // Settings applied to every member submission
+    searchProviders: jsonb('search_providers').notNull(),
+    matchMode: varchar('match_mode', { length: 20 }).notNull().default('exact'),
+
+    // Number of URLs accepted into the batch
+    totalCount: integer('total_count').notNull(),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    workspaceIdIdx: index('submission_batches_workspace_id_idx').on(
+      table.workspaceId
+    ),
+  })
+)
+
 /**
  * Content Analysis Submissions Table
  *
@@ -44,10 +343,63 @@ export const contentAnalysisSubmissions = pgTable(
     url: text('url').notNull(),
     userIp: varchar('user_ip', { length: 45 }), // IPv4 or IPv6
 
+    // Signed-in user who submitted the article (null for anonymous)
+    // Access is granted through the workspace, not the submitter
+    ownerId: uuid('owner_id').references(() => users.id, {
+      onDelete: 'set null',
+    }),
+
+    // Workspace that owns the submission (null for anonymous submissions)
+    workspaceId: uuid('workspace_id').references(() => workspaces.id, {
+      onDelete: 'cascade',
+    }),
+
+    // Optional project within the workspace
+    projectId: uuid('project_id').references(() => projects.id, {
+      onDelete: 'set null',
+    }),
+
+    // Batch the submission belongs to (null for single submissions)
+    batchId: uuid('batch_id').references(() => submissionBatches.id, {
+      onDelete: 'set null',
+    }),
+
+    // API key that created the submission (null for UI submissions)
+    // Used to enforce per-key quotas
+    apiKeyId: uuid('api_key_id').references(() => apiKeys.id, {
+      onDelete: 'set null',
+    }),
+
+    // Address to email a summary to when the analysis finishes (opt-in)
+    // Re-test runs do not inherit it
+    notifyEmail: varchar('notify_email', { length: 255 }),
+
+    // Unguessable token for share links (/results/<id>?share=<token>)
+    // Required to view anonymous submissions; re-test runs inherit it
+    shareToken: varchar('share_token', { length: 64 }),
+
+    // Scheduled re-test runs link back to the original submission
+    parentSubmissionId: uuid('parent_submission_id').references(
+      (): AnyPgColumn => contentAnalysisSubmissions.id,
+      { onDelete: 'cascade' }
+    ),
+
     // Status tracking
     status: varchar('status', { length: 20 }).notNull().default('pending'),
     // Status values: 'pending' | 'scraping' | 'generating_faqs' | 'running_control' | 'testing_faqs' | 'completed' | 'failed'
 
+    // Resume checkpoint: last analysis phase that finished successfully
+    // Values: 'scraping' | 'generating_faqs' | 'running_control' | 'testing_faqs'
+    lastCompletedPhase: varchar('last_completed_phase', { length: 20 }),
+
+    // AI search providers to test against (stored as JSON array of provider IDs)
+    // Values: 'openai' | 'perplexity' | 'gemini' | 'claude' | 'fake'
+    searchProviders: jsonb('search_providers').default(['openai']).notNull(),
+
+    // Loosest citation match that counts as found
+    // Values: 'exact' | 'path_prefix' | 'domain'
+    matchMode: varchar('match_mode', { length: 20 }).notNull().default('exact'),
+
     // Generated FAQs (stored as JSON array of FAQ objects)
     // Structure: Array<{ question: string, answer: string, category: string, numbers: string[] }>
     generatedFaqs: jsonb('generated_faqs').default([]).notNull(),
@@ -62,6 +414,24 @@ export const contentAnalysisSubmissions = pgTable(
     // Scraped article data
     articleTitle: text('article_title'),
     articleContent: text('article_content'), // First 5000 chars
+    // Soft paywall detected: only the teaser of the article could be scraped
+    partialContent: boolean('partial_content').default(false).notNull(),
+
+    // Submitter-provided request headers, cookies or basic auth for gated
+    // articles, encrypted (see scrape-credentials.service.ts); cleared once scraped
+    scrapeCredentials: text('scrape_credentials'),
+
+    // Other URLs AI engines may cite for the article (redirects, canonical)
+    // Structure: { finalUrl?: string, canonicalUrl?: string, ampUrl?: string, ogUrl?: string }
+    urlAliases: jsonb('url_aliases'),
+
+    // Existing JSON-LD, microdata and OpenGraph/Twitter markup on the page
+    // Structure: PageMetadata (see src/types/page-metadata.ts)
+    pageMetadata: jsonb('page_metadata'),
+
+    // Scored AI-readiness checklist (robots.txt, llms.txt, meta robots, ...)
+    // Structure: AiReadinessAudit (see src/types/ai-readiness.ts)
+    aiReadinessAudit: jsonb('ai_readiness_audit'),
 
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true })
@@ -83,6 +453,22 @@ export const contentAnalysisSubmissions = pgTable(
     createdAtIdx: index('content_analysis_submissions_created_at_idx').on(
       table.createdAt
     ),
+    parentIdx: index('content_analysis_submissions_parent_idx').on(
+      table.parentSubmissionId
+    ),
+    ownerIdx: index('content_analysis_submissions_owner_idx').on(
+      table.ownerId
+    ),
+    workspaceIdx: index('content_analysis_submissions_workspace_idx').on(
+      table.workspaceId
+    ),
+    batchIdx: index('content_analysis_submissions_batch_idx').on(
+      table.batchId
+    ),
+    apiKeyIdx: index('content_analysis_submissions_api_key_idx').on(
+      table.apiKeyId,
+      table.createdAt
+    ),
   })
 )
 
@@ -93,7 +479,7 @@ export const contentAnalysisSubmissions = pgTable(
  * Stories: US-4.1, US-4.2, US-4.3, US-4.4
  *
  * Individual question test results for each submission.
- * Each row represents one question tested through OpenAI search.
+ * Each row represents one question tested through one AI search provider.
  */
 export const contentAnalysisResults = pgTable(
   'content_analysis_results',
@@ -111,6 +497,9 @@ export const contentAnalysisResults = pgTable(
     // Question tested
     question: text('question').notNull(),
 
+    // AI search provider that produced this result
+    provider: varchar('provider', { length: 20 }).notNull().default('openai'),
+
     // LLM response text (the actual answer generated by OpenAI)
     llmResponse: text('llm_response'),
 
@@ -121,6 +510,10 @@ export const contentAnalysisResults = pgTable(
     foundInSources: boolean('found_in_sources').default(false).notNull(),
     foundInCitations: boolean('found_in_citations').default(false).notNull(),
 
+    // How the target matched: 'exact' (your page), 'path_prefix' (same
+    // section) or 'domain' (your site). Citation match wins over source match.
+    matchType: varchar('match_type', { length: 20 }),
+
     // Citation and source data (stored as JSON)
     allCitations: jsonb('all_citations').default([]).notNull(),
     // Structure: Array<{ url: string, title?: string, position: number }>
@@ -147,10 +540,163 @@ export const contentAnalysisResults = pgTable(
   })
 )
 
+/**
+ * Content Analysis Schedules Table
+ *
+ * Recurring re-tests of a submission's stored FAQs. A cron-triggered
+ * handler creates a child submission for every schedule that is due.
+ */
+export const contentAnalysisSchedules = pgTable(
+  'content_analysis_schedules',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    // Original submission whose FAQs are re-tested (one schedule each)
+    submissionId: uuid('submission_id')
+      .notNull()
+      .unique()
+      .references(() => contentAnalysisSubmissions.id, {
+        onDelete: 'cascade',
+      }),
+
+    // Schedule settings
+    frequency: varchar('frequency', { length: 10 }).notNull(),
+    // Frequency values: 'daily' | 'weekly'
+    active: boolean('active').default(true).notNull(),
+
+    // Run tracking
+    nextRunAt: timestamp('next_run_at', { withTimezone: true }).notNull(),
+    lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    // Indexes for query performance
+    dueIdx: index('content_analysis_schedules_due_idx').on(
+      table.active,
+      table.nextRunAt
+    ),
+  })
+)
+
+/**
+ * Webhook Endpoints Table
+ *
+ * Workspace URLs that receive signed POSTs when submissions change status.
+ * The signing secret is stored as-is because every delivery is signed with it.
+ */
+export const webhookEndpoints = pgTable(
+  'webhook_endpoints',
+  {
+    // Primary key
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+
+    url: text('url').notNull(),
+
+    // HMAC-SHA256 signing secret ('whsec_...')
+    secret: varchar('secret', { length: 64 }).notNull(),
+
+    // Subscribed events (stored as JSON array)
+    // Values: 'submission.completed' | 'submission.failed' | 'submission.status_changed'
+    events: jsonb('events').notNull(),
+
+    active: boolean('active').notNull().default(true),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+  },
+  (table) => ({
+    workspaceIdIdx: index('webhook_endpoints_workspace_id_idx').on(
+      table.workspaceId
+    ),
+  })
+)
+
+/**
+ * Webhook Deliveries Table
+ *
+ * Delivery log: one row per event sent to an endpoint (redeliveries add a row).
+ */
+export const webhookDeliveries = pgTable(
+  'webhook_deliveries',
+  {
+    // Primary key (also sent as X-Datagum-Delivery)
+    id: uuid('id').defaultRandom().primaryKey(),
+
+    endpointId: uuid('endpoint_id')
+      .notNull()
+      .references(() => webhookEndpoints.id, { onDelete: 'cascade' }),
+
+    workspaceId: uuid('workspace_id')
+      .notNull()
+      .references(() => workspaces.id, { onDelete: 'cascade' }),
+
+    submissionId: uuid('submission_id').references(
+      () => contentAnalysisSubmissions.id,
+      { onDelete: 'set null' }
+    ),
+
+    event: varchar('event', { length: 40 }).notNull(),
+
+    // JSON body sent to the endpoint
+    payload: jsonb('payload').notNull(),
+
+    // Values: 'pending' | 'succeeded' | 'failed'
+    status: varchar('status', { length: 20 }).notNull().default('pending'),
+
+    attempts: integer('attempts').notNull().default(0),
+    responseStatus: integer('response_status'),
+    lastError: text('last_error'),
+
+    createdAt: timestamp('created_at', { withTimezone: true })
+      .defaultNow()
+      .notNull(),
+    deliveredAt: timestamp('delivered_at', { withTimezone: true }),
+  },
+  (table) => ({
+    workspaceCreatedIdx: index('webhook_deliveries_workspace_created_idx').on(
+      table.workspaceId,
+      table.createdAt
+    ),
+  })
+)
+
 // ============================================================================
 // TypeScript Types
 // ============================================================================
 
+// User types
+export type User = typeof users.$inferSelect
+export type NewUser = typeof users.$inferInsert
+export type UserSession = typeof userSessions.$inferSelect
+export type AuthAttemptKind = 'login' | 'magic_link'
+
+// Workspace types
+export type Workspace = typeof workspaces.$inferSelect
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect
+export type Project = typeof projects.$inferSelect
+export type ApiKey = typeof apiKeys.$inferSelect
+
+// Batch types
+export type SubmissionBatch = typeof submissionBatches.$inferSelect
+export type BatchSource = 'list' | 'csv' | 'sitemap'
+
 // Submission types
 export type Submission = typeof contentAnalysisSubmissions.$inferSelect
 export type NewSubmission = typeof contentAnalysisSubmissions.$inferInsert
@@ -159,6 +705,16 @@ export type NewSubmission = typeof contentAnalysisSubmissions.$inferInsert
 export type AnalysisResult = typeof contentAnalysisResults.$inferSelect
 export type NewAnalysisResult = typeof contentAnalysisResults.$inferInsert
 
+// Schedule types
+export type Schedule = typeof contentAnalysisSchedules.$inferSelect
+export type NewSchedule = typeof contentAnalysisSchedules.$inferInsert
+export type ScheduleFrequency = 'daily' | 'weekly'
+
+// Webhook types
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed'
+
 // Status type
 export type SubmissionStatus =
   | 'pending'
@@ -169,6 +725,16 @@ export type SubmissionStatus =
   | 'completed'
   | 'failed'
 
+// Analysis phases in execution order (used for resume checkpoints)
+export const ANALYSIS_PHASES = [
+  'scraping',
+  'generating_faqs',
+  'running_control',
+  'testing_faqs',
+] as const
+
+export type AnalysisPhase = (typeof ANALYSIS_PHASES)[number]
+
 // Citation type (for JSON fields)
 export interface CitationInfo {
   url: string
@@ -176,6 +742,14 @@ export interface CitationInfo {
   position: number // Citation position (1-indexed)
 }
 
+// Target URL aliases (for urlAliases JSONB field)
+export interface UrlAliasesData {
+  finalUrl?: string // Response URL after redirects
+  canonicalUrl?: string // <link rel="canonical">
+  ampUrl?: string // <link rel="amphtml">
+  ogUrl?: string // <meta property="og:url">
+}
+
 // FAQ type (for generatedFaqs JSONB field)
 export interface StoredFAQ {
   question: string // 40-70 characters
@@ -184,12 +758,22 @@ export interface StoredFAQ {
   numbers: string[] // Extracted numbers used in FAQ
 }
 
+// Per-provider 3-tier metrics (keyed by provider ID in testMetrics)
+export interface ProviderMetricsData {
+  isAccessible: boolean
+  inSourcesCount: number
+  inCitationsCount: number
+  totalFaqs: number
+}
+
 // Test metrics type (for testMetrics JSONB field)
 export interface TestMetricsData {
   isAccessible: boolean // Tier 1: Control test passed
   inSourcesCount: number // Tier 2: Count of FAQs found in sources
   inCitationsCount: number // Tier 3: Count of FAQs cited
-  totalFaqs: number // Total FAQs tested
+  totalFaqs: number // Total FAQs tested (summed across providers)
+  providerMetrics?: Record<string, ProviderMetricsData> // Per-provider breakdown
+  failedTests?: number // Tests that failed on every attempt (not in totalFaqs)
   // Note: Success rates can be calculated as:
   // tier2SuccessRate = (inSourcesCount / totalFaqs) * 100
   // tier3SuccessRate = (inCitationsCount / totalFaqs) * 100
@@ -0,0 +1,123 @@
+/**
+ * Article Analyzer - OpenAPI Document
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Builds the OpenAPI 3.1 document for /api/v1. Component schemas are
+ * generated from the zod schemas in schemas.ts; only paths are written here.
+ */
+
+import { z } from 'zod'
+import { apiSchemas } from '@/lib/api/v1/schemas'
+
+const ref = (id: string) => ({ $ref: `#/components/schemas/${id}` })
+
+const json = (id: string, description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref(id) } },
+})
+
+const errors = {
+  '401': json('ErrorResponse', 'Missing, invalid or revoked API key'),
+  '404': json('ErrorResponse', 'Analysis not found'),
+}
+
+const idParameter = {
+  name: 'id',
+  in: 'path',
+  required: true,
+  schema: { type: 'string', format: 'uuid' },
+}
+
+/**
+ * Generate the OpenAPI document
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const { schemas } = z.toJSONSchema(apiSchemas, {
+    uri: (id) => `#/components/schemas/${id}`,
+  })
+
+  // Components are embedded, so drop the standalone schema keywords
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema
+    delete schema.$id
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'datagum.ai API',
+      version: '1.0.0',
+      description:
+        'Create AI search visibility analyses and poll their results. ' +
+        'Authenticate with a workspace API key.',
+    },
+    servers: [{ url: `${serverUrl}/api/v1` }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/analyses': {
+        post: {
+          summary: 'Start an analysis',
+          operationId: 'createAnalysis',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: ref('CreateAnalysisRequest') },
+            },
+          },
+          responses: {
+            '202': json('AnalysisResponse', 'Analysis queued'),
+            '400': json('ErrorResponse', 'Invalid request'),
+            '401': errors['401'],
+            '429': json('ErrorResponse', 'Daily API key quota exceeded'),
+          },
+        },
+        get: {
+          summary: 'List recent analyses in the API key workspace',
+          operationId: 'listAnalyses',
+          parameters: [
+            {
+              name: 'limit',
+              in: 'query',
+              schema: { type: 'integer', minimum: 1, maximum: 50, default: 10 },
+            },
+            {
+              name: 'projectId',
+              in: 'query',
+              schema: { type: 'string', format: 'uuid' },
+            },
+          ],
+          responses: {
+            '200': json('AnalysisListResponse', 'Recent analyses'),
+            '401': errors['401'],
+          },
+        },
+      },
+      '/analyses/{id}': {
+        get: {
+          summary: 'Get an analysis with its results',
+          description:
+            'Poll until status is completed or failed. Results fill in ' +
+            'as questions are tested.',
+          operationId: 'getAnalysis',
+          parameters: [idParameter],
+          responses: {
+            '200': json('AnalysisResponse', 'The analysis'),
+            ...errors,
+          },
+        },
+      },
+    },
+    components: {
+      schemas,
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: "Workspace API key ('dg_...'), also accepted as X-API-Key",
+        },
+      },
+    },
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Article Analyzer - Public API Responses
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Response helpers for /api/v1: the error envelope, mapping service errors
+ * to status codes, and presenting submissions as analyses.
+ */
+
+import { NextResponse } from 'next/server'
+import { ZodError } from 'zod'
+import { ApiKeyError } from '@/services/api-key.service'
+import { RateLimitError, type QuotaStatus } from '@/services/rate-limiter.service'
+import { AnalysisQueueError } from '@/services/submission.service'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+import { getShareResultsPath } from '@/services/submission-access.service'
+import { calculateSuccessRates } from '@/utils/test-results-formatter'
+import { isMatchMode } from '@/utils/citation-parser'
+import type {
+  Analysis,
+  AnalysisSummary,
+} from '@/lib/api/v1/schemas'
+import type {
+  AnalysisResult,
+  CitationInfo,
+  Submission,
+  TestMetricsData,
+} from '@/db/schema'
+
+/**
+ * Build an error response in the v1 envelope
+ */
+export function apiError(
+  code: string,
+  message: string,
+  status: number,
+  headers?: HeadersInit
+): NextResponse {
+  return NextResponse.json(
+    { error: { code, message } },
+    { status, headers }
+  )
+}
+
+/**
+ * Rate limit headers for an API key quota
+ */
+export function quotaHeaders(quota: QuotaStatus): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(quota.limit),
+    'X-RateLimit-Remaining': String(quota.remaining),
+  }
+}
+
+/**
+ * Map an error thrown while handling a v1 request to a response
+ * Plain Errors are input validation failures when the handler validates
+ * input (POST), otherwise unexpected
+ */
+export function handleApiError(
+  error: unknown,
+  options: { plainErrorsAreInvalidInput?: boolean } = {}
+): NextResponse {
+  console.error('v1 API error:', error)
+
+  if (error instanceof ApiKeyError) {
+    return apiError('unauthorized', error.message, 401)
+  }
+
+  if (error instanceof RateLimitError) {
+    return apiError(
+      'quota_exceeded',
+      error.message,
+      429,
+      error.quota ? quotaHeaders(error.quota) : undefined
+    )
+  }
+
+  if (error instanceof ZodError) {
+    const issue = error.issues[0]
+    const path = issue?.path.join('.')
+    return apiError(
+      'invalid_request',
+      path ? `${path}: ${issue.message}` : 'Invalid request body',
+      400
+    )
+  }
+
+  if (error instanceof WorkspaceAccessError) {
+    return apiError(
+      error.statusCode === 404 ? 'not_found' : 'forbidden',
+      error.message,
+      error.statusCode
+    )
+  }
+
+  if (error instanceof AnalysisQueueError) {
+    return apiError('unavailable', error.message, 503)
+  }
+
+  if (options.plainErrorsAreInvalidInput && error instanceof Error) {
+    return apiError('invalid_request', error.message, 400)
+  }
+
+  return apiError('internal_error', 'An unexpected error occurred', 500)
+}
+
+/**
+ * Present a submission row as an analysis summary
+ */
+export function toAnalysisSummary(submission: {
+  id: string
+  url: string
+  status: string
+  articleTitle: string | null
+  projectId: string | null
+  createdAt: Date
+  completedAt: Date | null
+}): AnalysisSummary {
+  return {
+    id: submission.id,
+    url: submission.url,
+    status: submission.status as AnalysisSummary['status'],
+    articleTitle: submission.articleTitle,
+    projectId: submission.projectId,
+    createdAt: submission.createdAt.toISOString(),
+    completedAt: submission.completedAt?.toISOString() ?? null,
+  }
+}
+
+/**
+ * Present a submission and its test results as an analysis
+ */
+export function toAnalysis(
+  submission: Submission,
+  results: AnalysisResult[]
+): Analysis {
+  const testMetrics = submission.testMetrics as TestMetricsData | null
+
+  return {
+    ...toAnalysisSummary(submission),
+    error: submission.scrapingError,
+    partialContent: submission.partialContent,
+    searchProviders: submission.searchProviders as string[],
+    matchMode: isMatchMode(submission.matchMode)
+      ? submission.matchMode
+      : 'exact',
+    resultsUrl: getShareResultsPath(submission),
+    metrics: testMetrics
+      ? {
+          isAccessible: testMetrics.isAccessible,
+          totalFaqs: testMetrics.totalFaqs,
+          inSourcesCount: testMetrics.inSourcesCount,
+          inCitationsCount: testMetrics.inCitationsCount,
+          ...calculateSuccessRates(testMetrics),
+        }
+      : null,
+    results: results.map((r) => ({
+      question: r.question,
+      provider: r.provider,
+      foundInSources: r.foundInSources,
+      foundInCitations: r.foundInCitations,
+      matchType: isMatchMode(r.matchType) ? r.matchType : null,
+      citations: r.allCitations as CitationInfo[],
+      sources: r.allSources as string[],
+    })),
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Article Analyzer - Public API Schemas
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Zod schemas for /api/v1 requests and responses. Request bodies are
+ * validated with them and the OpenAPI document is generated from them,
+ * so the two cannot drift apart.
+ */
+
+import { z } from 'zod'
+import { MATCH_MODES, SEARCH_PROVIDER_IDS } from '@/types/search-testing'
+
+// Schemas registered here become named OpenAPI components
+export const apiSchemas = z.registry<{ id: string; description?: string }>()
+
+const Timestamp = z.string().meta({ format: 'date-time' })
+
+export const AnalysisStatusSchema = z.enum([
+  'pending',
+  'scraping',
+  'generating_faqs',
+  'running_control',
+  'testing_faqs',
+  'completed',
+  'failed',
+])
+
+export const CreateAnalysisRequestSchema = z.object({
+  url: z.string().min(1).describe('Article URL to analyze'),
+  providers: z
+    .array(z.enum(SEARCH_PROVIDER_IDS))
+    .min(1)
+    .optional()
+    .describe('AI search providers to test (defaults to all configured)'),
+  matchMode: z
+    .enum(MATCH_MODES)
+    .optional()
+    .describe('Loosest citation match that counts as found (default: exact)'),
+  projectId: z
+    .uuid()
+    .optional()
+    .describe('Project in the API key workspace to file the analysis under'),
+  credentials: z
+    .object({
+      headers: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe('Extra request headers, e.g. an Authorization bearer token'),
+      cookies: z
+        .string()
+        .optional()
+        .describe('Cookie header value, "name=value; name2=value2"'),
+      basicAuth: z
+        .object({ username: z.string(), password: z.string() })
+        .optional()
+        .describe('HTTP basic auth'),
+    })
+    .optional()
+    .describe(
+      'Credentials for gated articles; stored encrypted and only sent when scraping the article'
+    ),
+})
+
+// Query parameters for listing analyses (validated, not a component)
+export const ListAnalysesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+  projectId: z.uuid().optional(),
+})
+
+export const AnalysisSummarySchema = z.object({
+  id: z.uuid(),
+  url: z.string(),
+  status: AnalysisStatusSchema,
+  articleTitle: z.string().nullable(),
+  projectId: z.uuid().nullable(),
+  createdAt: Timestamp,
+  completedAt: Timestamp.nullable(),
+})
+
+export const AnalysisMetricsSchema = z.object({
+  isAccessible: z
+    .boolean()
+    .describe('Tier 1: the article was found for its own title'),
+  totalFaqs: z.number().int(),
+  inSourcesCount: z.number().int(),
+  inCitationsCount: z.number().int(),
+  tier2SuccessRate: z.number().describe('Percent of questions in sources'),
+  tier3SuccessRate: z.number().describe('Percent of questions cited'),
+})
+
+export const CitationSchema = z.object({
+  url: z.string(),
+  title: z.string().optional(),
+  position: z.number().int().describe('1-indexed position in the answer'),
+})
+
+export const TestResultSchema = z.object({
+  question: z.string(),
+  provider: z.string(),
+  foundInSources: z.boolean(),
+  foundInCitations: z.boolean(),
+  matchType: z.enum(MATCH_MODES).nullable(),
+  citations: z.array(CitationSchema),
+  sources: z.array(z.string()),
+})
+
+export const AnalysisSchema = AnalysisSummarySchema.extend({
+  error: z.string().nullable(),
+  partialContent: z
+    .boolean()
+    .describe('A soft paywall was detected; only part of the article was scraped'),
+  searchProviders: z.array(z.string()),
+  matchMode: z.enum(MATCH_MODES),
+  resultsUrl: z.string().describe('Shareable results page path'),
+  metrics: AnalysisMetricsSchema.nullable(),
+  results: z.array(TestResultSchema),
+})
+
+export const AnalysisResponseSchema = z.object({ analysis: AnalysisSchema })
+
+export const AnalysisListResponseSchema = z.object({
+  analyses: z.array(AnalysisSummarySchema),
+})
+
+export const ErrorResponseSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+  }),
+})
+
+apiSchemas.add(CreateAnalysisRequestSchema, { id: 'CreateAnalysisRequest' })
+apiSchemas.add(AnalysisSummarySchema, { id: 'AnalysisSummary' })
+apiSchemas.add(AnalysisMetricsSchema, { id: 'AnalysisMetrics' })
+apiSchemas.add(CitationSchema, { id: 'Citation' })
+apiSchemas.add(TestResultSchema, { id: 'TestResult' })
+apiSchemas.add(AnalysisSchema, { id: 'Analysis' })
+apiSchemas.add(AnalysisResponseSchema, { id: 'AnalysisResponse' })
+apiSchemas.add(AnalysisListResponseSchema, { id: 'AnalysisListResponse' })
+apiSchemas.add(ErrorResponseSchema, { id: 'ErrorResponse' })
+
+export type CreateAnalysisRequest = z.infer<typeof CreateAnalysisRequestSchema>
+export type AnalysisSummary = z.infer<typeof AnalysisSummarySchema>
+export type Analysis = z.infer<typeof AnalysisSchema>
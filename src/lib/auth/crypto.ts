@@ -0,0 +1,200 @@
+/**
+ * Article Analyzer - Auth Crypto Helpers
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Password hashing, token generation, HMAC signing and secret encryption
+ * with the Web Crypto API, which is available in Cloudflare Workers and
+ * Node.js alike.
+ */
+
+// Cloudflare Workers cap PBKDF2 at 100,000 iterations
+const PBKDF2_ITERATIONS = 100000
+const SALT_BYTES = 16
+const TOKEN_BYTES = 32
+const IV_BYTES = 12 // AES-GCM nonce
+
+/**
+ * Hash a password with PBKDF2-SHA256
+ * Format: pbkdf2$<iterations>$<salt>$<hash> (hex encoded)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES))
+  const hash = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS)
+
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${toHex(hash)}`
+}
+
+/**
+ * Verify a password against a stored PBKDF2 hash
+ */
+export async function verifyPassword(
+  password: string,
+  stored: string
+): Promise<boolean> {
+  const [scheme, iterations, salt, hash] = stored.split('$')
+
+  if (scheme !== 'pbkdf2' || !iterations || !salt || !hash) {
+    return false
+  }
+
+  const derived = await derivePasswordKey(
+    password,
+    fromHex(salt),
+    Number(iterations)
+  )
+
+  return timingSafeEqual(toHex(derived), hash)
+}
+
+/**
+ * Generate a random URL-safe token (256 bits)
+ */
+export function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES))
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+/**
+ * SHA-256 hash of a token (hex), used as its database key
+ */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(token)
+  )
+  return toHex(new Uint8Array(digest))
+}
+
+/**
+ * HMAC-SHA256 of a message (hex), used to sign webhook payloads
+ */
+export async function hmacSha256Hex(
+  secret: string,
+  message: string
+): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return toHex(new Uint8Array(signature))
+}
+
+/**
+ * Encrypt a secret with AES-256-GCM under a key derived from `secret`
+ * Format: aesgcm$<iv>$<ciphertext> (hex encoded)
+ */
+export async function encryptSecret(
+  plaintext: string,
+  secret: string
+): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const key = await importAesKey(secret)
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+
+  return `aesgcm$${toHex(iv)}$${toHex(new Uint8Array(ciphertext))}`
+}
+
+/**
+ * Decrypt a secret produced by encryptSecret
+ * Throws if the value was tampered with or the key is wrong
+ */
+export async function decryptSecret(
+  stored: string,
+  secret: string
+): Promise<string> {
+  const [scheme, iv, ciphertext] = stored.split('$')
+
+  if (scheme !== 'aesgcm' || !iv || !ciphertext) {
+    throw new Error('Unsupported encrypted secret format')
+  }
+
+  const key = await importAesKey(secret)
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromHex(iv) },
+    key,
+    fromHex(ciphertext)
+  )
+
+  return new TextDecoder().decode(plaintext)
+}
+
+/**
+ * Compare two strings in constant time (for equal lengths)
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+/**
+ * Derive a 256-bit key from a password with PBKDF2-SHA256
+ */
+async function derivePasswordKey(
+  password: string,
+  salt: BufferSource,
+  iterations: number
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  )
+
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    key,
+    256
+  )
+
+  return new Uint8Array(bits)
+}
+
+/**
+ * AES-256 key from the SHA-256 of a configured secret
+ */
+async function importAesKey(secret: string): Promise<CryptoKey> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(secret)
+  )
+
+  return crypto.subtle.importKey('raw', digest, 'AES-GCM', false, [
+    'encrypt',
+    'decrypt',
+  ])
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fromHex(hex: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(hex.length / 2)
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16)
+  }
+  return bytes
+}
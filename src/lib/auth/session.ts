@@ -0,0 +1,60 @@
+/**
+ * Article Analyzer - Session Cookie Helpers
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Reads and writes the HTTP-only session cookie. The cookie holds the raw
+ * session token; the database only stores its hash. Also reads the active
+ * workspace cookie.
+ */
+
+import type { NextRequest, NextResponse } from 'next/server'
+
+export const SESSION_COOKIE_NAME = 'datagum_session'
+
+// Workspace selected in the UI (set client-side, validated on every use)
+export const ACTIVE_WORKSPACE_COOKIE_NAME = 'datagum_workspace'
+
+/**
+ * Read the session token from the request cookies
+ */
+export function getSessionToken(request: NextRequest): string | undefined {
+  return request.cookies.get(SESSION_COOKIE_NAME)?.value || undefined
+}
+
+/**
+ * Read the active workspace ID from the request cookies
+ */
+export function getActiveWorkspaceId(request: NextRequest): string | undefined {
+  return request.cookies.get(ACTIVE_WORKSPACE_COOKIE_NAME)?.value || undefined
+}
+
+/**
+ * Set the session cookie on a response
+ */
+export function setSessionCookie(
+  response: NextResponse,
+  session: { token: string; expiresAt: Date }
+): void {
+  response.cookies.set(SESSION_COOKIE_NAME, session.token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    expires: session.expiresAt,
+  })
+}
+
+/**
+ * Clear the session cookie on a response
+ */
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  })
+}
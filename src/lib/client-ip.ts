@@ -0,0 +1,63 @@
+/**
+ * Article Analyzer - Client IP
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: US-1.2
+ *
+ * Reads the caller's IP address from proxy headers for per-IP rate
+ * limits. Localhost addresses are ignored, so local development is
+ * never limited.
+ */
+
+import type { NextRequest } from 'next/server'
+
+/**
+ * Check if IP is localhost
+ */
+function isLocalhostIP(ip: string): boolean {
+  const localhostPatterns = [
+    '127.0.0.1',
+    '::1',
+    '::ffff:127.0.0.1',
+    'localhost',
+  ]
+  return localhostPatterns.includes(ip)
+}
+
+/**
+ * Extract user IP address from request
+ */
+export function extractUserIP(request: NextRequest): string | undefined {
+  let ip: string | undefined
+
+  // Cloudflare-specific header (most reliable on Cloudflare)
+  const cfConnectingIp = request.headers.get('cf-connecting-ip')
+  if (cfConnectingIp && !isLocalhostIP(cfConnectingIp)) {
+    return cfConnectingIp
+  }
+
+  // Try X-Forwarded-For header (proxies)
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    // Take first IP if multiple
+    ip = forwardedFor.split(',')[0].trim()
+    if (ip && !isLocalhostIP(ip)) {
+      return ip
+    }
+  }
+
+  // Try X-Real-IP header
+  const realIp = request.headers.get('x-real-ip')
+  if (realIp && !isLocalhostIP(realIp)) {
+    return realIp
+  }
+
+  // Try to access IP from request object (if available)
+  const requestWithIp = request as NextRequest & { ip?: string }
+  if (requestWithIp.ip && !isLocalhostIP(requestWithIp.ip)) {
+    return requestWithIp.ip
+  }
+
+  // Return undefined for localhost (no rate limiting during local dev)
+  return undefined
+}
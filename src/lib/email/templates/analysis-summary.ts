@@ -0,0 +1,134 @@
+/**
+ * Article Analyzer - Analysis Summary Email Template
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Email notifications
+ *
+ * Renders the email sent when an analysis completes or fails: Tier 1-3
+ * results, the top competing domains and a link to the results page.
+ * Returns both plain-text and HTML bodies.
+ */
+
+import { escapeHtml } from '@/lib/shared/utils'
+
+const FOOTER = 'You received this because you asked to be notified on datagum.ai.'
+
+export interface AnalysisSummaryEmailData {
+  url: string
+  articleTitle: string | null
+  status: 'completed' | 'failed'
+  error: string | null
+  resultsUrl: string // Absolute link to /results/[id]
+  metrics: {
+    isAccessible: boolean
+    totalFaqs: number
+    inSourcesCount: number
+    inCitationsCount: number
+    tier2SuccessRate: number
+    tier3SuccessRate: number
+  } | null
+  competitors: Array<{ domain: string; shareOfVoice: number }>
+  targetShareOfVoice: number | null
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+/**
+ * Render the analysis summary email
+ */
+export function renderAnalysisSummaryEmail(
+  data: AnalysisSummaryEmailData
+): RenderedEmail {
+  const name = data.articleTitle || data.url
+
+  const subject =
+    data.status === 'completed'
+      ? `Your AI search visibility results: ${truncate(name, 60)}`
+      : `We couldn't finish analyzing ${truncate(name, 60)}`
+
+  const lines: string[] = []
+  const sections: string[] = []
+
+  if (data.status === 'failed') {
+    const reason = data.error || 'An unexpected error occurred'
+    lines.push(`The analysis of ${data.url} failed: ${reason}`)
+    sections.push(
+      `<p>The analysis of <a href="${escapeHtml(data.url)}">${escapeHtml(data.url)}</a> failed:</p>` +
+        `<p style="color:#b91c1c">${escapeHtml(reason)}</p>`
+    )
+  } else {
+    lines.push(`The analysis of ${data.url} is complete.`)
+    sections.push(
+      `<p>The analysis of <a href="${escapeHtml(data.url)}">${escapeHtml(name)}</a> is complete.</p>`
+    )
+
+    if (data.metrics) {
+      const tiers = getTierLines(data.metrics)
+      lines.push('', ...tiers)
+      sections.push(
+        `<ul>${tiers.map((tier) => `<li>${escapeHtml(tier)}</li>`).join('')}</ul>`
+      )
+    }
+
+    if (data.competitors.length > 0) {
+      const competitorLines = data.competitors.map(
+        (c, i) => `${i + 1}. ${c.domain} (${formatPercent(c.shareOfVoice)} of citations)`
+      )
+      const intro =
+        data.targetShareOfVoice !== null
+          ? `Your site earned ${formatPercent(data.targetShareOfVoice)} of citations. Top competing domains:`
+          : 'Top competing domains:'
+
+      lines.push('', intro, ...competitorLines)
+      sections.push(
+        `<p>${escapeHtml(intro)}</p>` +
+          `<ol>${data.competitors
+            .map(
+              (c) =>
+                `<li>${escapeHtml(c.domain)} (${formatPercent(c.shareOfVoice)} of citations)</li>`
+            )
+            .join('')}</ol>`
+      )
+    }
+  }
+
+  lines.push('', `View the full results: ${data.resultsUrl}`)
+  sections.push(
+    `<p><a href="${escapeHtml(data.resultsUrl)}">View the full results</a></p>`
+  )
+
+  lines.push('', FOOTER)
+
+  const html =
+    '<div style="font-family:-apple-system,Segoe UI,sans-serif;line-height:1.5;color:#111">' +
+    sections.join('') +
+    `<p style="color:#6b7280;font-size:12px">${FOOTER}</p>` +
+    '</div>'
+
+  return { subject, text: lines.join('\n'), html }
+}
+
+/**
+ * One line per testing tier
+ */
+function getTierLines(
+  metrics: NonNullable<AnalysisSummaryEmailData['metrics']>
+): string[] {
+  return [
+    `Tier 1 (accessibility): ${metrics.isAccessible ? 'Passed' : 'Failed'} - AI search ${metrics.isAccessible ? 'can' : 'could not'} reach the article when asked about its URL`,
+    `Tier 2 (sources): ${metrics.inSourcesCount}/${metrics.totalFaqs} questions (${formatPercent(metrics.tier2SuccessRate)})`,
+    `Tier 3 (citations): ${metrics.inCitationsCount}/${metrics.totalFaqs} questions (${formatPercent(metrics.tier3SuccessRate)})`,
+  ]
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 10) / 10}%`
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value
+}
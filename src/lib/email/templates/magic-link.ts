@@ -0,0 +1,47 @@
+/**
+ * Article Analyzer - Magic Link Email Template
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Renders the sign-in email carrying a single-use magic link.
+ * Returns both plain-text and HTML bodies.
+ */
+
+import { escapeHtml } from '@/lib/shared/utils'
+import type { RenderedEmail } from '@/lib/email/templates/analysis-summary'
+
+const FOOTER =
+  "You received this because someone asked to sign in to datagum.ai with this email. If it wasn't you, ignore it."
+
+export interface MagicLinkEmailData {
+  link: string // Absolute sign-in link
+  expiresInMinutes: number
+}
+
+/**
+ * Render the magic link sign-in email
+ */
+export function renderMagicLinkEmail(data: MagicLinkEmailData): RenderedEmail {
+  const expiry = `The link expires in ${data.expiresInMinutes} minutes and can be used once.`
+
+  const text = [
+    'Sign in to datagum.ai with this link:',
+    '',
+    data.link,
+    '',
+    expiry,
+    '',
+    FOOTER,
+  ].join('\n')
+
+  const html =
+    '<div style="font-family:-apple-system,Segoe UI,sans-serif;line-height:1.5;color:#111">' +
+    '<p>Sign in to datagum.ai with this link:</p>' +
+    `<p><a href="${escapeHtml(data.link)}">Sign in</a></p>` +
+    `<p>${escapeHtml(expiry)}</p>` +
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(FOOTER)}</p>` +
+    '</div>'
+
+  return { subject: 'Your datagum.ai sign-in link', text, html }
+}
@@ -0,0 +1,101 @@
+/**
+ * Article Analyzer - Email Transport
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Email notifications
+ *
+ * Pluggable delivery for outgoing email. Resend is used when RESEND_API_KEY
+ * is set; otherwise emails are logged (development only). A capture
+ * transport keeps sent emails in memory for tests.
+ */
+
+import type { EmailMessage } from '@/lib/shared/queue-messages'
+
+const RESEND_API_URL = 'https://api.resend.com/emails'
+const DEFAULT_FROM = 'datagum.ai <notifications@datagum.ai>'
+
+export type OutgoingEmail = EmailMessage['payload']
+
+/**
+ * Delivers emails
+ */
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<void>
+}
+
+/**
+ * Default transport: logs emails outside production
+ */
+export const consoleEmailTransport: EmailTransport = {
+  async send(email) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('Email delivery is not configured (set RESEND_API_KEY)')
+    }
+    console.log(
+      `[Email] To: ${email.to}\nSubject: ${email.subject}\n\n${email.body}`
+    )
+  },
+}
+
+/**
+ * Local transport that captures emails in memory (for tests)
+ */
+export function createCaptureEmailTransport(): EmailTransport & {
+  sent: OutgoingEmail[]
+} {
+  const sent: OutgoingEmail[] = []
+
+  return {
+    sent,
+    async send(email) {
+      sent.push(email)
+    },
+  }
+}
+
+/**
+ * Transport that sends through the Resend HTTP API
+ */
+export function createResendEmailTransport(
+  apiKey: string,
+  defaultFrom: string = DEFAULT_FROM
+): EmailTransport {
+  return {
+    async send(email) {
+      const response = await fetch(RESEND_API_URL, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: email.from ?? defaultFrom,
+          to: [email.to],
+          subject: email.subject,
+          text: email.body,
+          html: email.html,
+        }),
+      })
+
+      if (!response.ok) {
+        throw new Error(
+          `Resend API error: ${response.status} ${await response.text()}`
+        )
+      }
+    },
+  }
+}
+
+/**
+ * Pick the transport configured for an environment
+ */
+export function getEmailTransport(env: CloudflareEnv): EmailTransport {
+  if (env.RESEND_API_KEY) {
+    return createResendEmailTransport(
+      env.RESEND_API_KEY,
+      env.EMAIL_FROM || DEFAULT_FROM
+    )
+  }
+
+  return consoleEmailTransport
+}
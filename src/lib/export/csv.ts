@@ -0,0 +1,40 @@
+/**
+ * Article Analyzer - CSV Writer
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Results exports
+ *
+ * Serializes rows to RFC 4180 CSV. Cells that spreadsheet apps would
+ * evaluate as formulas are prefixed with a quote, since exported answers
+ * come from third-party AI responses.
+ */
+
+export type CsvCell = string | number | boolean | null | undefined
+
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r']
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(header: string[], rows: CsvCell[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(formatCell).join(','))
+    .join('\r\n')
+}
+
+/**
+ * Quote a cell when needed and neutralize formula injection
+ */
+function formatCell(cell: CsvCell): string {
+  if (cell === null || cell === undefined) {
+    return ''
+  }
+
+  let value = String(cell)
+
+  if (typeof cell === 'string' && FORMULA_PREFIXES.includes(value[0])) {
+    value = `'${value}`
+  }
+
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
@@ -0,0 +1,175 @@
+/**
+ * Article Analyzer - Results Report Template
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Results exports
+ *
+ * Renders a branded, printable HTML report of a completed analysis:
+ * tier metrics, the performance summary, top competing domains, the
+ * generated FAQs and per-question results. Print styles keep it tidy when
+ * saved as PDF from the browser's print dialog.
+ */
+
+import { escapeHtml } from '@/lib/shared/utils'
+import type { ResultExportRow } from '@/types/export'
+
+export interface ResultsReportData {
+  url: string
+  articleTitle: string | null
+  completedAt: Date | null
+  generatedAt: Date
+  resultsUrl: string // Absolute link to /results/[id]
+  metrics: {
+    isAccessible: boolean
+    totalFaqs: number
+    inSourcesCount: number
+    inCitationsCount: number
+    tier2SuccessRate: number
+    tier3SuccessRate: number
+  }
+  performanceSummary: string // From getPerformanceSummary
+  faqs: Array<{ question: string; answer: string }>
+  competitors: Array<{ domain: string; shareOfVoice: number }>
+  targetShareOfVoice: number | null
+  rows: ResultExportRow[]
+}
+
+const STYLES = `
+  body { font-family: -apple-system, Segoe UI, sans-serif; color: #111; line-height: 1.5; max-width: 960px; margin: 0 auto; padding: 32px; }
+  header { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 2px solid #111; padding-bottom: 12px; margin-bottom: 24px; }
+  .brand { font-size: 20px; font-weight: 700; letter-spacing: -0.02em; }
+  .muted { color: #6b7280; font-size: 13px; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 32px 0 12px; }
+  .tiers { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  .tier { border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; }
+  .tier strong { display: block; font-size: 24px; }
+  pre { background: #f9fafb; border: 1px solid #e5e7eb; border-radius: 8px; padding: 12px; white-space: pre-wrap; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { text-align: left; border-bottom: 1px solid #e5e7eb; padding: 6px 8px; vertical-align: top; }
+  .yes { color: #15803d; font-weight: 600; }
+  .no { color: #b91c1c; }
+  dt { font-weight: 600; margin-top: 12px; }
+  dd { margin: 4px 0 0; }
+  .print { margin-left: 12px; }
+  @media print {
+    body { padding: 0; }
+    .print { display: none; }
+    h2 { break-after: avoid; }
+    tr, dt, dd { break-inside: avoid; }
+  }
+`
+
+/**
+ * Render the results report as a standalone HTML document
+ */
+export function renderResultsReport(data: ResultsReportData): string {
+  const name = data.articleTitle || data.url
+  const { metrics } = data
+
+  const sections = [
+    `<header><span class="brand">datagum.ai</span>` +
+      `<span class="muted">AI search visibility report • ${formatDate(data.generatedAt)}` +
+      `<button class="print" onclick="window.print()">Print / Save as PDF</button></span></header>`,
+    `<h1>${escapeHtml(name)}</h1>` +
+      `<p class="muted"><a href="${escapeHtml(data.url)}">${escapeHtml(data.url)}</a>` +
+      (data.completedAt ? ` • Analyzed ${formatDate(data.completedAt)}` : '') +
+      '</p>',
+    '<h2>Results</h2>' +
+      '<div class="tiers">' +
+      tier(
+        'Tier 1: Accessibility',
+        metrics.isAccessible ? 'Passed' : 'Failed',
+        'AI search can find the article by its title'
+      ) +
+      tier(
+        'Tier 2: In sources',
+        `${formatPercent(metrics.tier2SuccessRate)}`,
+        `${metrics.inSourcesCount} of ${metrics.totalFaqs} questions`
+      ) +
+      tier(
+        'Tier 3: Cited',
+        `${formatPercent(metrics.tier3SuccessRate)}`,
+        `${metrics.inCitationsCount} of ${metrics.totalFaqs} questions`
+      ) +
+      '</div>',
+    `<h2>Performance summary</h2><pre>${escapeHtml(data.performanceSummary)}</pre>`,
+  ]
+
+  if (data.competitors.length > 0) {
+    sections.push(
+      '<h2>Top competing domains</h2>' +
+        (data.targetShareOfVoice !== null
+          ? `<p>Your site earned ${formatPercent(data.targetShareOfVoice)} of citations.</p>`
+          : '') +
+        '<table><thead><tr><th>Domain</th><th>Share of citations</th></tr></thead><tbody>' +
+        data.competitors
+          .map(
+            (c) =>
+              `<tr><td>${escapeHtml(c.domain)}</td><td>${formatPercent(c.shareOfVoice)}</td></tr>`
+          )
+          .join('') +
+        '</tbody></table>'
+    )
+  }
+
+  if (data.faqs.length > 0) {
+    sections.push(
+      '<h2>Questions tested</h2><dl>' +
+        data.faqs
+          .map(
+            (faq) =>
+              `<dt>${escapeHtml(faq.question)}</dt><dd>${escapeHtml(faq.answer)}</dd>`
+          )
+          .join('') +
+        '</dl>'
+    )
+  }
+
+  sections.push(
+    '<h2>Per-question results</h2>' +
+      '<table><thead><tr><th>Question</th><th>Engine</th><th>In sources</th>' +
+      '<th>Cited</th><th>Position</th><th>Competitors cited</th></tr></thead><tbody>' +
+      data.rows
+        .map(
+          (row) =>
+            `<tr><td>${escapeHtml(row.question)}</td>` +
+            `<td>${escapeHtml(row.provider)}</td>` +
+            `<td>${flag(row.inSources)}</td>` +
+            `<td>${flag(row.inCitations)}</td>` +
+            `<td>${row.citationPosition ?? '—'}</td>` +
+            `<td>${escapeHtml(row.competitorDomains.slice(0, 5).join(', ') || '—')}</td></tr>`
+        )
+        .join('') +
+      '</tbody></table>',
+    `<p class="muted">Full interactive results: <a href="${escapeHtml(data.resultsUrl)}">${escapeHtml(data.resultsUrl)}</a></p>`
+  )
+
+  return (
+    '<!DOCTYPE html><html lang="en"><head><meta charset="utf-8">' +
+    `<title>${escapeHtml(`AI search visibility report: ${name}`)}</title>` +
+    `<style>${STYLES}</style></head><body>` +
+    sections.join('') +
+    '</body></html>'
+  )
+}
+
+function tier(label: string, value: string, detail: string): string {
+  return (
+    `<div class="tier"><span class="muted">${escapeHtml(label)}</span>` +
+    `<strong>${escapeHtml(value)}</strong>` +
+    `<span class="muted">${escapeHtml(detail)}</span></div>`
+  )
+}
+
+function flag(value: boolean): string {
+  return value ? '<span class="yes">Yes</span>' : '<span class="no">No</span>'
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 10) / 10}%`
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
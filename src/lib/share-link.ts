@@ -0,0 +1,29 @@
+/**
+ * Article Analyzer - Share Links
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Builds URLs carrying a submission's share token. Used by both the API
+ * routes and client components, so it has no server-only imports.
+ */
+
+/**
+ * Query parameter carrying the share token
+ */
+export const SHARE_TOKEN_PARAM = 'share'
+
+/**
+ * Append the share token (if any) to a page or API path
+ */
+export function withShareToken(
+  path: string,
+  shareToken?: string | null
+): string {
+  if (!shareToken) {
+    return path
+  }
+
+  const separator = path.includes('?') ? '&' : '?'
+  return `${path}${separator}${SHARE_TOKEN_PARAM}=${encodeURIComponent(shareToken)}`
+}
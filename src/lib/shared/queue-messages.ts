@@ -71,6 +71,8 @@ export const WebhookMessageSchema = z.object({
     method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
     headers: z.record(z.string(), z.string()).optional(),
     body: z.any().optional(),
+    // Set for workspace webhook deliveries (signed and logged by the consumer)
+    deliveryId: z.string().uuid().optional(),
   }),
   timestamp: z.number(),
   retryCount: z.number().default(0),
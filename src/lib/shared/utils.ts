@@ -69,3 +69,24 @@ export function formatDate(date: Date): string {
 export function parseDate(str: string): Date {
   return new Date(str)
 }
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Public base URL of the app (APP_URL) for links in emails and exported
+ * reports, without a trailing slash. Request origins are never used: the
+ * Host header is client-controlled.
+ */
+export function getAppUrl(env: CloudflareEnv): string {
+  return (env.APP_URL || 'https://datagum.ai').replace(/\/+$/, '')
+}
@@ -0,0 +1,158 @@
+/**
+ * Queue consumer: retries with an incremented retryCount, then dead-letters
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { InMemoryQueue } from '@/queue/in-memory-queue'
+import { queueHandler } from '@/queue/handler'
+import { enqueueSubmissionJob } from '@/queue/producer'
+import { MAX_JOB_RETRIES } from '@/queue/retry-policy'
+import { analyzeArticle } from '@/services/analysis.service'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { ContentNotFoundError, NetworkError } from '@/types/scraping-errors'
+import type { SubmissionJobMessage } from '@/lib/shared/queue-messages'
+
+vi.mock('@/services/analysis.service', () => ({ analyzeArticle: vi.fn() }))
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+}))
+
+const SUBMISSION_ID = '3f0c1a52-7a3e-4c4e-9a55-0b6f2d1c9e01'
+const URL = 'https://example.com/article'
+
+let queue: InMemoryQueue
+let dlq: InMemoryQueue
+let env: CloudflareEnv
+
+/**
+ * Make analyzeArticle fail with the given error on every attempt
+ */
+function failWith(error: Error) {
+  vi.mocked(analyzeArticle).mockImplementation(
+    async (submissionId, _url, options) => ({
+      success: false,
+      submissionId,
+      error: error.message,
+      retrying: options?.willRetry?.(error) ?? false,
+    })
+  )
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  queue = new InMemoryQueue('article-analysis')
+  dlq = new InMemoryQueue('article-analysis-dlq')
+  env = {
+    ARTICLE_ANALYSIS_QUEUE: queue,
+    ARTICLE_ANALYSIS_DLQ: dlq,
+  } as unknown as CloudflareEnv
+
+  vi.mocked(getSubmissionById).mockResolvedValue({
+    id: SUBMISSION_ID,
+    status: 'processing',
+  } as Awaited<ReturnType<typeof getSubmissionById>>)
+})
+
+describe('queueHandler', () => {
+  it('acknowledges a job that succeeds', async () => {
+    vi.mocked(analyzeArticle).mockResolvedValue({
+      success: true,
+      submissionId: SUBMISSION_ID,
+    })
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(analyzeArticle).toHaveBeenCalledTimes(1)
+    expect(queue.acked).toHaveLength(1)
+    expect(dlq.pending).toHaveLength(0)
+  })
+
+  it('re-enqueues retryable failures with an incremented retryCount and backoff', async () => {
+    failWith(new NetworkError('Server error (503)', 503))
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    const jobs = queue.acked.map((item) => item.body as SubmissionJobMessage)
+    expect(jobs.map((job) => job.retryCount)).toEqual([0, 1, 2, 3])
+    expect(queue.acked.map((item) => item.delaySeconds)).toEqual([
+      undefined,
+      2,
+      4,
+      8,
+    ])
+    expect(analyzeArticle).toHaveBeenCalledTimes(MAX_JOB_RETRIES + 1)
+  })
+
+  it('dead-letters a job once its retries are exhausted', async () => {
+    failWith(new NetworkError('Server error (503)', 503))
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(dlq.pending).toHaveLength(1)
+    const dead = dlq.pending[0].body as {
+      body: SubmissionJobMessage
+      reason: string
+    }
+    expect(dead.body.retryCount).toBe(MAX_JOB_RETRIES)
+    expect(dead.reason).toBe('Retries exhausted: Server error (503)')
+  })
+
+  it('neither retries nor dead-letters a non-retryable failure', async () => {
+    failWith(new ContentNotFoundError())
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(analyzeArticle).toHaveBeenCalledTimes(1)
+    expect(queue.acked).toHaveLength(1)
+    expect(dlq.pending).toHaveLength(0)
+  })
+
+  it('dead-letters messages that fail validation', async () => {
+    await queue.send({ type: 'process-submission', payload: {} })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(analyzeArticle).not.toHaveBeenCalled()
+    expect(dlq.pending).toHaveLength(1)
+    expect(dlq.pending[0].body).toMatchObject({
+      reason: 'Invalid message format',
+    })
+  })
+
+  it('skips jobs for submissions that already finished', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue({
+      id: SUBMISSION_ID,
+      status: 'completed',
+    } as Awaited<ReturnType<typeof getSubmissionById>>)
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(analyzeArticle).not.toHaveBeenCalled()
+    expect(queue.acked).toHaveLength(1)
+  })
+
+  it('lets the runtime redeliver a message when processing throws', async () => {
+    vi.mocked(getSubmissionById)
+      .mockRejectedValueOnce(new Error('Database unavailable'))
+      .mockResolvedValue({
+        id: SUBMISSION_ID,
+        status: 'completed',
+      } as Awaited<ReturnType<typeof getSubmissionById>>)
+    await enqueueSubmissionJob(queue, { submissionId: SUBMISSION_ID, url: URL })
+
+    await queue.drain((batch) => queueHandler(batch, env))
+
+    expect(queue.acked).toHaveLength(1)
+    expect(queue.acked[0].attempts).toBe(2)
+    expect(queue.acked[0].delaySeconds).toBe(4)
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Article Analyzer - Queue Consumer
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: US-6.1, US-6.2, US-6.3, US-6.4
+ *
+ * Consumes messages from the article analysis queue (wired up in
+ * worker-wrapper.ts). Every message is validated with the shared Zod schema
+ * and routed by type. Failed submission jobs are re-queued with an
+ * incremented `retryCount` and dead-lettered once retries are exhausted.
+ * Webhook deliveries retry with backoff inside the handler and are logged;
+ * notification emails that fail to send are redelivered by Cloudflare.
+ * Batch jobs create one submission job per URL and are safe to redeliver.
+ */
+
+import {
+  safeParseQueueMessage,
+  isMessageType,
+  type SubmissionJobMessage,
+} from '@/lib/shared/queue-messages'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { SYSTEM_SCOPE } from '@/repositories/scope'
+import { analyzeArticle } from '@/services/analysis.service'
+import { deliverWebhook } from '@/services/webhook.service'
+import { sendQueuedEmail } from '@/services/notification.service'
+import { processBatchMessage } from '@/services/batch.service'
+import {
+  canRetry,
+  getRetryDelaySeconds,
+  isRetryableError,
+} from '@/queue/retry-policy'
+import { deadLetterMessage, requeueSubmissionJob } from '@/queue/producer'
+
+const TERMINAL_STATUSES = ['completed', 'failed']
+
+/**
+ * Process a batch of queue messages
+ */
+export async function queueHandler(
+  batch: MessageBatch<unknown>,
+  env: CloudflareEnv
+): Promise<void> {
+  console.log(
+    `[Queue] Processing batch of ${batch.messages.length} messages from ${batch.queue}`
+  )
+
+  // Process sequentially - each job already fans out to several API calls
+  for (const message of batch.messages) {
+    try {
+      await processMessage(message, env)
+      message.ack()
+    } catch (error) {
+      // Unexpected failure (e.g. database unavailable) - let Cloudflare redeliver
+      console.error(`[Queue] Message ${message.id} failed, retrying:`, error)
+      message.retry({ delaySeconds: getRetryDelaySeconds(message.attempts) })
+    }
+  }
+}
+
+/**
+ * Validate a single message and route it to its handler
+ */
+async function processMessage(
+  message: Message<unknown>,
+  env: CloudflareEnv
+): Promise<void> {
+  const parsed = safeParseQueueMessage(message.body)
+
+  if (!parsed.success) {
+    console.error(
+      `[Queue] Invalid message ${message.id}:`,
+      parsed.error.issues
+    )
+    await deadLetterMessage(
+      env.ARTICLE_ANALYSIS_DLQ,
+      message.body,
+      'Invalid message format'
+    )
+    return
+  }
+
+  const queueMessage = parsed.data
+
+  if (isMessageType(queueMessage, 'process-submission')) {
+    await processSubmissionJob(queueMessage, env)
+    return
+  }
+
+  if (isMessageType(queueMessage, 'batch-process')) {
+    await processBatchMessage(queueMessage, env)
+    return
+  }
+
+  if (isMessageType(queueMessage, 'webhook')) {
+    await deliverWebhook(queueMessage, env)
+    return
+  }
+
+  if (isMessageType(queueMessage, 'email')) {
+    await sendQueuedEmail(queueMessage, env)
+    return
+  }
+
+  console.warn(`[Queue] No handler for message type: ${queueMessage.type}`)
+}
+
+/**
+ * Run the analysis workflow for a submission job
+ */
+export async function processSubmissionJob(
+  message: SubmissionJobMessage,
+  env: CloudflareEnv
+): Promise<void> {
+  const { submissionId, url } = message.payload
+
+  const submission = await getSubmissionById(submissionId, SYSTEM_SCOPE, env)
+
+  if (!submission) {
+    console.warn(`[Queue] Submission ${submissionId} not found, skipping`)
+    return
+  }
+
+  // Duplicate delivery - nothing left to do
+  if (TERMINAL_STATUSES.includes(submission.status)) {
+    console.log(
+      `[Queue] Submission ${submissionId} already ${submission.status}, skipping`
+    )
+    return
+  }
+
+  const retryAllowed = canRetry(message.retryCount)
+
+  console.log(
+    `[Queue] Starting job for submission ${submissionId} (retry ${message.retryCount})`
+  )
+
+  const result = await analyzeArticle(submissionId, url, {
+    env,
+    willRetry: (error) => retryAllowed && isRetryableError(error),
+  })
+
+  if (result.success) {
+    console.log(
+      `[Queue] Job for submission ${submissionId} completed in ${result.duration}ms`
+    )
+    return
+  }
+
+  if (result.retrying) {
+    await requeueSubmissionJob(
+      env.ARTICLE_ANALYSIS_QUEUE,
+      message,
+      getRetryDelaySeconds(message.retryCount)
+    )
+    return
+  }
+
+  console.error(
+    `[Queue] Job for submission ${submissionId} failed after ${message.retryCount} retries: ${result.error}`
+  )
+
+  if (!retryAllowed) {
+    await deadLetterMessage(
+      env.ARTICLE_ANALYSIS_DLQ,
+      message,
+      `Retries exhausted: ${result.error}`
+    )
+  }
+}
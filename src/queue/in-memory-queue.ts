@@ -0,0 +1,117 @@
+/**
+ * Article Analyzer - In-Memory Queue
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: US-6.1, US-6.2, US-6.3
+ *
+ * Local stand-in for a Cloudflare Queue binding, used in tests and scripts
+ * where no Worker runtime is available. Sent messages are held in memory
+ * and delivered to a consumer with `drain()`, honouring ack/retry calls.
+ * Delays are recorded but not waited on.
+ */
+
+export interface InMemoryQueuedMessage<Body = unknown> {
+  id: string
+  body: Body
+  attempts: number
+  delaySeconds?: number
+}
+
+export class InMemoryQueue<Body = unknown> implements Queue<Body> {
+  readonly pending: InMemoryQueuedMessage<Body>[] = []
+  readonly acked: InMemoryQueuedMessage<Body>[] = []
+
+  constructor(readonly name: string = 'in-memory-queue') {}
+
+  async send(body: Body, options?: QueueSendOptions): Promise<void> {
+    this.pending.push({
+      id: crypto.randomUUID(),
+      body,
+      attempts: 0,
+      delaySeconds: options?.delaySeconds,
+    })
+  }
+
+  async sendBatch(
+    messages: Iterable<MessageSendRequest<Body>>,
+    options?: QueueSendBatchOptions
+  ): Promise<void> {
+    for (const message of messages) {
+      await this.send(message.body, {
+        delaySeconds: message.delaySeconds ?? options?.delaySeconds,
+      })
+    }
+  }
+
+  /**
+   * Deliver pending messages to a consumer until the queue is empty
+   *
+   * Messages the consumer retries are delivered again, up to `maxAttempts`.
+   * Returns the number of batches delivered.
+   */
+  async drain(
+    consumer: (batch: MessageBatch<Body>) => Promise<void>,
+    maxAttempts: number = 5
+  ): Promise<number> {
+    let batches = 0
+
+    while (this.pending.length > 0) {
+      const queued = this.pending.splice(0, this.pending.length)
+      const outcomes = new Map<string, 'ack' | 'retry'>()
+
+      const messages = queued.map((item) => {
+        item.attempts++
+        return createMessage(item, outcomes)
+      })
+
+      await consumer({
+        messages,
+        queue: this.name,
+        retryAll: (options) => messages.forEach((m) => m.retry(options)),
+        ackAll: () => messages.forEach((m) => m.ack()),
+      })
+      batches++
+
+      for (const item of queued) {
+        // Unacknowledged messages are retried, like the real runtime
+        if (outcomes.get(item.id) === 'ack') {
+          this.acked.push(item)
+        } else if (item.attempts < maxAttempts) {
+          this.pending.push(item)
+        }
+      }
+    }
+
+    return batches
+  }
+
+  /**
+   * Remove all pending and acknowledged messages
+   */
+  clear(): void {
+    this.pending.length = 0
+    this.acked.length = 0
+  }
+}
+
+/**
+ * Wrap a queued item in the runtime's Message interface
+ */
+function createMessage<Body>(
+  item: InMemoryQueuedMessage<Body>,
+  outcomes: Map<string, 'ack' | 'retry'>
+): Message<Body> {
+  return {
+    id: item.id,
+    timestamp: new Date(),
+    body: item.body,
+    attempts: item.attempts,
+    ack: () => {
+      outcomes.set(item.id, 'ack')
+    },
+    retry: (options?: QueueRetryOptions) => {
+      item.delaySeconds = options?.delaySeconds
+      outcomes.set(item.id, 'retry')
+    },
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Article Analyzer - Queue Producer
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: US-6.1
+ *
+ * Builds and sends submission jobs, batch jobs, webhook deliveries and
+ * notification emails to the article analysis queue.
+ * Messages are validated against the shared Zod schema before sending.
+ */
+
+import {
+  BatchProcessingMessageSchema,
+  EmailMessageSchema,
+  SubmissionJobMessageSchema,
+  WebhookMessageSchema,
+  type BatchProcessingMessage,
+  type EmailMessage,
+  type SubmissionJobMessage,
+  type WebhookMessage,
+} from '@/lib/shared/queue-messages'
+
+/**
+ * Enqueue a submission for background analysis
+ */
+export async function enqueueSubmissionJob(
+  queue: Queue,
+  payload: SubmissionJobMessage['payload']
+): Promise<SubmissionJobMessage> {
+  const message = SubmissionJobMessageSchema.parse({
+    type: 'process-submission',
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+  })
+
+  await queue.send(message)
+  console.log(
+    `[Queue] Enqueued article analysis job for submission: ${payload.submissionId}`
+  )
+
+  return message
+}
+
+/**
+ * Enqueue a batch job (the consumer creates the member submissions)
+ */
+export async function enqueueBatchJob(
+  queue: Queue,
+  payload: BatchProcessingMessage['payload']
+): Promise<BatchProcessingMessage> {
+  const message = BatchProcessingMessageSchema.parse({
+    type: 'batch-process',
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+  })
+
+  await queue.send(message)
+  console.log(
+    `[Queue] Enqueued batch ${payload.batchId} (${payload.items.length} items)`
+  )
+
+  return message
+}
+
+/**
+ * Enqueue a webhook delivery
+ */
+export async function enqueueWebhook(
+  queue: Queue,
+  payload: WebhookMessage['payload']
+): Promise<WebhookMessage> {
+  const message = WebhookMessageSchema.parse({
+    type: 'webhook',
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+  })
+
+  await queue.send(message)
+  console.log(`[Queue] Enqueued webhook delivery to ${payload.url}`)
+
+  return message
+}
+
+/**
+ * Enqueue an email for delivery
+ */
+export async function enqueueEmail(
+  queue: Queue,
+  payload: EmailMessage['payload']
+): Promise<EmailMessage> {
+  const message = EmailMessageSchema.parse({
+    type: 'email',
+    payload,
+    timestamp: Date.now(),
+    retryCount: 0,
+  })
+
+  await queue.send(message)
+  console.log(`[Queue] Enqueued email: ${payload.subject}`)
+
+  return message
+}
+
+/**
+ * Re-enqueue a submission job for another attempt
+ */
+export async function requeueSubmissionJob(
+  queue: Queue,
+  message: SubmissionJobMessage,
+  delaySeconds: number
+): Promise<void> {
+  const next: SubmissionJobMessage = {
+    ...message,
+    timestamp: Date.now(),
+    retryCount: message.retryCount + 1,
+  }
+
+  await queue.send(next, { delaySeconds })
+  console.log(
+    `[Queue] Re-enqueued submission ${message.payload.submissionId} (retry ${next.retryCount}) in ${delaySeconds}s`
+  )
+}
+
+/**
+ * Send an exhausted or unprocessable message to the dead letter queue
+ */
+export async function deadLetterMessage(
+  queue: Queue,
+  body: unknown,
+  reason: string
+): Promise<void> {
+  await queue.send({
+    body,
+    reason,
+    deadLetteredAt: Date.now(),
+  })
+  console.warn(`[Queue] Message dead-lettered: ${reason}`)
+}
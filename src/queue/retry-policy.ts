@@ -0,0 +1,75 @@
+/**
+ * Article Analyzer - Queue Retry Policy
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: US-6.3
+ *
+ * Decides whether a failed submission job should be re-queued and how long
+ * to wait before the next attempt. Retries are tracked with the message's
+ * own `retryCount` so the policy survives re-enqueueing.
+ */
+
+import {
+  AccessDeniedError,
+  ContentNotFoundError,
+  NetworkError,
+  ParsingError,
+  ResponseTooLargeError,
+  RobotsDisallowedError,
+  UnsupportedCharsetError,
+  UnsupportedContentTypeError,
+} from '@/types/scraping-errors'
+
+export const MAX_JOB_RETRIES = 3
+const BASE_DELAY_SECONDS = 2
+const BACKOFF_MULTIPLIER = 2
+const MAX_DELAY_SECONDS = 300
+
+/**
+ * Check if an error is worth retrying
+ *
+ * Non-retryable: missing/blocked/unparseable articles, pages disallowed by
+ * robots.txt, oversized, binary or undecodable responses and configuration
+ * errors.
+ * Everything else (timeouts, 5xx, 429, OpenAI and database hiccups) is retried.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (
+    error instanceof AccessDeniedError ||
+    error instanceof ContentNotFoundError ||
+    error instanceof ParsingError ||
+    error instanceof RobotsDisallowedError ||
+    error instanceof ResponseTooLargeError ||
+    error instanceof UnsupportedContentTypeError ||
+    error instanceof UnsupportedCharsetError
+  ) {
+    return false
+  }
+
+  if (error instanceof NetworkError) {
+    return error.statusCode !== 404
+  }
+
+  if (error instanceof Error && /api key|DATABASE_URL/i.test(error.message)) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Check if a job with the given retry count may be retried again
+ */
+export function canRetry(retryCount: number): boolean {
+  return retryCount < MAX_JOB_RETRIES
+}
+
+/**
+ * Calculate the delay before the next attempt (2s, 4s, 8s, ...)
+ */
+export function getRetryDelaySeconds(retryCount: number): number {
+  return Math.min(
+    BASE_DELAY_SECONDS * Math.pow(BACKOFF_MULTIPLIER, retryCount),
+    MAX_DELAY_SECONDS
+  )
+}
@@ -0,0 +1,230 @@
+/**
+ * Repository scopes: the submission filter each scope renders to, and
+ * reads and writes that reach outside the caller's workspaces
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import type { SQL } from 'drizzle-orm'
+import { getDb } from '@/lib/db'
+import {
+  SYSTEM_SCOPE,
+  callerScope,
+  submissionScopeCondition,
+  workspaceScope,
+} from '@/repositories/scope'
+import {
+  assignOwnedSubmissionsToWorkspace,
+  createSubmission,
+  getSubmissionById,
+  updateSubmission,
+} from '@/repositories/submission.repository'
+import { saveResults } from '@/repositories/results.repository'
+import type { NewAnalysisResult } from '@/db/schema'
+
+vi.mock('@/lib/db', () => ({
+  getDb: vi.fn(),
+  getDbFromEnv: vi.fn(),
+}))
+
+const OWN_WORKSPACE_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const OTHER_WORKSPACE_ID = 'a1b2c3d4-0000-4000-8000-000000000002'
+const SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000003'
+const OTHER_SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000004'
+const OWNER_ID = 'a1b2c3d4-0000-4000-8000-000000000005'
+
+/**
+ * Database stand-in: every query chains, awaiting it yields the rows,
+ * and the conditions passed to where() are kept for inspection
+ */
+function fakeDb(rows: unknown[] = []) {
+  const calls: string[] = []
+  const conditions: (SQL | undefined)[] = []
+
+  const query: Record<string, unknown> = {}
+  const chain = (method: string) =>
+    vi.fn(() => {
+      calls.push(method)
+      return query
+    })
+  for (const method of [
+    'from',
+    'innerJoin',
+    'limit',
+    'orderBy',
+    'values',
+    'set',
+    'returning',
+  ]) {
+    query[method] = chain(method)
+  }
+  query.where = vi.fn((condition?: SQL) => {
+    calls.push('where')
+    conditions.push(condition)
+    return query
+  })
+  query.then = (resolve: (value: unknown[]) => unknown) => resolve(rows)
+
+  const db = {
+    select: chain('select'),
+    insert: chain('insert'),
+    update: chain('update'),
+  }
+  vi.mocked(getDb).mockResolvedValue(
+    db as unknown as Awaited<ReturnType<typeof getDb>>
+  )
+
+  return { calls, conditions }
+}
+
+function render(condition: SQL | undefined) {
+  return new PgDialect().sqlToQuery(condition!)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('submissionScopeCondition', () => {
+  it('leaves the system scope unrestricted', () => {
+    expect(submissionScopeCondition(SYSTEM_SCOPE)).toBeUndefined()
+  })
+
+  it('limits a caller to their workspaces, share link and legacy submissions', () => {
+    const { sql, params } = render(
+      submissionScopeCondition(callerScope([OWN_WORKSPACE_ID], 'share-token'))
+    )
+
+    expect(sql).toContain('"workspace_id" in ($1)')
+    expect(sql).toContain('"share_token" = $2')
+    expect(sql).toContain('"workspace_id" is null')
+    expect(params).toEqual([OWN_WORKSPACE_ID, 'share-token'])
+  })
+
+  it('leaves legacy unowned submissions out of a workspace scope', () => {
+    const { sql, params } = render(
+      submissionScopeCondition(workspaceScope([OWN_WORKSPACE_ID]))
+    )
+
+    expect(sql).toContain('"workspace_id" in ($1)')
+    expect(sql).not.toContain('is null')
+    expect(params).toEqual([OWN_WORKSPACE_ID])
+  })
+
+  it('matches nothing when the scope grants nothing', () => {
+    expect(render(submissionScopeCondition(workspaceScope([]))).sql).toBe(
+      'false'
+    )
+  })
+})
+
+describe('scoped submission reads and writes', () => {
+  it('filters a read by ID to the caller scope', async () => {
+    const { conditions } = fakeDb([])
+
+    const submission = await getSubmissionById(
+      OTHER_SUBMISSION_ID,
+      workspaceScope([OWN_WORKSPACE_ID])
+    )
+
+    expect(submission).toBeNull()
+    const { sql, params } = render(conditions[0])
+    expect(sql).toContain('"workspace_id" in ($2)')
+    expect(params).toEqual([OTHER_SUBMISSION_ID, OWN_WORKSPACE_ID])
+  })
+
+  it('filters an update to the caller scope', async () => {
+    const { conditions } = fakeDb([])
+
+    const updated = await updateSubmission(
+      OTHER_SUBMISSION_ID,
+      { articleTitle: 'Hijacked' },
+      callerScope([OWN_WORKSPACE_ID])
+    )
+
+    expect(updated).toBeNull()
+    expect(render(conditions[0]).params).toContain(OWN_WORKSPACE_ID)
+  })
+
+  it('rejects creating a submission in another workspace', async () => {
+    const { calls } = fakeDb()
+
+    await expect(
+      createSubmission(
+        'https://example.com/article',
+        { workspaceId: OTHER_WORKSPACE_ID },
+        callerScope([OWN_WORKSPACE_ID])
+      )
+    ).rejects.toThrow('Workspace not found')
+    expect(calls).not.toContain('insert')
+  })
+
+  it('rejects moving submissions into another workspace', async () => {
+    const { calls } = fakeDb()
+
+    await expect(
+      assignOwnedSubmissionsToWorkspace(
+        OWNER_ID,
+        OTHER_WORKSPACE_ID,
+        callerScope([OWN_WORKSPACE_ID])
+      )
+    ).rejects.toThrow('Workspace not found')
+    expect(calls).not.toContain('update')
+  })
+
+  it('lets background jobs create submissions in any workspace', async () => {
+    const { calls } = fakeDb([{ id: SUBMISSION_ID }])
+
+    await createSubmission(
+      'https://example.com/article',
+      { workspaceId: OTHER_WORKSPACE_ID },
+      SYSTEM_SCOPE
+    )
+
+    expect(calls).toContain('insert')
+  })
+})
+
+describe('scoped result writes', () => {
+  const results = [SUBMISSION_ID, OTHER_SUBMISSION_ID].map(
+    (submissionId) =>
+      ({
+        submissionId,
+        question: 'What is sourdough?',
+        targetUrlFound: false,
+        foundInSources: false,
+        foundInCitations: false,
+      }) as NewAnalysisResult
+  )
+
+  it('rejects results for a submission outside the scope', async () => {
+    // Only one of the two submissions is visible in the caller's workspace
+    const { calls } = fakeDb([{ id: SUBMISSION_ID }])
+
+    await expect(
+      saveResults(results, callerScope([OWN_WORKSPACE_ID]))
+    ).rejects.toThrow('Submission not found')
+    expect(calls).not.toContain('insert')
+  })
+
+  it('saves results once every submission is in scope', async () => {
+    const { calls, conditions } = fakeDb([
+      { id: SUBMISSION_ID },
+      { id: OTHER_SUBMISSION_ID },
+    ])
+
+    await saveResults(results, callerScope([OWN_WORKSPACE_ID]))
+
+    expect(render(conditions[0]).params).toContain(OWN_WORKSPACE_ID)
+    expect(calls).toContain('insert')
+  })
+
+  it('skips the scope check for background jobs', async () => {
+    const { calls } = fakeDb([])
+
+    await saveResults(results, SYSTEM_SCOPE)
+
+    expect(calls).not.toContain('select')
+    expect(calls).toContain('insert')
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Article Analyzer - API Key Repository
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Data access layer for workspace API keys.
+ * Keys are looked up by their SHA-256 hash.
+ */
+
+import { eq, and, desc, isNull } from 'drizzle-orm'
+import { getDb } from '@/lib/db'
+import { apiKeys, type ApiKey } from '@/db/schema'
+
+/**
+ * Store a new API key (hash only)
+ */
+export async function createApiKey(values: {
+  workspaceId: string
+  createdByUserId?: string
+  name: string
+  keyHash: string
+  keyPrefix: string
+  dailyQuota?: number
+}): Promise<ApiKey> {
+  const db = await getDb()
+
+  const [apiKey] = await db.insert(apiKeys).values(values).returning()
+
+  return apiKey
+}
+
+/**
+ * Get an active (not revoked) API key by its hash
+ */
+export async function getActiveApiKeyByHash(
+  keyHash: string
+): Promise<ApiKey | null> {
+  const db = await getDb()
+
+  const [apiKey] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)))
+    .limit(1)
+
+  return apiKey || null
+}
+
+/**
+ * List a workspace's API keys, newest first
+ */
+export async function getApiKeysForWorkspace(
+  workspaceId: string
+): Promise<ApiKey[]> {
+  const db = await getDb()
+
+  return await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.workspaceId, workspaceId))
+    .orderBy(desc(apiKeys.createdAt))
+}
+
+/**
+ * Revoke an API key
+ * Returns false if the key does not exist in the workspace
+ */
+export async function revokeApiKey(
+  id: string,
+  workspaceId: string
+): Promise<boolean> {
+  const db = await getDb()
+
+  const revoked = await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(apiKeys.id, id),
+        eq(apiKeys.workspaceId, workspaceId),
+        isNull(apiKeys.revokedAt)
+      )
+    )
+    .returning({ id: apiKeys.id })
+
+  return revoked.length > 0
+}
+
+/**
+ * Record that an API key was used
+ */
+export async function touchApiKey(id: string): Promise<void> {
+  const db = await getDb()
+
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKeys.id, id))
+}
@@ -0,0 +1,118 @@
+/**
+ * Article Analyzer - Batch Repository
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Data access layer for submission batches.
+ * Lookups that come from API callers are limited to a workspace.
+ */
+
+import { eq, and, desc, gte, inArray, sum } from 'drizzle-orm'
+import { getDb, getDbFromEnv } from '@/lib/db'
+import { submissionBatches, type SubmissionBatch } from '@/db/schema'
+
+/**
+ * Create a batch
+ */
+export async function createBatch(values: {
+  workspaceId: string
+  projectId?: string
+  createdByUserId?: string
+  name: string
+  source: string
+  sourceUrl?: string
+  searchProviders: string[]
+  matchMode?: string
+  totalCount: number
+}): Promise<SubmissionBatch> {
+  const db = await getDb()
+
+  const [batch] = await db.insert(submissionBatches).values(values).returning()
+
+  return batch
+}
+
+/**
+ * Get a batch by ID
+ * Pass the caller's workspace IDs to limit the lookup (omit for background jobs)
+ */
+export async function getBatchById(
+  id: string,
+  workspaceIds?: string[],
+  env?: CloudflareEnv
+): Promise<SubmissionBatch | null> {
+  if (workspaceIds && workspaceIds.length === 0) {
+    return null
+  }
+
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const [batch] = await db
+    .select()
+    .from(submissionBatches)
+    .where(
+      and(
+        eq(submissionBatches.id, id),
+        workspaceIds
+          ? inArray(submissionBatches.workspaceId, workspaceIds)
+          : undefined
+      )
+    )
+    .limit(1)
+
+  return batch || null
+}
+
+/**
+ * Get a workspace's recent batches, newest first
+ */
+export async function getRecentBatches(
+  workspaceId: string,
+  limit: number = 10
+): Promise<SubmissionBatch[]> {
+  const db = await getDb()
+
+  return await db
+    .select()
+    .from(submissionBatches)
+    .where(eq(submissionBatches.workspaceId, workspaceId))
+    .orderBy(desc(submissionBatches.createdAt))
+    .limit(limit)
+}
+
+/**
+ * Delete a batch (used when its job could not be queued)
+ */
+export async function deleteBatch(id: string): Promise<void> {
+  const db = await getDb()
+
+  await db.delete(submissionBatches).where(eq(submissionBatches.id, id))
+}
+
+/**
+ * Count the URLs accepted into a workspace's recent batches
+ * Used for workspace quotas: members are created later by the queue
+ * consumer, so each accepted URL counts from the moment the batch starts
+ */
+export async function countRecentBatchUrls(
+  workspaceId: string,
+  hoursAgo: number = 24,
+  env?: CloudflareEnv
+): Promise<number> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const windowStart = new Date(Date.now() - hoursAgo * 60 * 60 * 1000)
+
+  const [row] = await db
+    .select({ total: sum(submissionBatches.totalCount) })
+    .from(submissionBatches)
+    .where(
+      and(
+        eq(submissionBatches.workspaceId, workspaceId),
+        gte(submissionBatches.createdAt, windowStart)
+      )
+    )
+
+  return Number(row?.total ?? 0)
+}
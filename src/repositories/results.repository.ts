@@ -6,12 +6,20 @@
  *
  * Data access layer for content analysis results.
  * Handles all database operations related to test results.
+ *
+ * Results inherit their submission's workspace: every function takes a
+ * WorkspaceScope and only touches results of submissions within it.
  */
 
-import { eq } from 'drizzle-orm'
+import { eq, and, gt, inArray } from 'drizzle-orm'
 import { getDb, getDbFromEnv } from '@/lib/db'
+import {
+  submissionScopeCondition,
+  type WorkspaceScope,
+} from '@/repositories/scope'
 import {
   contentAnalysisResults,
+  contentAnalysisSubmissions,
   type AnalysisResult,
   type NewAnalysisResult,
   type CitationInfo,
@@ -28,21 +36,28 @@ export async function saveResult(
   foundInCitations: boolean,
   allCitations: CitationInfo[],
   allSources: string[],
-  responseTimeMs?: number,
-  llmResponse?: string,
+  responseTimeMs: number | undefined,
+  llmResponse: string | undefined,
+  provider: string | undefined,
+  matchType: string | undefined,
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<AnalysisResult> {
   const db = env ? getDbFromEnv(env) : await getDb()
 
+  await assertSubmissionsInScope(db, [submissionId], scope)
+
   const [result] = await db
     .insert(contentAnalysisResults)
     .values({
       submissionId,
       question,
+      provider,
       llmResponse,
       targetUrlFound,
       foundInSources,
       foundInCitations,
+      matchType,
       allCitations,
       allSources,
       responseTimeMs,
@@ -57,10 +72,17 @@ export async function saveResult(
  */
 export async function saveResults(
   results: NewAnalysisResult[],
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<AnalysisResult[]> {
   const db = env ? getDbFromEnv(env) : await getDb()
 
+  await assertSubmissionsInScope(
+    db,
+    results.map((r) => r.submissionId),
+    scope
+  )
+
   const saved = await db
     .insert(contentAnalysisResults)
     .values(results)
@@ -73,30 +95,108 @@ export async function saveResults(
  * Get all results for a submission
  */
 export async function getResultsBySubmission(
-  submissionId: string
+  submissionId: string,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
+): Promise<AnalysisResult[]> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const rows = await db
+    .select({ result: contentAnalysisResults })
+    .from(contentAnalysisResults)
+    .innerJoin(
+      contentAnalysisSubmissions,
+      eq(contentAnalysisResults.submissionId, contentAnalysisSubmissions.id)
+    )
+    .where(
+      and(
+        eq(contentAnalysisResults.submissionId, submissionId),
+        submissionScopeCondition(scope)
+      )
+    )
+    .orderBy(contentAnalysisResults.id)
+
+  return rows.map((row) => row.result)
+}
+
+/**
+ * Get a submission's results saved after a given result ID
+ * Used by the live progress stream to send only new results
+ */
+export async function getResultsAfter(
+  submissionId: string,
+  afterId: number,
+  scope: WorkspaceScope
 ): Promise<AnalysisResult[]> {
   const db = await getDb()
 
-  const results = await db
-    .select()
+  const rows = await db
+    .select({ result: contentAnalysisResults })
     .from(contentAnalysisResults)
-    .where(eq(contentAnalysisResults.submissionId, submissionId))
+    .innerJoin(
+      contentAnalysisSubmissions,
+      eq(contentAnalysisResults.submissionId, contentAnalysisSubmissions.id)
+    )
+    .where(
+      and(
+        eq(contentAnalysisResults.submissionId, submissionId),
+        gt(contentAnalysisResults.id, afterId),
+        submissionScopeCondition(scope)
+      )
+    )
     .orderBy(contentAnalysisResults.id)
 
-  return results
+  return rows.map((row) => row.result)
 }
 
 /**
  * Get result by ID
  */
-export async function getResultById(id: number): Promise<AnalysisResult | null> {
+export async function getResultById(
+  id: number,
+  scope: WorkspaceScope
+): Promise<AnalysisResult | null> {
   const db = await getDb()
 
-  const [result] = await db
-    .select()
+  const [row] = await db
+    .select({ result: contentAnalysisResults })
     .from(contentAnalysisResults)
-    .where(eq(contentAnalysisResults.id, id))
+    .innerJoin(
+      contentAnalysisSubmissions,
+      eq(contentAnalysisResults.submissionId, contentAnalysisSubmissions.id)
+    )
+    .where(
+      and(eq(contentAnalysisResults.id, id), submissionScopeCondition(scope))
+    )
     .limit(1)
 
-  return result || null
+  return row?.result || null
+}
+
+/**
+ * Reject writes for submissions outside the scope
+ */
+async function assertSubmissionsInScope(
+  db: Awaited<ReturnType<typeof getDb>>,
+  submissionIds: string[],
+  scope: WorkspaceScope
+): Promise<void> {
+  if (scope.kind === 'system' || submissionIds.length === 0) {
+    return
+  }
+
+  const uniqueIds = Array.from(new Set(submissionIds))
+  const visible = await db
+    .select({ id: contentAnalysisSubmissions.id })
+    .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        inArray(contentAnalysisSubmissions.id, uniqueIds),
+        submissionScopeCondition(scope)
+      )
+    )
+
+  if (visible.length !== uniqueIds.length) {
+    throw new Error('Submission not found')
+  }
 }
@@ -0,0 +1,155 @@
+/**
+ * Article Analyzer - Schedule Repository
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Scheduled re-testing
+ *
+ * Data access layer for recurring re-test schedules.
+ */
+
+import { eq, and, lte, ne, count } from 'drizzle-orm'
+import { getDb, getDbFromEnv } from '@/lib/db'
+import {
+  contentAnalysisSchedules,
+  contentAnalysisSubmissions,
+  type Schedule,
+  type ScheduleFrequency,
+} from '@/db/schema'
+
+/**
+ * Create or update the schedule for a submission
+ */
+export async function upsertSchedule(
+  submissionId: string,
+  frequency: ScheduleFrequency,
+  nextRunAt: Date
+): Promise<Schedule> {
+  const db = await getDb()
+
+  const [schedule] = await db
+    .insert(contentAnalysisSchedules)
+    .values({
+      submissionId,
+      frequency,
+      nextRunAt,
+      active: true,
+    })
+    .onConflictDoUpdate({
+      target: contentAnalysisSchedules.submissionId,
+      set: {
+        frequency,
+        nextRunAt,
+        active: true,
+        updatedAt: new Date(),
+      },
+    })
+    .returning()
+
+  return schedule
+}
+
+/**
+ * Get the schedule for a submission
+ */
+export async function getScheduleBySubmission(
+  submissionId: string
+): Promise<Schedule | null> {
+  const db = await getDb()
+
+  const [schedule] = await db
+    .select()
+    .from(contentAnalysisSchedules)
+    .where(eq(contentAnalysisSchedules.submissionId, submissionId))
+    .limit(1)
+
+  return schedule || null
+}
+
+/**
+ * Count a workspace's active schedules, optionally leaving one submission's
+ * schedule out (so changing its frequency does not count twice)
+ */
+export async function countActiveSchedules(
+  workspaceId: string,
+  excludeSubmissionId?: string
+): Promise<number> {
+  const db = await getDb()
+
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentAnalysisSchedules)
+    .innerJoin(
+      contentAnalysisSubmissions,
+      eq(contentAnalysisSchedules.submissionId, contentAnalysisSubmissions.id)
+    )
+    .where(
+      and(
+        eq(contentAnalysisSchedules.active, true),
+        eq(contentAnalysisSubmissions.workspaceId, workspaceId),
+        excludeSubmissionId
+          ? ne(contentAnalysisSchedules.submissionId, excludeSubmissionId)
+          : undefined
+      )
+    )
+
+  return row?.count ?? 0
+}
+
+/**
+ * Stop a submission's schedule (history is kept)
+ */
+export async function deactivateSchedule(
+  submissionId: string,
+  env?: CloudflareEnv
+): Promise<void> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  await db
+    .update(contentAnalysisSchedules)
+    .set({
+      active: false,
+      updatedAt: new Date(),
+    })
+    .where(eq(contentAnalysisSchedules.submissionId, submissionId))
+}
+
+/**
+ * Get active schedules whose next run is due
+ */
+export async function getDueSchedules(
+  now: Date,
+  env: CloudflareEnv
+): Promise<Schedule[]> {
+  const db = getDbFromEnv(env)
+
+  return await db
+    .select()
+    .from(contentAnalysisSchedules)
+    .where(
+      and(
+        eq(contentAnalysisSchedules.active, true),
+        lte(contentAnalysisSchedules.nextRunAt, now)
+      )
+    )
+}
+
+/**
+ * Record a schedule run and set the next run time
+ */
+export async function markScheduleRun(
+  id: string,
+  lastRunAt: Date,
+  nextRunAt: Date,
+  env: CloudflareEnv
+): Promise<void> {
+  const db = getDbFromEnv(env)
+
+  await db
+    .update(contentAnalysisSchedules)
+    .set({
+      lastRunAt,
+      nextRunAt,
+      updatedAt: new Date(),
+    })
+    .where(eq(contentAnalysisSchedules.id, id))
+}
@@ -0,0 +1,76 @@
+/**
+ * Article Analyzer - Repository Scope
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Every submission and results repository function takes a scope, which
+ * limits the rows it can read or write:
+ * - system: background jobs (queue consumer, cron), unrestricted
+ * - caller: an API caller, limited to submissions in their workspaces,
+ *   the one matching their share link, and legacy unowned submissions
+ *   (API keys see their workspace only, see workspaceScope)
+ */
+
+import { and, eq, inArray, isNull, or, sql, type SQL } from 'drizzle-orm'
+import { contentAnalysisSubmissions } from '@/db/schema'
+
+export type WorkspaceScope =
+  | { kind: 'system' }
+  | {
+      kind: 'caller'
+      workspaceIds: string[] // Workspaces the caller may access at the required role
+      shareToken?: string | null // Share link presented by the caller
+      includeUnowned: boolean // Legacy submissions with no workspace or share link
+    }
+
+/**
+ * Scope for background jobs
+ */
+export const SYSTEM_SCOPE: WorkspaceScope = { kind: 'system' }
+
+/**
+ * Build a caller scope
+ */
+export function callerScope(
+  workspaceIds: string[],
+  shareToken?: string | null
+): WorkspaceScope {
+  return { kind: 'caller', workspaceIds, shareToken, includeUnowned: true }
+}
+
+/**
+ * Build a scope limited to the given workspaces, without legacy unowned
+ * submissions (for API keys, which belong to one workspace)
+ */
+export function workspaceScope(workspaceIds: string[]): WorkspaceScope {
+  return { kind: 'caller', workspaceIds, includeUnowned: false }
+}
+
+/**
+ * SQL condition restricting submissions to a scope
+ * Returns undefined for the system scope (no restriction)
+ */
+export function submissionScopeCondition(
+  scope: WorkspaceScope
+): SQL | undefined {
+  if (scope.kind === 'system') {
+    return undefined
+  }
+
+  const table = contentAnalysisSubmissions
+
+  const condition = or(
+    scope.workspaceIds.length > 0
+      ? inArray(table.workspaceId, scope.workspaceIds)
+      : undefined,
+    scope.shareToken ? eq(table.shareToken, scope.shareToken) : undefined,
+    // Legacy submissions created before ownership and share links
+    scope.includeUnowned
+      ? and(isNull(table.workspaceId), isNull(table.shareToken))
+      : undefined
+  )
+
+  // A scope that grants nothing must match nothing, not everything
+  return condition ?? sql`false`
+}
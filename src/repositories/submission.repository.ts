@@ -6,30 +6,130 @@
  *
  * Data access layer for content analysis submissions.
  * Handles all database operations related to article submissions.
+ *
+ * Every function takes a WorkspaceScope (see scope.ts): callers only reach
+ * submissions in their workspaces or behind their share link, while
+ * background jobs pass SYSTEM_SCOPE.
  */
 
-import { eq, gte, and, desc } from 'drizzle-orm'
+import { eq, gte, and, asc, desc, isNull, or, count } from 'drizzle-orm'
 import { getDb, getDbFromEnv } from '@/lib/db'
+import { generateToken } from '@/lib/auth/crypto'
 import {
   contentAnalysisSubmissions,
   type Submission,
   type SubmissionStatus,
+  type AnalysisPhase,
+  type TestMetricsData,
+  type UrlAliasesData,
 } from '@/db/schema'
+import type { PageMetadata } from '@/types/page-metadata'
+import type { AiReadinessAudit } from '@/types/ai-readiness'
+import {
+  submissionScopeCondition,
+  type WorkspaceScope,
+} from '@/repositories/scope'
+
+/**
+ * Options for a new submission
+ */
+export interface NewSubmissionOptions {
+  userIp?: string
+  searchProviders?: string[]
+  matchMode?: string
+  ownerId?: string // Signed-in submitter
+  workspaceId?: string // Owning workspace (omit for anonymous submissions)
+  projectId?: string
+  apiKeyId?: string // API key used to create the submission
+  notifyEmail?: string // Email a summary when the analysis finishes
+  batchId?: string // Batch the submission belongs to
+  scrapeCredentials?: string // Encrypted credentials for gated articles
+}
+
+/**
+ * Scraped article data stored on a submission
+ */
+export interface ArticleData {
+  title: string
+  content: string
+  urlAliases?: UrlAliasesData
+  pageMetadata?: PageMetadata
+  partialContent?: boolean
+}
 
 /**
  * Create a new article submission
  */
 export async function createSubmission(
   url: string,
-  userIp?: string
+  options: NewSubmissionOptions,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
 ): Promise<Submission> {
-  const db = await getDb()
+  if (options.workspaceId) {
+    assertWorkspaceInScope(options.workspaceId, scope)
+  }
+
+  const db = env ? getDbFromEnv(env) : await getDb()
 
   const [submission] = await db
     .insert(contentAnalysisSubmissions)
     .values({
       url,
-      userIp,
+      userIp: options.userIp,
+      searchProviders: options.searchProviders,
+      matchMode: options.matchMode,
+      ownerId: options.ownerId,
+      workspaceId: options.workspaceId,
+      projectId: options.projectId,
+      apiKeyId: options.apiKeyId,
+      notifyEmail: options.notifyEmail,
+      batchId: options.batchId,
+      scrapeCredentials: options.scrapeCredentials,
+      shareToken: generateToken(),
+      status: 'pending',
+    })
+    .returning()
+
+  return submission
+}
+
+/**
+ * Create a re-test run of an existing submission
+ *
+ * The child reuses the parent's scraped article and FAQs and is
+ * checkpointed after FAQ generation, so analysis starts at the control test.
+ */
+export async function createRetestSubmission(
+  parent: Submission,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
+): Promise<Submission> {
+  if (parent.workspaceId) {
+    assertWorkspaceInScope(parent.workspaceId, scope)
+  }
+
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const [submission] = await db
+    .insert(contentAnalysisSubmissions)
+    .values({
+      url: parent.url,
+      parentSubmissionId: parent.id,
+      ownerId: parent.ownerId,
+      workspaceId: parent.workspaceId,
+      projectId: parent.projectId,
+      shareToken: parent.shareToken,
+      searchProviders: parent.searchProviders,
+      matchMode: parent.matchMode,
+      generatedFaqs: parent.generatedFaqs,
+      articleTitle: parent.articleTitle,
+      articleContent: parent.articleContent,
+      urlAliases: parent.urlAliases,
+      pageMetadata: parent.pageMetadata,
+      partialContent: parent.partialContent,
+      aiReadinessAudit: parent.aiReadinessAudit,
+      lastCompletedPhase: 'generating_faqs',
       status: 'pending',
     })
     .returning()
@@ -41,26 +141,47 @@ export async function createSubmission(
  * Get submission by ID
  */
 export async function getSubmissionById(
-  id: string
+  id: string,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
 ): Promise<Submission | null> {
-  const db = await getDb()
+  const db = env ? getDbFromEnv(env) : await getDb()
 
   const [submission] = await db
     .select()
     .from(contentAnalysisSubmissions)
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
     .limit(1)
 
   return submission || null
 }
 
+/**
+ * Get just a submission's status (cheap check for live progress streams)
+ */
+export async function getSubmissionStatus(
+  id: string,
+  scope: WorkspaceScope
+): Promise<SubmissionStatus | null> {
+  const db = await getDb()
+
+  const [row] = await db
+    .select({ status: contentAnalysisSubmissions.status })
+    .from(contentAnalysisSubmissions)
+    .where(scopedById(id, scope))
+    .limit(1)
+
+  return row ? (row.status as SubmissionStatus) : null
+}
+
 /**
  * Update submission fields
  */
 export async function updateSubmission(
   id: string,
-  updates: Partial<Submission>
-): Promise<Submission> {
+  updates: Partial<Submission>,
+  scope: WorkspaceScope
+): Promise<Submission | null> {
   const db = await getDb()
 
   const [updated] = await db
@@ -69,18 +190,21 @@ export async function updateSubmission(
       ...updates,
       updatedAt: new Date(),
     })
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
     .returning()
 
-  return updated
+  return updated || null
 }
 
 /**
  * Update submission status
+ * A finished (completed or failed) submission never scrapes again, so its
+ * scrape credentials are cleared whichever way it finished
  */
 export async function updateSubmissionStatus(
   id: string,
   status: SubmissionStatus,
+  scope: WorkspaceScope,
   error?: string,
   env?: CloudflareEnv
 ): Promise<void> {
@@ -95,6 +219,10 @@ export async function updateSubmissionStatus(
     updates.completedAt = new Date()
   }
 
+  if (status === 'completed' || status === 'failed') {
+    updates.scrapeCredentials = null
+  }
+
   if (error) {
     updates.scrapingError = error
   }
@@ -102,7 +230,27 @@ export async function updateSubmissionStatus(
   await db
     .update(contentAnalysisSubmissions)
     .set(updates)
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
+}
+
+/**
+ * Record the last completed analysis phase (resume checkpoint)
+ */
+export async function updateCompletedPhase(
+  id: string,
+  phase: AnalysisPhase,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
+): Promise<void> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  await db
+    .update(contentAnalysisSubmissions)
+    .set({
+      lastCompletedPhase: phase,
+      updatedAt: new Date(),
+    })
+    .where(scopedById(id, scope))
 }
 
 /**
@@ -111,6 +259,7 @@ export async function updateSubmissionStatus(
  */
 export async function countRecentSubmissionsByIP(
   userIp: string,
+  scope: WorkspaceScope,
   hoursAgo: number = 24
 ): Promise<number> {
   const db = await getDb()
@@ -123,20 +272,106 @@ export async function countRecentSubmissionsByIP(
     .where(
       and(
         eq(contentAnalysisSubmissions.userIp, userIp),
-        gte(contentAnalysisSubmissions.createdAt, windowStart)
+        gte(contentAnalysisSubmissions.createdAt, windowStart),
+        submissionScopeCondition(scope)
       )
     )
 
   return submissions.length
 }
 
+/**
+ * Count recent submissions created with an API key
+ * Used for per-key quotas (re-test runs are not counted)
+ */
+export async function countRecentSubmissionsByApiKey(
+  apiKeyId: string,
+  scope: WorkspaceScope,
+  hoursAgo: number = 24
+): Promise<number> {
+  const db = await getDb()
+
+  const windowStart = new Date(Date.now() - hoursAgo * 60 * 60 * 1000)
+
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        eq(contentAnalysisSubmissions.apiKeyId, apiKeyId),
+        gte(contentAnalysisSubmissions.createdAt, windowStart),
+        submissionScopeCondition(scope)
+      )
+    )
+
+  return row?.count ?? 0
+}
+
+/**
+ * Count recent submissions in a workspace, re-test runs included
+ * Batch members are left out: workspace quotas count them through their
+ * batch (see countRecentBatchUrls)
+ */
+export async function countRecentSubmissionsByWorkspace(
+  workspaceId: string,
+  scope: WorkspaceScope,
+  hoursAgo: number = 24,
+  env?: CloudflareEnv
+): Promise<number> {
+  assertWorkspaceInScope(workspaceId, scope)
+
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const windowStart = new Date(Date.now() - hoursAgo * 60 * 60 * 1000)
+
+  const [row] = await db
+    .select({ count: count() })
+    .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        eq(contentAnalysisSubmissions.workspaceId, workspaceId),
+        isNull(contentAnalysisSubmissions.batchId),
+        gte(contentAnalysisSubmissions.createdAt, windowStart)
+      )
+    )
+
+  return row?.count ?? 0
+}
+
 /**
  * Store scraped article data
+ * Scrape credentials are cleared, as they are only needed for the scrape
+ * (updateSubmissionStatus clears them too if the analysis fails)
  */
 export async function updateArticleData(
   id: string,
-  title: string,
-  content: string,
+  article: ArticleData,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
+): Promise<void> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  await db
+    .update(contentAnalysisSubmissions)
+    .set({
+      articleTitle: article.title,
+      articleContent: article.content.slice(0, 5000), // Store first 5000 chars
+      urlAliases: article.urlAliases,
+      pageMetadata: article.pageMetadata,
+      partialContent: article.partialContent ?? false,
+      scrapeCredentials: null,
+      updatedAt: new Date(),
+    })
+    .where(scopedById(id, scope))
+}
+
+/**
+ * Store the AI-readiness audit of the scraped page
+ */
+export async function updateReadinessAudit(
+  id: string,
+  audit: AiReadinessAudit,
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<void> {
   const db = env ? getDbFromEnv(env) : await getDb()
@@ -144,11 +379,10 @@ export async function updateArticleData(
   await db
     .update(contentAnalysisSubmissions)
     .set({
-      articleTitle: title,
-      articleContent: content.slice(0, 5000), // Store first 5000 chars
+      aiReadinessAudit: audit,
       updatedAt: new Date(),
     })
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
 }
 
 /**
@@ -157,6 +391,7 @@ export async function updateArticleData(
 export async function updateGeneratedQuestions(
   id: string,
   questions: string[],
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<void> {
   const db = env ? getDbFromEnv(env) : await getDb()
@@ -167,7 +402,7 @@ export async function updateGeneratedQuestions(
       generatedFaqs: questions,
       updatedAt: new Date(),
     })
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
 }
 
 /**
@@ -181,6 +416,7 @@ export async function updateGeneratedFAQs(
     category: string
     numbers: string[]
   }>,
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<void> {
   const db = env ? getDbFromEnv(env) : await getDb()
@@ -191,14 +427,41 @@ export async function updateGeneratedFAQs(
       generatedFaqs: faqs,
       updatedAt: new Date(),
     })
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
 }
 
 /**
- * Get recent submissions (for home page table)
+ * Move a user's submissions from before workspaces existed into a workspace
+ */
+export async function assignOwnedSubmissionsToWorkspace(
+  ownerId: string,
+  workspaceId: string,
+  scope: WorkspaceScope
+): Promise<void> {
+  assertWorkspaceInScope(workspaceId, scope)
+
+  const db = await getDb()
+
+  await db
+    .update(contentAnalysisSubmissions)
+    .set({ workspaceId, updatedAt: new Date() })
+    .where(
+      and(
+        eq(contentAnalysisSubmissions.ownerId, ownerId),
+        isNull(contentAnalysisSubmissions.workspaceId)
+      )
+    )
+}
+
+/**
+ * Get a workspace's recent submissions (for home page table)
+ * Optionally limited to one project
  */
 export async function getRecentSubmissions(
+  workspaceId: string,
+  scope: WorkspaceScope,
   limit: number = 10,
+  projectId?: string,
   env?: CloudflareEnv
 ) {
   const db = env ? getDbFromEnv(env) : await getDb()
@@ -209,25 +472,91 @@ export async function getRecentSubmissions(
       url: contentAnalysisSubmissions.url,
       status: contentAnalysisSubmissions.status,
       articleTitle: contentAnalysisSubmissions.articleTitle,
+      projectId: contentAnalysisSubmissions.projectId,
       createdAt: contentAnalysisSubmissions.createdAt,
       completedAt: contentAnalysisSubmissions.completedAt,
     })
     .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        eq(contentAnalysisSubmissions.workspaceId, workspaceId),
+        projectId
+          ? eq(contentAnalysisSubmissions.projectId, projectId)
+          : undefined,
+        isNull(contentAnalysisSubmissions.parentSubmissionId),
+        submissionScopeCondition(scope)
+      )
+    )
     .orderBy(desc(contentAnalysisSubmissions.createdAt))
     .limit(limit)
 }
 
+/**
+ * Get an original submission and all of its re-test runs (oldest first)
+ */
+export async function getSubmissionRuns(rootId: string, scope: WorkspaceScope) {
+  const db = await getDb()
+
+  return await db
+    .select({
+      id: contentAnalysisSubmissions.id,
+      status: contentAnalysisSubmissions.status,
+      testMetrics: contentAnalysisSubmissions.testMetrics,
+      createdAt: contentAnalysisSubmissions.createdAt,
+      completedAt: contentAnalysisSubmissions.completedAt,
+    })
+    .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        or(
+          eq(contentAnalysisSubmissions.id, rootId),
+          eq(contentAnalysisSubmissions.parentSubmissionId, rootId)
+        ),
+        submissionScopeCondition(scope)
+      )
+    )
+    .orderBy(asc(contentAnalysisSubmissions.createdAt))
+}
+
+/**
+ * Get the member submissions of a batch (oldest first)
+ */
+export async function getBatchSubmissions(
+  batchId: string,
+  scope: WorkspaceScope,
+  env?: CloudflareEnv
+) {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  return await db
+    .select({
+      id: contentAnalysisSubmissions.id,
+      url: contentAnalysisSubmissions.url,
+      status: contentAnalysisSubmissions.status,
+      articleTitle: contentAnalysisSubmissions.articleTitle,
+      scrapingError: contentAnalysisSubmissions.scrapingError,
+      testMetrics: contentAnalysisSubmissions.testMetrics,
+      shareToken: contentAnalysisSubmissions.shareToken,
+      createdAt: contentAnalysisSubmissions.createdAt,
+      completedAt: contentAnalysisSubmissions.completedAt,
+    })
+    .from(contentAnalysisSubmissions)
+    .where(
+      and(
+        eq(contentAnalysisSubmissions.batchId, batchId),
+        submissionScopeCondition(scope)
+      )
+    )
+    .orderBy(asc(contentAnalysisSubmissions.createdAt))
+}
+
 /**
  * Store test metrics (3-tier results)
  */
 export async function updateTestMetrics(
   id: string,
-  metrics: {
-    isAccessible: boolean
-    inSourcesCount: number
-    inCitationsCount: number
-    totalFaqs: number
-  },
+  metrics: TestMetricsData,
+  scope: WorkspaceScope,
   env?: CloudflareEnv
 ): Promise<void> {
   const db = env ? getDbFromEnv(env) : await getDb()
@@ -238,5 +567,27 @@ export async function updateTestMetrics(
       testMetrics: metrics,
       updatedAt: new Date(),
     })
-    .where(eq(contentAnalysisSubmissions.id, id))
+    .where(scopedById(id, scope))
+}
+
+/**
+ * Match one submission by ID within a scope
+ */
+function scopedById(id: string, scope: WorkspaceScope) {
+  return and(
+    eq(contentAnalysisSubmissions.id, id),
+    submissionScopeCondition(scope)
+  )
+}
+
+/**
+ * Reject writes into a workspace outside the caller's scope
+ */
+function assertWorkspaceInScope(
+  workspaceId: string,
+  scope: WorkspaceScope
+): void {
+  if (scope.kind === 'caller' && !scope.workspaceIds.includes(workspaceId)) {
+    throw new Error('Workspace not found')
+  }
 }
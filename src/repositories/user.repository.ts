@@ -0,0 +1,215 @@
+/**
+ * Article Analyzer - User Repository
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Data access layer for users, sessions, magic link tokens and sign-in
+ * attempts.
+ * Session and login tokens are looked up by their SHA-256 hash.
+ */
+
+import { eq, and, gt, gte, isNull, count } from 'drizzle-orm'
+import { getDb } from '@/lib/db'
+import {
+  users,
+  userSessions,
+  loginTokens,
+  authAttempts,
+  type AuthAttemptKind,
+  type User,
+  type UserSession,
+} from '@/db/schema'
+
+/**
+ * Create a new user
+ */
+export async function createUser(
+  email: string,
+  passwordHash?: string
+): Promise<User> {
+  const db = await getDb()
+
+  const [user] = await db
+    .insert(users)
+    .values({ email, passwordHash })
+    .returning()
+
+  return user
+}
+
+/**
+ * Get user by email (emails are stored lowercase)
+ */
+export async function getUserByEmail(email: string): Promise<User | null> {
+  const db = await getDb()
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1)
+
+  return user || null
+}
+
+/**
+ * Mark a user's email as verified (magic link used)
+ * With `clearPassword`, also removes the password: one set before the
+ * email was verified may belong to someone else who registered it.
+ */
+export async function markEmailVerified(
+  id: string,
+  clearPassword: boolean = false
+): Promise<void> {
+  const db = await getDb()
+
+  await db
+    .update(users)
+    .set({
+      emailVerifiedAt: new Date(),
+      updatedAt: new Date(),
+      ...(clearPassword ? { passwordHash: null } : {}),
+    })
+    .where(eq(users.id, id))
+}
+
+/**
+ * Create a session for a user
+ */
+export async function createSession(
+  tokenHash: string,
+  userId: string,
+  expiresAt: Date
+): Promise<UserSession> {
+  const db = await getDb()
+
+  const [session] = await db
+    .insert(userSessions)
+    .values({ id: tokenHash, userId, expiresAt })
+    .returning()
+
+  return session
+}
+
+/**
+ * Get the user for an unexpired session
+ */
+export async function getUserBySession(
+  tokenHash: string,
+  now: Date = new Date()
+): Promise<User | null> {
+  const db = await getDb()
+
+  const [row] = await db
+    .select({ user: users })
+    .from(userSessions)
+    .innerJoin(users, eq(userSessions.userId, users.id))
+    .where(
+      and(eq(userSessions.id, tokenHash), gt(userSessions.expiresAt, now))
+    )
+    .limit(1)
+
+  return row?.user || null
+}
+
+/**
+ * Delete a session (sign out)
+ */
+export async function deleteSession(tokenHash: string): Promise<void> {
+  const db = await getDb()
+
+  await db.delete(userSessions).where(eq(userSessions.id, tokenHash))
+}
+
+/**
+ * Delete all of a user's sessions (signs them out everywhere)
+ */
+export async function deleteUserSessions(userId: string): Promise<void> {
+  const db = await getDb()
+
+  await db.delete(userSessions).where(eq(userSessions.userId, userId))
+}
+
+/**
+ * Store a magic link token
+ */
+export async function createLoginToken(
+  tokenHash: string,
+  email: string,
+  expiresAt: Date
+): Promise<void> {
+  const db = await getDb()
+
+  await db.insert(loginTokens).values({ id: tokenHash, email, expiresAt })
+}
+
+/**
+ * Mark an unused, unexpired magic link token as used
+ * Returns the email it was issued for, or null if it cannot be used
+ */
+export async function consumeLoginToken(
+  tokenHash: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const db = await getDb()
+
+  const [token] = await db
+    .update(loginTokens)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(loginTokens.id, tokenHash),
+        isNull(loginTokens.usedAt),
+        gt(loginTokens.expiresAt, now)
+      )
+    )
+    .returning({ email: loginTokens.email })
+
+  return token?.email || null
+}
+
+/**
+ * Record a password sign-in or magic link request
+ */
+export async function createAuthAttempt(
+  kind: AuthAttemptKind,
+  email: string,
+  ipAddress?: string
+): Promise<void> {
+  const db = await getDb()
+
+  await db.insert(authAttempts).values({ kind, email, ipAddress })
+}
+
+/**
+ * Count recent attempts of a kind for an email, and for an IP
+ */
+export async function countRecentAuthAttempts(
+  kind: AuthAttemptKind,
+  email: string,
+  ipAddress: string | undefined,
+  hoursAgo: number
+): Promise<{ byEmail: number; byIp: number }> {
+  const db = await getDb()
+  const since = new Date(Date.now() - hoursAgo * 60 * 60 * 1000)
+  const recent = and(
+    eq(authAttempts.kind, kind),
+    gte(authAttempts.createdAt, since)
+  )
+
+  const [[emailRow], [ipRow]] = await Promise.all([
+    db
+      .select({ count: count() })
+      .from(authAttempts)
+      .where(and(recent, eq(authAttempts.email, email))),
+    ipAddress
+      ? db
+          .select({ count: count() })
+          .from(authAttempts)
+          .where(and(recent, eq(authAttempts.ipAddress, ipAddress)))
+      : Promise.resolve([{ count: 0 }]),
+  ])
+
+  return { byEmail: emailRow?.count ?? 0, byIp: ipRow?.count ?? 0 }
+}
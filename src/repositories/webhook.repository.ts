@@ -0,0 +1,194 @@
+/**
+ * Article Analyzer - Webhook Repository
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Data access layer for webhook endpoints and their delivery log.
+ * Lookups that come from API callers are limited to a workspace.
+ */
+
+import { eq, and, desc } from 'drizzle-orm'
+import { getDb, getDbFromEnv } from '@/lib/db'
+import {
+  webhookEndpoints,
+  webhookDeliveries,
+  type WebhookEndpoint,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+} from '@/db/schema'
+import type { WebhookEvent } from '@/types/webhook'
+
+/**
+ * Create a webhook endpoint
+ */
+export async function createWebhookEndpoint(values: {
+  workspaceId: string
+  url: string
+  secret: string
+  events: WebhookEvent[]
+}): Promise<WebhookEndpoint> {
+  const db = await getDb()
+
+  const [endpoint] = await db
+    .insert(webhookEndpoints)
+    .values(values)
+    .returning()
+
+  return endpoint
+}
+
+/**
+ * List a workspace's webhook endpoints, newest first
+ */
+export async function getWebhookEndpoints(
+  workspaceId: string
+): Promise<WebhookEndpoint[]> {
+  const db = await getDb()
+
+  return await db
+    .select()
+    .from(webhookEndpoints)
+    .where(eq(webhookEndpoints.workspaceId, workspaceId))
+    .orderBy(desc(webhookEndpoints.createdAt))
+}
+
+/**
+ * Get a workspace's active endpoints subscribed to an event
+ */
+export async function getSubscribedEndpoints(
+  workspaceId: string,
+  event: WebhookEvent,
+  env?: CloudflareEnv
+): Promise<WebhookEndpoint[]> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const endpoints = await db
+    .select()
+    .from(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.workspaceId, workspaceId),
+        eq(webhookEndpoints.active, true)
+      )
+    )
+
+  return endpoints.filter((endpoint) =>
+    (endpoint.events as WebhookEvent[]).includes(event)
+  )
+}
+
+/**
+ * Delete a webhook endpoint (and its delivery log)
+ * Returns false if the endpoint does not exist in the workspace
+ */
+export async function deleteWebhookEndpoint(
+  id: string,
+  workspaceId: string
+): Promise<boolean> {
+  const db = await getDb()
+
+  const deleted = await db
+    .delete(webhookEndpoints)
+    .where(
+      and(
+        eq(webhookEndpoints.id, id),
+        eq(webhookEndpoints.workspaceId, workspaceId)
+      )
+    )
+    .returning({ id: webhookEndpoints.id })
+
+  return deleted.length > 0
+}
+
+/**
+ * Log a new (pending) delivery
+ */
+export async function createWebhookDelivery(
+  values: {
+    id?: string
+    endpointId: string
+    workspaceId: string
+    submissionId: string | null
+    event: WebhookEvent
+    payload: unknown
+  },
+  env?: CloudflareEnv
+): Promise<WebhookDelivery> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const [delivery] = await db
+    .insert(webhookDeliveries)
+    .values(values)
+    .returning()
+
+  return delivery
+}
+
+/**
+ * Get a delivery with its endpoint, for sending (queue consumer)
+ */
+export async function getDeliveryWithEndpoint(
+  id: string,
+  env?: CloudflareEnv
+): Promise<{ delivery: WebhookDelivery; endpoint: WebhookEndpoint } | null> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  const [row] = await db
+    .select({ delivery: webhookDeliveries, endpoint: webhookEndpoints })
+    .from(webhookDeliveries)
+    .innerJoin(
+      webhookEndpoints,
+      eq(webhookDeliveries.endpointId, webhookEndpoints.id)
+    )
+    .where(eq(webhookDeliveries.id, id))
+    .limit(1)
+
+  return row || null
+}
+
+/**
+ * Record the outcome of a delivery
+ */
+export async function updateWebhookDelivery(
+  id: string,
+  updates: {
+    status: WebhookDeliveryStatus
+    attempts: number
+    responseStatus?: number | null
+    lastError?: string | null
+    deliveredAt?: Date | null
+  },
+  env?: CloudflareEnv
+): Promise<void> {
+  const db = env ? getDbFromEnv(env) : await getDb()
+
+  await db
+    .update(webhookDeliveries)
+    .set(updates)
+    .where(eq(webhookDeliveries.id, id))
+}
+
+/**
+ * Get a workspace's recent deliveries, newest first
+ * Optionally limited to one endpoint
+ */
+export async function getRecentWebhookDeliveries(
+  workspaceId: string,
+  limit: number = 50,
+  endpointId?: string
+): Promise<WebhookDelivery[]> {
+  const db = await getDb()
+
+  return await db
+    .select()
+    .from(webhookDeliveries)
+    .where(
+      and(
+        eq(webhookDeliveries.workspaceId, workspaceId),
+        endpointId ? eq(webhookDeliveries.endpointId, endpointId) : undefined
+      )
+    )
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit)
+}
@@ -0,0 +1,193 @@
+/**
+ * Article Analyzer - Workspace Repository
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Data access layer for workspaces, their members and projects.
+ */
+
+import { eq, and, asc } from 'drizzle-orm'
+import { getDb } from '@/lib/db'
+import {
+  workspaces,
+  workspaceMembers,
+  projects,
+  users,
+  type Workspace,
+  type WorkspaceMember,
+  type Project,
+} from '@/db/schema'
+import type { WorkspaceRole } from '@/types/workspace'
+
+/**
+ * Create a workspace with its first owner
+ */
+export async function createWorkspace(
+  name: string,
+  ownerUserId: string
+): Promise<Workspace> {
+  const db = await getDb()
+
+  const [workspace] = await db.insert(workspaces).values({ name }).returning()
+
+  await db.insert(workspaceMembers).values({
+    workspaceId: workspace.id,
+    userId: ownerUserId,
+    role: 'owner',
+  })
+
+  return workspace
+}
+
+/**
+ * Get the workspaces a user belongs to, with their role (oldest first)
+ */
+export async function getWorkspacesForUser(
+  userId: string
+): Promise<Array<{ workspace: Workspace; role: WorkspaceRole }>> {
+  const db = await getDb()
+
+  const rows = await db
+    .select({ workspace: workspaces, role: workspaceMembers.role })
+    .from(workspaceMembers)
+    .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+    .where(eq(workspaceMembers.userId, userId))
+    .orderBy(asc(workspaceMembers.createdAt))
+
+  return rows.map((row) => ({
+    workspace: row.workspace,
+    role: row.role as WorkspaceRole,
+  }))
+}
+
+/**
+ * Get a user's membership in a workspace
+ */
+export async function getMembership(
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceMember | null> {
+  const db = await getDb()
+
+  const [member] = await db
+    .select()
+    .from(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    )
+    .limit(1)
+
+  return member || null
+}
+
+/**
+ * List the members of a workspace with their emails
+ */
+export async function getWorkspaceMembers(workspaceId: string) {
+  const db = await getDb()
+
+  return await db
+    .select({
+      userId: workspaceMembers.userId,
+      email: users.email,
+      role: workspaceMembers.role,
+      createdAt: workspaceMembers.createdAt,
+    })
+    .from(workspaceMembers)
+    .innerJoin(users, eq(workspaceMembers.userId, users.id))
+    .where(eq(workspaceMembers.workspaceId, workspaceId))
+    .orderBy(asc(workspaceMembers.createdAt))
+}
+
+/**
+ * Add a member or change their role
+ */
+export async function upsertMember(
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  const db = await getDb()
+
+  const [member] = await db
+    .insert(workspaceMembers)
+    .values({ workspaceId, userId, role })
+    .onConflictDoUpdate({
+      target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+      set: { role },
+    })
+    .returning()
+
+  return member
+}
+
+/**
+ * Remove a member from a workspace
+ */
+export async function removeMember(
+  workspaceId: string,
+  userId: string
+): Promise<void> {
+  const db = await getDb()
+
+  await db
+    .delete(workspaceMembers)
+    .where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    )
+}
+
+/**
+ * Create a project in a workspace
+ */
+export async function createProject(
+  workspaceId: string,
+  name: string
+): Promise<Project> {
+  const db = await getDb()
+
+  const [project] = await db
+    .insert(projects)
+    .values({ workspaceId, name })
+    .returning()
+
+  return project
+}
+
+/**
+ * List a workspace's projects
+ */
+export async function getProjects(workspaceId: string): Promise<Project[]> {
+  const db = await getDb()
+
+  return await db
+    .select()
+    .from(projects)
+    .where(eq(projects.workspaceId, workspaceId))
+    .orderBy(asc(projects.name))
+}
+
+/**
+ * Get a project, only if it belongs to the workspace
+ */
+export async function getProject(
+  id: string,
+  workspaceId: string
+): Promise<Project | null> {
+  const db = await getDb()
+
+  const [project] = await db
+    .select()
+    .from(projects)
+    .where(and(eq(projects.id, id), eq(projects.workspaceId, workspaceId)))
+    .limit(1)
+
+  return project || null
+}
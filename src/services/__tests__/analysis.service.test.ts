@@ -0,0 +1,254 @@
+/**
+ * FAQ testing phase: failed tests keep the phase open, and a redelivered
+ * job runs only the tests that have no saved result yet
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { analyzeArticle } from '@/services/analysis.service'
+import {
+  getSubmissionById,
+  updateCompletedPhase,
+  updateSubmissionStatus,
+  updateTestMetrics,
+} from '@/repositories/submission.repository'
+import {
+  getResultsBySubmission,
+  saveResult,
+} from '@/repositories/results.repository'
+import { runSearchTest } from '@/services/search-tester.service'
+import type {
+  AnalysisResult as StoredResult,
+  Submission,
+  TestMetricsData,
+} from '@/db/schema'
+import type { SearchTestResult } from '@/types/search-testing'
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+  updateSubmissionStatus: vi.fn(),
+  updateArticleData: vi.fn(),
+  updateGeneratedFAQs: vi.fn(),
+  updateTestMetrics: vi.fn(),
+  updateCompletedPhase: vi.fn(),
+  updateReadinessAudit: vi.fn(),
+}))
+
+vi.mock('@/repositories/results.repository', () => ({
+  saveResult: vi.fn(),
+  getResultsBySubmission: vi.fn(),
+}))
+
+vi.mock('@/services/search-tester.service', () => ({
+  runSearchTest: vi.fn(),
+  runControlTest: vi.fn(),
+}))
+
+vi.mock('@/services/search-providers', () => ({
+  getSearchProvider: vi.fn((id: string) => ({ id })),
+  getDefaultProviderIds: vi.fn(() => ['openai']),
+  isSearchProviderId: vi.fn(() => true),
+}))
+
+vi.mock('@/services/webhook.service', () => ({
+  dispatchSubmissionEvent: vi.fn(),
+}))
+
+vi.mock('@/services/notification.service', () => ({
+  notifyAnalysisFinished: vi.fn(),
+}))
+
+const SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const ARTICLE_URL = 'https://example.com/blog/aeo-guide'
+const QUESTIONS = ['What is AEO?', 'How is AEO measured?', 'Who needs AEO?']
+
+const env = {} as CloudflareEnv
+
+// Results saved so far, shared between attempts like the database
+let savedResults: StoredResult[]
+
+const submission = {
+  id: SUBMISSION_ID,
+  url: ARTICLE_URL,
+  status: 'testing_faqs',
+  matchMode: 'exact',
+  searchProviders: ['openai'],
+  lastCompletedPhase: 'running_control',
+  articleTitle: 'AEO Guide',
+  articleContent: 'Answer engine optimization...',
+  urlAliases: {},
+  generatedFaqs: QUESTIONS.map((question) => ({
+    question,
+    answer: 'An answer.',
+    category: 'what-is',
+    numbers: [],
+  })),
+  testMetrics: {
+    isAccessible: true,
+    inSourcesCount: 0,
+    inCitationsCount: 0,
+    totalFaqs: 0,
+    providerMetrics: {
+      openai: {
+        isAccessible: true,
+        inSourcesCount: 0,
+        inCitationsCount: 0,
+        totalFaqs: 0,
+      },
+    },
+  },
+} as unknown as Submission
+
+function searchResult(question: string): SearchTestResult {
+  return {
+    question,
+    targetUrlFound: true,
+    foundInSources: true,
+    foundInCitations: question === QUESTIONS[0],
+    citations: [],
+    sources: [ARTICLE_URL],
+    modelUsed: 'test',
+    provider: 'openai',
+  }
+}
+
+/**
+ * Search tests fail for the given questions
+ */
+function failFor(...questions: string[]) {
+  vi.mocked(runSearchTest).mockImplementation(async ({ question }) => {
+    if (questions.includes(question)) {
+      throw new Error('Search provider timed out')
+    }
+    return searchResult(question)
+  })
+}
+
+function testedQuestions(): string[] {
+  return vi.mocked(runSearchTest).mock.calls.map(([input]) => input.question)
+}
+
+function lastStoredMetrics(): TestMetricsData {
+  return vi.mocked(updateTestMetrics).mock.calls.at(-1)![1]
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  savedResults = []
+  vi.mocked(getSubmissionById).mockResolvedValue(submission)
+  vi.mocked(getResultsBySubmission).mockImplementation(async () => [
+    ...savedResults,
+  ])
+  vi.mocked(saveResult).mockImplementation(
+    async (
+      submissionId,
+      question,
+      targetUrlFound,
+      foundInSources,
+      foundInCitations,
+      allCitations,
+      allSources,
+      responseTimeMs,
+      llmResponse,
+      provider
+    ) => {
+      const row = {
+        submissionId,
+        question,
+        targetUrlFound,
+        foundInSources,
+        foundInCitations,
+        allCitations,
+        allSources,
+        responseTimeMs: responseTimeMs ?? null,
+        llmResponse: llmResponse ?? null,
+        provider,
+        matchType: null,
+      } as unknown as StoredResult
+      savedResults.push(row)
+      return row
+    }
+  )
+})
+
+describe('analyzeArticle FAQ testing phase', () => {
+  it('leaves the phase open when a test fails and the job will retry', async () => {
+    failFor(QUESTIONS[1])
+
+    const result = await analyzeArticle(SUBMISSION_ID, ARTICLE_URL, {
+      env,
+      willRetry: () => true,
+    })
+
+    expect(result).toMatchObject({ success: false, retrying: true })
+    expect(testedQuestions()).toEqual(QUESTIONS)
+    expect(savedResults.map((r) => r.question)).toEqual([
+      QUESTIONS[0],
+      QUESTIONS[2],
+    ])
+    expect(updateCompletedPhase).not.toHaveBeenCalledWith(
+      SUBMISSION_ID,
+      'testing_faqs',
+      expect.anything(),
+      env
+    )
+    expect(updateSubmissionStatus).not.toHaveBeenCalledWith(
+      SUBMISSION_ID,
+      'completed',
+      expect.anything(),
+      undefined,
+      env
+    )
+  })
+
+  it('runs only the remaining tests when the job is redelivered', async () => {
+    failFor(QUESTIONS[1])
+    await analyzeArticle(SUBMISSION_ID, ARTICLE_URL, {
+      env,
+      willRetry: () => true,
+    })
+
+    vi.mocked(runSearchTest).mockClear()
+    failFor()
+    const result = await analyzeArticle(SUBMISSION_ID, ARTICLE_URL, {
+      env,
+      willRetry: () => true,
+    })
+
+    expect(result.success).toBe(true)
+    expect(testedQuestions()).toEqual([QUESTIONS[1]])
+    expect(updateCompletedPhase).toHaveBeenCalledWith(
+      SUBMISSION_ID,
+      'testing_faqs',
+      expect.anything(),
+      env
+    )
+    expect(lastStoredMetrics()).toMatchObject({
+      totalFaqs: 3,
+      inSourcesCount: 3,
+      inCitationsCount: 1,
+    })
+    expect(lastStoredMetrics().failedTests).toBeUndefined()
+  })
+
+  it('completes with the saved results and records failures on the last attempt', async () => {
+    failFor(QUESTIONS[1])
+
+    const result = await analyzeArticle(SUBMISSION_ID, ARTICLE_URL, {
+      env,
+      willRetry: () => false,
+    })
+
+    expect(result).toMatchObject({ success: true, tier2Count: 2 })
+    expect(lastStoredMetrics()).toMatchObject({ totalFaqs: 2, failedTests: 1 })
+    expect(updateSubmissionStatus).toHaveBeenCalledWith(
+      SUBMISSION_ID,
+      'completed',
+      expect.anything(),
+      undefined,
+      env
+    )
+  })
+})
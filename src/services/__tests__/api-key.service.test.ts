@@ -0,0 +1,187 @@
+/**
+ * API keys: stored as hashes, looked up by hash, rejected once revoked,
+ * and scoped to their own workspace for /api/v1 reads
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import {
+  ApiKeyError,
+  authenticateApiKey,
+  createWorkspaceApiKey,
+  getApiKeyScope,
+} from '@/services/api-key.service'
+import {
+  createApiKey,
+  getActiveApiKeyByHash,
+  touchApiKey,
+} from '@/repositories/api-key.repository'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { submissionScopeCondition } from '@/repositories/scope'
+import { hashToken } from '@/lib/auth/crypto'
+import { GET as getAnalysis } from '@/app/api/v1/analyses/[id]/route'
+import type { ApiKey, User } from '@/db/schema'
+
+vi.mock('@/repositories/api-key.repository', () => ({
+  createApiKey: vi.fn(),
+  getActiveApiKeyByHash: vi.fn(),
+  getApiKeysForWorkspace: vi.fn(),
+  revokeApiKey: vi.fn(),
+  touchApiKey: vi.fn(),
+}))
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+}))
+
+vi.mock('@/repositories/results.repository', () => ({
+  getResultsBySubmission: vi.fn(),
+}))
+
+vi.mock('@/services/workspace.service', async () => {
+  const actual = await vi.importActual<
+    typeof import('@/services/workspace.service')
+  >('@/services/workspace.service')
+  return { ...actual, requireWorkspaceRole: vi.fn() }
+})
+
+const WORKSPACE_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000002'
+
+const apiKey = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000003',
+  workspaceId: WORKSPACE_ID,
+  name: 'CI',
+  keyPrefix: 'dg_abcdef',
+  dailyQuota: 100,
+  revokedAt: null,
+} as ApiKey
+
+function request(headers: Record<string, string> = {}): NextRequest {
+  return new NextRequest(`https://datagum.ai/api/v1/analyses/${SUBMISSION_ID}`, {
+    headers,
+  })
+}
+
+/**
+ * Render a scope's submission filter as SQL
+ */
+function scopeSql(scope: ReturnType<typeof getApiKeyScope>) {
+  return new PgDialect().sqlToQuery(submissionScopeCondition(scope)!)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('createWorkspaceApiKey', () => {
+  it('stores only the hash and a display prefix of the key', async () => {
+    vi.mocked(createApiKey).mockImplementation(
+      async (values) => ({ ...apiKey, ...values }) as ApiKey
+    )
+
+    const { secret } = await createWorkspaceApiKey(
+      WORKSPACE_ID,
+      { id: 'user-1' } as User,
+      '  CI  '
+    )
+
+    expect(secret).toMatch(/^dg_/)
+    const stored = vi.mocked(createApiKey).mock.calls[0][0]
+    expect(stored).toMatchObject({
+      workspaceId: WORKSPACE_ID,
+      name: 'CI',
+      keyHash: await hashToken(secret),
+      keyPrefix: secret.slice(0, 9),
+    })
+    expect(JSON.stringify(stored)).not.toContain(secret)
+  })
+})
+
+describe('authenticateApiKey', () => {
+  it('looks a bearer key up by its hash', async () => {
+    vi.mocked(getActiveApiKeyByHash).mockResolvedValue(apiKey)
+
+    const found = await authenticateApiKey(
+      request({ Authorization: 'Bearer dg_secret-value' })
+    )
+
+    expect(found).toBe(apiKey)
+    expect(getActiveApiKeyByHash).toHaveBeenCalledWith(
+      await hashToken('dg_secret-value')
+    )
+    expect(touchApiKey).toHaveBeenCalledWith(apiKey.id)
+  })
+
+  it('accepts the X-API-Key header', async () => {
+    vi.mocked(getActiveApiKeyByHash).mockResolvedValue(apiKey)
+
+    await authenticateApiKey(request({ 'X-API-Key': 'dg_secret-value' }))
+
+    expect(getActiveApiKeyByHash).toHaveBeenCalledWith(
+      await hashToken('dg_secret-value')
+    )
+  })
+
+  it('rejects a revoked or unknown key', async () => {
+    // Revoked keys are not returned by the active-key lookup
+    vi.mocked(getActiveApiKeyByHash).mockResolvedValue(null)
+
+    await expect(
+      authenticateApiKey(request({ Authorization: 'Bearer dg_revoked' }))
+    ).rejects.toThrow(new ApiKeyError('Invalid or revoked API key'))
+    expect(touchApiKey).not.toHaveBeenCalled()
+  })
+
+  it('rejects keys without the dg_ prefix without a lookup', async () => {
+    await expect(
+      authenticateApiKey(request({ Authorization: 'Bearer sk-other-service' }))
+    ).rejects.toBeInstanceOf(ApiKeyError)
+    expect(getActiveApiKeyByHash).not.toHaveBeenCalled()
+  })
+
+  it('requires a key', async () => {
+    await expect(authenticateApiKey(request())).rejects.toThrow(
+      'Missing API key'
+    )
+  })
+})
+
+describe('API key scope', () => {
+  it('covers the key workspace and nothing else', () => {
+    const { sql, params } = scopeSql(getApiKeyScope(apiKey))
+
+    expect(sql).toBe('"content_analysis_submissions"."workspace_id" in ($1)')
+    expect(params).toEqual([WORKSPACE_ID])
+  })
+
+  it('scopes v1 analysis reads to the key workspace', async () => {
+    vi.mocked(getActiveApiKeyByHash).mockResolvedValue(apiKey)
+    vi.mocked(getSubmissionById).mockResolvedValue(null)
+
+    const response = await getAnalysis(
+      request({ Authorization: 'Bearer dg_secret-value' }),
+      { params: Promise.resolve({ id: SUBMISSION_ID }) }
+    )
+
+    expect(response.status).toBe(404)
+    const [id, scope] = vi.mocked(getSubmissionById).mock.calls[0]
+    expect(id).toBe(SUBMISSION_ID)
+    // Legacy unowned submissions are not readable with an API key
+    expect(scopeSql(scope).sql).not.toContain('is null')
+  })
+
+  it('rejects v1 reads without a valid key', async () => {
+    vi.mocked(getActiveApiKeyByHash).mockResolvedValue(null)
+
+    const response = await getAnalysis(
+      request({ Authorization: 'Bearer dg_revoked' }),
+      { params: Promise.resolve({ id: SUBMISSION_ID }) }
+    )
+
+    expect(response.status).toBe(401)
+    expect(getSubmissionById).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Magic link sign-in: emailed through the transport, linked from APP_URL;
+ * the first verification takes the account back from whoever registered it
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createEmailMagicLinkSender,
+  createLocalMagicLinkSender,
+  requestMagicLink,
+  verifyMagicLink,
+} from '@/services/auth.service'
+import {
+  consumeLoginToken,
+  createLoginToken,
+  deleteUserSessions,
+  getUserByEmail,
+  markEmailVerified,
+} from '@/repositories/user.repository'
+import { hashToken } from '@/lib/auth/crypto'
+import { createCaptureEmailTransport } from '@/lib/email/transport'
+import type { User } from '@/db/schema'
+
+vi.mock('@/repositories/user.repository', () => ({
+  createLoginToken: vi.fn(),
+  consumeLoginToken: vi.fn(),
+  getUserByEmail: vi.fn(),
+  createUser: vi.fn(),
+  markEmailVerified: vi.fn(),
+  deleteUserSessions: vi.fn(),
+  createSession: vi.fn(),
+}))
+
+vi.mock('@/services/workspace.service', () => ({
+  ensurePersonalWorkspace: vi.fn(),
+}))
+
+const env = (vars: Partial<CloudflareEnv> = {}) => vars as CloudflareEnv
+
+beforeEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('requestMagicLink', () => {
+  it('links to APP_URL and stores only the token hash', async () => {
+    const sender = createLocalMagicLinkSender()
+
+    await requestMagicLink(
+      ' User@Example.com ',
+      env({ APP_URL: 'https://app.datagum.ai/' }),
+      sender
+    )
+
+    expect(sender.sent).toHaveLength(1)
+    const { email, link } = sender.sent[0]
+    expect(email).toBe('user@example.com')
+
+    const url = new URL(link)
+    expect(url.origin).toBe('https://app.datagum.ai')
+    expect(url.pathname).toBe('/api/auth/magic-link/verify')
+
+    const token = url.searchParams.get('token')!
+    expect(createLoginToken).toHaveBeenCalledWith(
+      await hashToken(token),
+      'user@example.com',
+      expect.any(Date)
+    )
+  })
+
+  it('emails the link through the configured transport', async () => {
+    const transport = createCaptureEmailTransport()
+
+    await requestMagicLink(
+      'user@example.com',
+      env({ APP_URL: 'https://app.datagum.ai' }),
+      createEmailMagicLinkSender(transport)
+    )
+
+    expect(transport.sent).toHaveLength(1)
+    const [email] = transport.sent
+    expect(email.to).toBe('user@example.com')
+    expect(email.subject).toBe('Your datagum.ai sign-in link')
+    expect(email.body).toMatch(
+      /^https:\/\/app\.datagum\.ai\/api\/auth\/magic-link\/verify\?token=/m
+    )
+    expect(email.body).toContain('expires in 15 minutes')
+    expect(email.html).toContain('href="https://app.datagum.ai/api/auth/')
+  })
+})
+
+describe('verifyMagicLink', () => {
+  const user = (fields: Partial<User>): User => ({
+    id: 'user-1',
+    email: 'owner@example.com',
+    passwordHash: 'pbkdf2$1$salt$hash',
+    emailVerifiedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...fields,
+  })
+
+  beforeEach(() => {
+    vi.mocked(consumeLoginToken).mockResolvedValue('owner@example.com')
+  })
+
+  it('drops the password and sessions of an account registered before verification', async () => {
+    vi.mocked(getUserByEmail).mockResolvedValue(user({}))
+
+    const session = await verifyMagicLink('token')
+
+    expect(session.user.id).toBe('user-1')
+    expect(markEmailVerified).toHaveBeenCalledWith('user-1', true)
+    expect(deleteUserSessions).toHaveBeenCalledWith('user-1')
+  })
+
+  it('keeps the password of an already verified account', async () => {
+    vi.mocked(getUserByEmail).mockResolvedValue(
+      user({ emailVerifiedAt: new Date() })
+    )
+
+    await verifyMagicLink('token')
+
+    expect(markEmailVerified).toHaveBeenCalledWith('user-1')
+    expect(deleteUserSessions).not.toHaveBeenCalled()
+  })
+
+  it('rejects used or expired links', async () => {
+    vi.mocked(consumeLoginToken).mockResolvedValue(null)
+
+    await expect(verifyMagicLink('token')).rejects.toThrow(
+      'This sign-in link is invalid or has expired'
+    )
+    expect(markEmailVerified).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * Batch quota: every URL counts against the workspace's daily quota,
+ * checked before anything is stored or queued
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { startBatch } from '@/services/batch.service'
+import {
+  countRecentBatchUrls,
+  createBatch,
+} from '@/repositories/batch.repository'
+import { countRecentSubmissionsByWorkspace } from '@/repositories/submission.repository'
+import { RateLimitError } from '@/services/rate-limiter.service'
+import { InMemoryQueue } from '@/queue/in-memory-queue'
+import type { SubmissionBatch } from '@/db/schema'
+
+vi.mock('@/repositories/batch.repository', () => ({
+  createBatch: vi.fn(),
+  deleteBatch: vi.fn(),
+  getBatchById: vi.fn(),
+  countRecentBatchUrls: vi.fn(),
+}))
+vi.mock('@/repositories/submission.repository', () => ({
+  countRecentSubmissionsByWorkspace: vi.fn(),
+}))
+
+const WORKSPACE_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const BATCH_ID = 'a1b2c3d4-0000-4000-8000-000000000002'
+const URLS = [
+  'https://example.com/one',
+  'https://example.com/two',
+  'https://example.com/three',
+]
+
+let queue: InMemoryQueue
+let env: CloudflareEnv
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  queue = new InMemoryQueue()
+  env = {
+    ARTICLE_ANALYSIS_QUEUE: queue,
+    WORKSPACE_DAILY_QUOTA: '10',
+  } as unknown as CloudflareEnv
+
+  vi.mocked(createBatch).mockResolvedValue({
+    id: BATCH_ID,
+    totalCount: URLS.length,
+  } as SubmissionBatch)
+})
+
+describe('startBatch workspace quota', () => {
+  it('queues the batch when every URL fits in the quota', async () => {
+    vi.mocked(countRecentSubmissionsByWorkspace).mockResolvedValue(4)
+    vi.mocked(countRecentBatchUrls).mockResolvedValue(3)
+
+    await startBatch({ urls: URLS, workspaceId: WORKSPACE_ID }, env)
+
+    expect(countRecentBatchUrls).toHaveBeenCalledWith(WORKSPACE_ID, 24, env)
+    expect(createBatch).toHaveBeenCalled()
+    expect(queue.pending).toHaveLength(1)
+  })
+
+  it('counts earlier batches by their URLs and rejects before queueing', async () => {
+    vi.mocked(countRecentSubmissionsByWorkspace).mockResolvedValue(2)
+    // An earlier batch whose members the consumer has not created yet
+    vi.mocked(countRecentBatchUrls).mockResolvedValue(6)
+
+    const attempt = startBatch({ urls: URLS, workspaceId: WORKSPACE_ID }, env)
+
+    await expect(attempt).rejects.toBeInstanceOf(RateLimitError)
+    await expect(attempt).rejects.toThrow('(2 left)')
+    expect(createBatch).not.toHaveBeenCalled()
+    expect(queue.pending).toHaveLength(0)
+  })
+})
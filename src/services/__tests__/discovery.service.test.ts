@@ -0,0 +1,167 @@
+/**
+ * Article discovery: sitemap indexes are followed one level deep, articles
+ * are deduplicated and sorted newest first, and every fetched URL (redirect
+ * targets and child sitemaps included) must pass the URL validator
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { discoverArticles } from '@/services/discovery.service'
+import { fetchWithTimeout } from '@/services/scraper.service'
+
+vi.mock('@/services/scraper.service', () => ({
+  fetchWithTimeout: vi.fn(),
+}))
+
+const SITEMAP_INDEX_URL = 'https://example.com/sitemap.xml'
+
+const sitemap = (...entries: [string, string?][]) =>
+  `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${entries
+    .map(
+      ([loc, lastmod]) =>
+        `<url><loc>${loc}</loc>${lastmod ? `<lastmod>${lastmod}</lastmod>` : ''}</url>`
+    )
+    .join('')}</urlset>`
+
+const sitemapIndex = (...locs: string[]) =>
+  `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locs
+    .map((loc) => `<sitemap><loc>${loc}</loc></sitemap>`)
+    .join('')}</sitemapindex>`
+
+/**
+ * Serve documents by URL; unknown URLs fail like a 404
+ */
+function serve(documents: Record<string, string>, redirects: Record<string, string> = {}) {
+  vi.mocked(fetchWithTimeout).mockImplementation(async (url) => {
+    const finalUrl = redirects[url] ?? url
+    const html = documents[finalUrl]
+    if (html === undefined) {
+      throw new Error(`HTTP 404: ${finalUrl}`)
+    }
+    return { html, finalUrl, headers: new Headers() }
+  })
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+describe('discoverArticles', () => {
+  it('merges the sitemaps of an index, newest first and without duplicates', async () => {
+    serve({
+      [SITEMAP_INDEX_URL]: sitemapIndex(
+        'https://example.com/sitemap-posts.xml',
+        'https://example.com/sitemap-missing.xml',
+        'https://example.com/sitemap-pages.xml'
+      ),
+      'https://example.com/sitemap-posts.xml': sitemap(
+        ['https://example.com/posts/old', '2024-01-05'],
+        ['https://example.com/posts/new', '2025-03-14']
+      ),
+      'https://example.com/sitemap-pages.xml': sitemap(
+        ['https://example.com/about'],
+        ['https://example.com/posts/new', '2025-03-20']
+      ),
+    })
+
+    const result = await discoverArticles(SITEMAP_INDEX_URL)
+
+    expect(result).toEqual({
+      source: 'sitemap',
+      sourceUrl: SITEMAP_INDEX_URL,
+      articles: [
+        {
+          url: 'https://example.com/posts/new',
+          title: undefined,
+          lastModified: '2025-03-14T00:00:00.000Z',
+        },
+        {
+          url: 'https://example.com/posts/old',
+          title: undefined,
+          lastModified: '2024-01-05T00:00:00.000Z',
+        },
+        { url: 'https://example.com/about', title: undefined, lastModified: undefined },
+      ],
+      sitemapCount: 3,
+      truncated: false,
+    })
+  })
+
+  it('does not follow nested sitemap indexes', async () => {
+    serve({
+      [SITEMAP_INDEX_URL]: sitemapIndex('https://example.com/sitemap-nested.xml'),
+      'https://example.com/sitemap-nested.xml': sitemapIndex(
+        'https://example.com/sitemap-posts.xml'
+      ),
+    })
+
+    const result = await discoverArticles(SITEMAP_INDEX_URL)
+
+    expect(result.articles).toEqual([])
+    expect(fetchWithTimeout).toHaveBeenCalledTimes(2)
+  })
+
+  it('rejects a private host before fetching', async () => {
+    await expect(
+      discoverArticles('http://127.0.0.1/sitemap.xml')
+    ).rejects.toThrow('Cannot analyze private IP addresses')
+    expect(fetchWithTimeout).not.toHaveBeenCalled()
+  })
+
+  it('rejects a redirect to a private host', async () => {
+    serve(
+      { 'http://localhost/sitemap.xml': sitemap(['http://localhost/admin']) },
+      { [SITEMAP_INDEX_URL]: 'http://localhost/sitemap.xml' }
+    )
+
+    await expect(discoverArticles(SITEMAP_INDEX_URL)).rejects.toThrow(
+      'Cannot analyze localhost URLs'
+    )
+  })
+
+  it('skips child sitemaps on private hosts without fetching them', async () => {
+    serve({
+      [SITEMAP_INDEX_URL]: sitemapIndex(
+        'http://10.0.0.5/sitemap-internal.xml',
+        'https://example.com/sitemap-posts.xml'
+      ),
+      'https://example.com/sitemap-posts.xml': sitemap([
+        'https://example.com/posts/new',
+        '2025-03-14',
+      ]),
+    })
+
+    const result = await discoverArticles(SITEMAP_INDEX_URL)
+
+    expect(result.articles.map((article) => article.url)).toEqual([
+      'https://example.com/posts/new',
+    ])
+    expect(result.sitemapCount).toBe(2)
+    expect(vi.mocked(fetchWithTimeout).mock.calls.map(([url]) => url)).toEqual([
+      SITEMAP_INDEX_URL,
+      'https://example.com/sitemap-posts.xml',
+    ])
+  })
+
+  it('flags an index with more child sitemaps than are read', async () => {
+    const children = Array.from(
+      { length: 21 },
+      (_, index) => `https://example.com/sitemap-${index}.xml`
+    )
+    serve({
+      [SITEMAP_INDEX_URL]: sitemapIndex(...children),
+      ...Object.fromEntries(
+        children.map((url, index) => [
+          url,
+          sitemap([`https://example.com/posts/${index}`]),
+        ])
+      ),
+    })
+
+    const result = await discoverArticles(SITEMAP_INDEX_URL)
+
+    expect(result.sitemapCount).toBe(21)
+    expect(result.articles).toHaveLength(20)
+    expect(result.truncated).toBe(true)
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Analysis summary emails: queued on completion, rendered through the
+ * capture transport
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  notifyAnalysisFinished,
+  sendQueuedEmail,
+} from '@/services/notification.service'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { getResultsBySubmission } from '@/repositories/results.repository'
+import { createCaptureEmailTransport } from '@/lib/email/transport'
+import { InMemoryQueue } from '@/queue/in-memory-queue'
+import type { EmailMessage } from '@/lib/shared/queue-messages'
+import type { AnalysisResult, Submission } from '@/db/schema'
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+}))
+vi.mock('@/repositories/results.repository', () => ({
+  getResultsBySubmission: vi.fn(),
+}))
+
+const submission = (values: Partial<Submission> = {}) =>
+  ({
+    id: 'sub-1',
+    url: 'https://example.com/blog/aeo-guide',
+    articleTitle: 'The AEO guide',
+    status: 'completed',
+    shareToken: 'share-token',
+    notifyEmail: 'owner@example.com',
+    scrapingError: null,
+    urlAliases: null,
+    testMetrics: {
+      isAccessible: true,
+      inSourcesCount: 3,
+      inCitationsCount: 1,
+      totalFaqs: 4,
+    },
+    ...values,
+  }) as Submission
+
+const result = (citations: string[]) =>
+  ({
+    question: 'What is AEO?',
+    provider: 'openai',
+    allCitations: citations.map((url, i) => ({ url, position: i + 1 })),
+    allSources: citations,
+  }) as unknown as AnalysisResult
+
+let queue: InMemoryQueue
+let env: CloudflareEnv
+
+/**
+ * Queue the summary, then deliver it through a capture transport
+ */
+async function renderSummary(status: 'completed' | 'failed') {
+  await notifyAnalysisFinished('sub-1', status, env)
+
+  const transport = createCaptureEmailTransport()
+  for (const message of queue.pending) {
+    await sendQueuedEmail(message.body as EmailMessage, env, transport)
+  }
+  return transport.sent
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  queue = new InMemoryQueue()
+  env = {
+    ARTICLE_ANALYSIS_QUEUE: queue,
+    APP_URL: 'https://app.datagum.ai/',
+  } as unknown as CloudflareEnv
+
+  vi.mocked(getResultsBySubmission).mockResolvedValue([
+    result(['https://example.com/blog/aeo-guide', 'https://rival.io/aeo']),
+    result(['https://rival.io/aeo', 'https://other.net/aeo']),
+  ])
+})
+
+describe('analysis summary email', () => {
+  it('summarizes the tiers and competitors of a completed analysis', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(submission())
+
+    const [email, ...rest] = await renderSummary('completed')
+
+    expect(rest).toHaveLength(0)
+    expect(email.to).toBe('owner@example.com')
+    expect(email.subject).toBe(
+      'Your AI search visibility results: The AEO guide'
+    )
+    expect(email.body).toContain(
+      'Tier 1 (accessibility): Passed - AI search can reach the article when asked about its URL'
+    )
+    expect(email.body).toContain('Tier 2 (sources): 3/4 questions (75%)')
+    expect(email.body).toContain('Tier 3 (citations): 1/4 questions (25%)')
+    expect(email.body).toContain('Your site earned 25% of citations.')
+    expect(email.body).toContain('1. rival.io (50% of citations)')
+    expect(email.body).toContain(
+      'View the full results: https://app.datagum.ai/results/sub-1?share=share-token'
+    )
+    expect(email.html).toContain(
+      'href="https://app.datagum.ai/results/sub-1?share=share-token"'
+    )
+  })
+
+  it('explains why a failed analysis stopped', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(
+      submission({
+        status: 'failed',
+        articleTitle: null,
+        testMetrics: null,
+        scrapingError: 'Article <blocked> by robots.txt',
+      })
+    )
+    vi.mocked(getResultsBySubmission).mockResolvedValue([])
+
+    const [email] = await renderSummary('failed')
+
+    expect(email.subject).toBe(
+      "We couldn't finish analyzing https://example.com/blog/aeo-guide"
+    )
+    expect(email.body).toContain(
+      'The analysis of https://example.com/blog/aeo-guide failed: Article <blocked> by robots.txt'
+    )
+    expect(email.body).not.toContain('Tier 1')
+    expect(email.html).toContain('Article &lt;blocked&gt; by robots.txt')
+  })
+
+  it('sends nothing when no email was requested', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(
+      submission({ notifyEmail: null })
+    )
+
+    await expect(renderSummary('completed')).resolves.toHaveLength(0)
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Sign-in rate limits: per email and per IP, recorded on every attempt
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  checkAuthRateLimit,
+  RateLimitError,
+} from '@/services/rate-limiter.service'
+import {
+  countRecentAuthAttempts,
+  createAuthAttempt,
+} from '@/repositories/user.repository'
+
+vi.mock('@/repositories/user.repository', () => ({
+  countRecentAuthAttempts: vi.fn(),
+  createAuthAttempt: vi.fn(),
+}))
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.stubEnv('NODE_ENV', 'production')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('checkAuthRateLimit', () => {
+  it('records an allowed attempt under the normalized email', async () => {
+    vi.mocked(countRecentAuthAttempts).mockResolvedValue({
+      byEmail: 9,
+      byIp: 0,
+    })
+
+    await checkAuthRateLimit('login', ' Owner@Example.com ', '203.0.113.7')
+
+    expect(countRecentAuthAttempts).toHaveBeenCalledWith(
+      'login',
+      'owner@example.com',
+      '203.0.113.7',
+      1
+    )
+    expect(createAuthAttempt).toHaveBeenCalledWith(
+      'login',
+      'owner@example.com',
+      '203.0.113.7'
+    )
+  })
+
+  it('rejects an email with too many password attempts', async () => {
+    vi.mocked(countRecentAuthAttempts).mockResolvedValue({
+      byEmail: 10,
+      byIp: 0,
+    })
+
+    await expect(
+      checkAuthRateLimit('login', 'owner@example.com', '203.0.113.7')
+    ).rejects.toThrow(RateLimitError)
+    expect(createAuthAttempt).not.toHaveBeenCalled()
+  })
+
+  it('rejects an IP requesting links for many emails', async () => {
+    vi.mocked(countRecentAuthAttempts).mockResolvedValue({
+      byEmail: 0,
+      byIp: 20,
+    })
+
+    await expect(
+      checkAuthRateLimit('magic_link', 'new@example.com', '203.0.113.7')
+    ).rejects.toThrow('Too many sign-in links requested')
+  })
+
+  it('allows fewer magic links than password attempts per email', async () => {
+    vi.mocked(countRecentAuthAttempts).mockResolvedValue({
+      byEmail: 5,
+      byIp: 0,
+    })
+
+    await expect(
+      checkAuthRateLimit('magic_link', 'owner@example.com')
+    ).rejects.toThrow(RateLimitError)
+    await expect(
+      checkAuthRateLimit('login', 'owner@example.com')
+    ).resolves.toBeUndefined()
+  })
+
+  it('is skipped outside production', async () => {
+    vi.stubEnv('NODE_ENV', 'development')
+
+    await checkAuthRateLimit('login', 'owner@example.com')
+
+    expect(countRecentAuthAttempts).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,222 @@
+/**
+ * Live progress stream: event sequence, backoff while nothing changes,
+ * and termination once the analysis finishes
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createResultsEventStream } from '@/services/results-stream.service'
+import {
+  getSubmissionById,
+  getSubmissionStatus,
+} from '@/repositories/submission.repository'
+import {
+  getResultsAfter,
+  getResultsBySubmission,
+} from '@/repositories/results.repository'
+import { SYSTEM_SCOPE } from '@/repositories/scope'
+import type {
+  AnalysisResult,
+  Submission,
+  SubmissionStatus,
+} from '@/db/schema'
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+  getSubmissionStatus: vi.fn(),
+}))
+
+vi.mock('@/repositories/results.repository', () => ({
+  getResultsAfter: vi.fn(),
+  getResultsBySubmission: vi.fn(),
+}))
+
+vi.mock('@/services/results.service', () => ({
+  buildResultsPayload: vi.fn((submission: Submission) => ({
+    status: submission.status,
+  })),
+  toResultPayload: vi.fn((result: AnalysisResult) => ({ id: result.id })),
+  toSubmissionPayload: vi.fn((submission: Submission) => ({
+    status: submission.status,
+  })),
+}))
+
+const SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+
+interface StreamEvent {
+  event: string
+  id?: string
+  data: unknown
+}
+
+/**
+ * Give the stream one status per database check, and results as listed
+ * for the check they appear in
+ */
+function simulate(
+  statuses: Array<SubmissionStatus | null>,
+  resultsByCheck: Record<number, number[]> = {}
+) {
+  let check = -1
+
+  vi.mocked(getSubmissionStatus).mockImplementation(async () => {
+    check = Math.min(check + 1, statuses.length - 1)
+    return statuses[check]
+  })
+  vi.mocked(getSubmissionById).mockImplementation(
+    async () => ({ status: statuses[check] }) as Submission
+  )
+  vi.mocked(getResultsAfter).mockImplementation(async () =>
+    (resultsByCheck[check] ?? []).map((id) => ({ id }) as AnalysisResult)
+  )
+  vi.mocked(getResultsBySubmission).mockResolvedValue([])
+}
+
+/**
+ * Read the whole stream, running its timers, and parse the events
+ */
+async function readEvents(
+  stream: ReadableStream<Uint8Array>
+): Promise<StreamEvent[]> {
+  const text = new Response(stream).text()
+  await vi.runAllTimersAsync()
+
+  return (await text)
+    .split('\n\n')
+    .filter((block) => block.includes('event: '))
+    .map((block) => {
+      const fields = Object.fromEntries(
+        block.split('\n').map((line) => {
+          const separator = line.indexOf(': ')
+          return [line.slice(0, separator), line.slice(separator + 2)]
+        })
+      )
+      return { event: fields.event, id: fields.id, data: JSON.parse(fields.data) }
+    })
+}
+
+/**
+ * Delays the stream waited between database checks
+ */
+function pollDelays(setTimeoutSpy: { mock: { calls: unknown[][] } }): number[] {
+  return setTimeoutSpy.mock.calls.map(([, delay]) => delay as number)
+}
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('createResultsEventStream', () => {
+  it('sends status changes and results, then the final results', async () => {
+    simulate(['scraping', 'testing_faqs', 'testing_faqs', 'completed'], {
+      1: [11],
+      2: [12, 13],
+    })
+
+    const events = await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, { canEdit: false })
+    )
+
+    expect(events.map(({ event, id }) => (id ? `${event}#${id}` : event))).toEqual([
+      'status',
+      'status',
+      'result#11',
+      'result#12',
+      'result#13',
+      'complete',
+    ])
+    expect(events[0].data).toEqual({ submission: { status: 'scraping' } })
+    expect(events.at(-1)!.data).toEqual({ status: 'completed' })
+  })
+
+  it('resumes after the last result the client has', async () => {
+    simulate(['testing_faqs', 'failed'])
+
+    await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, {
+        canEdit: false,
+        lastResultId: 42,
+      })
+    )
+
+    expect(getResultsAfter).toHaveBeenCalledWith(SUBMISSION_ID, 42, SYSTEM_SCOPE)
+  })
+
+  it('stops checking the database as soon as the analysis has finished', async () => {
+    simulate(['testing_faqs', 'completed', 'completed'])
+
+    const events = await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, { canEdit: false })
+    )
+
+    expect(events.at(-1)!.event).toBe('complete')
+    expect(getSubmissionStatus).toHaveBeenCalledTimes(2)
+  })
+
+  it('ends with not-found when the submission is not visible', async () => {
+    simulate([null])
+
+    const events = await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, { canEdit: false })
+    )
+
+    expect(events.map((e) => e.event)).toEqual(['not-found'])
+  })
+
+  it('backs off while nothing changes and resets on a new result', async () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+    simulate(
+      [...Array<SubmissionStatus>(9).fill('testing_faqs'), 'completed'],
+      { 6: [21] }
+    )
+
+    await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, { canEdit: false })
+    )
+
+    expect(pollDelays(setTimeoutSpy)).toEqual([
+      1000, // Status event sent
+      1500,
+      2250,
+      3375,
+      5062.5,
+      7593.75,
+      1000, // Result sent
+      1500,
+      2250,
+    ])
+  })
+
+  it('never waits longer than ten seconds between checks', async () => {
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+    simulate([...Array<SubmissionStatus>(12).fill('testing_faqs'), 'completed'])
+
+    await readEvents(
+      createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, { canEdit: false })
+    )
+
+    expect(Math.max(...pollDelays(setTimeoutSpy))).toBe(10000)
+  })
+
+  it('stops when the client disconnects', async () => {
+    simulate(Array<SubmissionStatus>(100).fill('testing_faqs'))
+    const controller = new AbortController()
+    const stream = createResultsEventStream(SUBMISSION_ID, SYSTEM_SCOPE, {
+      canEdit: false,
+      signal: controller.signal,
+    })
+
+    const text = new Response(stream).text()
+    await vi.advanceTimersByTimeAsync(3000)
+    const checks = vi.mocked(getSubmissionStatus).mock.calls.length
+    controller.abort()
+    await text
+
+    expect(vi.mocked(getSubmissionStatus).mock.calls.length).toBe(checks)
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Scheduled re-tests: workspace-only scheduling, schedule cap and quota
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  runDueRetests,
+  scheduleRetests,
+} from '@/services/retest-scheduler.service'
+import {
+  createRetestSubmission,
+  getSubmissionById,
+} from '@/repositories/submission.repository'
+import {
+  countActiveSchedules,
+  deactivateSchedule,
+  getDueSchedules,
+  markScheduleRun,
+  upsertSchedule,
+} from '@/repositories/schedule.repository'
+import {
+  checkWorkspaceQuota,
+  RateLimitError,
+} from '@/services/rate-limiter.service'
+import { InMemoryQueue } from '@/queue/in-memory-queue'
+import { SYSTEM_SCOPE } from '@/repositories/scope'
+import type { Schedule, Submission } from '@/db/schema'
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+  createRetestSubmission: vi.fn(),
+  getSubmissionRuns: vi.fn(),
+}))
+vi.mock('@/repositories/schedule.repository', () => ({
+  upsertSchedule: vi.fn(),
+  getDueSchedules: vi.fn(),
+  markScheduleRun: vi.fn(),
+  countActiveSchedules: vi.fn(),
+  deactivateSchedule: vi.fn(),
+}))
+vi.mock('@/services/rate-limiter.service', async (importOriginal) => ({
+  ...(await importOriginal<
+    typeof import('@/services/rate-limiter.service')
+  >()),
+  checkWorkspaceQuota: vi.fn(),
+}))
+
+const WORKSPACE_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const CHILD_ID = 'a1b2c3d4-0000-4000-8000-000000000002'
+const NOW = new Date('2026-01-15T06:00:00Z')
+
+const submission = (values: Partial<Submission> = {}) =>
+  ({
+    id: 'sub-1',
+    url: 'https://example.com/article',
+    status: 'completed',
+    workspaceId: WORKSPACE_ID,
+    parentSubmissionId: null,
+    ...values,
+  }) as Submission
+
+const schedule = (values: Partial<Schedule> = {}) =>
+  ({
+    id: 'schedule-1',
+    submissionId: 'sub-1',
+    frequency: 'daily',
+    active: true,
+    ...values,
+  }) as Schedule
+
+let queue: InMemoryQueue
+let env: CloudflareEnv
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+
+  queue = new InMemoryQueue()
+  env = { ARTICLE_ANALYSIS_QUEUE: queue } as unknown as CloudflareEnv
+
+  vi.mocked(createRetestSubmission).mockResolvedValue(
+    submission({ id: CHILD_ID, parentSubmissionId: 'sub-1' })
+  )
+  vi.mocked(checkWorkspaceQuota).mockResolvedValue({ limit: 100, remaining: 99 })
+})
+
+describe('scheduleRetests', () => {
+  it('refuses submissions outside a workspace', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(
+      submission({ workspaceId: null })
+    )
+
+    await expect(
+      scheduleRetests('sub-1', 'daily', SYSTEM_SCOPE)
+    ).rejects.toThrow(/workspace/)
+    expect(upsertSchedule).not.toHaveBeenCalled()
+  })
+
+  it('caps active schedules per workspace', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(submission())
+    vi.mocked(countActiveSchedules).mockResolvedValue(20)
+
+    await expect(
+      scheduleRetests('sub-1', 'daily', SYSTEM_SCOPE)
+    ).rejects.toThrow(/at most 20 active/)
+    expect(countActiveSchedules).toHaveBeenCalledWith(WORKSPACE_ID, 'sub-1')
+    expect(upsertSchedule).not.toHaveBeenCalled()
+  })
+
+  it('schedules the root submission when under the cap', async () => {
+    vi.mocked(getSubmissionById).mockResolvedValue(
+      submission({ id: CHILD_ID, parentSubmissionId: 'sub-1' })
+    )
+    vi.mocked(countActiveSchedules).mockResolvedValue(3)
+    vi.mocked(upsertSchedule).mockResolvedValue(schedule())
+
+    await scheduleRetests(CHILD_ID, 'weekly', SYSTEM_SCOPE)
+
+    expect(upsertSchedule).toHaveBeenCalledWith(
+      'sub-1',
+      'weekly',
+      expect.any(Date)
+    )
+  })
+})
+
+describe('runDueRetests', () => {
+  it('starts a re-test run within the workspace quota', async () => {
+    vi.mocked(getDueSchedules).mockResolvedValue([schedule()])
+    vi.mocked(getSubmissionById).mockResolvedValue(submission())
+
+    await expect(runDueRetests(env, NOW)).resolves.toBe(1)
+
+    expect(checkWorkspaceQuota).toHaveBeenCalledWith(WORKSPACE_ID, 1, env)
+    expect(queue.pending).toHaveLength(1)
+    expect(markScheduleRun).toHaveBeenCalled()
+  })
+
+  it('skips the run when the workspace quota is used up', async () => {
+    vi.mocked(getDueSchedules).mockResolvedValue([schedule()])
+    vi.mocked(getSubmissionById).mockResolvedValue(submission())
+    vi.mocked(checkWorkspaceQuota).mockRejectedValue(
+      new RateLimitError('Workspace quota exceeded.')
+    )
+
+    await expect(runDueRetests(env, NOW)).resolves.toBe(0)
+
+    expect(createRetestSubmission).not.toHaveBeenCalled()
+    expect(queue.pending).toHaveLength(0)
+    // Advanced to the next due time rather than retried every tick
+    expect(markScheduleRun).toHaveBeenCalled()
+  })
+
+  it('stops schedules of submissions outside a workspace', async () => {
+    vi.mocked(getDueSchedules).mockResolvedValue([schedule()])
+    vi.mocked(getSubmissionById).mockResolvedValue(
+      submission({ workspaceId: null })
+    )
+
+    await expect(runDueRetests(env, NOW)).resolves.toBe(0)
+
+    expect(deactivateSchedule).toHaveBeenCalledWith('sub-1', env)
+    expect(checkWorkspaceQuota).not.toHaveBeenCalled()
+    expect(queue.pending).toHaveLength(0)
+  })
+})
@@ -0,0 +1,65 @@
+/**
+ * Scrape credentials at rest: sealed with AES-GCM, unreadable when
+ * tampered with or opened with another key
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  openScrapeCredentials,
+  sealScrapeCredentials,
+} from '@/services/scrape-credentials.service'
+import type { ScrapeCredentials } from '@/types/scrape-credentials'
+
+const env = {
+  SCRAPE_CREDENTIALS_KEY: 'test-scrape-credentials-key',
+} as unknown as CloudflareEnv
+
+const CREDENTIALS: ScrapeCredentials = {
+  headers: { 'X-Api-Key': 'secret-key' },
+  cookies: 'session=abc123',
+  basicAuth: { username: 'reader', password: 'hunter2' },
+}
+
+describe('sealScrapeCredentials / openScrapeCredentials', () => {
+  it('round-trips credentials without storing them in plain text', async () => {
+    const sealed = await sealScrapeCredentials(CREDENTIALS, env)
+
+    expect(sealed).toMatch(/^aesgcm\$/)
+    expect(sealed).not.toContain('secret-key')
+    expect(sealed).not.toContain('hunter2')
+    expect(await openScrapeCredentials(sealed, env)).toEqual(CREDENTIALS)
+  })
+
+  it('uses a fresh IV for every seal', async () => {
+    const first = await sealScrapeCredentials(CREDENTIALS, env)
+    const second = await sealScrapeCredentials(CREDENTIALS, env)
+
+    expect(first).not.toBe(second)
+  })
+
+  it('rejects a tampered ciphertext', async () => {
+    const sealed = await sealScrapeCredentials(CREDENTIALS, env)
+    const [scheme, iv, ciphertext] = sealed.split('$')
+    const flipped = (parseInt(ciphertext[0], 16) ^ 1).toString(16)
+
+    await expect(
+      openScrapeCredentials(`${scheme}$${iv}$${flipped}${ciphertext.slice(1)}`, env)
+    ).rejects.toThrow()
+  })
+
+  it('rejects credentials sealed with another key', async () => {
+    const sealed = await sealScrapeCredentials(CREDENTIALS, env)
+
+    await expect(
+      openScrapeCredentials(sealed, {
+        SCRAPE_CREDENTIALS_KEY: 'another-key',
+      } as unknown as CloudflareEnv)
+    ).rejects.toThrow()
+  })
+
+  it('requires SCRAPE_CREDENTIALS_KEY', async () => {
+    await expect(
+      sealScrapeCredentials(CREDENTIALS, {} as CloudflareEnv)
+    ).rejects.toThrow('Scrape credentials are not enabled')
+  })
+})
@@ -0,0 +1,287 @@
+/**
+ * Scraper renderer fallback: app shells and near-empty pages are rendered
+ * with the configured renderer, real articles are parsed statically.
+ * The final URL and the page's declared canonical, AMP and og URLs are
+ * kept as aliases. Submitter credentials are only sent to the submitted
+ * URL's origin, and streamed bodies are cut off at the byte cap.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchWithTimeout, scrapeArticle } from '@/services/scraper.service'
+import { createFakeRenderer } from '@/services/renderers'
+import {
+  ContentNotFoundError,
+  ResponseTooLargeError,
+} from '@/types/scraping-errors'
+
+const ARTICLE_URL = 'https://example.com/posts/rendered'
+
+const APP_SHELL = `<html><head><title>Loading…</title>
+<script src="/static/js/main.3f9a1c.js"></script></head>
+<body><div id="root"></div><noscript>You need to enable JavaScript to run this app.</noscript></body></html>`
+
+const STATIC_ARTICLE = `<html><head><title>Static Article</title></head><body><article>
+<h1>Static Article</h1>
+<p>This article is served as plain HTML, so the scraper can read it straight from the response without running any scripts at all.</p>
+<p>Rendering it again in a headless browser would only cost time and money, so the renderer must not be called for pages like this one.</p>
+</article></body></html>`
+
+const TEASER = `<html><head><title>Teaser</title></head><body>
+<p>Loading the story…</p></body></html>`
+
+const fetchMock = vi.fn()
+
+// Robots.txt is skipped for the test host
+const env = {
+  ROBOTS_TXT_OVERRIDE_HOSTS: 'example.com',
+} as unknown as CloudflareEnv
+
+function respondWith(html: string) {
+  fetchMock.mockImplementation(
+    async () =>
+      new Response(html, {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      })
+  )
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock)
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('scrapeArticle renderer fallback', () => {
+  it('renders an app shell and parses the rendered page', async () => {
+    respondWith(APP_SHELL)
+    const renderer = createFakeRenderer()
+
+    const article = await scrapeArticle(ARTICLE_URL, env, { renderer })
+
+    expect(renderer.urls).toEqual([ARTICLE_URL])
+    expect(article.renderedWith).toBe('fake')
+    expect(article.title).toBe('Rendered Article')
+    expect(article.content).toContain('produced by the fake renderer')
+    expect(article.finalUrl).toBe(ARTICLE_URL)
+  })
+
+  it('renders static HTML that has too little content to be the article', async () => {
+    respondWith(TEASER)
+    const renderer = createFakeRenderer()
+
+    const article = await scrapeArticle(ARTICLE_URL, env, { renderer })
+
+    expect(renderer.urls).toEqual([ARTICLE_URL])
+    expect(article.renderedWith).toBe('fake')
+  })
+
+  it('parses a static article without rendering', async () => {
+    respondWith(STATIC_ARTICLE)
+    const renderer = createFakeRenderer()
+
+    const article = await scrapeArticle(ARTICLE_URL, env, { renderer })
+
+    expect(renderer.urls).toHaveLength(0)
+    expect(article.renderedWith).toBeUndefined()
+    expect(article.title).toBe('Static Article')
+  })
+
+  it('fails on an app shell when no renderer is configured', async () => {
+    respondWith(APP_SHELL)
+
+    await expect(
+      scrapeArticle(ARTICLE_URL, env, { renderer: null })
+    ).rejects.toBeInstanceOf(ContentNotFoundError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('fails when the rendered page has no article either', async () => {
+    respondWith(APP_SHELL)
+    const renderer = createFakeRenderer(APP_SHELL)
+
+    await expect(scrapeArticle(ARTICLE_URL, env, { renderer })).rejects.toBeInstanceOf(
+      ContentNotFoundError
+    )
+    expect(renderer.urls).toEqual([ARTICLE_URL])
+  })
+
+  it('uses the renderer selected by PAGE_RENDERER', async () => {
+    respondWith(APP_SHELL)
+
+    const article = await scrapeArticle(ARTICLE_URL, {
+      ...env,
+      PAGE_RENDERER: 'fake',
+    })
+
+    expect(article.renderedWith).toBe('fake')
+  })
+
+  it('never uses the fake renderer in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production')
+    respondWith(APP_SHELL)
+
+    await expect(
+      scrapeArticle(ARTICLE_URL, { ...env, PAGE_RENDERER: 'fake' })
+    ).rejects.toBeInstanceOf(ContentNotFoundError)
+  })
+})
+
+describe('scrapeArticle URL aliases', () => {
+  it('keeps the URL after redirects and resolves declared URLs against it', async () => {
+    const declared = STATIC_ARTICLE.replace(
+      '<title>',
+      `<link rel="canonical" href="/guides/static-article">
+<link rel="amphtml" href="https://amp.example.com/guides/static-article">
+<meta property="og:url" content="javascript:alert(1)"><title>`
+    )
+    // fetch follows the redirect itself and reports where it ended up
+    const response = new Response(declared, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    })
+    Object.defineProperty(response, 'url', {
+      value: 'https://example.com/posts/renamed',
+    })
+    fetchMock.mockResolvedValueOnce(response)
+
+    const scraped = await scrapeArticle(ARTICLE_URL, env, { renderer: null })
+
+    expect(scraped).toMatchObject({
+      finalUrl: 'https://example.com/posts/renamed',
+      canonicalUrl: 'https://example.com/guides/static-article',
+      ampUrl: 'https://amp.example.com/guides/static-article',
+    })
+    expect(scraped.ogUrl).toBeUndefined()
+  })
+})
+
+describe('scrapeArticle credentials', () => {
+  const credentials = {
+    headers: { 'X-Api-Key': 'secret-key' },
+    cookies: 'session=abc123',
+  }
+
+  function redirectTo(location: string) {
+    return new Response(null, { status: 302, headers: { Location: location } })
+  }
+
+  function article() {
+    return new Response(STATIC_ARTICLE, {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' },
+    })
+  }
+
+  function sentHeaders(call: number): Record<string, string> {
+    return fetchMock.mock.calls[call][1].headers
+  }
+
+  it('keeps credentials across a same-origin redirect', async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirectTo('/posts/moved'))
+      .mockResolvedValueOnce(article())
+
+    const scraped = await scrapeArticle(ARTICLE_URL, env, {
+      renderer: null,
+      credentials,
+    })
+
+    expect(fetchMock.mock.calls[1][0]).toBe('https://example.com/posts/moved')
+    expect(sentHeaders(0)['X-Api-Key']).toBe('secret-key')
+    expect(sentHeaders(1)['X-Api-Key']).toBe('secret-key')
+    expect(sentHeaders(1).Cookie).toBe('session=abc123')
+    expect(scraped.finalUrl).toBe('https://example.com/posts/moved')
+  })
+
+  it('never sends credentials to another origin after a redirect', async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirectTo('https://cdn.example.net/posts/rendered'))
+      .mockResolvedValueOnce(article())
+
+    await scrapeArticle(ARTICLE_URL, env, { renderer: null, credentials })
+
+    expect(fetchMock.mock.calls[0][1].redirect).toBe('manual')
+    expect(sentHeaders(0)['X-Api-Key']).toBe('secret-key')
+    expect(fetchMock.mock.calls[1][0]).toBe('https://cdn.example.net/posts/rendered')
+    expect(sentHeaders(1)).not.toHaveProperty('X-Api-Key')
+    expect(sentHeaders(1)).not.toHaveProperty('Cookie')
+  })
+
+  it('treats a redirect to http as another origin', async () => {
+    fetchMock
+      .mockResolvedValueOnce(redirectTo('http://example.com/posts/rendered'))
+      .mockResolvedValueOnce(article())
+
+    await scrapeArticle(ARTICLE_URL, env, { renderer: null, credentials })
+
+    expect(sentHeaders(1)).not.toHaveProperty('Cookie')
+  })
+})
+
+describe('fetchWithTimeout byte cap', () => {
+  const CHUNK = new Uint8Array(1024).fill(0x61) // 1 KB of "a"
+
+  /**
+   * A streamed body of `chunks` 1 KB chunks, counting the chunks read
+   */
+  function streamedBody(chunks: number) {
+    const stream = { pulled: 0, cancelled: false }
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (stream.pulled === chunks) {
+          controller.close()
+          return
+        }
+        stream.pulled++
+        controller.enqueue(CHUNK)
+      },
+      cancel() {
+        stream.cancelled = true
+      },
+    })
+
+    return { stream, body }
+  }
+
+  it('stops reading a streamed body once it passes the cap', async () => {
+    const { stream, body } = streamedBody(100)
+    fetchMock.mockResolvedValue(
+      new Response(body, { headers: { 'Content-Type': 'text/html' } })
+    )
+
+    await expect(
+      fetchWithTimeout(ARTICLE_URL, 5000, undefined, 4 * 1024)
+    ).rejects.toBeInstanceOf(ResponseTooLargeError)
+    expect(stream.cancelled).toBe(true)
+    expect(stream.pulled).toBeLessThan(10)
+  })
+
+  it('reads a body that fits the cap in full', async () => {
+    const { body } = streamedBody(4)
+    fetchMock.mockResolvedValue(
+      new Response(body, { headers: { 'Content-Type': 'text/plain' } })
+    )
+
+    const { html } = await fetchWithTimeout(ARTICLE_URL, 5000, undefined, 4 * 1024)
+
+    expect(html).toHaveLength(4 * 1024)
+  })
+
+  it('rejects a declared Content-Length over the cap without reading', async () => {
+    const { stream, body } = streamedBody(100)
+    fetchMock.mockResolvedValue(
+      new Response(body, {
+        headers: { 'Content-Type': 'text/html', 'Content-Length': '102400' },
+      })
+    )
+
+    await expect(
+      fetchWithTimeout(ARTICLE_URL, 5000, undefined, 4 * 1024)
+    ).rejects.toThrow('larger than the')
+    expect(stream.pulled).toBeLessThanOrEqual(1)
+  })
+})
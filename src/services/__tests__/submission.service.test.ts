@@ -0,0 +1,84 @@
+/**
+ * Starting analyses: completion emails go only to the submitter's own
+ * verified address
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { startAnalysis } from '@/services/submission.service'
+import { createSubmission } from '@/repositories/submission.repository'
+import { InMemoryQueue } from '@/queue/in-memory-queue'
+import type { Submission } from '@/db/schema'
+
+vi.mock('@/repositories/submission.repository', () => ({
+  createSubmission: vi.fn(),
+  updateSubmissionStatus: vi.fn(),
+}))
+
+const SUBMISSION_ID = 'a1b2c3d4-0000-4000-8000-000000000001'
+const ARTICLE_URL = 'https://example.com/article'
+
+let env: CloudflareEnv
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  env = {
+    ARTICLE_ANALYSIS_QUEUE: new InMemoryQueue(),
+  } as unknown as CloudflareEnv
+
+  vi.mocked(createSubmission).mockResolvedValue({
+    id: SUBMISSION_ID,
+    url: ARTICLE_URL,
+  } as Submission)
+})
+
+describe('startAnalysis notification email', () => {
+  it("accepts the signed-in user's verified email", async () => {
+    await startAnalysis(
+      {
+        url: ARTICLE_URL,
+        notifyEmail: ' Owner@Example.com ',
+        verifiedEmail: 'owner@example.com',
+      },
+      env
+    )
+
+    expect(createSubmission).toHaveBeenCalledWith(
+      ARTICLE_URL,
+      expect.objectContaining({ notifyEmail: 'owner@example.com' }),
+      expect.anything()
+    )
+  })
+
+  it('refuses anonymous submitters', async () => {
+    await expect(
+      startAnalysis({ url: ARTICLE_URL, notifyEmail: 'victim@example.com' }, env)
+    ).rejects.toThrow('Sign in with a verified email address to get notified')
+    expect(createSubmission).not.toHaveBeenCalled()
+  })
+
+  it('refuses any address but your own', async () => {
+    await expect(
+      startAnalysis(
+        {
+          url: ARTICLE_URL,
+          notifyEmail: 'victim@example.com',
+          verifiedEmail: 'owner@example.com',
+        },
+        env
+      )
+    ).rejects.toThrow(/only be sent to your own verified email/)
+    expect(createSubmission).not.toHaveBeenCalled()
+  })
+
+  it('needs no email when none was requested', async () => {
+    await startAnalysis({ url: ARTICLE_URL, notifyEmail: '' }, env)
+
+    expect(createSubmission).toHaveBeenCalledWith(
+      ARTICLE_URL,
+      expect.objectContaining({ notifyEmail: undefined }),
+      expect.anything()
+    )
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * Webhook delivery: signed requests, no redirects followed, retries with
+ * backoff, and endpoint URL validation at registration
+ */
+
+import { createHmac } from 'node:crypto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  deliverWebhook,
+  registerWebhookEndpoint,
+  signWebhookPayload,
+} from '@/services/webhook.service'
+import {
+  createWebhookEndpoint,
+  getDeliveryWithEndpoint,
+  getWebhookEndpoints,
+  updateWebhookDelivery,
+} from '@/repositories/webhook.repository'
+import { WorkspaceAccessError } from '@/services/workspace.service'
+import type { WebhookMessage } from '@/lib/shared/queue-messages'
+import type { User, WebhookDelivery, WebhookEndpoint } from '@/db/schema'
+
+vi.mock('@/repositories/webhook.repository', () => ({
+  createWebhookEndpoint: vi.fn(),
+  createWebhookDelivery: vi.fn(),
+  deleteWebhookEndpoint: vi.fn(),
+  getDeliveryWithEndpoint: vi.fn(),
+  getRecentWebhookDeliveries: vi.fn(),
+  getSubscribedEndpoints: vi.fn(),
+  getWebhookEndpoints: vi.fn(),
+  updateWebhookDelivery: vi.fn(),
+}))
+
+vi.mock('@/repositories/submission.repository', () => ({
+  getSubmissionById: vi.fn(),
+}))
+
+vi.mock('@/services/workspace.service', async () => {
+  const actual = await vi.importActual<
+    typeof import('@/services/workspace.service')
+  >('@/services/workspace.service')
+  return { ...actual, requireWorkspaceRole: vi.fn() }
+})
+
+const SECRET = 'whsec_test-secret'
+const NOW = new Date('2026-01-15T12:00:00Z')
+
+const endpoint = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000010',
+  workspaceId: 'a1b2c3d4-0000-4000-8000-000000000020',
+  url: 'https://hooks.example.com/datagum',
+  secret: SECRET,
+  events: ['submission.completed'],
+  active: true,
+} as WebhookEndpoint
+
+const delivery = {
+  id: 'a1b2c3d4-0000-4000-8000-000000000030',
+  endpointId: endpoint.id,
+  workspaceId: endpoint.workspaceId,
+  event: 'submission.completed',
+  payload: { id: 'a1b2c3d4-0000-4000-8000-000000000030', event: 'submission.completed' },
+} as WebhookDelivery
+
+const message = {
+  type: 'webhook',
+  payload: { url: endpoint.url, method: 'POST', deliveryId: delivery.id },
+} as WebhookMessage
+
+const env = {} as CloudflareEnv
+
+const fetchMock = vi.fn()
+
+beforeEach(() => {
+  vi.clearAllMocks()
+  vi.useFakeTimers({ now: NOW })
+  vi.stubGlobal('fetch', fetchMock)
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  vi.mocked(getDeliveryWithEndpoint).mockResolvedValue({ delivery, endpoint })
+})
+
+afterEach(() => {
+  fetchMock.mockReset()
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+/**
+ * Run a delivery to completion, skipping the backoff sleeps
+ */
+async function deliver(): Promise<void> {
+  const done = deliverWebhook(message, env)
+  await vi.runAllTimersAsync()
+  await done
+}
+
+describe('deliverWebhook signing', () => {
+  it('signs `${t}.${body}` with the endpoint secret', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 204 }))
+
+    await deliver()
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const [url, init] = fetchMock.mock.calls[0]
+    const timestamp = Math.floor(NOW.getTime() / 1000)
+    const expected = createHmac('sha256', SECRET)
+      .update(`${timestamp}.${init.body}`)
+      .digest('hex')
+
+    expect(url).toBe(endpoint.url)
+    expect(init.body).toBe(JSON.stringify(delivery.payload))
+    expect(init.headers['X-Datagum-Signature']).toBe(
+      `t=${timestamp},v1=${expected}`
+    )
+    expect(init.headers['X-Datagum-Event']).toBe('submission.completed')
+    expect(init.headers['X-Datagum-Delivery']).toBe(delivery.id)
+  })
+
+  it('formats the signature header as t=<seconds>,v1=<hex>', async () => {
+    expect(await signWebhookPayload(SECRET, 1700000000, '{}')).toMatch(
+      /^t=1700000000,v1=[0-9a-f]{64}$/
+    )
+  })
+
+  it('records a successful delivery', async () => {
+    fetchMock.mockResolvedValue(new Response(null, { status: 200 }))
+
+    await deliver()
+
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      delivery.id,
+      expect.objectContaining({
+        status: 'succeeded',
+        attempts: 1,
+        responseStatus: 200,
+      }),
+      env
+    )
+  })
+})
+
+describe('deliverWebhook retries', () => {
+  it('retries a failing endpoint three times with backoff', async () => {
+    const sleeps: number[] = []
+    const setTimeoutSpy = vi.spyOn(globalThis, 'setTimeout')
+    fetchMock.mockImplementation(
+      async () => new Response('Unavailable', { status: 503 })
+    )
+
+    await deliver()
+
+    for (const [, delay] of setTimeoutSpy.mock.calls) {
+      // The 10s request timeout is set for every attempt
+      if (delay !== 10000) {
+        sleeps.push(delay as number)
+      }
+    }
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+    expect(sleeps).toEqual([1000, 2000, 4000])
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      delivery.id,
+      {
+        status: 'failed',
+        attempts: 4,
+        responseStatus: 503,
+        lastError: 'Endpoint responded with HTTP 503',
+      },
+      env
+    )
+  })
+
+  it('stops retrying once the endpoint recovers', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 500 }))
+      .mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+    await deliver()
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      delivery.id,
+      expect.objectContaining({ status: 'succeeded', attempts: 2 }),
+      env
+    )
+  })
+})
+
+describe('deliverWebhook redirects', () => {
+  it('does not follow a redirect and records it as a failure', async () => {
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(null, {
+          status: 302,
+          headers: { Location: 'http://169.254.169.254/latest/meta-data' },
+        })
+    )
+
+    await deliver()
+
+    expect(fetchMock.mock.calls.every(([, init]) => init.redirect === 'manual')).toBe(
+      true
+    )
+    expect(
+      fetchMock.mock.calls.every(([url]) => url === endpoint.url)
+    ).toBe(true)
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      delivery.id,
+      expect.objectContaining({
+        status: 'failed',
+        responseStatus: 302,
+        lastError: 'Endpoint responded with HTTP 302',
+      }),
+      env
+    )
+  })
+
+  it('skips disabled endpoints without sending', async () => {
+    vi.mocked(getDeliveryWithEndpoint).mockResolvedValue({
+      delivery,
+      endpoint: { ...endpoint, active: false },
+    })
+
+    await deliver()
+
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(updateWebhookDelivery).toHaveBeenCalledWith(
+      delivery.id,
+      { status: 'failed', attempts: 0, lastError: 'Endpoint is disabled' },
+      env
+    )
+  })
+})
+
+describe('registerWebhookEndpoint URL validation', () => {
+  const owner = { id: 'user-1' } as User
+
+  beforeEach(() => {
+    vi.mocked(getWebhookEndpoints).mockResolvedValue([])
+    vi.mocked(createWebhookEndpoint).mockImplementation(
+      async (values) => ({ ...endpoint, ...values }) as WebhookEndpoint
+    )
+  })
+
+  it.each([
+    'ftp://hooks.example.com/datagum',
+    'http://localhost:3000/hook',
+    'http://127.0.0.1/hook',
+    'http://10.0.0.5/hook',
+    'http://192.168.1.10/hook',
+    'not a url',
+  ])('rejects %s', async (url) => {
+    await expect(
+      registerWebhookEndpoint(endpoint.workspaceId, owner, url)
+    ).rejects.toMatchObject({ statusCode: 400 })
+    expect(createWebhookEndpoint).not.toHaveBeenCalled()
+  })
+
+  it('registers a public HTTPS endpoint with a one-time secret', async () => {
+    const { secret } = await registerWebhookEndpoint(
+      endpoint.workspaceId,
+      owner,
+      endpoint.url
+    )
+
+    expect(secret).toMatch(/^whsec_/)
+    expect(createWebhookEndpoint).toHaveBeenCalledWith(
+      expect.objectContaining({ url: endpoint.url, secret })
+    )
+  })
+
+  it('reports invalid URLs as workspace access errors', async () => {
+    await expect(
+      registerWebhookEndpoint(endpoint.workspaceId, owner, 'http://localhost/hook')
+    ).rejects.toBeInstanceOf(WorkspaceAccessError)
+  })
+})
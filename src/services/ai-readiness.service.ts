@@ -0,0 +1,77 @@
+/**
+ * Article Analyzer - AI Readiness Service
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: AI-readiness audit
+ *
+ * Audits how LLM crawlers see the scraped page. Fetches the site's
+ * robots.txt (shared with the scraper's cache) and llms.txt, then scores
+ * them together with the signals collected while parsing the page.
+ */
+
+import {
+  fetchRobotsTxt,
+  fetchWithTimeout,
+  isMissingResourceError,
+} from '@/services/scraper.service'
+import { validateURL } from '@/services/url-validator.service'
+import { buildReadinessAudit } from '@/utils/ai-readiness'
+import type { ParsedArticle } from '@/utils/content-parser'
+import type { AiReadinessAudit } from '@/types/ai-readiness'
+
+const REQUEST_TIMEOUT_MS = 5000 // 5 seconds
+const TEXT_ACCEPT = 'text/plain,text/markdown;q=0.9,*/*;q=0.5'
+
+/**
+ * Audit a scraped page for AI readiness
+ * Fetch failures lower confidence in a check instead of failing the audit
+ */
+export async function auditPage(
+  url: string,
+  article: ParsedArticle
+): Promise<AiReadinessAudit> {
+  const origin = new URL(article.finalUrl ?? url).origin
+
+  const [robotsTxt, hasLlmsTxt] = await Promise.all([
+    fetchRobotsTxt(origin),
+    checkLlmsTxt(origin),
+  ])
+
+  return buildReadinessAudit({ url, article, robotsTxt, hasLlmsTxt })
+}
+
+/**
+ * Check whether the site publishes an llms.txt file
+ */
+async function checkLlmsTxt(origin: string): Promise<boolean | null> {
+  try {
+    const text = await fetchSiteFile(`${origin}/llms.txt`)
+    // Sites that serve an HTML page for unknown paths do not have one
+    return !/^\s*</.test(text)
+  } catch (error) {
+    if (isMissingResourceError(error)) {
+      return false
+    }
+    console.warn(`[AI Readiness] llms.txt unavailable for ${origin}:`, error)
+    return null
+  }
+}
+
+/**
+ * Fetch a text file from the site root, refusing redirects to blocked hosts
+ */
+async function fetchSiteFile(url: string): Promise<string> {
+  validateURL(url)
+
+  const { html: text, finalUrl } = await fetchWithTimeout(
+    url,
+    REQUEST_TIMEOUT_MS,
+    TEXT_ACCEPT
+  )
+
+  if (finalUrl !== url) {
+    validateURL(finalUrl)
+  }
+
+  return text
+}
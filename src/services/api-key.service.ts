@@ -0,0 +1,153 @@
+/**
+ * Article Analyzer - API Key Service
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Public REST API
+ *
+ * Issues, lists and revokes workspace API keys (owners only) and
+ * authenticates /api/v1 requests. Keys look like 'dg_<random>'; the full
+ * key is shown once at creation and only its SHA-256 hash is stored.
+ */
+
+import type { NextRequest } from 'next/server'
+import {
+  createApiKey,
+  getActiveApiKeyByHash,
+  getApiKeysForWorkspace,
+  revokeApiKey,
+  touchApiKey,
+} from '@/repositories/api-key.repository'
+import { workspaceScope, type WorkspaceScope } from '@/repositories/scope'
+import {
+  requireWorkspaceRole,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import { generateToken, hashToken } from '@/lib/auth/crypto'
+import type { ApiKey, User } from '@/db/schema'
+
+const API_KEY_PREFIX = 'dg_'
+const DISPLAY_PREFIX_LENGTH = 9 // 'dg_' plus 6 characters
+const DEFAULT_DAILY_QUOTA = 100
+const MAX_DAILY_QUOTA = 10000
+
+/**
+ * Create an API key for a workspace
+ * Returns the stored key and the full secret (shown once)
+ */
+export async function createWorkspaceApiKey(
+  workspaceId: string,
+  user: User | null,
+  name: string,
+  dailyQuota: number = DEFAULT_DAILY_QUOTA
+): Promise<{ apiKey: ApiKey; secret: string }> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+
+  const trimmed = name.trim()
+  if (!trimmed || trimmed.length > 100) {
+    throw new WorkspaceAccessError('Key name must be 1-100 characters', 400)
+  }
+
+  if (
+    !Number.isInteger(dailyQuota) ||
+    dailyQuota < 1 ||
+    dailyQuota > MAX_DAILY_QUOTA
+  ) {
+    throw new WorkspaceAccessError(
+      `Daily quota must be between 1 and ${MAX_DAILY_QUOTA}`,
+      400
+    )
+  }
+
+  const secret = `${API_KEY_PREFIX}${generateToken()}`
+  const apiKey = await createApiKey({
+    workspaceId,
+    createdByUserId: user?.id,
+    name: trimmed,
+    keyHash: await hashToken(secret),
+    keyPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    dailyQuota,
+  })
+
+  return { apiKey, secret }
+}
+
+/**
+ * List a workspace's API keys (owners only)
+ */
+export async function listWorkspaceApiKeys(
+  workspaceId: string,
+  user: User | null
+): Promise<ApiKey[]> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+  return getApiKeysForWorkspace(workspaceId)
+}
+
+/**
+ * Revoke a workspace API key (owners only)
+ */
+export async function revokeWorkspaceApiKey(
+  workspaceId: string,
+  user: User | null,
+  apiKeyId: string
+): Promise<void> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+
+  if (!(await revokeApiKey(apiKeyId, workspaceId))) {
+    throw new WorkspaceAccessError('API key not found', 404)
+  }
+}
+
+/**
+ * Authenticate an /api/v1 request by its API key
+ * Accepts 'Authorization: Bearer <key>' or 'X-API-Key: <key>'
+ * Throws ApiKeyError if the key is missing, unknown or revoked
+ */
+export async function authenticateApiKey(
+  request: NextRequest
+): Promise<ApiKey> {
+  const secret = getApiKeyFromRequest(request)
+
+  if (!secret) {
+    throw new ApiKeyError('Missing API key')
+  }
+
+  const apiKey = secret.startsWith(API_KEY_PREFIX)
+    ? await getActiveApiKeyByHash(await hashToken(secret))
+    : null
+
+  if (!apiKey) {
+    throw new ApiKeyError('Invalid or revoked API key')
+  }
+
+  await touchApiKey(apiKey.id)
+  return apiKey
+}
+
+/**
+ * Repository scope for an API key: its workspace only
+ */
+export function getApiKeyScope(apiKey: ApiKey): WorkspaceScope {
+  return workspaceScope([apiKey.workspaceId])
+}
+
+/**
+ * Read the API key from the request headers
+ */
+function getApiKeyFromRequest(request: NextRequest): string | undefined {
+  const authorization = request.headers.get('authorization')
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    return authorization.slice('bearer '.length).trim() || undefined
+  }
+
+  return request.headers.get('x-api-key')?.trim() || undefined
+}
+
+/**
+ * Custom error class for API key authentication failures
+ */
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Article Analyzer - Auth Service
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership
+ *
+ * Signs users in with a password or an emailed magic link, and manages
+ * sessions. A local provider signs in by email alone outside production,
+ * so tests and local development need no mail delivery.
+ */
+
+import type { NextRequest } from 'next/server'
+import {
+  createUser,
+  getUserByEmail,
+  markEmailVerified,
+  createSession,
+  getUserBySession,
+  deleteSession,
+  deleteUserSessions,
+  createLoginToken,
+  consumeLoginToken,
+} from '@/repositories/user.repository'
+import {
+  hashPassword,
+  verifyPassword,
+  generateToken,
+  hashToken,
+} from '@/lib/auth/crypto'
+import { getSessionToken } from '@/lib/auth/session'
+import { ensurePersonalWorkspace } from '@/services/workspace.service'
+import { getAppUrl } from '@/lib/shared/utils'
+import {
+  getEmailTransport,
+  type EmailTransport,
+} from '@/lib/email/transport'
+import { renderMagicLinkEmail } from '@/lib/email/templates/magic-link'
+import type { User } from '@/db/schema'
+
+const SESSION_TTL_DAYS = 30
+const MAGIC_LINK_TTL_MINUTES = 15
+const MIN_PASSWORD_LENGTH = 8
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * A newly created session (token goes in the cookie, never stored)
+ */
+export interface SessionGrant {
+  user: User
+  token: string
+  expiresAt: Date
+}
+
+/**
+ * Delivers magic links to users
+ */
+export interface MagicLinkSender {
+  send(email: string, link: string): Promise<void>
+}
+
+/**
+ * Sender that emails the link through an email transport
+ * (Resend when configured, the console outside production)
+ */
+export function createEmailMagicLinkSender(
+  transport: EmailTransport
+): MagicLinkSender {
+  return {
+    async send(email, link) {
+      const message = renderMagicLinkEmail({
+        link,
+        expiresInMinutes: MAGIC_LINK_TTL_MINUTES,
+      })
+
+      await transport.send({
+        to: email,
+        subject: message.subject,
+        body: message.text,
+        html: message.html,
+      })
+    },
+  }
+}
+
+/**
+ * Local sender that captures links in memory (for tests)
+ */
+export function createLocalMagicLinkSender(): MagicLinkSender & {
+  sent: Array<{ email: string; link: string }>
+} {
+  const sent: Array<{ email: string; link: string }> = []
+
+  return {
+    sent,
+    async send(email, link) {
+      sent.push({ email, link })
+    },
+  }
+}
+
+/**
+ * Create an account with email and password, and sign it in
+ */
+export async function registerWithPassword(
+  email: string,
+  password: string
+): Promise<SessionGrant> {
+  const normalizedEmail = normalizeEmail(email)
+  validatePassword(password)
+
+  if (await getUserByEmail(normalizedEmail)) {
+    throw new AuthError('An account with this email already exists', 409)
+  }
+
+  const user = await createUser(normalizedEmail, await hashPassword(password))
+  return startSession(user)
+}
+
+/**
+ * Sign in with email and password
+ */
+export async function loginWithPassword(
+  email: string,
+  password: string
+): Promise<SessionGrant> {
+  const user = await getUserByEmail(normalizeEmail(email))
+
+  if (
+    !user?.passwordHash ||
+    !(await verifyPassword(password, user.passwordHash))
+  ) {
+    throw new AuthError('Invalid email or password', 401)
+  }
+
+  return startSession(user)
+}
+
+/**
+ * Email a single-use sign-in link
+ * The link works for new emails too; the account is created on first use.
+ * It points at APP_URL, never the request's Host, so a forged Host header
+ * cannot send users a link to another site.
+ */
+export async function requestMagicLink(
+  email: string,
+  env: CloudflareEnv,
+  sender: MagicLinkSender = createEmailMagicLinkSender(getEmailTransport(env))
+): Promise<void> {
+  const normalizedEmail = normalizeEmail(email)
+  const token = generateToken()
+  const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000)
+
+  await createLoginToken(await hashToken(token), normalizedEmail, expiresAt)
+
+  const link = `${getAppUrl(env)}/api/auth/magic-link/verify?token=${encodeURIComponent(token)}`
+  await sender.send(normalizedEmail, link)
+}
+
+/**
+ * Sign in with a magic link token
+ * Registering with a password does not prove the email is yours, so the
+ * first verification of an account drops its password and its sessions:
+ * whoever registered someone else's email loses access to the account.
+ */
+export async function verifyMagicLink(token: string): Promise<SessionGrant> {
+  const email = await consumeLoginToken(await hashToken(token))
+
+  if (!email) {
+    throw new AuthError('This sign-in link is invalid or has expired', 401)
+  }
+
+  const existing = await getUserByEmail(email)
+  const user = existing ?? (await createUser(email))
+
+  if (existing && !existing.emailVerifiedAt) {
+    await markEmailVerified(user.id, true)
+    await deleteUserSessions(user.id)
+  } else {
+    await markEmailVerified(user.id)
+  }
+
+  return startSession(user)
+}
+
+/**
+ * Local provider: sign in by email alone (development and tests only)
+ */
+export async function signInLocal(email: string): Promise<SessionGrant> {
+  if (!isLocalAuthEnabled()) {
+    throw new AuthError('Local sign-in is disabled', 404)
+  }
+
+  const normalizedEmail = normalizeEmail(email)
+  const user =
+    (await getUserByEmail(normalizedEmail)) ??
+    (await createUser(normalizedEmail))
+
+  return startSession(user)
+}
+
+/**
+ * Get the signed-in user for a request, if any
+ */
+export async function getCurrentUser(
+  request: NextRequest
+): Promise<User | null> {
+  const token = getSessionToken(request)
+
+  if (!token) {
+    return null
+  }
+
+  return getUserBySession(await hashToken(token))
+}
+
+/**
+ * End the session for a session token
+ */
+export async function signOut(token: string): Promise<void> {
+  await deleteSession(await hashToken(token))
+}
+
+/**
+ * Check if the local provider is enabled (outside production)
+ */
+export function isLocalAuthEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production'
+}
+
+/**
+ * Create a session for a user (creating their personal workspace if needed)
+ */
+async function startSession(user: User): Promise<SessionGrant> {
+  await ensurePersonalWorkspace(user)
+
+  const token = generateToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+  await createSession(await hashToken(token), user.id, expiresAt)
+
+  return { user, token, expiresAt }
+}
+
+/**
+ * Lowercase and validate an email address
+ */
+function normalizeEmail(email: string): string {
+  const normalized = email.trim().toLowerCase()
+
+  if (!EMAIL_PATTERN.test(normalized) || normalized.length > 255) {
+    throw new AuthError('Please enter a valid email address', 400)
+  }
+
+  return normalized
+}
+
+/**
+ * Enforce the minimum password length
+ */
+function validatePassword(password: string): void {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new AuthError(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+      400
+    )
+  }
+}
+
+/**
+ * Custom error class for sign-in failures
+ */
+export class AuthError extends Error {
+  constructor(message: string, public readonly statusCode: number = 401) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
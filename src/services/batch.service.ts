@@ -0,0 +1,403 @@
+/**
+ * Article Analyzer - Batch Service
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Starts batch analyses from a pasted URL list, CSV text, or articles
+ * discovered from a sitemap or RSS/Atom feed.
+ * The batch is stored with its settings and handed to the queue consumer,
+ * which creates and enqueues one submission per URL. The batch results
+ * page aggregates Tier 1/2/3 rates across the member submissions.
+ */
+
+import {
+  createBatch,
+  deleteBatch,
+  getBatchById,
+} from '@/repositories/batch.repository'
+import {
+  createSubmission,
+  getBatchSubmissions,
+  updateSubmissionStatus,
+} from '@/repositories/submission.repository'
+import { callerScope, SYSTEM_SCOPE } from '@/repositories/scope'
+import { enqueueBatchJob, enqueueSubmissionJob } from '@/queue/producer'
+import {
+  listUserWorkspaces,
+  requireProject,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import {
+  resolveProviders,
+  AnalysisQueueError,
+} from '@/services/submission.service'
+import { sanitizeURL, validateURL } from '@/services/url-validator.service'
+import { checkWorkspaceQuota } from '@/services/rate-limiter.service'
+import { discoverArticles } from '@/services/discovery.service'
+import { parseCsvUrls, parseUrlList } from '@/utils/batch-urls'
+import { aggregateBatchMetrics } from '@/utils/test-results-formatter'
+import { isMatchMode } from '@/utils/citation-parser'
+import { MATCH_MODES } from '@/types/search-testing'
+import type { BatchProcessingMessage } from '@/lib/shared/queue-messages'
+import type {
+  BatchProgress,
+  BatchTierRates,
+  RejectedBatchUrl,
+} from '@/types/batch'
+import type {
+  BatchSource,
+  SubmissionBatch,
+  TestMetricsData,
+  User,
+} from '@/db/schema'
+
+export const MAX_BATCH_SIZE = 100
+const CREATE_SUBMISSIONS_OPERATION = 'create-submissions'
+
+/**
+ * Input for starting a batch
+ * Give urls, csv or sitemapUrl (urls may be combined with sitemapUrl)
+ */
+export interface StartBatchInput {
+  urls?: unknown // Array of URLs or newline-separated text
+  csv?: unknown // CSV file contents
+  sitemapUrl?: unknown // Sitemap or RSS/Atom feed URL
+  name?: unknown
+  providers?: unknown
+  matchMode?: unknown
+  workspaceId: string
+  projectId?: string
+  createdByUserId?: string
+}
+
+/**
+ * Batch results: progress, aggregated tier rates and members
+ */
+export interface BatchSummary {
+  batch: SubmissionBatch
+  progress: BatchProgress
+  rates: BatchTierRates
+  members: Awaited<ReturnType<typeof getBatchSubmissions>>
+}
+
+/**
+ * Create a batch and enqueue the job that creates its submissions
+ * Throws Error for invalid input, RateLimitError when the URLs would exceed
+ * the workspace quota and AnalysisQueueError if enqueueing fails
+ */
+export async function startBatch(
+  input: StartBatchInput,
+  env: CloudflareEnv
+): Promise<{ batch: SubmissionBatch; rejected: RejectedBatchUrl[] }> {
+  const providers = resolveProviders(input.providers, env)
+
+  if (input.matchMode !== undefined && !isMatchMode(input.matchMode)) {
+    throw new Error(`matchMode must be one of: ${MATCH_MODES.join(', ')}`)
+  }
+
+  if (input.projectId) {
+    await requireProject(input.projectId, input.workspaceId)
+  }
+
+  const { source, sourceUrl, candidates } = await collectCandidates(input)
+  const { urls, rejected } = normalizeBatchUrls(candidates)
+
+  if (urls.length === 0) {
+    throw new Error('No valid URLs found to analyze')
+  }
+
+  // Every URL counts against the workspace quota, checked before queueing
+  await checkWorkspaceQuota(input.workspaceId, urls.length, env)
+
+  const batch = await createBatch({
+    workspaceId: input.workspaceId,
+    projectId: input.projectId,
+    createdByUserId: input.createdByUserId,
+    name: resolveBatchName(input.name, source, sourceUrl),
+    source,
+    sourceUrl,
+    searchProviders: providers,
+    matchMode: input.matchMode,
+    totalCount: urls.length,
+  })
+
+  try {
+    await enqueueBatchJob(env.ARTICLE_ANALYSIS_QUEUE, {
+      batchId: batch.id,
+      items: urls,
+      operation: CREATE_SUBMISSIONS_OPERATION,
+    })
+  } catch (error) {
+    console.error(`[Batch] Failed to enqueue batch ${batch.id}:`, error)
+    await deleteBatch(batch.id)
+    throw new AnalysisQueueError('Failed to queue batch. Please try again.')
+  }
+
+  return { batch, rejected }
+}
+
+/**
+ * Create and enqueue the member submissions of a batch (queue consumer)
+ * Safe to redeliver: URLs that already have a submission are skipped
+ */
+export async function processBatchMessage(
+  message: BatchProcessingMessage,
+  env: CloudflareEnv
+): Promise<void> {
+  const { batchId, items, operation } = message.payload
+
+  if (operation !== CREATE_SUBMISSIONS_OPERATION) {
+    console.warn(`[Batch] Unknown batch operation: ${operation}`)
+    return
+  }
+
+  const batch = await getBatchById(batchId, undefined, env)
+
+  if (!batch) {
+    console.warn(`[Batch] Batch ${batchId} not found, skipping`)
+    return
+  }
+
+  const existing = new Set(
+    (await getBatchSubmissions(batchId, SYSTEM_SCOPE, env)).map((s) => s.url)
+  )
+  const urls = items.filter(
+    (item): item is string => typeof item === 'string' && !existing.has(item)
+  )
+
+  for (const url of urls) {
+    const submission = await createSubmission(
+      url,
+      {
+        searchProviders: batch.searchProviders as string[],
+        matchMode: batch.matchMode,
+        ownerId: batch.createdByUserId ?? undefined,
+        workspaceId: batch.workspaceId,
+        projectId: batch.projectId ?? undefined,
+        batchId: batch.id,
+      },
+      SYSTEM_SCOPE,
+      env
+    )
+
+    try {
+      await enqueueSubmissionJob(env.ARTICLE_ANALYSIS_QUEUE, {
+        submissionId: submission.id,
+        url: submission.url,
+      })
+    } catch (error) {
+      console.error(
+        `[Batch] Failed to enqueue submission ${submission.id}:`,
+        error
+      )
+      await updateSubmissionStatus(
+        submission.id,
+        'failed',
+        SYSTEM_SCOPE,
+        'Failed to queue analysis',
+        env
+      )
+    }
+  }
+
+  console.log(
+    `[Batch] Created ${urls.length} submissions for batch ${batchId} (${existing.size} already existed)`
+  )
+}
+
+/**
+ * Get a batch's progress, aggregated tier rates and members
+ * Any member of the batch's workspace may view it
+ */
+export async function getBatchSummary(
+  batchId: string,
+  user: User | null
+): Promise<BatchSummary> {
+  const workspaceIds = user
+    ? (await listUserWorkspaces(user)).map((m) => m.workspace.id)
+    : []
+  const batch = await getBatchById(batchId, workspaceIds)
+
+  if (!batch) {
+    throw new WorkspaceAccessError('Batch not found', 404)
+  }
+
+  const members = await getBatchSubmissions(
+    batch.id,
+    callerScope([batch.workspaceId])
+  )
+
+  const completed = members.filter((m) => m.status === 'completed')
+  const failed = members.filter((m) => m.status === 'failed')
+  const metrics = completed
+    .map((m) => m.testMetrics as TestMetricsData | null)
+    .filter((m): m is TestMetricsData => m !== null)
+
+  return {
+    batch,
+    progress: {
+      total: batch.totalCount,
+      created: members.length,
+      pending: members.length - completed.length - failed.length,
+      completed: completed.length,
+      failed: failed.length,
+      isFinished:
+        members.length >= batch.totalCount &&
+        completed.length + failed.length === members.length,
+    },
+    rates: aggregateBatchMetrics(metrics),
+    members,
+  }
+}
+
+/**
+ * Read candidate URLs from whichever source the caller provided
+ * URLs picked from a discovered sitemap or feed are sent as urls plus
+ * sitemapUrl; a sitemapUrl alone analyzes its newest articles
+ */
+async function collectCandidates(input: StartBatchInput): Promise<{
+  source: BatchSource
+  sourceUrl?: string
+  candidates: string[]
+}> {
+  const hasUrls = isProvided(input.urls)
+
+  if (isProvided(input.csv)) {
+    if (hasUrls || isProvided(input.sitemapUrl)) {
+      throw new Error('csv cannot be combined with urls or sitemapUrl')
+    }
+
+    if (typeof input.csv !== 'string') {
+      throw new Error('csv must be the text of a CSV file')
+    }
+
+    return { source: 'csv', candidates: parseCsvUrls(input.csv) }
+  }
+
+  const sourceUrl = readSitemapUrl(input.sitemapUrl)
+
+  if (hasUrls) {
+    return {
+      source: sourceUrl ? 'sitemap' : 'list',
+      sourceUrl,
+      candidates: readUrlList(input.urls),
+    }
+  }
+
+  if (!sourceUrl) {
+    throw new Error('Provide urls, csv or sitemapUrl')
+  }
+
+  const discovery = await discoverArticles(sourceUrl)
+
+  return {
+    source: 'sitemap',
+    sourceUrl,
+    candidates: discovery.articles
+      .slice(0, MAX_BATCH_SIZE)
+      .map((article) => article.url),
+  }
+}
+
+/**
+ * Sanitize and validate the optional sitemap or feed URL
+ */
+function readSitemapUrl(sitemapUrl: unknown): string | undefined {
+  if (!isProvided(sitemapUrl)) {
+    return undefined
+  }
+
+  if (typeof sitemapUrl !== 'string') {
+    throw new Error('sitemapUrl must be a URL')
+  }
+
+  const url = sanitizeURL(sitemapUrl)
+  validateURL(url)
+  return url
+}
+
+/**
+ * Read urls given as an array or newline-separated text
+ */
+function readUrlList(urls: unknown): string[] {
+  if (typeof urls === 'string') {
+    return parseUrlList(urls)
+  }
+
+  if (Array.isArray(urls) && urls.every((url) => typeof url === 'string')) {
+    return urls.map((url) => url.trim())
+  }
+
+  throw new Error('urls must be an array of URLs or newline-separated text')
+}
+
+/**
+ * Check if an optional input field was given
+ */
+function isProvided(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== ''
+}
+
+/**
+ * Sanitize, validate and dedupe candidate URLs, up to MAX_BATCH_SIZE
+ */
+function normalizeBatchUrls(candidates: string[]): {
+  urls: string[]
+  rejected: RejectedBatchUrl[]
+} {
+  const urls: string[] = []
+  const rejected: RejectedBatchUrl[] = []
+  const seen = new Set<string>()
+
+  for (const candidate of candidates) {
+    let url: string
+
+    try {
+      url = sanitizeURL(candidate)
+      validateURL(url)
+    } catch (error) {
+      rejected.push({
+        url: candidate,
+        reason: error instanceof Error ? error.message : 'Invalid URL',
+      })
+      continue
+    }
+
+    if (seen.has(url)) {
+      continue
+    }
+    seen.add(url)
+
+    if (urls.length >= MAX_BATCH_SIZE) {
+      rejected.push({
+        url,
+        reason: `Batches are limited to ${MAX_BATCH_SIZE} URLs`,
+      })
+      continue
+    }
+
+    urls.push(url)
+  }
+
+  return { urls, rejected }
+}
+
+/**
+ * Use the requested name, else describe the source
+ */
+function resolveBatchName(
+  requested: unknown,
+  source: BatchSource,
+  sourceUrl?: string
+): string {
+  if (typeof requested === 'string' && requested.trim().length > 0) {
+    return requested.trim().slice(0, 100)
+  }
+
+  if (source === 'sitemap' && sourceUrl) {
+    return `Articles from ${new URL(sourceUrl).hostname}`.slice(0, 100)
+  }
+
+  return `Batch of ${new Date().toISOString().slice(0, 10)}`
+}
@@ -0,0 +1,112 @@
+/**
+ * Article Analyzer - Discovery Service
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Sitemap and feed discovery
+ *
+ * Lists the articles of a site from its sitemap.xml (following sitemap
+ * indexes one level deep) or RSS/Atom feed, newest first, so users can
+ * pick which ones to analyze.
+ * Every fetched URL, including redirect targets and child sitemaps, is
+ * checked with validateURL so discovery cannot reach private hosts.
+ */
+
+import { fetchWithTimeout } from '@/services/scraper.service'
+import { validateURL } from '@/services/url-validator.service'
+import { parseFeedDocument } from '@/utils/feed-parser'
+import type {
+  DiscoveredArticle,
+  DiscoveryResult,
+  ParsedFeed,
+} from '@/types/discovery'
+
+const REQUEST_TIMEOUT_MS = 10000 // 10 seconds
+const MAX_CHILD_SITEMAPS = 20
+const MAX_DISCOVERED_ARTICLES = 1000
+const MAX_FEED_BYTES = 10 * 1024 * 1024 // Large sitemaps list tens of thousands of URLs
+const FEED_ACCEPT =
+  'application/xml,text/xml,application/rss+xml,application/atom+xml;q=0.9,*/*;q=0.8'
+
+/**
+ * Discover articles from a sitemap, sitemap index or RSS/Atom feed
+ * The URL must already be sanitized
+ */
+export async function discoverArticles(url: string): Promise<DiscoveryResult> {
+  const root = await fetchFeed(url)
+
+  let articles = root.articles
+  let sitemapCount = 1
+
+  if (root.kind === 'sitemapindex') {
+    articles = []
+
+    // Nested sitemap indexes are not followed
+    for (const sitemapUrl of root.sitemapUrls.slice(0, MAX_CHILD_SITEMAPS)) {
+      try {
+        const child = await fetchFeed(sitemapUrl)
+        articles.push(...child.articles)
+        sitemapCount++
+      } catch (error) {
+        console.warn(`[Discovery] Skipping sitemap ${sitemapUrl}:`, error)
+      }
+    }
+  }
+
+  const unique = sortNewestFirst(dedupe(articles))
+
+  return {
+    source: root.kind === 'sitemapindex' ? 'sitemap' : root.kind,
+    sourceUrl: url,
+    articles: unique.slice(0, MAX_DISCOVERED_ARTICLES),
+    sitemapCount,
+    truncated:
+      unique.length > MAX_DISCOVERED_ARTICLES ||
+      root.sitemapUrls.length > MAX_CHILD_SITEMAPS,
+  }
+}
+
+/**
+ * Fetch and parse one sitemap or feed
+ */
+async function fetchFeed(url: string): Promise<ParsedFeed> {
+  validateURL(url)
+
+  const { html: xml, finalUrl } = await fetchWithTimeout(
+    url,
+    REQUEST_TIMEOUT_MS,
+    FEED_ACCEPT,
+    MAX_FEED_BYTES
+  )
+
+  // Redirects must not lead somewhere the URL validator would reject
+  if (finalUrl !== url) {
+    validateURL(finalUrl)
+  }
+
+  return parseFeedDocument(xml, finalUrl)
+}
+
+/**
+ * Keep the first entry for each URL
+ */
+function dedupe(articles: DiscoveredArticle[]): DiscoveredArticle[] {
+  const seen = new Set<string>()
+
+  return articles.filter((article) => {
+    if (seen.has(article.url)) {
+      return false
+    }
+    seen.add(article.url)
+    return true
+  })
+}
+
+/**
+ * Sort by last-modified date, newest first; undated articles keep their order last
+ */
+function sortNewestFirst(articles: DiscoveredArticle[]): DiscoveredArticle[] {
+  // ISO dates compare as strings; the sort is stable for equal dates
+  return [...articles].sort((a, b) =>
+    (b.lastModified ?? '').localeCompare(a.lastModified ?? '')
+  )
+}
@@ -0,0 +1,235 @@
+/**
+ * Article Analyzer - Export Service
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Results exports
+ *
+ * Builds client deliverables for a completed analysis:
+ * - CSV: one row per tested question and engine (tier flags, citation
+ *   position, competing domains)
+ * - JSON: the full results payload with competitors and summary
+ * - HTML: a branded printable report (print to PDF from the browser)
+ */
+
+import { getResultsBySubmission } from '@/repositories/results.repository'
+import { getShareResultsPath } from '@/services/submission-access.service'
+import type { SubmissionAccess } from '@/services/submission-access.service'
+import { buildResultsPayload } from '@/services/results.service'
+import { toCsv } from '@/lib/export/csv'
+import { getAppUrl } from '@/lib/shared/utils'
+import { renderResultsReport } from '@/lib/export/results-report'
+import { buildCompetitorReport } from '@/utils/competitor-report'
+import {
+  getTargetUrls,
+  isMatchMode,
+  isTargetInCitations,
+} from '@/utils/citation-parser'
+import {
+  calculateSuccessRates,
+  getPerformanceSummary,
+} from '@/utils/test-results-formatter'
+import type { ExportFormat, ResultExportRow } from '@/types/export'
+import type { CompetitorReport } from '@/types/competitor-report'
+import type {
+  AnalysisResult,
+  CitationInfo,
+  StoredFAQ,
+  Submission,
+  TestMetricsData,
+  UrlAliasesData,
+} from '@/db/schema'
+import type { MatchMode } from '@/types/search-testing'
+
+const TOP_COMPETITORS = 10
+
+const CSV_HEADER = [
+  'question',
+  'provider',
+  'faq_answer',
+  'ai_answer',
+  'tier1_provider_accessible',
+  'tier2_in_sources',
+  'tier3_cited',
+  'citation_position',
+  'competitor_domains',
+]
+
+/**
+ * An export ready to send as a response
+ */
+export interface ResultsExport {
+  body: string
+  contentType: string
+  filename: string
+}
+
+/**
+ * Export a viewable submission's results in the requested format
+ * The HTML report links back to the results from APP_URL
+ * Throws ExportError unless the analysis has completed
+ */
+export async function exportResults(
+  access: SubmissionAccess,
+  format: ExportFormat,
+  env: CloudflareEnv
+): Promise<ResultsExport> {
+  const { submission, scope } = access
+  const testMetrics = submission.testMetrics as TestMetricsData | null
+
+  if (submission.status !== 'completed' || !testMetrics) {
+    throw new ExportError(
+      'Results can be exported once the analysis has completed',
+      409
+    )
+  }
+
+  const results = await getResultsBySubmission(submission.id, scope)
+  const targetUrls = getTargetUrls(
+    submission.url,
+    submission.urlAliases as UrlAliasesData | null
+  )
+  const matchMode = isMatchMode(submission.matchMode)
+    ? submission.matchMode
+    : 'exact'
+  const competitors = buildCompetitorReport(targetUrls, results, matchMode)
+  const filename = `datagum-${submission.id.slice(0, 8)}`
+
+  if (format === 'json') {
+    const payload = buildResultsPayload(submission, results, false)
+
+    return {
+      body: JSON.stringify(
+        {
+          exportedAt: new Date().toISOString(),
+          ...payload,
+          // Share token and edit rights are viewer-specific, not part of the dump
+          submission: {
+            ...payload.submission,
+            canEdit: undefined,
+            shareToken: undefined,
+          },
+          performanceSummary: getPerformanceSummary(testMetrics),
+          competitors: {
+            targetDomain: competitors.targetDomain,
+            totalCitations: competitors.totalCitations,
+            targetShareOfVoice: competitors.targetShareOfVoice,
+            domains: competitors.domains,
+          },
+        },
+        null,
+        2
+      ),
+      contentType: 'application/json; charset=utf-8',
+      filename: `${filename}.json`,
+    }
+  }
+
+  const rows = buildExportRows(
+    submission,
+    results,
+    competitors,
+    targetUrls,
+    matchMode
+  )
+
+  if (format === 'csv') {
+    return {
+      body: toCsv(
+        CSV_HEADER,
+        rows.map((row) => [
+          row.question,
+          row.provider,
+          row.faqAnswer,
+          row.aiAnswer,
+          row.providerAccessible,
+          row.inSources,
+          row.inCitations,
+          row.citationPosition,
+          row.competitorDomains.join('; '),
+        ])
+      ),
+      contentType: 'text/csv; charset=utf-8',
+      filename: `${filename}.csv`,
+    }
+  }
+
+  const faqs = (submission.generatedFaqs as StoredFAQ[] | null) ?? []
+
+  return {
+    body: renderResultsReport({
+      url: submission.url,
+      articleTitle: submission.articleTitle,
+      completedAt: submission.completedAt,
+      generatedAt: new Date(),
+      resultsUrl: `${getAppUrl(env)}${getShareResultsPath(submission)}`,
+      metrics: {
+        isAccessible: testMetrics.isAccessible,
+        totalFaqs: testMetrics.totalFaqs,
+        inSourcesCount: testMetrics.inSourcesCount,
+        inCitationsCount: testMetrics.inCitationsCount,
+        ...calculateSuccessRates(testMetrics),
+      },
+      performanceSummary: getPerformanceSummary(testMetrics),
+      faqs: faqs.map((faq) => ({ question: faq.question, answer: faq.answer })),
+      competitors: competitors.domains
+        .filter((d) => !d.isTarget && d.citationCount > 0)
+        .slice(0, TOP_COMPETITORS)
+        .map((d) => ({ domain: d.domain, shareOfVoice: d.shareOfVoice })),
+      targetShareOfVoice:
+        competitors.totalCitations > 0 ? competitors.targetShareOfVoice : null,
+      rows,
+    }),
+    contentType: 'text/html; charset=utf-8',
+    filename: `${filename}.html`,
+  }
+}
+
+/**
+ * One export row per stored test result
+ */
+function buildExportRows(
+  submission: Submission,
+  results: AnalysisResult[],
+  competitors: CompetitorReport,
+  targetUrls: string[],
+  matchMode: MatchMode
+): ResultExportRow[] {
+  const faqAnswers = new Map(
+    ((submission.generatedFaqs as StoredFAQ[] | null) ?? []).map((faq) => [
+      faq.question,
+      faq.answer,
+    ])
+  )
+  const providerMetrics = (submission.testMetrics as TestMetricsData | null)
+    ?.providerMetrics
+
+  // The competitor report has one entry per result, in the same order
+  return results.map((result, index) => {
+    const citations = (result.allCitations as CitationInfo[] | null) ?? []
+    const { position } = isTargetInCitations(targetUrls, citations, matchMode)
+
+    return {
+      question: result.question,
+      provider: result.provider,
+      faqAnswer: faqAnswers.get(result.question) ?? null,
+      aiAnswer: result.llmResponse,
+      providerAccessible: providerMetrics?.[result.provider]?.isAccessible ?? null,
+      inSources: result.foundInSources,
+      inCitations: result.foundInCitations,
+      citationPosition: result.foundInCitations ? (position ?? null) : null,
+      competitorDomains: competitors.questions[index].domains
+        .filter((d) => !d.isTarget && d.citationCount > 0)
+        .map((d) => d.domain),
+    }
+  })
+}
+
+/**
+ * Custom error class for exports that cannot be produced
+ */
+export class ExportError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message)
+    this.name = 'ExportError'
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Article Analyzer - Notification Service
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Email notifications
+ *
+ * Emails a summary to submitters who opted in when their analysis
+ * completes or fails. The email is rendered when the analysis finishes
+ * and sent by the queue consumer through the configured transport.
+ */
+
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { getResultsBySubmission } from '@/repositories/results.repository'
+import { SYSTEM_SCOPE } from '@/repositories/scope'
+import { enqueueEmail } from '@/queue/producer'
+import { getShareResultsPath } from '@/services/submission-access.service'
+import { buildCompetitorReport } from '@/utils/competitor-report'
+import { getTargetUrls, isMatchMode } from '@/utils/citation-parser'
+import { calculateSuccessRates } from '@/utils/test-results-formatter'
+import { getAppUrl } from '@/lib/shared/utils'
+import { renderAnalysisSummaryEmail } from '@/lib/email/templates/analysis-summary'
+import {
+  getEmailTransport,
+  type EmailTransport,
+} from '@/lib/email/transport'
+import type { EmailMessage } from '@/lib/shared/queue-messages'
+import type { TestMetricsData, UrlAliasesData } from '@/db/schema'
+
+const TOP_COMPETITORS = 5
+
+/**
+ * Queue the summary email for a finished analysis, if one was requested
+ * Never throws: notification problems must not fail the analysis
+ */
+export async function notifyAnalysisFinished(
+  submissionId: string,
+  status: 'completed' | 'failed',
+  env: CloudflareEnv
+): Promise<void> {
+  try {
+    const submission = await getSubmissionById(submissionId, SYSTEM_SCOPE, env)
+
+    if (!submission?.notifyEmail) {
+      return
+    }
+
+    const results = await getResultsBySubmission(
+      submissionId,
+      SYSTEM_SCOPE,
+      env
+    )
+    const report = buildCompetitorReport(
+      getTargetUrls(
+        submission.url,
+        submission.urlAliases as UrlAliasesData | null
+      ),
+      results,
+      isMatchMode(submission.matchMode) ? submission.matchMode : 'exact'
+    )
+    const metrics = submission.testMetrics as TestMetricsData | null
+    const appUrl = getAppUrl(env)
+
+    const email = renderAnalysisSummaryEmail({
+      url: submission.url,
+      articleTitle: submission.articleTitle,
+      status,
+      error: submission.scrapingError,
+      resultsUrl: `${appUrl}${getShareResultsPath(submission)}`,
+      metrics: metrics
+        ? {
+            isAccessible: metrics.isAccessible,
+            totalFaqs: metrics.totalFaqs,
+            inSourcesCount: metrics.inSourcesCount,
+            inCitationsCount: metrics.inCitationsCount,
+            ...calculateSuccessRates(metrics),
+          }
+        : null,
+      competitors: report.domains
+        .filter((d) => !d.isTarget && d.citationCount > 0)
+        .slice(0, TOP_COMPETITORS)
+        .map((d) => ({ domain: d.domain, shareOfVoice: d.shareOfVoice })),
+      targetShareOfVoice:
+        report.totalCitations > 0 ? report.targetShareOfVoice : null,
+    })
+
+    await enqueueEmail(env.ARTICLE_ANALYSIS_QUEUE, {
+      to: submission.notifyEmail,
+      subject: email.subject,
+      body: email.text,
+      html: email.html,
+    })
+  } catch (error) {
+    console.error(
+      `[Notification] Failed to queue email for submission ${submissionId}:`,
+      error
+    )
+  }
+}
+
+/**
+ * Send a queued email
+ * Throws on transport errors so the queue redelivers the message
+ */
+export async function sendQueuedEmail(
+  message: EmailMessage,
+  env: CloudflareEnv,
+  transport: EmailTransport = getEmailTransport(env)
+): Promise<void> {
+  await transport.send(message.payload)
+  console.log(`[Notification] Sent email: ${message.payload.subject}`)
+}
@@ -6,12 +6,50 @@
  *
  * Enforces rate limiting for article submissions (3 per IP per 24 hours).
  * Rate limiting is bypassed in development mode.
+ *
+ * API key callers get a per-key daily quota instead of the IP limit.
+ * Workspaces get a daily quota (WORKSPACE_DAILY_QUOTA) covering batch
+ * members and scheduled re-tests, which are not tied to one IP.
+ *
+ * Password sign-ins and magic link requests are limited per email and
+ * per IP, against password guessing and flooding an inbox with links.
  */
 
-import { countRecentSubmissionsByIP } from '@/repositories/submission.repository'
+import {
+  countRecentSubmissionsByApiKey,
+  countRecentSubmissionsByIP,
+  countRecentSubmissionsByWorkspace,
+} from '@/repositories/submission.repository'
+import { countRecentBatchUrls } from '@/repositories/batch.repository'
+import {
+  countRecentAuthAttempts,
+  createAuthAttempt,
+} from '@/repositories/user.repository'
+import {
+  callerScope,
+  SYSTEM_SCOPE,
+  workspaceScope,
+} from '@/repositories/scope'
+import type { ApiKey, AuthAttemptKind } from '@/db/schema'
 
 const MAX_SUBMISSIONS = 3
 const WINDOW_HOURS = 24
+const DEFAULT_WORKSPACE_QUOTA = 100 // Analyses per workspace per window
+const AUTH_WINDOW_HOURS = 1
+
+// Sign-in attempts per window, per email and per IP
+const AUTH_LIMITS: Record<AuthAttemptKind, { email: number; ip: number }> = {
+  login: { email: 10, ip: 50 },
+  magic_link: { email: 5, ip: 20 },
+}
+
+/**
+ * Remaining API key quota in the current window
+ */
+export interface QuotaStatus {
+  limit: number
+  remaining: number
+}
 
 /**
  * Check if user has exceeded rate limit
@@ -23,7 +61,11 @@ export async function checkRateLimit(userIp: string): Promise<void> {
     return
   }
 
-  const count = await countRecentSubmissionsByIP(userIp, WINDOW_HOURS)
+  const count = await countRecentSubmissionsByIP(
+    userIp,
+    SYSTEM_SCOPE,
+    WINDOW_HOURS
+  )
 
   if (count >= MAX_SUBMISSIONS) {
     throw new RateLimitError(
@@ -32,6 +74,116 @@ export async function checkRateLimit(userIp: string): Promise<void> {
   }
 }
 
+/**
+ * Check an API key's daily quota before creating an analysis
+ * Quotas are configured per key, so they apply in every environment
+ * Throws RateLimitError if the quota is used up
+ */
+export async function checkApiKeyQuota(apiKey: ApiKey): Promise<QuotaStatus> {
+  const used = await countRecentSubmissionsByApiKey(
+    apiKey.id,
+    workspaceScope([apiKey.workspaceId]),
+    WINDOW_HOURS
+  )
+  const status = {
+    limit: apiKey.dailyQuota,
+    remaining: Math.max(apiKey.dailyQuota - used, 0),
+  }
+
+  if (used >= apiKey.dailyQuota) {
+    throw new RateLimitError(
+      `API key quota exceeded. This key can create ${apiKey.dailyQuota} analyses per day.`,
+      status
+    )
+  }
+
+  return status
+}
+
+/**
+ * Check a workspace's daily quota before creating `requested` analyses
+ * (a batch counts each of its URLs). Like API key quotas, it applies in
+ * every environment.
+ * Throws RateLimitError if the analyses would exceed the quota
+ */
+export async function checkWorkspaceQuota(
+  workspaceId: string,
+  requested: number = 1,
+  env?: CloudflareEnv
+): Promise<QuotaStatus> {
+  const limit = getWorkspaceQuota(env)
+  const [submissions, batchUrls] = await Promise.all([
+    countRecentSubmissionsByWorkspace(
+      workspaceId,
+      callerScope([workspaceId]),
+      WINDOW_HOURS,
+      env
+    ),
+    countRecentBatchUrls(workspaceId, WINDOW_HOURS, env),
+  ])
+  const used = submissions + batchUrls
+  const status = {
+    limit,
+    remaining: Math.max(limit - used, 0),
+  }
+
+  if (used + requested > limit) {
+    throw new RateLimitError(
+      `Workspace quota exceeded. A workspace can run ${limit} analyses per day (${status.remaining} left).`,
+      status
+    )
+  }
+
+  return status
+}
+
+/**
+ * Check and record a password sign-in or magic link request
+ * Throws RateLimitError if the email or IP has made too many attempts
+ */
+export async function checkAuthRateLimit(
+  kind: AuthAttemptKind,
+  email: string,
+  userIp?: string
+): Promise<void> {
+  // Skip rate limiting in development
+  if (!isRateLimitEnabled()) {
+    return
+  }
+
+  const normalizedEmail = email.trim().toLowerCase()
+  const limits = AUTH_LIMITS[kind]
+  const { byEmail, byIp } = await countRecentAuthAttempts(
+    kind,
+    normalizedEmail,
+    userIp,
+    AUTH_WINDOW_HOURS
+  )
+
+  if (byEmail >= limits.email || byIp >= limits.ip) {
+    throw new RateLimitError(
+      kind === 'login'
+        ? 'Too many sign-in attempts. Try again in an hour.'
+        : 'Too many sign-in links requested. Try again in an hour.'
+    )
+  }
+
+  await createAuthAttempt(kind, normalizedEmail, userIp)
+}
+
+/**
+ * Daily workspace quota from WORKSPACE_DAILY_QUOTA, or the default
+ */
+function getWorkspaceQuota(env?: CloudflareEnv): number {
+  const configured = Number(
+    env?.WORKSPACE_DAILY_QUOTA ?? process.env.WORKSPACE_DAILY_QUOTA
+  )
+
+  return Number.isInteger(configured) && configured > 0
+    ? configured
+    : DEFAULT_WORKSPACE_QUOTA
+}
+
 /**
  * Check if rate limiting is enabled
  * Disabled in development mode or when explicitly disabled via env var
@@ -50,7 +202,7 @@ function isRateLimitEnabled(): boolean {
  * Custom error class for rate limit exceeded
  */
 export class RateLimitError extends Error {
-  constructor(message: string) {
+  constructor(message: string, public readonly quota?: QuotaStatus) {
     super(message)
     this.name = 'RateLimitError'
   }
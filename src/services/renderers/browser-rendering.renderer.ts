@@ -0,0 +1,93 @@
+/**
+ * Article Analyzer - Browser Rendering Renderer
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: JavaScript-rendered pages
+ *
+ * Renders pages in a headless browser through the Cloudflare Browser
+ * Rendering REST API (/browser-rendering/content), which returns the
+ * HTML after scripts have run. Plain fetch, so no SDK is needed.
+ */
+
+import { NetworkError, TimeoutError } from '@/types/scraping-errors'
+import type { PageRenderer, RenderedPage } from '@/services/scraper.service'
+
+const API_BASE_URL = 'https://api.cloudflare.com/client/v4/accounts'
+
+interface BrowserRenderingResponse {
+  success: boolean
+  result?: string // Rendered HTML
+  errors?: Array<{ code?: number; message: string }>
+}
+
+/**
+ * Create a renderer backed by Cloudflare Browser Rendering
+ */
+export function createBrowserRenderingRenderer(
+  accountId?: string,
+  apiToken?: string
+): PageRenderer {
+  return {
+    name: 'browser-rendering',
+
+    async render(url: string, timeoutMs: number): Promise<RenderedPage> {
+      if (!accountId || !apiToken) {
+        throw new Error(
+          'Browser Rendering API key not found. Set BROWSER_RENDERING_ACCOUNT_ID and BROWSER_RENDERING_API_TOKEN environment variables.'
+        )
+      }
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
+
+      try {
+        const response = await fetch(
+          `${API_BASE_URL}/${accountId}/browser-rendering/content`,
+          {
+            method: 'POST',
+            signal: controller.signal,
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${apiToken}`,
+            },
+            body: JSON.stringify({
+              url,
+              // Wait until the page's own requests have settled
+              gotoOptions: { waitUntil: 'networkidle0', timeout: timeoutMs },
+            }),
+          }
+        )
+
+        const data = (await response
+          .json()
+          .catch(() => null)) as BrowserRenderingResponse | null
+
+        if (!response.ok || !data?.success || !data.result) {
+          const message =
+            data?.errors?.map((error) => error.message).join('; ') ||
+            response.statusText
+          throw new NetworkError(
+            `Browser Rendering failed (${response.status}): ${message}`,
+            response.status
+          )
+        }
+
+        return { html: data.result, finalUrl: url }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          throw new TimeoutError(`Rendering timed out after ${timeoutMs}ms`)
+        }
+
+        if (error instanceof NetworkError) {
+          throw error
+        }
+
+        throw new NetworkError(
+          `Browser Rendering request failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        )
+      } finally {
+        clearTimeout(timeoutId)
+      }
+    },
+  }
+}
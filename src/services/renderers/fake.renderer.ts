@@ -0,0 +1,46 @@
+/**
+ * Article Analyzer - Fake Renderer
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: JavaScript-rendered pages
+ *
+ * Local stand-in for a headless browser, for tests and local runs.
+ * Returns canned HTML (or a function of the URL) without any network
+ * calls, and records every URL it is asked to render.
+ */
+
+import type { PageRenderer, RenderedPage } from '@/services/scraper.service'
+
+export interface FakeRenderer extends PageRenderer {
+  urls: string[]
+}
+
+export type FakeRenderResponder =
+  | string
+  | ((url: string) => string | Promise<string>)
+
+const DEFAULT_HTML = `<html><head><title>Rendered Article</title></head><body><article>
+<h1>Rendered Article</h1>
+<p>This article was produced by the fake renderer, standing in for a headless browser that runs the page's scripts before the HTML is parsed.</p>
+<p>It lets the JavaScript rendering fallback be exercised locally without a browser, an account or any network access at all.</p>
+</article></body></html>`
+
+/**
+ * Create a fake renderer that returns `responder` for every URL
+ */
+export function createFakeRenderer(
+  responder: FakeRenderResponder = DEFAULT_HTML
+): FakeRenderer {
+  const urls: string[] = []
+
+  return {
+    name: 'fake',
+    urls,
+
+    async render(url: string): Promise<RenderedPage> {
+      urls.push(url)
+      const html = typeof responder === 'function' ? await responder(url) : responder
+      return { html, finalUrl: url }
+    },
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * Article Analyzer - Page Renderers
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: JavaScript-rendered pages
+ *
+ * Registry of the headless renderers the scraper falls back to when the
+ * static HTML of a page is a single-page-app shell. Static fetching stays
+ * the default: no renderer is used unless PAGE_RENDERER is set.
+ */
+
+import { createBrowserRenderingRenderer } from '@/services/renderers/browser-rendering.renderer'
+import { createFakeRenderer } from '@/services/renderers/fake.renderer'
+import type { PageRenderer } from '@/services/scraper.service'
+
+export { createBrowserRenderingRenderer } from '@/services/renderers/browser-rendering.renderer'
+export { createFakeRenderer } from '@/services/renderers/fake.renderer'
+
+/**
+ * Create the renderer selected by PAGE_RENDERER, or null for static only
+ *
+ * The fake renderer is only available outside production.
+ */
+export function getPageRenderer(env?: CloudflareEnv): PageRenderer | null {
+  switch (env?.PAGE_RENDERER) {
+    case 'browser-rendering':
+      return createBrowserRenderingRenderer(
+        env.BROWSER_RENDERING_ACCOUNT_ID,
+        env.BROWSER_RENDERING_API_TOKEN
+      )
+    case 'fake':
+      return process.env.NODE_ENV !== 'production' ? createFakeRenderer() : null
+    default:
+      return null
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Article Analyzer - Results Stream Service
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Live analysis progress
+ *
+ * Server-Sent Events stream of a submission's analysis progress.
+ * The queue consumer runs in a different isolate, so the stream watches
+ * the database with cheap queries (the status column and results newer
+ * than the last one sent) instead of re-reading everything each tick.
+ *
+ * Events:
+ * - `status`:   phase transition, with the submission payload
+ * - `result`:   each saved FAQ test result (event id = result id)
+ * - `complete`: final submission, results and statistics; the stream ends
+ * - `not-found`: the submission is gone or no longer visible; the stream ends
+ *
+ * The stream ends as soon as the analysis completes or fails. While
+ * nothing changes, the database is checked less and less often (from
+ * every second up to every MAX_POLL_INTERVAL_MS); any change resets it.
+ *
+ * Streams close after MAX_STREAM_MS; EventSource reconnects and resumes
+ * after the last result via the Last-Event-ID header.
+ */
+
+import {
+  getSubmissionById,
+  getSubmissionStatus,
+} from '@/repositories/submission.repository'
+import {
+  getResultsAfter,
+  getResultsBySubmission,
+} from '@/repositories/results.repository'
+import type { WorkspaceScope } from '@/repositories/scope'
+import {
+  buildResultsPayload,
+  toResultPayload,
+  toSubmissionPayload,
+} from '@/services/results.service'
+
+const MIN_POLL_INTERVAL_MS = 1000
+const MAX_POLL_INTERVAL_MS = 10000
+const POLL_BACKOFF_MULTIPLIER = 1.5
+const HEARTBEAT_INTERVAL_MS = 15000
+const MAX_STREAM_MS = 5 * 60 * 1000 // 5 minutes
+const RECONNECT_DELAY_MS = 3000
+const TERMINAL_STATUSES = ['completed', 'failed']
+
+/**
+ * Options for a results event stream
+ */
+export interface ResultsStreamOptions {
+  canEdit: boolean
+  lastResultId?: number // Resume after this result
+  signal?: AbortSignal // Client disconnected
+}
+
+/**
+ * Create the SSE body for a submission's live progress
+ */
+export function createResultsEventStream(
+  submissionId: string,
+  scope: WorkspaceScope,
+  options: ResultsStreamOptions
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk))
+      const sendEvent = (event: string, data: unknown, id?: number) =>
+        send(
+          `${id !== undefined ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+        )
+
+      const startedAt = Date.now()
+      let lastHeartbeat = startedAt
+      let lastStatus: string | null = null
+      let lastResultId = options.lastResultId ?? 0
+      let pollInterval = MIN_POLL_INTERVAL_MS
+
+      send(`retry: ${RECONNECT_DELAY_MS}\n\n`)
+
+      try {
+        while (
+          !options.signal?.aborted &&
+          Date.now() - startedAt < MAX_STREAM_MS
+        ) {
+          const status = await getSubmissionStatus(submissionId, scope)
+
+          if (!status) {
+            sendEvent('not-found', { message: 'Submission not found' })
+            break
+          }
+
+          if (TERMINAL_STATUSES.includes(status)) {
+            const [submission, results] = await Promise.all([
+              getSubmissionById(submissionId, scope),
+              getResultsBySubmission(submissionId, scope),
+            ])
+
+            if (submission) {
+              sendEvent(
+                'complete',
+                buildResultsPayload(submission, results, options.canEdit)
+              )
+            }
+            break
+          }
+
+          let changed = false
+
+          // Phase transition - send the submission (title, FAQs, etc.)
+          if (status !== lastStatus) {
+            const submission = await getSubmissionById(submissionId, scope)
+
+            if (submission) {
+              sendEvent('status', {
+                submission: toSubmissionPayload(submission, options.canEdit),
+              })
+            }
+            lastStatus = status
+            changed = true
+          }
+
+          for (const result of await getResultsAfter(
+            submissionId,
+            lastResultId,
+            scope
+          )) {
+            sendEvent('result', toResultPayload(result), result.id)
+            lastResultId = result.id
+            changed = true
+          }
+
+          // Comment line keeps proxies from closing an idle stream
+          if (Date.now() - lastHeartbeat >= HEARTBEAT_INTERVAL_MS) {
+            send(': heartbeat\n\n')
+            lastHeartbeat = Date.now()
+          }
+
+          pollInterval = changed
+            ? MIN_POLL_INTERVAL_MS
+            : Math.min(
+                pollInterval * POLL_BACKOFF_MULTIPLIER,
+                MAX_POLL_INTERVAL_MS
+              )
+          await sleep(pollInterval, options.signal)
+        }
+      } catch (error) {
+        // Writes fail once the client disconnects - nothing to report
+        if (!options.signal?.aborted) {
+          console.error(
+            `[Results Stream] Stream for submission ${submissionId} failed:`,
+            error
+          )
+        }
+      } finally {
+        try {
+          controller.close()
+        } catch {
+          // Already closed by a client disconnect
+        }
+      }
+    },
+  })
+}
+
+/**
+ * Sleep between database checks, waking early when the client disconnects
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+
+    function done() {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
@@ -0,0 +1,109 @@
+/**
+ * Article Analyzer - Results Service
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: US-5.1, US-5.2, US-5.3, Live analysis progress
+ *
+ * Shapes a submission and its test results for the results page.
+ * Shared by the results API and the live progress event stream so both
+ * send the same submission, result and statistics payloads.
+ */
+
+import { getTargetUrls, isMatchMode } from '@/utils/citation-parser'
+import { buildMarkupReport } from '@/utils/page-metadata'
+import {
+  calculateResultStatistics,
+  calculateSuccessRates,
+} from '@/utils/test-results-formatter'
+import type {
+  AnalysisResult,
+  Submission,
+  TestMetricsData,
+  UrlAliasesData,
+} from '@/db/schema'
+import type { PageMetadata } from '@/types/page-metadata'
+import type { AiReadinessAudit } from '@/types/ai-readiness'
+
+/**
+ * Present a submission for the results page
+ */
+export function toSubmissionPayload(submission: Submission, canEdit: boolean) {
+  const testMetrics = submission.testMetrics as TestMetricsData | null
+  const pageMetadata = submission.pageMetadata as PageMetadata | null
+
+  return {
+    id: submission.id,
+    url: submission.url,
+    status: submission.status,
+    articleTitle: submission.articleTitle,
+    scrapingError: submission.scrapingError,
+    partialContent: submission.partialContent,
+    createdAt: submission.createdAt,
+    completedAt: submission.completedAt,
+    generatedFaqs: submission.generatedFaqs,
+    searchProviders: submission.searchProviders,
+    matchMode: getMatchMode(submission),
+    targetUrls: getTargetUrls(
+      submission.url,
+      submission.urlAliases as UrlAliasesData | null
+    ),
+    canEdit,
+    shareToken: submission.shareToken,
+    // 3-tier metrics with success rates (when testing has finished)
+    testMetrics:
+      testMetrics && testMetrics.totalFaqs > 0
+        ? { ...testMetrics, ...calculateSuccessRates(testMetrics) }
+        : testMetrics,
+    // Existing structured data on the page and which AI-relevant markup is missing
+    pageMetadata,
+    markupReport: pageMetadata ? buildMarkupReport(pageMetadata) : null,
+    aiReadinessAudit: submission.aiReadinessAudit as AiReadinessAudit | null,
+  }
+}
+
+/**
+ * Present a single test result for the results page
+ */
+export function toResultPayload(result: AnalysisResult) {
+  return {
+    id: result.id,
+    question: result.question,
+    provider: result.provider,
+    llmResponse: result.llmResponse,
+    targetUrlFound: result.targetUrlFound,
+    foundInSources: result.foundInSources,
+    foundInCitations: result.foundInCitations,
+    matchType: result.matchType,
+    citations: result.allCitations,
+    sources: result.allSources,
+  }
+}
+
+/**
+ * Build the full results page payload: submission, results and statistics
+ */
+export function buildResultsPayload(
+  submission: Submission,
+  results: AnalysisResult[],
+  canEdit: boolean
+) {
+  const submissionPayload = toSubmissionPayload(submission, canEdit)
+  const resultPayloads = results.map(toResultPayload)
+
+  return {
+    submission: submissionPayload,
+    results: resultPayloads,
+    statistics: calculateResultStatistics(
+      resultPayloads,
+      submissionPayload.targetUrls,
+      submissionPayload.matchMode
+    ),
+  }
+}
+
+/**
+ * Submission match mode (exact page unless another mode was chosen)
+ */
+function getMatchMode(submission: Submission) {
+  return isMatchMode(submission.matchMode) ? submission.matchMode : 'exact'
+}
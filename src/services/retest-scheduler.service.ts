@@ -0,0 +1,226 @@
+/**
+ * Article Analyzer - Re-test Scheduler Service
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Scheduled re-testing
+ *
+ * Schedules recurring re-runs of a submission's stored FAQs and tracks
+ * visibility over time. A cron trigger (see worker-wrapper.ts) calls
+ * runDueRetests, which creates a child submission per due schedule and
+ * enqueues it for the queue consumer.
+ * Only workspace submissions can be scheduled; each workspace has a cap on
+ * active schedules, and every run counts against its daily quota.
+ */
+
+import {
+  getSubmissionById,
+  createRetestSubmission,
+  getSubmissionRuns,
+} from '@/repositories/submission.repository'
+import {
+  upsertSchedule,
+  getDueSchedules,
+  markScheduleRun,
+  countActiveSchedules,
+  deactivateSchedule,
+} from '@/repositories/schedule.repository'
+import { SYSTEM_SCOPE, type WorkspaceScope } from '@/repositories/scope'
+import { enqueueSubmissionJob } from '@/queue/producer'
+import {
+  checkWorkspaceQuota,
+  RateLimitError,
+} from '@/services/rate-limiter.service'
+import { calculateSuccessRates } from '@/utils/test-results-formatter'
+import type {
+  Schedule,
+  ScheduleFrequency,
+  Submission,
+  TestMetricsData,
+} from '@/db/schema'
+
+const MAX_ACTIVE_SCHEDULES = 20 // Per workspace
+
+const FREQUENCY_MS: Record<ScheduleFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * A single point in a URL's visibility history
+ */
+export interface VisibilityHistoryPoint {
+  submissionId: string
+  runAt: Date
+  status: string
+  isAccessible: boolean | null
+  tier2SuccessRate: number | null
+  tier3SuccessRate: number | null
+}
+
+/**
+ * Check if a value is a supported schedule frequency
+ */
+export function isScheduleFrequency(value: unknown): value is ScheduleFrequency {
+  return value === 'daily' || value === 'weekly'
+}
+
+/**
+ * Calculate the next run time for a frequency
+ */
+export function getNextRunAt(frequency: ScheduleFrequency, from: Date): Date {
+  return new Date(from.getTime() + FREQUENCY_MS[frequency])
+}
+
+/**
+ * Resolve the original submission that re-test runs are linked to
+ */
+export function getRootSubmissionId(submission: Submission): string {
+  return submission.parentSubmissionId ?? submission.id
+}
+
+/**
+ * Schedule recurring re-tests for a submission
+ * Throws error if the submission has no FAQs to re-test yet, belongs to no
+ * workspace, or its workspace already has the maximum active schedules
+ */
+export async function scheduleRetests(
+  submissionId: string,
+  frequency: ScheduleFrequency,
+  scope: WorkspaceScope
+): Promise<Schedule> {
+  const submission = await getSubmissionById(submissionId, scope)
+
+  if (!submission) {
+    throw new Error('Submission not found')
+  }
+
+  if (submission.status !== 'completed') {
+    throw new Error('Only completed analyses can be scheduled for re-testing')
+  }
+
+  if (!submission.workspaceId) {
+    throw new Error('Only analyses in a workspace can be scheduled for re-testing')
+  }
+
+  const rootId = getRootSubmissionId(submission)
+  const activeSchedules = await countActiveSchedules(
+    submission.workspaceId,
+    rootId
+  )
+
+  if (activeSchedules >= MAX_ACTIVE_SCHEDULES) {
+    throw new Error(
+      `A workspace can have at most ${MAX_ACTIVE_SCHEDULES} active re-test schedules. Stop one to add another.`
+    )
+  }
+
+  return await upsertSchedule(
+    rootId,
+    frequency,
+    getNextRunAt(frequency, new Date())
+  )
+}
+
+/**
+ * Create and enqueue re-test runs for all due schedules
+ * Runs over the workspace's daily quota are skipped until the next due time;
+ * schedules of submissions outside a workspace are stopped
+ * Returns the number of runs started
+ */
+export async function runDueRetests(
+  env: CloudflareEnv,
+  now: Date = new Date()
+): Promise<number> {
+  const schedules = await getDueSchedules(now, env)
+  let started = 0
+
+  console.log(`[Scheduler] ${schedules.length} re-test schedules due`)
+
+  for (const schedule of schedules) {
+    try {
+      const parent = await getSubmissionById(
+        schedule.submissionId,
+        SYSTEM_SCOPE,
+        env
+      )
+
+      // Advance the schedule first so a failed enqueue isn't retried every tick
+      await markScheduleRun(
+        schedule.id,
+        now,
+        getNextRunAt(schedule.frequency as ScheduleFrequency, now),
+        env
+      )
+
+      if (!parent) {
+        console.warn(
+          `[Scheduler] Submission ${schedule.submissionId} no longer exists`
+        )
+        continue
+      }
+
+      if (!parent.workspaceId) {
+        await deactivateSchedule(parent.id, env)
+        console.warn(
+          `[Scheduler] Stopped schedule for submission ${parent.id}, which is not in a workspace`
+        )
+        continue
+      }
+
+      try {
+        await checkWorkspaceQuota(parent.workspaceId, 1, env)
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          console.warn(
+            `[Scheduler] Skipped re-test for submission ${parent.id}: ${error.message}`
+          )
+          continue
+        }
+        throw error
+      }
+
+      const child = await createRetestSubmission(parent, SYSTEM_SCOPE, env)
+      await enqueueSubmissionJob(env.ARTICLE_ANALYSIS_QUEUE, {
+        submissionId: child.id,
+        url: child.url,
+      })
+      started++
+
+      console.log(
+        `[Scheduler] Started re-test ${child.id} for submission ${parent.id}`
+      )
+    } catch (error) {
+      console.error(
+        `[Scheduler] Failed to start re-test for schedule ${schedule.id}:`,
+        error
+      )
+      // Continue with the remaining schedules
+    }
+  }
+
+  return started
+}
+
+/**
+ * Get Tier 1-3 results over time for a submission and its re-test runs
+ */
+export async function getVisibilityHistory(
+  rootId: string,
+  scope: WorkspaceScope
+): Promise<VisibilityHistoryPoint[]> {
+  const runs = await getSubmissionRuns(rootId, scope)
+
+  return runs.map((run) => {
+    const metrics = run.testMetrics as TestMetricsData | null
+    const rates = metrics ? calculateSuccessRates(metrics) : null
+
+    return {
+      submissionId: run.id,
+      runAt: run.completedAt ?? run.createdAt,
+      status: run.status,
+      isAccessible: metrics ? metrics.isAccessible : null,
+      tier2SuccessRate: rates ? rates.tier2SuccessRate : null,
+      tier3SuccessRate: rates ? rates.tier3SuccessRate : null,
+    }
+  })
+}
@@ -0,0 +1,166 @@
+/**
+ * Article Analyzer - Scrape Credentials Service
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Authenticated scraping
+ *
+ * Validates the request headers, cookies and basic auth a submitter
+ * provides for gated articles, and encrypts them (AES-GCM with the
+ * SCRAPE_CREDENTIALS_KEY secret) for storage on the submission.
+ */
+
+import { decryptSecret, encryptSecret } from '@/lib/auth/crypto'
+import type { ScrapeCredentials } from '@/types/scrape-credentials'
+
+const MAX_HEADERS = 20
+const MAX_VALUE_LENGTH = 4096
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+
+// Headers the fetch itself controls, or that have their own field
+const RESERVED_HEADERS = [
+  'host',
+  'content-length',
+  'connection',
+  'transfer-encoding',
+  'accept',
+  'user-agent',
+  'cookie',
+]
+
+/**
+ * Validate optional scrape credentials from a request body
+ * Returns undefined when none are given; throws Error for invalid input
+ */
+export function resolveScrapeCredentials(
+  input: unknown
+): ScrapeCredentials | undefined {
+  if (input === undefined || input === null) {
+    return undefined
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('credentials must be an object')
+  }
+
+  const { headers, cookies, basicAuth } = input as Record<string, unknown>
+  const credentials: ScrapeCredentials = {}
+
+  if (headers !== undefined && headers !== null) {
+    credentials.headers = resolveHeaders(headers)
+  }
+
+  if (cookies !== undefined && cookies !== null && cookies !== '') {
+    credentials.cookies = resolveValue('credentials.cookies', cookies)
+  }
+
+  if (basicAuth !== undefined && basicAuth !== null) {
+    const { username, password } = basicAuth as Record<string, unknown>
+    const user = resolveValue('credentials.basicAuth.username', username)
+
+    if (!user || user.includes(':')) {
+      throw new Error('credentials.basicAuth.username must be non-empty and not contain ":"')
+    }
+
+    credentials.basicAuth = {
+      username: user,
+      password: resolveValue('credentials.basicAuth.password', password ?? ''),
+    }
+  }
+
+  if (
+    credentials.basicAuth &&
+    Object.keys(credentials.headers ?? {}).some(
+      (name) => name.toLowerCase() === 'authorization'
+    )
+  ) {
+    throw new Error('Use either basicAuth or an Authorization header, not both')
+  }
+
+  const hasCredentials =
+    Object.keys(credentials.headers ?? {}).length > 0 ||
+    Boolean(credentials.cookies) ||
+    Boolean(credentials.basicAuth)
+
+  return hasCredentials ? credentials : undefined
+}
+
+/**
+ * Encrypt credentials for storage
+ */
+export async function sealScrapeCredentials(
+  credentials: ScrapeCredentials,
+  env: CloudflareEnv
+): Promise<string> {
+  return encryptSecret(JSON.stringify(credentials), requireKey(env))
+}
+
+/**
+ * Decrypt stored credentials
+ */
+export async function openScrapeCredentials(
+  sealed: string,
+  env: CloudflareEnv
+): Promise<ScrapeCredentials> {
+  return JSON.parse(await decryptSecret(sealed, requireKey(env))) as ScrapeCredentials
+}
+
+function requireKey(env: CloudflareEnv): string {
+  if (!env.SCRAPE_CREDENTIALS_KEY) {
+    throw new Error(
+      'Scrape credentials are not enabled. Set SCRAPE_CREDENTIALS_KEY environment variable.'
+    )
+  }
+  return env.SCRAPE_CREDENTIALS_KEY
+}
+
+/**
+ * Validate a header name/value map
+ */
+function resolveHeaders(input: unknown): Record<string, string> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new Error('credentials.headers must be an object of header names to values')
+  }
+
+  const entries = Object.entries(input)
+
+  if (entries.length > MAX_HEADERS) {
+    throw new Error(`credentials.headers can have at most ${MAX_HEADERS} headers`)
+  }
+
+  const headers: Record<string, string> = {}
+
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid header name: ${name}`)
+    }
+
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      throw new Error(
+        name.toLowerCase() === 'cookie'
+          ? 'Provide cookies with credentials.cookies instead of a Cookie header'
+          : `The ${name} header cannot be set`
+      )
+    }
+
+    headers[name] = resolveValue(`Header ${name}`, value)
+  }
+
+  return headers
+}
+
+/**
+ * Validate a single-line string value
+ */
+function resolveValue(field: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`)
+  }
+
+  if (value.length > MAX_VALUE_LENGTH || /[\r\n\0]/.test(value)) {
+    throw new Error(
+      `${field} must be a single line of at most ${MAX_VALUE_LENGTH} characters`
+    )
+  }
+
+  return value
+}
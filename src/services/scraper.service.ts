@@ -6,25 +6,120 @@
  *
  * Fetches and extracts article content from URLs.
  * Handles network errors, timeouts, and content parsing.
+ * Honors robots.txt (cached per origin) unless the operator has listed
+ * the host in ROBOTS_TXT_OVERRIDE_HOSTS.
+ * Pages whose static HTML is a single-page-app shell are rendered with a
+ * pluggable headless renderer when one is configured (see renderers/).
+ * Submitter-provided credentials are only sent to the article's own origin.
+ * PDF, plain text and Markdown URLs are dispatched on Content-Type to the
+ * document extractors, which return the same ParsedArticle shape.
+ * Bodies are streamed with a byte cap, binary types are rejected before
+ * download, and text is decoded with the charset the page declares.
  */
 
-import { parseArticleContent, type ParsedArticle } from '@/utils/content-parser'
+import {
+  looksLikeAppShell,
+  parseArticleContent,
+  type ParsedArticle,
+} from '@/utils/content-parser'
+import {
+  detectDocumentType,
+  isBinaryContentType,
+  looksBinary,
+  parseMarkdownDocument,
+  parsePdfDocument,
+  parseTextDocument,
+} from '@/utils/document-parser'
+import { decodeBody } from '@/utils/charset'
+import { getPageRenderer } from '@/services/renderers'
+import {
+  isPathAllowed,
+  parseRobotsTxt,
+  type RobotsTxt,
+} from '@/utils/robots-txt'
 import {
   NetworkError,
   TimeoutError,
   AccessDeniedError,
   ScrapingError,
+  RobotsDisallowedError,
+  ContentNotFoundError,
+  ResponseTooLargeError,
+  UnsupportedContentTypeError,
 } from '@/types/scraping-errors'
+import type { ScrapeCredentials } from '@/types/scrape-credentials'
 
 const REQUEST_TIMEOUT_MS = 15000 // 15 seconds
+const RENDER_TIMEOUT_MS = 30000 // 30 seconds, headless browsers are slow
+const MAX_REDIRECTS = 5 // Followed by hand when credentials are sent
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024 // 5 MB of HTML or text
+const MAX_PDF_BYTES = 10 * 1024 * 1024 // 10 MB, PDFs embed fonts and images
 const MAX_RETRIES = 2
 const RETRY_DELAY_MS = 1000
+const HTML_ACCEPT =
+  'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+const ARTICLE_ACCEPT =
+  'text/html,application/xhtml+xml,application/pdf,text/markdown;q=0.9,text/plain;q=0.8,*/*;q=0.5'
+const USER_AGENT =
+  'Mozilla/5.0 (compatible; ArticleAnalyzerBot/1.0; +https://datagum.ai)'
+const ROBOTS_TXT_AGENT = 'ArticleAnalyzerBot' // Product token matched against robots.txt groups
+const ROBOTS_TXT_TIMEOUT_MS = 5000 // 5 seconds
+const ROBOTS_TXT_CACHE_TTL_MS = 60 * 60 * 1000 // 1 hour
+const ROBOTS_TXT_CACHE_SIZE = 500
+
+// Parsed robots.txt per origin (per isolate, so each Worker instance has its own)
+const robotsTxtCache = new Map<string, { robots: RobotsTxt; expiresAt: number }>()
+
+/**
+ * HTML of a page after a renderer has run its scripts
+ */
+export interface RenderedPage {
+  html: string
+  finalUrl: string
+}
+
+/**
+ * Headless backend used when the static HTML is an app shell
+ */
+export interface PageRenderer {
+  name: string
+  render(url: string, timeoutMs: number): Promise<RenderedPage>
+}
+
+/**
+ * Options for fetching a document
+ */
+interface FetchOptions {
+  accept?: string
+  credentialHeaders?: Record<string, string>
+  maxBytes?: number // Body size cap for HTML and text
+  allowPdf?: boolean // Accept PDFs (capped at MAX_PDF_BYTES)
+}
+
+/**
+ * Options for scraping an article
+ */
+export interface ScrapeOptions {
+  renderer?: PageRenderer | null // Defaults to the one configured by PAGE_RENDERER
+  credentials?: ScrapeCredentials // For gated articles
+}
 
 /**
  * Scrape article content from a URL
+ * Also records the final URL after redirects and any declared
+ * canonical/AMP/og:url, which AI engines often cite instead
+ * Throws RobotsDisallowedError when robots.txt disallows the page
  */
-export async function scrapeArticle(url: string): Promise<ParsedArticle> {
+export async function scrapeArticle(
+  url: string,
+  env?: CloudflareEnv,
+  options: ScrapeOptions = {}
+): Promise<ParsedArticle> {
   let lastError: Error | null = null
+  const renderer =
+    options.renderer === undefined ? getPageRenderer(env) : options.renderer
+
+  await assertCrawlAllowed(url, env)
 
   // Retry logic
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
@@ -34,13 +129,35 @@ export async function scrapeArticle(url: string): Promise<ParsedArticle> {
         await sleep(RETRY_DELAY_MS * attempt)
       }
 
-      // Fetch HTML content
-      const html = await fetchWithTimeout(url, REQUEST_TIMEOUT_MS)
+      // Fetch the article (HTML, PDF, plain text or Markdown)
+      const { body, finalUrl, headers } = await fetchDocument(
+        url,
+        REQUEST_TIMEOUT_MS,
+        {
+          accept: ARTICLE_ACCEPT,
+          credentialHeaders: getCredentialHeaders(options.credentials),
+          allowPdf: true,
+        }
+      )
+
+      // Redirects to another site are subject to that site's robots.txt
+      if (new URL(finalUrl).origin !== new URL(url).origin) {
+        await assertCrawlAllowed(finalUrl, env)
+      }
 
-      // Parse and extract article content
-      const parsed = parseArticleContent(html)
+      // Parse and extract article content with the extractor for its type
+      const parsed = await parseDocument(
+        body,
+        headers.get('content-type'),
+        finalUrl,
+        renderer
+      )
 
-      return parsed
+      return {
+        ...parsed,
+        finalUrl,
+        xRobotsTag: headers.get('x-robots-tag') ?? undefined,
+      }
     } catch (error) {
       lastError = error as Error
 
@@ -70,42 +187,159 @@ export async function scrapeArticle(url: string): Promise<ParsedArticle> {
 }
 
 /**
- * Fetch URL with timeout
+ * Dispatch a fetched document to the extractor for its Content-Type
+ */
+async function parseDocument(
+  body: Uint8Array,
+  contentType: string | null,
+  url: string,
+  renderer: PageRenderer | null
+): Promise<ParsedArticle> {
+  switch (detectDocumentType(contentType, url, body)) {
+    case 'pdf':
+      return parsePdfDocument(body, url)
+    case 'markdown':
+      return parseMarkdownDocument(decodeBody(body, contentType), url)
+    case 'text':
+      return parseTextDocument(decodeBody(body, contentType), url)
+    case 'html':
+      // Parse and extract article content, rendering app shells first
+      return parseOrRender(decodeBody(body, contentType), url, renderer)
+    default:
+      throw createContentTypeError(contentType)
+  }
+}
+
+/**
+ * Parse static HTML, or the rendered page when the static HTML looks like
+ * an app shell or has too little content to be the article
+ */
+async function parseOrRender(
+  html: string,
+  url: string,
+  renderer: PageRenderer | null
+): Promise<ParsedArticle> {
+  if (!renderer) {
+    return parseArticleContent(html, url)
+  }
+
+  if (!looksLikeAppShell(html)) {
+    try {
+      return parseArticleContent(html, url)
+    } catch (error) {
+      if (!(error instanceof ContentNotFoundError)) {
+        throw error
+      }
+    }
+  }
+
+  console.log(`Static HTML for ${url} has no article, rendering with ${renderer.name}`)
+  const rendered = await renderer.render(url, RENDER_TIMEOUT_MS)
+
+  return {
+    ...parseArticleContent(rendered.html, rendered.finalUrl),
+    renderedWith: renderer.name,
+  }
+}
+
+/**
+ * Fetch URL with timeout, returning the body decoded as text
+ * Also used by article discovery to fetch sitemaps and feeds
+ * Throws UnsupportedContentTypeError for binary responses and
+ * ResponseTooLargeError for bodies over maxBytes
+ */
+export async function fetchWithTimeout(
+  url: string,
+  timeoutMs: number,
+  accept: string = HTML_ACCEPT,
+  maxBytes: number = MAX_RESPONSE_BYTES
+): Promise<{ html: string; finalUrl: string; headers: Headers }> {
+  const { body, finalUrl, headers } = await fetchDocument(url, timeoutMs, {
+    accept,
+    maxBytes,
+  })
+
+  return {
+    html: decodeBody(body, headers.get('content-type')),
+    finalUrl,
+    headers,
+  }
+}
+
+/**
+ * Fetch URL with timeout, returning the raw body bytes
+ * The timeout covers reading the body, not just the response headers
+ * Credential headers are dropped when a redirect leaves the URL's origin
  */
-async function fetchWithTimeout(
+async function fetchDocument(
   url: string,
-  timeoutMs: number
-): Promise<string> {
+  timeoutMs: number,
+  options: FetchOptions = {}
+): Promise<{ body: Uint8Array; finalUrl: string; headers: Headers }> {
+  const {
+    accept = HTML_ACCEPT,
+    credentialHeaders,
+    maxBytes = MAX_RESPONSE_BYTES,
+    allowPdf = false,
+  } = options
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs)
 
   try {
-    const response = await fetch(url, {
-      signal: controller.signal,
-      headers: {
-        'User-Agent':
-          'Mozilla/5.0 (compatible; ArticleAnalyzerBot/1.0; +https://datagum.ai)',
-        Accept: 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-      },
-      redirect: 'follow',
-    })
-
-    clearTimeout(timeoutId)
+    const headers = {
+      'User-Agent': USER_AGENT,
+      Accept: accept,
+      'Accept-Language': 'en-US,en;q=0.9',
+    }
+    const { response, finalUrl } = credentialHeaders
+      ? await fetchWithCredentials(url, headers, credentialHeaders, controller.signal)
+      : {
+          response: await fetch(url, {
+            signal: controller.signal,
+            headers,
+            redirect: 'follow',
+          }),
+          finalUrl: undefined,
+        }
 
     // Check response status
     if (!response.ok) {
+      await response.body?.cancel()
       throw createHttpError(response.status, response.statusText, url)
     }
 
-    // Get response body
-    const html = await response.text()
+    // Reject binary types before downloading them
+    const resolvedUrl = finalUrl || response.url || url
+    const contentType = response.headers.get('content-type')
+    const isPdf = detectDocumentType(contentType, resolvedUrl) === 'pdf'
+
+    if (isPdf ? !allowPdf : isBinaryContentType(contentType)) {
+      await response.body?.cancel()
+      throw createContentTypeError(contentType)
+    }
+
+    // Get response body, up to the size cap
+    const body = await readBody(response, isPdf ? MAX_PDF_BYTES : maxBytes)
 
-    if (!html || html.length === 0) {
+    clearTimeout(timeoutId)
+
+    if (body.length === 0) {
       throw new NetworkError('Empty response received')
     }
 
-    return html
+    // Generic or missing types are sniffed once the body is in
+    if (
+      looksBinary(body) &&
+      !(allowPdf && detectDocumentType(contentType, resolvedUrl, body) === 'pdf')
+    ) {
+      throw createContentTypeError(contentType)
+    }
+
+    return {
+      body,
+      finalUrl: resolvedUrl,
+      headers: response.headers,
+    }
   } catch (error) {
     clearTimeout(timeoutId)
 
@@ -131,6 +365,217 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * Stream a response body, giving up as soon as it exceeds maxBytes
+ * Throws ResponseTooLargeError without reading further
+ */
+async function readBody(
+  response: Response,
+  maxBytes: number
+): Promise<Uint8Array> {
+  const tooLarge = () =>
+    new ResponseTooLargeError(
+      `Response is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit`,
+      maxBytes
+    )
+
+  // Fail fast when the server declares the size
+  if (Number(response.headers.get('content-length')) > maxBytes) {
+    await response.body?.cancel()
+    throw tooLarge()
+  }
+
+  if (!response.body) {
+    return new Uint8Array(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      throw tooLarge()
+    }
+    chunks.push(value)
+  }
+
+  const body = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+/**
+ * Follow redirects by hand so credentials never leave the URL's origin
+ */
+async function fetchWithCredentials(
+  url: string,
+  headers: Record<string, string>,
+  credentialHeaders: Record<string, string>,
+  signal: AbortSignal
+): Promise<{ response: Response; finalUrl: string }> {
+  const origin = new URL(url).origin
+  let current = url
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const response = await fetch(current, {
+      signal,
+      headers:
+        new URL(current).origin === origin
+          ? { ...headers, ...credentialHeaders }
+          : headers,
+      redirect: 'manual',
+    })
+
+    const location = response.headers.get('location')
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, finalUrl: current }
+    }
+
+    current = new URL(location, current).toString()
+  }
+
+  throw new NetworkError(`Too many redirects (more than ${MAX_REDIRECTS})`)
+}
+
+/**
+ * Request headers for submitter-provided credentials
+ */
+function getCredentialHeaders(
+  credentials?: ScrapeCredentials
+): Record<string, string> | undefined {
+  if (!credentials) {
+    return undefined
+  }
+
+  const headers: Record<string, string> = { ...credentials.headers }
+
+  if (credentials.cookies) {
+    headers.Cookie = credentials.cookies
+  }
+
+  if (credentials.basicAuth) {
+    const { username, password } = credentials.basicAuth
+    const bytes = new TextEncoder().encode(`${username}:${password}`)
+    headers.Authorization = `Basic ${btoa(String.fromCharCode(...bytes))}`
+  }
+
+  return headers
+}
+
+/**
+ * Fetch and parse a site's robots.txt, cached per origin
+ * A missing file (4xx) allows everything; null means it could not be
+ * fetched (timeouts, 5xx) and is not cached
+ */
+export async function fetchRobotsTxt(origin: string): Promise<RobotsTxt | null> {
+  const cached = robotsTxtCache.get(origin)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.robots
+  }
+
+  let robots: RobotsTxt
+
+  try {
+    const { html: text } = await fetchWithTimeout(
+      `${origin}/robots.txt`,
+      ROBOTS_TXT_TIMEOUT_MS,
+      'text/plain,*/*;q=0.5'
+    )
+    robots = parseRobotsTxt(text)
+  } catch (error) {
+    if (!isMissingResourceError(error)) {
+      console.warn(`robots.txt unavailable for ${origin}:`, error)
+      return null
+    }
+    robots = parseRobotsTxt('')
+  }
+
+  // Evict the oldest entry once the cache is full
+  if (robotsTxtCache.size >= ROBOTS_TXT_CACHE_SIZE) {
+    const oldest = robotsTxtCache.keys().next().value
+    if (oldest !== undefined) {
+      robotsTxtCache.delete(oldest)
+    }
+  }
+  robotsTxtCache.delete(origin)
+  robotsTxtCache.set(origin, {
+    robots,
+    expiresAt: Date.now() + ROBOTS_TXT_CACHE_TTL_MS,
+  })
+
+  return robots
+}
+
+/**
+ * Check whether a fetch failed because the resource does not exist for us
+ * (4xx other than rate limiting), as opposed to a temporary failure
+ */
+export function isMissingResourceError(error: unknown): boolean {
+  if (error instanceof AccessDeniedError) {
+    return true
+  }
+
+  return (
+    error instanceof NetworkError &&
+    error.statusCode !== undefined &&
+    error.statusCode >= 400 &&
+    error.statusCode < 500 &&
+    error.statusCode !== 429
+  )
+}
+
+/**
+ * Throw RobotsDisallowedError if robots.txt disallows our crawler
+ * An unavailable robots.txt does not block scraping
+ */
+async function assertCrawlAllowed(
+  url: string,
+  env?: CloudflareEnv
+): Promise<void> {
+  const target = new URL(url)
+
+  if (isRobotsTxtOverridden(target.hostname, env)) {
+    return
+  }
+
+  const robots = await fetchRobotsTxt(target.origin)
+
+  if (
+    robots &&
+    !isPathAllowed(robots, ROBOTS_TXT_AGENT, `${target.pathname}${target.search}`)
+  ) {
+    throw new RobotsDisallowedError(
+      `The site's robots.txt does not allow ${ROBOTS_TXT_AGENT} to fetch ${url}`
+    )
+  }
+}
+
+/**
+ * Check the operator's ROBOTS_TXT_OVERRIDE_HOSTS list (comma-separated,
+ * subdomains included) of sites whose owners asked us to ignore robots.txt
+ */
+function isRobotsTxtOverridden(hostname: string, env?: CloudflareEnv): boolean {
+  const host = hostname.toLowerCase()
+
+  return (env?.ROBOTS_TXT_OVERRIDE_HOSTS || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .some((entry) => host === entry || host.endsWith(`.${entry}`))
+}
+
 /**
  * Create appropriate error based on HTTP status code
  */
@@ -169,6 +614,20 @@ function createHttpError(
   }
 }
 
+/**
+ * Create the error for a response we cannot analyze
+ */
+function createContentTypeError(
+  contentType: string | null
+): UnsupportedContentTypeError {
+  const mimeType = (contentType ?? '').split(';')[0].trim() || 'unknown'
+
+  return new UnsupportedContentTypeError(
+    `Unsupported content type (${mimeType}). Articles must be HTML, PDF, plain text or Markdown.`,
+    contentType ?? undefined
+  )
+}
+
 /**
  * Sleep utility for retry delays
  */
@@ -0,0 +1,113 @@
+/**
+ * Search provider registry: which adapters are built, offered and defaulted
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  createFakeProvider,
+  getAvailableProviderIds,
+  getDefaultProviderIds,
+  getSearchProvider,
+  isSearchProviderId,
+} from '@/services/search-providers'
+import { runSearchTest } from '@/services/search-tester.service'
+import { SEARCH_PROVIDER_IDS } from '@/types/search-testing'
+
+const env = (vars: Partial<CloudflareEnv> = {}) => vars as CloudflareEnv
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('getSearchProvider', () => {
+  it('builds the adapter for every provider ID', () => {
+    for (const id of SEARCH_PROVIDER_IDS) {
+      expect(getSearchProvider(id, env()).id).toBe(id)
+    }
+  })
+
+  it('fails at search time, not construction, when the API key is missing', async () => {
+    const fetchMock = vi.fn()
+    vi.stubGlobal('fetch', fetchMock)
+    const provider = getSearchProvider('perplexity', env())
+
+    await expect(provider.search('What is AEO?')).rejects.toThrow(
+      /PERPLEXITY_API_KEY/
+    )
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
+
+describe('getAvailableProviderIds', () => {
+  it('lists providers with an API key, plus the fake provider outside production', () => {
+    vi.stubEnv('NODE_ENV', 'development')
+
+    expect(
+      getAvailableProviderIds(
+        env({ OPENAI_API_KEY: 'sk-test', GEMINI_API_KEY: 'g-test' })
+      )
+    ).toEqual(['openai', 'gemini', 'fake'])
+  })
+
+  it('never offers the fake provider in production', () => {
+    vi.stubEnv('NODE_ENV', 'production')
+
+    expect(
+      getAvailableProviderIds(
+        env({ PERPLEXITY_API_KEY: 'pplx-test', ANTHROPIC_API_KEY: 'a-test' })
+      )
+    ).toEqual(['perplexity', 'claude'])
+  })
+})
+
+describe('getDefaultProviderIds', () => {
+  it('reads SEARCH_PROVIDERS and drops unknown IDs', () => {
+    expect(
+      getDefaultProviderIds(env({ SEARCH_PROVIDERS: ' claude, bing ,gemini' }))
+    ).toEqual(['claude', 'gemini'])
+  })
+
+  it('falls back to OpenAI when nothing valid is configured', () => {
+    expect(getDefaultProviderIds(env())).toEqual(['openai'])
+    expect(getDefaultProviderIds(env({ SEARCH_PROVIDERS: 'bing' }))).toEqual([
+      'openai',
+    ])
+  })
+})
+
+describe('isSearchProviderId', () => {
+  it('accepts only known provider IDs', () => {
+    expect(isSearchProviderId('gemini')).toBe(true)
+    expect(isSearchProviderId('bing')).toBe(false)
+    expect(isSearchProviderId(undefined)).toBe(false)
+  })
+})
+
+describe('runSearchTest with the fake provider', () => {
+  it('sends the question and reports the provider and model used', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    const provider = createFakeProvider((query) => ({
+      answerText: `Answer to ${query}`,
+      citations: [{ url: 'https://example.com/guide', position: 1 }],
+      sources: [{ url: 'https://example.com/guide' }],
+    }))
+
+    const result = await runSearchTest(
+      { question: 'How do I rank in AI search?', targetUrl: 'https://example.com/guide' },
+      provider
+    )
+
+    expect(provider.queries).toEqual(['How do I rank in AI search?'])
+    expect(result).toMatchObject({
+      provider: 'fake',
+      modelUsed: 'fake-search-model',
+      llmResponse: 'Answer to How do I rank in AI search?',
+      targetUrlFound: true,
+      foundInCitations: true,
+      foundInSources: true,
+      citationPosition: 1,
+    })
+  })
+})
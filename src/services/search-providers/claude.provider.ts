@@ -0,0 +1,131 @@
+/**
+ * Article Analyzer - Claude Search Provider
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1, US-4.2, US-4.3
+ *
+ * Runs questions through the Anthropic Messages API with the server-side
+ * web_search tool. Search results arrive as web_search_tool_result blocks;
+ * citations are attached to the text blocks of the answer.
+ */
+
+import { cleanUrl } from '@/utils/citation-parser'
+import { postJson, requireApiKey } from '@/services/search-providers/http'
+import type {
+  CitationInfo,
+  SearchProvider,
+  SearchProviderResponse,
+  SourceInfo,
+} from '@/types/search-testing'
+
+const API_URL = 'https://api.anthropic.com/v1/messages'
+const API_VERSION = '2023-06-01'
+const MODEL = 'claude-sonnet-4-5'
+const MAX_TOKENS = 2048
+const MAX_SEARCHES = 5
+
+type ClaudeContentBlock =
+  | {
+      type: 'text'
+      text: string
+      citations?: Array<{
+        type: string
+        url?: string
+        title?: string
+        cited_text?: string
+      }>
+    }
+  | {
+      type: 'web_search_tool_result'
+      content:
+        | Array<{ type: 'web_search_result'; url: string; title?: string }>
+        | { type: 'web_search_tool_result_error'; error_code: string }
+    }
+  | { type: 'server_tool_use' | string }
+
+interface ClaudeResponse {
+  model: string
+  content: ClaudeContentBlock[]
+}
+
+/**
+ * Create a Claude web_search provider
+ */
+export function createClaudeProvider(apiKey?: string): SearchProvider {
+  return {
+    id: 'claude',
+    model: MODEL,
+
+    async search(query: string): Promise<SearchProviderResponse> {
+      const key = requireApiKey('Claude', 'ANTHROPIC_API_KEY', apiKey)
+
+      const response = await postJson<ClaudeResponse>(
+        'Claude',
+        API_URL,
+        {
+          model: MODEL,
+          max_tokens: MAX_TOKENS,
+          tools: [
+            {
+              type: 'web_search_20250305',
+              name: 'web_search',
+              max_uses: MAX_SEARCHES,
+            },
+          ],
+          messages: [{ role: 'user', content: query }],
+        },
+        {
+          'x-api-key': key,
+          'anthropic-version': API_VERSION,
+        }
+      )
+
+      console.log(`[ClaudeProvider] Raw response for query: "${query}"`)
+      console.log(JSON.stringify(response, null, 2))
+
+      return parseClaudeResponse(response)
+    },
+  }
+}
+
+/**
+ * Normalize a Messages API response into citations and sources
+ */
+export function parseClaudeResponse(
+  response: ClaudeResponse
+): SearchProviderResponse {
+  const sources: SourceInfo[] = []
+  const citations: CitationInfo[] = []
+  const textParts: string[] = []
+
+  for (const block of response.content || []) {
+    if (block.type === 'web_search_tool_result' && 'content' in block) {
+      // Errors come back as an object instead of a result list
+      if (Array.isArray(block.content)) {
+        for (const result of block.content) {
+          sources.push({ url: cleanUrl(result.url), raw: result })
+        }
+      }
+    }
+
+    if (block.type === 'text' && 'text' in block) {
+      textParts.push(block.text)
+
+      for (const citation of block.citations || []) {
+        if (citation.type === 'web_search_result_location' && citation.url) {
+          citations.push({
+            url: cleanUrl(citation.url),
+            title: citation.title,
+            position: citations.length + 1,
+          })
+        }
+      }
+    }
+  }
+
+  return {
+    answerText: textParts.join('') || undefined,
+    citations,
+    sources,
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Article Analyzer - Fake Search Provider
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1, US-4.2, US-4.3
+ *
+ * Offline stand-in for tests and local runs without API keys. Returns
+ * canned responses (or a function of the query) without any network calls,
+ * and records every query it receives.
+ */
+
+import type {
+  SearchProvider,
+  SearchProviderResponse,
+} from '@/types/search-testing'
+
+export interface FakeSearchProvider extends SearchProvider {
+  queries: string[]
+}
+
+export type FakeResponder =
+  | SearchProviderResponse
+  | ((query: string) => SearchProviderResponse | Promise<SearchProviderResponse>)
+
+const DEFAULT_RESPONSE: SearchProviderResponse = {
+  answerText: 'This is a fake answer with no citations.',
+  citations: [],
+  sources: [],
+}
+
+/**
+ * Create a fake provider that answers every query from `responder`
+ */
+export function createFakeProvider(
+  responder: FakeResponder = DEFAULT_RESPONSE
+): FakeSearchProvider {
+  const queries: string[] = []
+
+  return {
+    id: 'fake',
+    model: 'fake-search-model',
+    queries,
+
+    async search(query: string): Promise<SearchProviderResponse> {
+      queries.push(query)
+      return typeof responder === 'function' ? responder(query) : responder
+    },
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Article Analyzer - Gemini Search Provider
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1, US-4.2, US-4.3
+ *
+ * Runs questions through the Gemini API with Grounding with Google Search.
+ * Grounding chunks point at vertexaisearch redirect URLs, so each one is
+ * resolved to its destination before comparing against the target URL.
+ */
+
+import { cleanUrl } from '@/utils/citation-parser'
+import { postJson, requireApiKey } from '@/services/search-providers/http'
+import type {
+  CitationInfo,
+  SearchProvider,
+  SearchProviderResponse,
+  SourceInfo,
+} from '@/types/search-testing'
+
+const MODEL = 'gemini-2.5-flash'
+const API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${MODEL}:generateContent`
+const REDIRECT_TIMEOUT_MS = 5000
+
+interface GroundingChunk {
+  web?: { uri: string; title?: string }
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> }
+    groundingMetadata?: {
+      groundingChunks?: GroundingChunk[]
+      groundingSupports?: Array<{ groundingChunkIndices?: number[] }>
+    }
+  }>
+}
+
+/**
+ * Create a Gemini (Google Search grounding) provider
+ */
+export function createGeminiProvider(apiKey?: string): SearchProvider {
+  return {
+    id: 'gemini',
+    model: MODEL,
+
+    async search(query: string): Promise<SearchProviderResponse> {
+      const key = requireApiKey('Gemini', 'GEMINI_API_KEY', apiKey)
+
+      const response = await postJson<GeminiResponse>(
+        'Gemini',
+        API_URL,
+        {
+          contents: [{ parts: [{ text: query }] }],
+          tools: [{ google_search: {} }],
+        },
+        { 'x-goog-api-key': key }
+      )
+
+      console.log(`[GeminiProvider] Raw response for query: "${query}"`)
+      console.log(JSON.stringify(response, null, 2))
+
+      const chunks =
+        response.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+      const resolvedUrls = await Promise.all(
+        chunks.map((chunk) =>
+          chunk.web?.uri ? resolveRedirect(chunk.web.uri) : undefined
+        )
+      )
+
+      return parseGeminiResponse(response, resolvedUrls)
+    },
+  }
+}
+
+/**
+ * Normalize a Gemini response into citations and sources
+ *
+ * Chunks referenced by grounding supports are citations (ordered by first
+ * reference); every chunk is a source.
+ */
+export function parseGeminiResponse(
+  response: GeminiResponse,
+  resolvedUrls: Array<string | undefined> = []
+): SearchProviderResponse {
+  const candidate = response.candidates?.[0]
+  const chunks = candidate?.groundingMetadata?.groundingChunks || []
+  const supports = candidate?.groundingMetadata?.groundingSupports || []
+
+  const chunkUrl = (index: number) =>
+    cleanUrl(resolvedUrls[index] || chunks[index]?.web?.uri || '')
+
+  const sources: SourceInfo[] = chunks
+    .map((chunk, index) => ({ url: chunkUrl(index), raw: chunk }))
+    .filter((source) => source.url)
+
+  const citations: CitationInfo[] = []
+  const citedChunks = new Set<number>()
+  for (const support of supports) {
+    for (const index of support.groundingChunkIndices || []) {
+      const url = chunkUrl(index)
+      if (!citedChunks.has(index) && url) {
+        citedChunks.add(index)
+        citations.push({
+          url,
+          title: chunks[index]?.web?.title,
+          position: citations.length + 1,
+        })
+      }
+    }
+  }
+
+  const answerText = (candidate?.content?.parts || [])
+    .map((part) => part.text || '')
+    .join('')
+
+  return {
+    answerText: answerText || undefined,
+    citations,
+    sources,
+  }
+}
+
+/**
+ * Resolve a grounding redirect URL to its destination (best effort)
+ */
+async function resolveRedirect(url: string): Promise<string> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REDIRECT_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: controller.signal,
+    })
+    return response.headers.get('location') || url
+  } catch {
+    return url
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Article Analyzer - Search Provider HTTP Helper
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1
+ *
+ * Shared JSON request helper and error type for provider adapters that
+ * call their APIs over plain fetch (Workers-compatible, no SDKs).
+ */
+
+const REQUEST_TIMEOUT_MS = 120000 // Web-grounded answers can be slow
+
+/**
+ * Error raised when a provider API call fails
+ */
+export class SearchProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly statusCode?: number
+  ) {
+    super(message)
+    this.name = 'SearchProviderError'
+  }
+}
+
+/**
+ * POST a JSON body and parse the JSON response
+ */
+export async function postJson<T>(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>
+): Promise<T> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '')
+      throw new SearchProviderError(
+        `${provider} API error (${response.status}): ${errorText.slice(0, 500)}`,
+        provider,
+        response.status
+      )
+    }
+
+    return (await response.json()) as T
+  } catch (error) {
+    if (error instanceof SearchProviderError) {
+      throw error
+    }
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new SearchProviderError(
+        `${provider} API request timed out after ${REQUEST_TIMEOUT_MS}ms`,
+        provider
+      )
+    }
+
+    throw new SearchProviderError(
+      `${provider} API request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      provider
+    )
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Require an API key for a provider
+ */
+export function requireApiKey(
+  provider: string,
+  envVar: string,
+  apiKey?: string
+): string {
+  if (!apiKey) {
+    throw new SearchProviderError(
+      `${provider} API key not found. Set ${envVar} environment variable.`,
+      provider
+    )
+  }
+  return apiKey
+}
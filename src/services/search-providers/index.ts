@@ -0,0 +1,91 @@
+/**
+ * Article Analyzer - Search Providers
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1
+ *
+ * Registry of web-grounded LLM adapters used by the search tester.
+ * Each adapter normalizes its API response into CitationInfo/SourceInfo.
+ */
+
+import { createOpenAIProvider } from '@/services/search-providers/openai.provider'
+import { createPerplexityProvider } from '@/services/search-providers/perplexity.provider'
+import { createGeminiProvider } from '@/services/search-providers/gemini.provider'
+import { createClaudeProvider } from '@/services/search-providers/claude.provider'
+import { createFakeProvider } from '@/services/search-providers/fake.provider'
+import {
+  SEARCH_PROVIDER_IDS,
+  type SearchProvider,
+  type SearchProviderId,
+} from '@/types/search-testing'
+
+export { createOpenAIProvider } from '@/services/search-providers/openai.provider'
+export { createPerplexityProvider } from '@/services/search-providers/perplexity.provider'
+export { createGeminiProvider } from '@/services/search-providers/gemini.provider'
+export { createClaudeProvider } from '@/services/search-providers/claude.provider'
+export { createFakeProvider } from '@/services/search-providers/fake.provider'
+export { SearchProviderError } from '@/services/search-providers/http'
+
+const DEFAULT_PROVIDERS: SearchProviderId[] = ['openai']
+
+/**
+ * Check if a value is a known provider ID
+ */
+export function isSearchProviderId(value: unknown): value is SearchProviderId {
+  return (
+    typeof value === 'string' &&
+    (SEARCH_PROVIDER_IDS as readonly string[]).includes(value)
+  )
+}
+
+/**
+ * Create the adapter for a provider using API keys from env
+ */
+export function getSearchProvider(
+  id: SearchProviderId,
+  env: CloudflareEnv
+): SearchProvider {
+  switch (id) {
+    case 'openai':
+      return createOpenAIProvider(env.OPENAI_API_KEY)
+    case 'perplexity':
+      return createPerplexityProvider(env.PERPLEXITY_API_KEY)
+    case 'gemini':
+      return createGeminiProvider(env.GEMINI_API_KEY)
+    case 'claude':
+      return createClaudeProvider(env.ANTHROPIC_API_KEY)
+    case 'fake':
+      return createFakeProvider()
+  }
+}
+
+/**
+ * List providers that have an API key configured
+ *
+ * The fake provider is only available outside production.
+ */
+export function getAvailableProviderIds(env: CloudflareEnv): SearchProviderId[] {
+  const available: SearchProviderId[] = []
+
+  if (env.OPENAI_API_KEY) available.push('openai')
+  if (env.PERPLEXITY_API_KEY) available.push('perplexity')
+  if (env.GEMINI_API_KEY) available.push('gemini')
+  if (env.ANTHROPIC_API_KEY) available.push('claude')
+  if (process.env.NODE_ENV !== 'production') available.push('fake')
+
+  return available
+}
+
+/**
+ * Default providers for new submissions
+ *
+ * Reads a comma-separated SEARCH_PROVIDERS env var, falling back to OpenAI.
+ */
+export function getDefaultProviderIds(env: CloudflareEnv): SearchProviderId[] {
+  const configured = (env.SEARCH_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(isSearchProviderId)
+
+  return configured.length > 0 ? configured : DEFAULT_PROVIDERS
+}
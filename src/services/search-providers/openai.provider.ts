@@ -0,0 +1,65 @@
+/**
+ * Article Analyzer - OpenAI Search Provider
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1, US-4.2, US-4.3
+ *
+ * Runs questions through the OpenAI Responses API with the web_search tool.
+ */
+
+import { getOpenAIClient } from '@/lib/openai-client'
+import { extractCitations, extractSources } from '@/utils/citation-parser'
+import type {
+  SearchProvider,
+  SearchProviderResponse,
+  ResponsesAPIOutput,
+} from '@/types/search-testing'
+
+const MODEL = 'gpt-5' // As specified in domain model
+const REASONING_EFFORT = 'low' // Faster responses
+
+/**
+ * Create an OpenAI web_search provider
+ */
+export function createOpenAIProvider(apiKey?: string): SearchProvider {
+  return {
+    id: 'openai',
+    model: MODEL,
+
+    async search(query: string): Promise<SearchProviderResponse> {
+      const openai = getOpenAIClient(apiKey)
+
+      // Generate AI search response using REAL web search
+      const response = (await openai.responses.create({
+        model: MODEL,
+        reasoning: { effort: REASONING_EFFORT },
+        tools: [
+          {
+            type: 'web_search',
+            // Optional: Can filter to specific domains if needed
+            // filters: {
+            //   allowed_domains: ["example.com"]
+            // }
+          },
+        ],
+        tool_choice: 'required', // Force web search for all tests
+        include: ['web_search_call.action.sources'], // Include source URLs
+        input: query,
+      })) as unknown as ResponsesAPIOutput
+
+      // Log raw response for debugging
+      console.log(`[OpenAIProvider] Raw response for query: "${query}"`)
+      console.log(JSON.stringify(response, null, 2))
+
+      if (!response.output) {
+        throw new Error('Empty response from OpenAI Responses API')
+      }
+
+      return {
+        answerText: response.output_text || undefined,
+        citations: extractCitations(response),
+        sources: extractSources(response),
+      }
+    },
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Article Analyzer - Perplexity Search Provider
+ *
+ * Epic: Epic 4 - AI Search Visibility Testing
+ * Stories: US-4.1, US-4.2, US-4.3
+ *
+ * Runs questions through the Perplexity Sonar chat completions API.
+ * Sonar answers are always web-grounded: `citations` lists the URLs the
+ * answer's [n] markers refer to, `search_results` lists everything retrieved.
+ */
+
+import { cleanUrl } from '@/utils/citation-parser'
+import { postJson, requireApiKey } from '@/services/search-providers/http'
+import type {
+  CitationInfo,
+  SearchProvider,
+  SearchProviderResponse,
+  SourceInfo,
+} from '@/types/search-testing'
+
+const API_URL = 'https://api.perplexity.ai/chat/completions'
+const MODEL = 'sonar'
+
+interface PerplexityResponse {
+  model: string
+  choices: Array<{
+    message: { role: string; content: string }
+  }>
+  citations?: string[]
+  search_results?: Array<{ title?: string; url: string; date?: string }>
+}
+
+/**
+ * Create a Perplexity Sonar provider
+ */
+export function createPerplexityProvider(apiKey?: string): SearchProvider {
+  return {
+    id: 'perplexity',
+    model: MODEL,
+
+    async search(query: string): Promise<SearchProviderResponse> {
+      const key = requireApiKey('Perplexity', 'PERPLEXITY_API_KEY', apiKey)
+
+      const response = await postJson<PerplexityResponse>(
+        'Perplexity',
+        API_URL,
+        {
+          model: MODEL,
+          messages: [{ role: 'user', content: query }],
+        },
+        { Authorization: `Bearer ${key}` }
+      )
+
+      console.log(`[PerplexityProvider] Raw response for query: "${query}"`)
+      console.log(JSON.stringify(response, null, 2))
+
+      return parsePerplexityResponse(response)
+    },
+  }
+}
+
+/**
+ * Normalize a Sonar response into citations and sources
+ */
+export function parsePerplexityResponse(
+  response: PerplexityResponse
+): SearchProviderResponse {
+  const searchResults = response.search_results || []
+  const titles = new Map(searchResults.map((r) => [cleanUrl(r.url), r.title]))
+
+  const citations: CitationInfo[] = (response.citations || []).map(
+    (url, index) => ({
+      url: cleanUrl(url),
+      title: titles.get(cleanUrl(url)),
+      position: index + 1,
+    })
+  )
+
+  // Sources: everything retrieved, plus any cited URL missing from results
+  const sources: SourceInfo[] = []
+  const seen = new Set<string>()
+  for (const item of [...searchResults, ...citations]) {
+    const url = cleanUrl(item.url)
+    if (!seen.has(url)) {
+      seen.add(url)
+      sources.push({ url, raw: item })
+    }
+  }
+
+  return {
+    answerText: response.choices[0]?.message?.content || undefined,
+    citations,
+    sources,
+  }
+}
@@ -4,14 +4,12 @@
  * Epic: Epic 4 - AI Search Visibility Testing
  * Stories: US-4.1, US-4.2, US-4.3, US-4.4
  *
- * Performs REAL web searches using OpenAI Responses API with web_search tool.
+ * Performs REAL web searches through pluggable answer-engine providers
+ * (OpenAI web_search, Perplexity, Gemini, Claude - see search-providers/).
  * Tests if target article appears in AI-generated search results.
  */
 
-import { getOpenAIClient } from '@/lib/openai-client'
 import {
-  extractCitations,
-  extractAllSources,
   isTargetInCitations,
   isTargetInSources,
 } from '@/utils/citation-parser'
@@ -19,19 +17,17 @@ import type {
   SearchTestResult,
   SearchTestInput,
   BatchSearchTestResult,
-  ResponsesAPIOutput,
+  SearchProvider,
 } from '@/types/search-testing'
 
-const MODEL = 'gpt-5' // As specified in domain model
-const REASONING_EFFORT = 'low' // Faster responses
 const MAX_RETRIES = 2
 
 /**
- * Run a single search test using OpenAI Responses API with web_search
+ * Run a single search test through a web-grounded LLM provider
  */
 export async function runSearchTest(
   input: SearchTestInput,
-  apiKey?: string
+  provider: SearchProvider
 ): Promise<SearchTestResult> {
   const startTime = Date.now()
   let lastError: Error | null = null
@@ -39,61 +35,43 @@ export async function runSearchTest(
   // Retry logic for API failures
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
-      const openai = getOpenAIClient(apiKey)
-
       // Generate AI search response using REAL web search
-      const response = (await openai.responses.create({
-        model: MODEL,
-        reasoning: { effort: REASONING_EFFORT },
-        tools: [
-          {
-            type: 'web_search',
-            // Optional: Can filter to specific domains if needed
-            // filters: {
-            //   allowed_domains: ["example.com"]
-            // }
-          },
-        ],
-        tool_choice: 'required', // Force web search for all tests
-        include: ['web_search_call.action.sources'], // Include source URLs
-        input: input.question,
-      })) as unknown as ResponsesAPIOutput
-
-      // Log raw response for debugging
-      console.log(`[SearchTester] FAQ Test - Raw response for question: "${input.question}"`)
-      console.log(JSON.stringify(response, null, 2))
-
-      if (!response.output) {
-        throw new Error('Empty response from OpenAI Responses API')
-      }
-
-      // Parse citations and sources from structured response
-      const citations = extractCitations(response)
-      const sources = extractAllSources(response)
-
-      // Check if target URL is found
-      const { found: foundInCitations, position: citationPosition } =
-        isTargetInCitations(input.targetUrl, citations)
-      const foundInSources = isTargetInSources(input.targetUrl, sources)
+      const response = await provider.search(input.question)
+
+      const citations = response.citations
+      const sources = response.sources.map((s) => s.url)
+
+      // Check if target URL is found (page, section or site per matchMode)
+      const matchMode = input.matchMode ?? 'exact'
+      const targetUrls = [input.targetUrl, ...(input.targetAliases ?? [])]
+      const citationMatch = isTargetInCitations(targetUrls, citations, matchMode)
+      const sourceMatch = isTargetInSources(targetUrls, sources, matchMode)
+      const foundInCitations = citationMatch.found
+      const foundInSources = sourceMatch.found
       const targetUrlFound = foundInCitations || foundInSources
 
       const responseTimeMs = Date.now() - startTime
 
       return {
         question: input.question,
-        llmResponse: response.output_text || undefined,
+        llmResponse: response.answerText,
         targetUrlFound,
         foundInSources,
         foundInCitations,
         citations,
         sources,
-        citationPosition,
+        citationPosition: citationMatch.position,
+        matchType: citationMatch.matchType ?? sourceMatch.matchType,
         responseTimeMs,
-        modelUsed: MODEL,
+        modelUsed: provider.model,
+        provider: provider.id,
       }
     } catch (error) {
       lastError = error as Error
-      console.error(`Search test attempt ${attempt + 1} failed:`, error)
+      console.error(
+        `[SearchTester] ${provider.id} search test attempt ${attempt + 1} failed:`,
+        error
+      )
 
       // Retry on API errors
       if (attempt < MAX_RETRIES) {
@@ -113,7 +91,7 @@ export async function runSearchTest(
  */
 export async function runBatchSearchTests(
   inputs: SearchTestInput[],
-  apiKey?: string
+  provider: SearchProvider
 ): Promise<BatchSearchTestResult> {
   const results: SearchTestResult[] = []
 
@@ -128,7 +106,7 @@ export async function runBatchSearchTests(
         `[SearchTester] Testing question ${questionNumber}/${inputs.length}: "${input.question}"`
       )
 
-      const result = await runSearchTest(input, apiKey)
+      const result = await runSearchTest(input, provider)
       results.push(result)
 
       // Log detailed result for this question
@@ -139,6 +117,7 @@ export async function runBatchSearchTests(
           foundInCitations: result.foundInCitations,
           foundInSources: result.foundInSources,
           citationPosition: result.citationPosition,
+          matchType: result.matchType,
           responseTimeMs: result.responseTimeMs,
           totalCitations: result.citations.length,
           totalSources: result.sources.length,
@@ -210,7 +189,7 @@ export async function runBatchSearchTests(
 /**
  * Run control test to verify article accessibility (token-efficient)
  *
- * Tests if OpenAI can directly access the target URL using web_search tool.
+ * Tests if the provider can directly access the target URL through its web search.
  * This is Tier 1 testing per CreativeAdsDirectory methodology.
  *
  * Uses a minimal query to just check URL accessibility without generating
@@ -220,40 +199,24 @@ export async function runBatchSearchTests(
  */
 export async function runControlTest(
   targetUrl: string,
-  apiKey?: string
+  provider: SearchProvider,
+  targetAliases: string[] = []
 ): Promise<boolean> {
-  console.log(`[SearchTester] Running control test for ${targetUrl}`)
+  console.log(
+    `[SearchTester] Running ${provider.id} control test for ${targetUrl}`
+  )
 
   try {
-    const openai = getOpenAIClient(apiKey)
-
     // Minimal query to check accessibility - just asks to visit URL
     const controlTestQuestion = `What's in this article: ${targetUrl}`
 
     console.log(`[SearchTester] Control test query: ${controlTestQuestion}`)
 
-    // Use minimal reasoning effort and require web_search tool
-    const response = (await openai.responses.create({
-      model: MODEL,
-      reasoning: { effort: 'low' }, // Minimal reasoning for speed
-      tools: [{ type: 'web_search' }],
-      tool_choice: 'required', // Force web search (don't let model skip it)
-      include: ['web_search_call.action.sources'], // Only need sources
-      input: controlTestQuestion,
-    })) as unknown as ResponsesAPIOutput
-
-    // Log raw response for debugging
-    console.log('[SearchTester] Control test - Raw response:')
-    console.log(JSON.stringify(response, null, 2))
-
-    if (!response.output) {
-      console.log('[SearchTester] Control test: No response output')
-      return false
-    }
+    const response = await provider.search(controlTestQuestion)
 
     // Extract sources and citations for debugging
-    const sources = extractAllSources(response)
-    const citations = extractCitations(response)
+    const sources = response.sources.map((s) => s.url)
+    const citations = response.citations
 
     // Debug logging
     console.log(`[SearchTester] Control test - Sources found:`, sources.length)
@@ -266,18 +229,22 @@ export async function runControlTest(
       console.log(`  Citation ${i + 1}:`, citation)
     })
 
-    // Check accessibility in both sources and citations
-    const foundInSources = isTargetInSources(targetUrl, sources)
-    const { found: foundInCitations } = isTargetInCitations(targetUrl, citations)
+    // Check accessibility in both sources and citations (exact page only)
+    const targetUrls = [targetUrl, ...targetAliases]
+    const { found: foundInSources } = isTargetInSources(targetUrls, sources)
+    const { found: foundInCitations } = isTargetInCitations(
+      targetUrls,
+      citations
+    )
     const isAccessible = foundInSources || foundInCitations
 
     console.log(
-      `[SearchTester] Control test result: ${isAccessible ? '✅ PASS' : '❌ FAIL'} (foundInSources: ${foundInSources}, foundInCitations: ${foundInCitations})`
+      `[SearchTester] ${provider.id} control test result: ${isAccessible ? '✅ PASS' : '❌ FAIL'} (foundInSources: ${foundInSources}, foundInCitations: ${foundInCitations})`
     )
 
     return isAccessible
   } catch (error) {
-    console.error(`[SearchTester] Control test failed:`, error)
+    console.error(`[SearchTester] ${provider.id} control test failed:`, error)
     return false
   }
 }
@@ -0,0 +1,83 @@
+/**
+ * Article Analyzer - Submission Access Service
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Accounts and submission ownership, Workspaces and team roles
+ *
+ * Decides who may see a submission and its results:
+ * - Workspace submissions: members of the workspace, or anyone with the share link
+ * - Anonymous submissions: anyone with the share link
+ * - Legacy submissions without a share token: anyone with the ID
+ *
+ * Visibility is enforced by the repository scope; changing settings
+ * (e.g. the re-test schedule) needs a signed-in editor of the owning
+ * workspace, so anonymous and legacy submissions cannot be changed.
+ */
+
+import type { NextRequest } from 'next/server'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { getMembership } from '@/repositories/workspace.repository'
+import type { WorkspaceScope } from '@/repositories/scope'
+import { getCurrentUser } from '@/services/auth.service'
+import {
+  getCallerScope,
+  hasRole,
+  isWorkspaceRole,
+} from '@/services/workspace.service'
+import { withShareToken } from '@/lib/share-link'
+import type { Submission, User } from '@/db/schema'
+
+export interface SubmissionAccess {
+  submission: Submission
+  user: User | null
+  scope: WorkspaceScope // Caller scope for follow-up repository reads
+  canEdit: boolean
+}
+
+/**
+ * Check if a user may change a submission's settings
+ * Share links only grant viewing: only workspace editors can make changes
+ */
+export async function canEditSubmission(
+  submission: Submission,
+  user: User | null
+): Promise<boolean> {
+  if (!submission.workspaceId || !user) {
+    return false
+  }
+
+  const member = await getMembership(submission.workspaceId, user.id)
+  return !!member && isWorkspaceRole(member.role) && hasRole(member.role, 'editor')
+}
+
+/**
+ * Load a submission for an API request, enforcing view access
+ * Returns null when it does not exist or the caller may not see it,
+ * so routes respond 404 without revealing which
+ */
+export async function getViewableSubmission(
+  request: NextRequest,
+  id: string
+): Promise<SubmissionAccess | null> {
+  const user = await getCurrentUser(request)
+  const scope = await getCallerScope(request, user)
+  const submission = await getSubmissionById(id, scope)
+
+  if (!submission) {
+    return null
+  }
+
+  return {
+    submission,
+    user,
+    scope,
+    canEdit: await canEditSubmission(submission, user),
+  }
+}
+
+/**
+ * Build the shareable results path for a submission
+ */
+export function getShareResultsPath(submission: Submission): string {
+  return withShareToken(`/results/${submission.id}`, submission.shareToken)
+}
@@ -0,0 +1,204 @@
+/**
+ * Article Analyzer - Submission Service
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: US-1.1, US-1.3, Public REST API
+ *
+ * Starts an analysis: validates the requested providers, match mode and
+ * project, creates the submission and enqueues it for the queue consumer.
+ * Shared by the UI submit route and the public /api/v1 API.
+ */
+
+import {
+  createSubmission,
+  updateSubmissionStatus,
+} from '@/repositories/submission.repository'
+import { callerScope } from '@/repositories/scope'
+import { enqueueSubmissionJob } from '@/queue/producer'
+import { requireProject } from '@/services/workspace.service'
+import {
+  resolveScrapeCredentials,
+  sealScrapeCredentials,
+} from '@/services/scrape-credentials.service'
+import {
+  getAvailableProviderIds,
+  getDefaultProviderIds,
+  isSearchProviderId,
+} from '@/services/search-providers'
+import { isMatchMode } from '@/utils/citation-parser'
+import { MATCH_MODES, type SearchProviderId } from '@/types/search-testing'
+import type { Submission } from '@/db/schema'
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * Input for starting an analysis
+ * The URL must already be sanitized and validated
+ */
+export interface StartAnalysisInput {
+  url: string
+  providers?: unknown // Requested provider IDs (defaults when undefined)
+  matchMode?: unknown
+  userIp?: string
+  ownerId?: string
+  workspaceId?: string // Omit for anonymous submissions
+  projectId?: string
+  apiKeyId?: string
+  notifyEmail?: unknown // Opt-in completion email address
+  verifiedEmail?: string // Signed-in user's verified email, the only address notified
+  credentials?: unknown // Optional headers/cookies/basic auth for gated articles
+}
+
+/**
+ * Create a submission and enqueue its analysis
+ * Throws Error for invalid input and AnalysisQueueError if enqueueing fails
+ */
+export async function startAnalysis(
+  input: StartAnalysisInput,
+  env: CloudflareEnv
+): Promise<Submission> {
+  // Resolve AI search providers to test against
+  const providers = resolveProviders(input.providers, env)
+
+  // Validate citation match mode (page, section or whole site)
+  if (input.matchMode !== undefined && !isMatchMode(input.matchMode)) {
+    throw new Error(`matchMode must be one of: ${MATCH_MODES.join(', ')}`)
+  }
+
+  const notifyEmail = resolveNotifyEmail(
+    input.notifyEmail,
+    input.verifiedEmail
+  )
+
+  if (input.projectId) {
+    if (!input.workspaceId) {
+      throw new Error('Sign in to file analyses under a project')
+    }
+    await requireProject(input.projectId, input.workspaceId)
+  }
+
+  // Credentials for gated articles are stored encrypted until the scrape
+  const credentials = resolveScrapeCredentials(input.credentials)
+  if (credentials && !input.workspaceId) {
+    throw new Error('Sign in to provide credentials for gated articles')
+  }
+  const scrapeCredentials = credentials
+    ? await sealScrapeCredentials(credentials, env)
+    : undefined
+
+  const workspaceIds = input.workspaceId ? [input.workspaceId] : []
+
+  // Create submission record
+  const submission = await createSubmission(
+    input.url,
+    {
+      userIp: input.userIp,
+      searchProviders: providers,
+      matchMode: input.matchMode,
+      ownerId: input.ownerId,
+      workspaceId: input.workspaceId,
+      projectId: input.projectId,
+      apiKeyId: input.apiKeyId,
+      notifyEmail,
+      scrapeCredentials,
+    },
+    callerScope(workspaceIds)
+  )
+
+  // Hand the analysis off to the queue consumer (survives Worker timeouts)
+  try {
+    await enqueueSubmissionJob(env.ARTICLE_ANALYSIS_QUEUE, {
+      submissionId: submission.id,
+      url: submission.url,
+    })
+  } catch (error) {
+    console.error(
+      `[Submission] Failed to enqueue submission ${submission.id}:`,
+      error
+    )
+    await updateSubmissionStatus(
+      submission.id,
+      'failed',
+      callerScope(workspaceIds, submission.shareToken),
+      'Failed to queue analysis. Please try again.'
+    )
+    throw new AnalysisQueueError('Failed to queue analysis. Please try again.')
+  }
+
+  return submission
+}
+
+/**
+ * Validate requested search providers against those configured
+ * Falls back to the default providers when none are requested
+ */
+export function resolveProviders(
+  requested: unknown,
+  env: CloudflareEnv
+): SearchProviderId[] {
+  if (requested === undefined) {
+    return getDefaultProviderIds(env)
+  }
+
+  if (!Array.isArray(requested) || requested.length === 0) {
+    throw new Error('providers must be a non-empty array of provider IDs')
+  }
+
+  const available = getAvailableProviderIds(env)
+  const unique = Array.from(new Set(requested))
+
+  for (const provider of unique) {
+    if (!isSearchProviderId(provider) || !available.includes(provider)) {
+      throw new Error(
+        `Unsupported search provider: ${String(provider)}. Available: ${available.join(', ')}`
+      )
+    }
+  }
+
+  return unique as SearchProviderId[]
+}
+
+/**
+ * Validate the optional notification email address
+ * Only the submitter's own verified address is accepted, so the service
+ * cannot be used to send mail to arbitrary addresses
+ */
+function resolveNotifyEmail(
+  requested: unknown,
+  verifiedEmail: string | undefined
+): string | undefined {
+  if (requested === undefined || requested === null || requested === '') {
+    return undefined
+  }
+
+  if (
+    typeof requested !== 'string' ||
+    requested.length > 255 ||
+    !EMAIL_PATTERN.test(requested.trim())
+  ) {
+    throw new Error('Please enter a valid email address for notifications')
+  }
+
+  if (!verifiedEmail) {
+    throw new Error('Sign in with a verified email address to get notified')
+  }
+
+  const email = requested.trim().toLowerCase()
+  if (email !== verifiedEmail.toLowerCase()) {
+    throw new Error(
+      'Notifications can only be sent to your own verified email address'
+    )
+  }
+
+  return email
+}
+
+/**
+ * Custom error class for analyses that could not be queued
+ */
+export class AnalysisQueueError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnalysisQueueError'
+  }
+}
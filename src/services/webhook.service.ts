@@ -0,0 +1,406 @@
+/**
+ * Article Analyzer - Webhook Service
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Manages workspace webhook endpoints (owners only), dispatches submission
+ * status events to them through the queue, and delivers them with
+ * retries and exponential backoff. Each delivery is logged and can be
+ * redelivered.
+ *
+ * Requests are signed like:
+ *   X-Datagum-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256>
+ * where the HMAC covers `${t}.${rawBody}` with the endpoint secret.
+ */
+
+import {
+  createWebhookEndpoint,
+  createWebhookDelivery,
+  deleteWebhookEndpoint,
+  getDeliveryWithEndpoint,
+  getRecentWebhookDeliveries,
+  getSubscribedEndpoints,
+  getWebhookEndpoints,
+  updateWebhookDelivery,
+} from '@/repositories/webhook.repository'
+import { getSubmissionById } from '@/repositories/submission.repository'
+import { SYSTEM_SCOPE } from '@/repositories/scope'
+import { enqueueWebhook } from '@/queue/producer'
+import {
+  requireWorkspaceRole,
+  WorkspaceAccessError,
+} from '@/services/workspace.service'
+import { getShareResultsPath } from '@/services/submission-access.service'
+import { validateURL } from '@/services/url-validator.service'
+import { generateToken, hmacSha256Hex } from '@/lib/auth/crypto'
+import { retryWithBackoff } from '@/lib/shared/utils'
+import type { WebhookMessage } from '@/lib/shared/queue-messages'
+import {
+  WEBHOOK_EVENTS,
+  type WebhookEvent,
+  type WebhookPayload,
+} from '@/types/webhook'
+import type {
+  SubmissionStatus,
+  TestMetricsData,
+  User,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@/db/schema'
+
+const SECRET_PREFIX = 'whsec_'
+const REQUEST_TIMEOUT_MS = 10000
+const MAX_RETRIES = 3 // Retries after the first attempt (4 attempts total)
+const MAX_ENDPOINTS_PER_WORKSPACE = 10
+
+/**
+ * Check whether a value is a webhook event
+ */
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return (
+    typeof value === 'string' &&
+    (WEBHOOK_EVENTS as readonly string[]).includes(value)
+  )
+}
+
+/**
+ * Register a webhook endpoint for a workspace (owners only)
+ * Returns the endpoint and its signing secret (shown once)
+ */
+export async function registerWebhookEndpoint(
+  workspaceId: string,
+  user: User | null,
+  url: string,
+  events: WebhookEvent[] = [...WEBHOOK_EVENTS]
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+
+  try {
+    validateURL(url)
+  } catch (error) {
+    throw new WorkspaceAccessError(
+      error instanceof Error ? error.message : 'Invalid webhook URL',
+      400
+    )
+  }
+
+  if (events.length === 0) {
+    throw new WorkspaceAccessError('Subscribe to at least one event', 400)
+  }
+
+  const existing = await getWebhookEndpoints(workspaceId)
+  if (existing.length >= MAX_ENDPOINTS_PER_WORKSPACE) {
+    throw new WorkspaceAccessError(
+      `A workspace can have at most ${MAX_ENDPOINTS_PER_WORKSPACE} webhook endpoints`,
+      400
+    )
+  }
+
+  const secret = `${SECRET_PREFIX}${generateToken()}`
+  const endpoint = await createWebhookEndpoint({
+    workspaceId,
+    url,
+    secret,
+    events: Array.from(new Set(events)),
+  })
+
+  return { endpoint, secret }
+}
+
+/**
+ * List a workspace's webhook endpoints (owners only)
+ */
+export async function listWebhookEndpoints(
+  workspaceId: string,
+  user: User | null
+): Promise<WebhookEndpoint[]> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+  return getWebhookEndpoints(workspaceId)
+}
+
+/**
+ * Delete a webhook endpoint (owners only)
+ */
+export async function removeWebhookEndpoint(
+  workspaceId: string,
+  user: User | null,
+  endpointId: string
+): Promise<void> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+
+  if (!(await deleteWebhookEndpoint(endpointId, workspaceId))) {
+    throw new WorkspaceAccessError('Webhook endpoint not found', 404)
+  }
+}
+
+/**
+ * List a workspace's recent deliveries (owners only)
+ */
+export async function listWebhookDeliveries(
+  workspaceId: string,
+  user: User | null,
+  endpointId?: string
+): Promise<WebhookDelivery[]> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+  return getRecentWebhookDeliveries(workspaceId, 50, endpointId)
+}
+
+/**
+ * Send a logged delivery again (owners only)
+ * The redelivery is logged as a new delivery with the same payload
+ */
+export async function redeliverWebhook(
+  workspaceId: string,
+  user: User | null,
+  deliveryId: string,
+  env: CloudflareEnv
+): Promise<WebhookDelivery> {
+  await requireWorkspaceRole(workspaceId, user, 'owner')
+
+  const found = await getDeliveryWithEndpoint(deliveryId, env)
+  if (!found || found.delivery.workspaceId !== workspaceId) {
+    throw new WorkspaceAccessError('Delivery not found', 404)
+  }
+
+  const { delivery: original, endpoint } = found
+  const id = crypto.randomUUID()
+
+  return queueDelivery(
+    endpoint,
+    {
+      id,
+      submissionId: original.submissionId,
+      event: original.event as WebhookEvent,
+      payload: { ...(original.payload as WebhookPayload), id },
+    },
+    env
+  )
+}
+
+/**
+ * Notify subscribed endpoints that a submission changed status
+ * Never throws: webhook problems must not fail the analysis
+ */
+export async function dispatchSubmissionEvent(
+  submissionId: string,
+  status: SubmissionStatus,
+  env: CloudflareEnv
+): Promise<void> {
+  try {
+    const submission = await getSubmissionById(submissionId, SYSTEM_SCOPE, env)
+
+    // Only workspace submissions have endpoints to notify
+    if (!submission?.workspaceId) {
+      return
+    }
+
+    const event = getEventForStatus(status)
+    const endpoints = await getSubscribedEndpoints(
+      submission.workspaceId,
+      event,
+      env
+    )
+
+    for (const endpoint of endpoints) {
+      const id = crypto.randomUUID()
+      const metrics = submission.testMetrics as TestMetricsData | null
+      const payload: WebhookPayload = {
+        id,
+        event,
+        createdAt: new Date().toISOString(),
+        data: {
+          submissionId: submission.id,
+          url: submission.url,
+          status,
+          error: submission.scrapingError,
+          workspaceId: submission.workspaceId,
+          projectId: submission.projectId,
+          resultsPath: getShareResultsPath(submission),
+          metrics: metrics
+            ? {
+                isAccessible: metrics.isAccessible,
+                totalFaqs: metrics.totalFaqs,
+                inSourcesCount: metrics.inSourcesCount,
+                inCitationsCount: metrics.inCitationsCount,
+              }
+            : null,
+        },
+      }
+
+      await queueDelivery(
+        endpoint,
+        { id, submissionId: submission.id, event, payload },
+        env
+      )
+    }
+  } catch (error) {
+    console.error(
+      `[Webhook] Failed to dispatch ${status} for submission ${submissionId}:`,
+      error
+    )
+  }
+}
+
+/**
+ * Deliver a queued webhook, retrying with exponential backoff
+ * The outcome is recorded in the delivery log
+ */
+export async function deliverWebhook(
+  message: WebhookMessage,
+  env: CloudflareEnv
+): Promise<void> {
+  const { deliveryId } = message.payload
+
+  const found = deliveryId
+    ? await getDeliveryWithEndpoint(deliveryId, env)
+    : null
+
+  if (!found) {
+    console.warn(`[Webhook] Delivery ${deliveryId} not found, skipping`)
+    return
+  }
+
+  const { delivery, endpoint } = found
+
+  if (!endpoint.active) {
+    await updateWebhookDelivery(
+      delivery.id,
+      { status: 'failed', attempts: 0, lastError: 'Endpoint is disabled' },
+      env
+    )
+    return
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  let attempts = 0
+  let responseStatus: number | null = null
+
+  try {
+    await retryWithBackoff(
+      async () => {
+        attempts++
+        const response = await sendSignedRequest(endpoint, delivery, body)
+        responseStatus = response.status
+
+        if (!response.ok) {
+          throw new Error(`Endpoint responded with HTTP ${response.status}`)
+        }
+      },
+      { maxRetries: MAX_RETRIES, initialDelay: 1000, maxDelay: 10000 }
+    )
+
+    await updateWebhookDelivery(
+      delivery.id,
+      {
+        status: 'succeeded',
+        attempts,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+      env
+    )
+    console.log(`[Webhook] Delivered ${delivery.event} to ${endpoint.url}`)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+
+    await updateWebhookDelivery(
+      delivery.id,
+      { status: 'failed', attempts, responseStatus, lastError: errorMessage },
+      env
+    )
+    console.error(
+      `[Webhook] Delivery ${delivery.id} to ${endpoint.url} failed after ${attempts} attempts: ${errorMessage}`
+    )
+  }
+}
+
+/**
+ * Build the signature header value for a payload
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${body}`)
+  return `t=${timestamp},v1=${signature}`
+}
+
+/**
+ * Log a delivery and enqueue it for the queue consumer
+ */
+async function queueDelivery(
+  endpoint: WebhookEndpoint,
+  values: {
+    id: string
+    submissionId: string | null
+    event: WebhookEvent
+    payload: WebhookPayload
+  },
+  env: CloudflareEnv
+): Promise<WebhookDelivery> {
+  const delivery = await createWebhookDelivery(
+    { ...values, endpointId: endpoint.id, workspaceId: endpoint.workspaceId },
+    env
+  )
+
+  await enqueueWebhook(env.ARTICLE_ANALYSIS_QUEUE, {
+    url: endpoint.url,
+    method: 'POST',
+    deliveryId: delivery.id,
+  })
+
+  return delivery
+}
+
+/**
+ * POST a signed payload to an endpoint (one attempt)
+ */
+async function sendSignedRequest(
+  endpoint: WebhookEndpoint,
+  delivery: WebhookDelivery,
+  body: string
+): Promise<Response> {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS)
+
+  try {
+    return await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'datagum-webhooks/1.0',
+        'X-Datagum-Event': delivery.event,
+        'X-Datagum-Delivery': delivery.id,
+        'X-Datagum-Signature': await signWebhookPayload(
+          endpoint.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    })
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+/**
+ * Map a submission status to its webhook event
+ */
+function getEventForStatus(status: SubmissionStatus): WebhookEvent {
+  if (status === 'completed') {
+    return 'submission.completed'
+  }
+
+  if (status === 'failed') {
+    return 'submission.failed'
+  }
+
+  return 'submission.status_changed'
+}
@@ -0,0 +1,302 @@
+/**
+ * Article Analyzer - Workspace Service
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Workspace membership, roles and the active workspace for a request.
+ * Roles are ordered viewer < editor < owner; each includes the ones below.
+ */
+
+import type { NextRequest } from 'next/server'
+import {
+  createWorkspace,
+  getWorkspacesForUser,
+  getMembership,
+  getWorkspaceMembers,
+  upsertMember,
+  removeMember,
+  createProject,
+  getProjects,
+  getProject,
+} from '@/repositories/workspace.repository'
+import { getUserByEmail } from '@/repositories/user.repository'
+import { assignOwnedSubmissionsToWorkspace } from '@/repositories/submission.repository'
+import { callerScope, type WorkspaceScope } from '@/repositories/scope'
+import { getActiveWorkspaceId } from '@/lib/auth/session'
+import { SHARE_TOKEN_PARAM } from '@/lib/share-link'
+import type { Project, User, Workspace } from '@/db/schema'
+import { WORKSPACE_ROLES, type WorkspaceRole } from '@/types/workspace'
+
+const MAX_NAME_LENGTH = 100
+
+/**
+ * Check whether a value is a workspace role
+ */
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return (
+    typeof value === 'string' &&
+    (WORKSPACE_ROLES as readonly string[]).includes(value)
+  )
+}
+
+/**
+ * Check whether a role includes the permissions of another
+ */
+export function hasRole(role: WorkspaceRole, minRole: WorkspaceRole): boolean {
+  return WORKSPACE_ROLES.indexOf(role) >= WORKSPACE_ROLES.indexOf(minRole)
+}
+
+/**
+ * Make sure a user has at least one workspace (their personal one)
+ * Submissions they made before workspaces existed move into it
+ */
+export async function ensurePersonalWorkspace(user: User): Promise<void> {
+  const memberships = await getWorkspacesForUser(user.id)
+
+  if (memberships.length === 0) {
+    const workspace = await createWorkspace('Personal', user.id)
+    await assignOwnedSubmissionsToWorkspace(
+      user.id,
+      workspace.id,
+      callerScope([workspace.id])
+    )
+  }
+}
+
+/**
+ * List a user's workspaces with their role
+ */
+export async function listUserWorkspaces(
+  user: User
+): Promise<Array<{ workspace: Workspace; role: WorkspaceRole }>> {
+  return getWorkspacesForUser(user.id)
+}
+
+/**
+ * Create a workspace owned by a user
+ */
+export async function createUserWorkspace(
+  user: User,
+  name: string
+): Promise<Workspace> {
+  return createWorkspace(validateName(name, 'Workspace'), user.id)
+}
+
+/**
+ * Require a user to hold at least a role in a workspace
+ * Non-members get a 404 so workspace IDs are not revealed
+ */
+export async function requireWorkspaceRole(
+  workspaceId: string,
+  user: User | null,
+  minRole: WorkspaceRole
+): Promise<WorkspaceRole> {
+  const member = user ? await getMembership(workspaceId, user.id) : null
+
+  if (!member || !isWorkspaceRole(member.role)) {
+    throw new WorkspaceAccessError('Workspace not found', 404)
+  }
+
+  if (!hasRole(member.role, minRole)) {
+    throw new WorkspaceAccessError(
+      `This action requires the ${minRole} role`,
+      403
+    )
+  }
+
+  return member.role
+}
+
+/**
+ * Resolve the workspace a request acts in: the requested one, else the
+ * active workspace cookie, else the user's oldest (personal) workspace
+ * A stale cookie (e.g. after leaving a workspace) falls back to the oldest
+ */
+export async function resolveActiveWorkspace(
+  request: NextRequest,
+  user: User,
+  minRole: WorkspaceRole,
+  requestedId?: string | null
+): Promise<{ workspaceId: string; role: WorkspaceRole }> {
+  if (requestedId) {
+    const role = await requireWorkspaceRole(requestedId, user, minRole)
+    return { workspaceId: requestedId, role }
+  }
+
+  const memberships = await getWorkspacesForUser(user.id)
+  const cookieId = getActiveWorkspaceId(request)
+  const active =
+    memberships.find((m) => m.workspace.id === cookieId) ?? memberships[0]
+
+  if (!active) {
+    throw new WorkspaceAccessError('Workspace not found', 404)
+  }
+
+  if (!hasRole(active.role, minRole)) {
+    throw new WorkspaceAccessError(
+      `This action requires the ${minRole} role`,
+      403
+    )
+  }
+
+  return { workspaceId: active.workspace.id, role: active.role }
+}
+
+/**
+ * Build the repository scope for a request: the caller's workspaces where
+ * they hold at least minRole, plus the share link they presented (if any)
+ */
+export async function getCallerScope(
+  request: NextRequest,
+  user: User | null,
+  minRole: WorkspaceRole = 'viewer',
+  options: { includeShareToken?: boolean } = {}
+): Promise<WorkspaceScope> {
+  const workspaceIds = user
+    ? (await getWorkspacesForUser(user.id))
+        .filter((m) => hasRole(m.role, minRole))
+        .map((m) => m.workspace.id)
+    : []
+  const shareToken =
+    options.includeShareToken === false
+      ? null
+      : request.nextUrl.searchParams.get(SHARE_TOKEN_PARAM)
+
+  return callerScope(workspaceIds, shareToken)
+}
+
+/**
+ * List a workspace's members (any member may view)
+ */
+export async function listMembers(workspaceId: string, user: User | null) {
+  await requireWorkspaceRole(workspaceId, user, 'viewer')
+  return getWorkspaceMembers(workspaceId)
+}
+
+/**
+ * Add an existing user to a workspace or change their role (owners only)
+ */
+export async function addMember(
+  workspaceId: string,
+  actor: User | null,
+  email: string,
+  role: WorkspaceRole
+) {
+  await requireWorkspaceRole(workspaceId, actor, 'owner')
+
+  const member = await getUserByEmail(email.trim().toLowerCase())
+  if (!member) {
+    throw new WorkspaceAccessError(
+      'No account with that email. Ask them to sign up first.',
+      404
+    )
+  }
+
+  if (member.id === actor?.id && role !== 'owner') {
+    await assertAnotherOwner(workspaceId, member.id)
+  }
+
+  return upsertMember(workspaceId, member.id, role)
+}
+
+/**
+ * Remove a member from a workspace (owners only, or members leaving)
+ * The last owner cannot be removed
+ */
+export async function removeWorkspaceMember(
+  workspaceId: string,
+  actor: User | null,
+  userId: string
+): Promise<void> {
+  await requireWorkspaceRole(
+    workspaceId,
+    actor,
+    actor?.id === userId ? 'viewer' : 'owner'
+  )
+  await assertAnotherOwner(workspaceId, userId)
+  await removeMember(workspaceId, userId)
+}
+
+/**
+ * List a workspace's projects (any member may view)
+ */
+export async function listProjects(
+  workspaceId: string,
+  user: User | null
+): Promise<Project[]> {
+  await requireWorkspaceRole(workspaceId, user, 'viewer')
+  return getProjects(workspaceId)
+}
+
+/**
+ * Create a project in a workspace (editors and owners)
+ */
+export async function createWorkspaceProject(
+  workspaceId: string,
+  user: User | null,
+  name: string
+): Promise<Project> {
+  await requireWorkspaceRole(workspaceId, user, 'editor')
+  return createProject(workspaceId, validateName(name, 'Project'))
+}
+
+/**
+ * Load a project, checking it belongs to the workspace
+ */
+export async function requireProject(
+  projectId: string,
+  workspaceId: string
+): Promise<Project> {
+  const project = await getProject(projectId, workspaceId)
+
+  if (!project) {
+    throw new WorkspaceAccessError('Project not found', 404)
+  }
+
+  return project
+}
+
+/**
+ * Ensure a workspace keeps at least one owner besides the given user
+ */
+async function assertAnotherOwner(
+  workspaceId: string,
+  userId: string
+): Promise<void> {
+  const members = await getWorkspaceMembers(workspaceId)
+  const target = members.find((m) => m.userId === userId)
+
+  if (
+    target?.role === 'owner' &&
+    !members.some((m) => m.role === 'owner' && m.userId !== userId)
+  ) {
+    throw new WorkspaceAccessError('A workspace must keep at least one owner', 400)
+  }
+}
+
+/**
+ * Trim and validate a workspace or project name
+ */
+function validateName(name: string, label: string): string {
+  const trimmed = name.trim()
+
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) {
+    throw new WorkspaceAccessError(
+      `${label} name must be 1-${MAX_NAME_LENGTH} characters`,
+      400
+    )
+  }
+
+  return trimmed
+}
+
+/**
+ * Custom error class for workspace permission failures
+ */
+export class WorkspaceAccessError extends Error {
+  constructor(message: string, public readonly statusCode: number = 403) {
+    super(message)
+    this.name = 'WorkspaceAccessError'
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Article Analyzer - AI Readiness Types
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: AI-readiness audit
+ *
+ * Types for the deterministic AI-readiness audit of the target page
+ * (stored in the submission's aiReadinessAudit JSONB field), and the
+ * page signals the content parser collects for it.
+ */
+
+/**
+ * AI crawlers whose robots.txt access is audited
+ */
+export const AI_CRAWLERS = [
+  { userAgent: 'GPTBot', label: 'OpenAI GPTBot' },
+  { userAgent: 'OAI-SearchBot', label: 'OpenAI SearchBot' },
+  { userAgent: 'PerplexityBot', label: 'PerplexityBot' },
+  { userAgent: 'ClaudeBot', label: 'Anthropic ClaudeBot' },
+  { userAgent: 'Google-Extended', label: 'Google-Extended' },
+] as const
+
+/**
+ * Crawl-relevant signals found while parsing the page
+ */
+export interface PageSignals {
+  metaRobots: Record<string, string> // robots/googlebot/AI crawler meta tags by lowercased name
+  headings: { level: number; text: string }[] // h1-h6 in document order
+  pageWordCount: number // Visible words on the whole page, boilerplate included
+}
+
+/**
+ * Outcome of one audit check
+ */
+export type ReadinessStatus = 'pass' | 'warn' | 'fail'
+
+/**
+ * One scored item of the audit checklist
+ */
+export interface ReadinessCheck {
+  id: string
+  label: string
+  status: ReadinessStatus
+  weight: number // Points the check is worth; a warning earns half
+  detail: string
+}
+
+/**
+ * Scored AI-readiness checklist for a page
+ */
+export interface AiReadinessAudit {
+  score: number // 0-100
+  checks: ReadinessCheck[]
+  crawlerAccess: { userAgent: string; label: string; allowed: boolean | null }[] // null when robots.txt was unavailable
+  auditedAt: string // ISO timestamp
+}
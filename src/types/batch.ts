@@ -0,0 +1,40 @@
+/**
+ * Article Analyzer - Batch Types
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Types for batch progress and the Tier 1/2/3 rates aggregated
+ * across a batch's member submissions.
+ */
+
+/**
+ * A URL that was not accepted into a batch
+ */
+export interface RejectedBatchUrl {
+  url: string
+  reason: string
+}
+
+/**
+ * Member submission counts by status
+ */
+export interface BatchProgress {
+  total: number // URLs accepted into the batch
+  created: number // Member submissions created so far
+  pending: number // Created but not yet finished
+  completed: number
+  failed: number
+  isFinished: boolean // Every URL has a completed or failed submission
+}
+
+/**
+ * Tier 1/2/3 rates across the completed members of a batch
+ */
+export interface BatchTierRates {
+  analyzedCount: number // Completed members with test metrics
+  tier1PassRate: number // % of analyzed members that passed the control test
+  tier2SuccessRate: number // % of all tested FAQs found in sources
+  tier3SuccessRate: number // % of all tested FAQs cited
+  totalFaqs: number
+}
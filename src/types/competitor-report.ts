@@ -0,0 +1,44 @@
+/**
+ * Article Analyzer - Competitor Report Types
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Competitor share-of-voice
+ *
+ * Types for aggregating which domains AI search engines cite instead of
+ * the target article, built from stored citations and sources.
+ */
+
+/**
+ * Citation statistics for a single domain
+ */
+export interface DomainShare {
+  domain: string
+  citationCount: number // Times cited in answers
+  sourceCount: number // Times retrieved as a source
+  averagePosition?: number // Mean citation position (1-indexed)
+  shareOfVoice: number // Percentage of all citations (0-100)
+  questionCount: number // Questions where the domain was cited
+  isTarget: boolean // Domain of the submitted article
+}
+
+/**
+ * Competitor breakdown for a single tested question
+ */
+export interface QuestionCompetitors {
+  question: string
+  provider: string
+  totalCitations: number
+  targetShareOfVoice: number
+  domains: DomainShare[]
+}
+
+/**
+ * Competitor report for a submission
+ */
+export interface CompetitorReport {
+  targetDomain: string | null
+  totalCitations: number
+  targetShareOfVoice: number
+  domains: DomainShare[] // Sorted by citation count, then source count
+  questions: QuestionCompetitors[]
+}
@@ -0,0 +1,42 @@
+/**
+ * Article Analyzer - Discovery Types
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Sitemap and feed discovery
+ *
+ * Types for articles discovered from a site's sitemap or RSS/Atom feed.
+ */
+
+/**
+ * Kind of document discovery was pointed at
+ */
+export type DiscoverySource = 'sitemap' | 'rss' | 'atom'
+
+/**
+ * An article listed in a sitemap or feed
+ */
+export interface DiscoveredArticle {
+  url: string
+  title?: string // Feeds only
+  lastModified?: string // ISO date from <lastmod>, <pubDate> or <updated>
+}
+
+/**
+ * Entries read from a single sitemap or feed document
+ */
+export interface ParsedFeed {
+  kind: DiscoverySource | 'sitemapindex'
+  articles: DiscoveredArticle[]
+  sitemapUrls: string[] // Child sitemaps listed by a sitemap index
+}
+
+/**
+ * Articles discovered from a sitemap (index) or feed, newest first
+ */
+export interface DiscoveryResult {
+  source: DiscoverySource
+  sourceUrl: string
+  articles: DiscoveredArticle[]
+  sitemapCount: number // Sitemaps read (more than 1 for a sitemap index)
+  truncated: boolean // More articles were found than are listed
+}
@@ -0,0 +1,29 @@
+/**
+ * Article Analyzer - Export Types
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Results exports
+ *
+ * Types for the CSV, JSON and printable report exports of a submission.
+ */
+
+/**
+ * Supported export formats
+ */
+export const EXPORT_FORMATS = ['csv', 'json', 'html'] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+/**
+ * One tested question (per provider) in an export
+ */
+export interface ResultExportRow {
+  question: string
+  provider: string
+  faqAnswer: string | null // Answer generated from the article
+  aiAnswer: string | null // Answer returned by the AI search engine
+  providerAccessible: boolean | null // Tier 1 for the provider
+  inSources: boolean // Tier 2
+  inCitations: boolean // Tier 3
+  citationPosition: number | null // Position of the target among citations
+  competitorDomains: string[] // Other domains cited, most cited first
+}
@@ -0,0 +1,45 @@
+/**
+ * Article Analyzer - Page Metadata Types
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Structured data detection
+ *
+ * Structured data and social metadata found on the scraped page
+ * (stored in the submission's pageMetadata JSONB field), and the
+ * AI-relevant markup checks the results page reports from it.
+ */
+
+/**
+ * Where a structured data item was declared
+ */
+export type StructuredDataSource = 'json-ld' | 'microdata'
+
+/**
+ * Existing markup extracted from the scraped page
+ */
+export interface PageMetadata {
+  jsonLdTypes: string[] // schema.org @type values found in JSON-LD
+  invalidJsonLdCount: number // JSON-LD blocks that failed to parse
+  microdataTypes: string[] // schema.org itemtype names found in microdata
+  openGraph: Record<string, string> // og:* properties (without the prefix)
+  twitter: Record<string, string> // twitter:* properties (without the prefix)
+  description?: string
+  author?: string
+  publishedAt?: string // As declared by the page
+  modifiedAt?: string
+  faqPage?: { source: StructuredDataSource; questionCount: number }
+  article?: { source: StructuredDataSource; type: string; headline?: string }
+  product?: { source: StructuredDataSource; name?: string }
+  howTo?: { source: StructuredDataSource; name?: string; stepCount: number }
+}
+
+/**
+ * One AI-relevant markup check for the results page
+ */
+export interface MarkupCheck {
+  id: string
+  label: string
+  status: 'present' | 'missing' | 'invalid'
+  importance: 'recommended' | 'optional'
+  detail: string // What was found, or why it matters when missing
+}
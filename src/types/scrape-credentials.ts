@@ -0,0 +1,16 @@
+/**
+ * Article Analyzer - Scrape Credential Types
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Authenticated scraping
+ *
+ * Request headers, cookies and basic auth a submitter can provide to
+ * scrape gated content. Stored encrypted on the submission and only
+ * sent with the article request itself.
+ */
+
+export interface ScrapeCredentials {
+  headers?: Record<string, string> // Extra request headers (e.g. a bearer token)
+  cookies?: string // Cookie header value, "name=value; name2=value2"
+  basicAuth?: { username: string; password: string }
+}
@@ -67,3 +67,43 @@ export class AccessDeniedError extends ScrapingError {
     this.name = 'AccessDeniedError'
   }
 }
+
+/**
+ * Error when the site's robots.txt disallows our crawler from fetching the page
+ */
+export class RobotsDisallowedError extends ScrapingError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RobotsDisallowedError'
+  }
+}
+
+/**
+ * Error when the response body is larger than we are willing to read
+ */
+export class ResponseTooLargeError extends ScrapingError {
+  constructor(message: string, public readonly maxBytes?: number) {
+    super(message)
+    this.name = 'ResponseTooLargeError'
+  }
+}
+
+/**
+ * Error when the response is a binary or otherwise unsupported content type
+ */
+export class UnsupportedContentTypeError extends ScrapingError {
+  constructor(message: string, public readonly contentType?: string) {
+    super(message)
+    this.name = 'UnsupportedContentTypeError'
+  }
+}
+
+/**
+ * Error when the response's declared character encoding cannot be decoded
+ */
+export class UnsupportedCharsetError extends ScrapingError {
+  constructor(message: string, public readonly charset?: string) {
+    super(message)
+    this.name = 'UnsupportedCharsetError'
+  }
+}
@@ -4,9 +4,34 @@
  * Epic: Epic 4 - AI Search Visibility Testing
  * Stories: US-4.1, US-4.2, US-4.3, US-4.4
  *
- * Types for testing article visibility in AI search results using OpenAI Responses API.
+ * Types for testing article visibility in AI search results across answer engines
+ * (OpenAI, Perplexity, Gemini, Claude).
  */
 
+/**
+ * Supported AI search providers
+ */
+export const SEARCH_PROVIDER_IDS = [
+  'openai',
+  'perplexity',
+  'gemini',
+  'claude',
+  'fake',
+] as const
+
+export type SearchProviderId = (typeof SEARCH_PROVIDER_IDS)[number]
+
+/**
+ * How strictly a cited URL must match the target to count as found,
+ * from strictest to loosest:
+ * - exact: the same page
+ * - path_prefix: a page in the same section (e.g. /blog/...) on the same host
+ * - domain: any page on the same registrable domain, including subdomains
+ */
+export const MATCH_MODES = ['exact', 'path_prefix', 'domain'] as const
+
+export type MatchMode = (typeof MATCH_MODES)[number]
+
 /**
  * Citation information extracted from AI response annotations
  */
@@ -36,8 +61,10 @@ export interface SearchTestResult {
   citations: CitationInfo[]
   sources: string[] // All URLs mentioned in sources
   citationPosition?: number // Position if found in citations (1-indexed)
+  matchType?: MatchMode // Strictest mode that matched (citations first, then sources)
   responseTimeMs?: number
   modelUsed: string
+  provider: SearchProviderId
 }
 
 /**
@@ -46,6 +73,8 @@ export interface SearchTestResult {
 export interface SearchTestInput {
   question: string
   targetUrl: string
+  targetAliases?: string[] // Other URLs that count as the target (redirects, canonical)
+  matchMode?: MatchMode // Loosest match that counts as found (default: exact)
 }
 
 /**
@@ -61,6 +90,24 @@ export interface BatchSearchTestResult {
   averageResponseTimeMs?: number
 }
 
+/**
+ * Normalized answer from a web-grounded LLM provider
+ */
+export interface SearchProviderResponse {
+  answerText?: string // The generated answer
+  citations: CitationInfo[] // URLs cited in the answer, in order
+  sources: SourceInfo[] // All URLs retrieved by the provider's search
+}
+
+/**
+ * Adapter for a web-grounded LLM search API
+ */
+export interface SearchProvider {
+  id: SearchProviderId
+  model: string
+  search(query: string): Promise<SearchProviderResponse>
+}
+
 /**
  * OpenAI Responses API types
  */
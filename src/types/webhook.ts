@@ -0,0 +1,46 @@
+/**
+ * Article Analyzer - Webhook Types
+ *
+ * Epic: Epic 6 - Background Job Processing
+ * Stories: Outbound webhooks
+ *
+ * Events sent to workspace webhook endpoints and the payload they carry.
+ */
+
+/**
+ * Webhook events
+ * - submission.completed: the analysis finished
+ * - submission.failed: the analysis failed and will not be retried
+ * - submission.status_changed: the analysis moved to a new phase
+ */
+export const WEBHOOK_EVENTS = [
+  'submission.completed',
+  'submission.failed',
+  'submission.status_changed',
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+/**
+ * JSON body POSTed to webhook endpoints
+ */
+export interface WebhookPayload {
+  id: string // Delivery ID (matches X-Datagum-Delivery)
+  event: WebhookEvent
+  createdAt: string // ISO 8601
+  data: {
+    submissionId: string
+    url: string
+    status: string
+    error: string | null
+    workspaceId: string
+    projectId: string | null
+    resultsPath: string // Shareable results page path
+    metrics: {
+      isAccessible: boolean
+      totalFaqs: number
+      inSourcesCount: number
+      inCitationsCount: number
+    } | null
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Article Analyzer - Workspace Types
+ *
+ * Epic: Epic 7 - User Accounts
+ * Stories: Workspaces and team roles
+ *
+ * Roles a user can hold in a workspace, shared by the API and the UI.
+ */
+
+/**
+ * Workspace roles, least to most privileged
+ * - viewer: see submissions and results
+ * - editor: also run analyses, create projects and manage schedules
+ * - owner: also manage members
+ */
+export const WORKSPACE_ROLES = ['viewer', 'editor', 'owner'] as const
+
+export type WorkspaceRole = (typeof WORKSPACE_ROLES)[number]
@@ -0,0 +1,123 @@
+/**
+ * Body decoding: byte order mark, then Content-Type charset, then the
+ * document's own declaration, with unknown labels skipped
+ */
+
+import { describe, expect, it } from 'vitest'
+import { decodeBody } from '@/utils/charset'
+import { UnsupportedCharsetError } from '@/types/scraping-errors'
+
+// "café" in windows-1252 / ISO-8859-1
+const CAFE_LATIN1 = [0x63, 0x61, 0x66, 0xe9]
+// "日本" in Shift_JIS
+const NIHON_SJIS = [0x93, 0xfa, 0x96, 0x7b]
+
+/**
+ * Bytes of an ASCII string followed by raw bytes
+ */
+function bytes(ascii: string, raw: number[] = [], trailer = ''): Uint8Array {
+  return new Uint8Array([
+    ...new TextEncoder().encode(ascii),
+    ...raw,
+    ...new TextEncoder().encode(trailer),
+  ])
+}
+
+const html = (head: string, raw: number[]) =>
+  bytes(`<html><head>${head}</head><body><p>`, raw, '</p></body></html>')
+
+describe('decodeBody precedence', () => {
+  it('lets a byte order mark override the Content-Type and <meta charset>', () => {
+    const body = new Uint8Array([
+      0xef,
+      0xbb,
+      0xbf,
+      ...html('<meta charset="shift_jis">', [0xc3, 0xa9]),
+    ])
+
+    const text = decodeBody(body, 'text/html; charset=iso-8859-1')
+
+    expect(text).toContain('<p>é</p>')
+  })
+
+  it('decodes UTF-16 bodies marked with a BOM', () => {
+    const body = new Uint8Array([0xff, 0xfe, 0x48, 0x00, 0x69, 0x00])
+
+    expect(decodeBody(body, 'text/html; charset=utf-8')).toBe('Hi')
+  })
+
+  it('prefers the Content-Type charset over <meta charset>', () => {
+    const body = html('<meta charset="shift_jis">', CAFE_LATIN1)
+
+    expect(decodeBody(body, 'text/html; charset="ISO-8859-1"')).toContain(
+      '<p>café</p>'
+    )
+  })
+
+  it('uses <meta charset> when the Content-Type has no charset', () => {
+    const body = html('<meta charset="Shift_JIS">', NIHON_SJIS)
+
+    expect(decodeBody(body, 'text/html')).toContain('<p>日本</p>')
+  })
+
+  it('reads the charset from <meta http-equiv="Content-Type">', () => {
+    const body = html(
+      '<meta http-equiv="Content-Type" content="text/html; charset=windows-1252">',
+      CAFE_LATIN1
+    )
+
+    expect(decodeBody(body, null)).toContain('<p>café</p>')
+  })
+
+  it('reads the XML declaration of feeds', () => {
+    const body = bytes(
+      '<?xml version="1.0" encoding="ISO-8859-1"?><rss><title>',
+      CAFE_LATIN1,
+      '</title></rss>'
+    )
+
+    expect(decodeBody(body, 'application/rss+xml')).toContain('<title>café</title>')
+  })
+
+  it('ignores in-document declarations of non-markup types', () => {
+    const body = bytes('<meta charset="shift_jis"> caf', [0xc3, 0xa9])
+
+    expect(decodeBody(body, 'text/plain')).toBe('<meta charset="shift_jis"> café')
+  })
+
+  it('reads a document declaring itself UTF-16 as UTF-8', () => {
+    const body = html('<meta charset="utf-16">', [0xc3, 0xa9])
+
+    expect(decodeBody(body, 'text/html')).toContain('<p>é</p>')
+  })
+
+  it('falls back to UTF-8 when nothing is declared', () => {
+    const body = html('', [0xe2, 0x9c, 0x93])
+
+    expect(decodeBody(body, 'text/html')).toContain('<p>✓</p>')
+  })
+})
+
+describe('decodeBody unknown labels', () => {
+  it('skips an unknown Content-Type label for the document declaration', () => {
+    const body = html('<meta charset="shift_jis">', NIHON_SJIS)
+
+    expect(decodeBody(body, 'text/html; charset=x-unknown-charset')).toContain(
+      '<p>日本</p>'
+    )
+  })
+
+  it('rejects a body whose only declared encodings are unknown', () => {
+    const body = html('<meta charset="x-made-up">', CAFE_LATIN1)
+
+    let error: unknown
+    try {
+      decodeBody(body, 'text/html; charset=x-unknown-charset')
+    } catch (caught) {
+      error = caught
+    }
+
+    expect(error).toBeInstanceOf(UnsupportedCharsetError)
+    expect(error).toMatchObject({ charset: 'x-unknown-charset' })
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Citation match modes: exact page by default, section and site on opt-in;
+ * sites are registrable domains from the Public Suffix List. Redirect and
+ * canonical aliases of the submitted URL count as the target.
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import {
+  getRegistrableDomain,
+  getTargetUrls,
+  isTargetInCitations,
+  isTargetInSources,
+  matchTargetUrl,
+} from '@/utils/citation-parser'
+import { runSearchTest } from '@/services/search-tester.service'
+import type { CitationInfo, SearchProvider } from '@/types/search-testing'
+
+const TARGET = 'https://www.example.com/blog/aeo-guide'
+
+const citations = (...urls: string[]): CitationInfo[] =>
+  urls.map((url, index) => ({ url, position: index + 1 }))
+
+describe('matchTargetUrl', () => {
+  it('only matches the same page by default', () => {
+    expect(matchTargetUrl(TARGET, 'https://example.com/blog/aeo-guide/')).toBe(
+      'exact'
+    )
+    expect(
+      matchTargetUrl(TARGET, 'https://example.com/blog/aeo-guide?utm_source=x')
+    ).toBe('exact')
+    expect(matchTargetUrl(TARGET, 'https://example.com/blog/other')).toBeNull()
+    expect(matchTargetUrl(TARGET, 'https://example.com/')).toBeNull()
+  })
+
+  it('matches pages in the same section with path_prefix', () => {
+    expect(
+      matchTargetUrl(TARGET, 'https://example.com/blog/other', 'path_prefix')
+    ).toBe('path_prefix')
+    expect(
+      matchTargetUrl(TARGET, 'https://example.com/docs/aeo', 'path_prefix')
+    ).toBeNull()
+    expect(
+      matchTargetUrl(TARGET, 'https://news.example.com/blog/other', 'path_prefix')
+    ).toBeNull()
+  })
+
+  it('matches any page on the registrable domain with domain', () => {
+    expect(matchTargetUrl(TARGET, 'https://example.com/pricing', 'domain')).toBe(
+      'domain'
+    )
+    expect(
+      matchTargetUrl(TARGET, 'https://news.example.com/story', 'domain')
+    ).toBe('domain')
+    expect(
+      matchTargetUrl(TARGET, 'https://example.org/blog/aeo-guide', 'domain')
+    ).toBeNull()
+  })
+
+  it('reports the strictest mode that matches', () => {
+    expect(matchTargetUrl(TARGET, TARGET, 'domain')).toBe('exact')
+    expect(
+      matchTargetUrl(TARGET, 'https://example.com/blog/other', 'domain')
+    ).toBe('path_prefix')
+  })
+})
+
+describe('getRegistrableDomain', () => {
+  it('keeps one label below a public suffix', () => {
+    expect(getRegistrableDomain('blog.example.co.uk')).toBe('example.co.uk')
+    expect(getRegistrableDomain('www.example.com.')).toBe('example.com')
+    expect(getRegistrableDomain('News.Example.COM')).toBe('example.com')
+  })
+
+  it('treats each site on a shared host as its own domain', () => {
+    expect(getRegistrableDomain('alice.blogspot.com')).toBe('alice.blogspot.com')
+    expect(getRegistrableDomain('shop.myshopify.com')).toBe('shop.myshopify.com')
+    expect(getRegistrableDomain('docs.my-app.vercel.app')).toBe(
+      'my-app.vercel.app'
+    )
+    expect(getRegistrableDomain('my-app.herokuapp.com')).toBe(
+      'my-app.herokuapp.com'
+    )
+  })
+
+  it('returns IP addresses and single-label hosts unchanged', () => {
+    expect(getRegistrableDomain('203.0.113.7')).toBe('203.0.113.7')
+    expect(getRegistrableDomain('localhost')).toBe('localhost')
+  })
+
+  it('does not match other sites on the same shared host in domain mode', () => {
+    const target = 'https://alice.blogspot.com/2024/05/aeo.html'
+
+    expect(
+      matchTargetUrl(target, 'https://bob.blogspot.com/2024/05/aeo.html', 'domain')
+    ).toBeNull()
+    expect(
+      matchTargetUrl(
+        'https://shop.myshopify.com/products/tea',
+        'https://other.myshopify.com/',
+        'domain'
+      )
+    ).toBeNull()
+    expect(
+      matchTargetUrl(
+        'https://my-app.vercel.app/blog',
+        'https://preview.my-app.vercel.app/pricing',
+        'domain'
+      )
+    ).toBe('domain')
+  })
+})
+
+describe('isTargetInCitations', () => {
+  it('prefers the strictest match over the earliest citation', () => {
+    const result = isTargetInCitations(
+      TARGET,
+      citations('https://example.com/about', TARGET),
+      'domain'
+    )
+
+    expect(result).toEqual({ found: true, position: 2, matchType: 'exact' })
+  })
+
+  it('does not count same-site citations by default', () => {
+    expect(
+      isTargetInCitations(TARGET, citations('https://example.com/about'))
+    ).toEqual({ found: false })
+  })
+
+  it('matches any of the target aliases', () => {
+    const result = isTargetInCitations(
+      [TARGET, 'https://example.com/aeo'],
+      citations('https://example.com/aeo')
+    )
+
+    expect(result).toEqual({ found: true, position: 1, matchType: 'exact' })
+  })
+})
+
+describe('getTargetUrls', () => {
+  it('lists the submitted URL first, then the final, canonical, og and AMP URLs', () => {
+    expect(
+      getTargetUrls(TARGET, {
+        finalUrl: 'https://example.com/blog/aeo-guide-2025',
+        canonicalUrl: 'https://example.com/guides/aeo',
+        ogUrl: 'https://example.com/guides/aeo-og',
+        ampUrl: 'https://example.com/amp/guides/aeo',
+      })
+    ).toEqual([
+      TARGET,
+      'https://example.com/blog/aeo-guide-2025',
+      'https://example.com/guides/aeo',
+      'https://example.com/guides/aeo-og',
+      'https://example.com/amp/guides/aeo',
+    ])
+  })
+
+  it('drops aliases that normalize to a URL already listed', () => {
+    expect(
+      getTargetUrls(TARGET, {
+        finalUrl: 'https://example.com/blog/aeo-guide/',
+        canonicalUrl: 'https://www.example.com/blog/aeo-guide?utm_source=feed',
+        ogUrl: 'https://example.com/guides/aeo',
+        ampUrl: 'https://example.com/guides/aeo#top',
+      })
+    ).toEqual([TARGET, 'https://example.com/guides/aeo'])
+  })
+
+  it('returns the submitted URL alone without aliases', () => {
+    expect(getTargetUrls(TARGET, null)).toEqual([TARGET])
+    expect(getTargetUrls(TARGET, {})).toEqual([TARGET])
+  })
+})
+
+describe('isTargetInSources', () => {
+  it('records the match type of an opted-in looser match', () => {
+    expect(
+      isTargetInSources(TARGET, ['https://example.com/blog/other'], 'path_prefix')
+    ).toEqual({ found: true, matchType: 'path_prefix' })
+    expect(isTargetInSources(TARGET, ['https://example.com/blog/other'])).toEqual(
+      { found: false }
+    )
+  })
+})
+
+describe('runSearchTest match modes', () => {
+  const provider: SearchProvider = {
+    id: 'fake',
+    model: 'fake',
+    search: vi.fn(async () => ({
+      answerText: 'Answer',
+      citations: citations('https://example.com/pricing'),
+      sources: [{ url: 'https://example.com/blog/other' }],
+    })),
+  }
+
+  it('requires the exact page when no mode is given', async () => {
+    const result = await runSearchTest(
+      { question: 'What is AEO?', targetUrl: TARGET },
+      provider
+    )
+
+    expect(result.targetUrlFound).toBe(false)
+    expect(result.matchType).toBeUndefined()
+  })
+
+  it('records a citation match before a source match', async () => {
+    const result = await runSearchTest(
+      { question: 'What is AEO?', targetUrl: TARGET, matchMode: 'domain' },
+      provider
+    )
+
+    expect(result).toMatchObject({
+      targetUrlFound: true,
+      foundInCitations: true,
+      foundInSources: true,
+      citationPosition: 1,
+      matchType: 'domain',
+    })
+  })
+  it('finds the target under its canonical alias', async () => {
+    const result = await runSearchTest(
+      {
+        question: 'What is AEO?',
+        targetUrl: TARGET,
+        targetAliases: ['https://example.com/pricing'],
+      },
+      provider
+    )
+
+    expect(result).toMatchObject({
+      targetUrlFound: true,
+      foundInCitations: true,
+      citationPosition: 1,
+      matchType: 'exact',
+    })
+  })
+})
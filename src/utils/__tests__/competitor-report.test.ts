@@ -0,0 +1,147 @@
+/**
+ * Competitor share of voice: citation shares per domain and overall, with
+ * the target detected by host, or by registrable domain in domain mode
+ */
+
+import { describe, expect, it } from 'vitest'
+import { buildCompetitorReport } from '@/utils/competitor-report'
+import type { CompetitorReportInput } from '@/utils/competitor-report'
+
+const TARGET = 'https://www.example.com/blog/aeo-guide'
+
+function result(
+  question: string,
+  citedUrls: string[],
+  sources: string[] = []
+): CompetitorReportInput {
+  return {
+    question,
+    provider: 'openai',
+    allCitations: citedUrls.map((url, index) => ({ url, position: index + 1 })),
+    allSources: sources,
+  }
+}
+
+describe('buildCompetitorReport share of voice', () => {
+  const results = [
+    result('What is AEO?', [
+      'https://example.com/blog/aeo-guide',
+      'https://rival.com/aeo',
+      'https://rival.com/seo',
+      'https://wiki.org/AEO',
+    ]),
+    result(
+      'How do I rank in AI search?',
+      ['https://rival.com/ai-search', 'https://www.example.com/blog/aeo-guide'],
+      ['https://wiki.org/AEO', 'https://rival.com/ai-search']
+    ),
+  ]
+
+  it('splits all citations across domains as percentages', () => {
+    const report = buildCompetitorReport([TARGET], results)
+
+    expect(report.targetDomain).toBe('example.com')
+    expect(report.totalCitations).toBe(6)
+    expect(report.domains.map((d) => [d.domain, d.shareOfVoice])).toEqual([
+      ['rival.com', 50],
+      ['example.com', 33.3],
+      ['wiki.org', 16.7],
+    ])
+    expect(report.targetShareOfVoice).toBe(33.3)
+  })
+
+  it('counts sources, average positions and questions per domain', () => {
+    const report = buildCompetitorReport([TARGET], results)
+    const rival = report.domains.find((d) => d.domain === 'rival.com')!
+    const wiki = report.domains.find((d) => d.domain === 'wiki.org')!
+
+    expect(rival).toMatchObject({
+      citationCount: 3,
+      sourceCount: 1,
+      averagePosition: 2, // (2 + 3 + 1) / 3
+      questionCount: 2,
+      isTarget: false,
+    })
+    expect(wiki).toMatchObject({ citationCount: 1, sourceCount: 1 })
+  })
+
+  it('reports each question separately', () => {
+    const report = buildCompetitorReport([TARGET], results)
+
+    expect(report.questions).toHaveLength(2)
+    expect(report.questions[0]).toMatchObject({
+      question: 'What is AEO?',
+      totalCitations: 4,
+      targetShareOfVoice: 25,
+    })
+    expect(report.questions[1]).toMatchObject({
+      totalCitations: 2,
+      targetShareOfVoice: 50,
+    })
+  })
+
+  it('reports no share when nothing was cited', () => {
+    const report = buildCompetitorReport([TARGET], [
+      result('What is AEO?', [], ['https://rival.com/aeo']),
+    ])
+
+    expect(report.totalCitations).toBe(0)
+    expect(report.targetShareOfVoice).toBe(0)
+    expect(report.domains[0]).toMatchObject({
+      domain: 'rival.com',
+      shareOfVoice: 0,
+      averagePosition: undefined,
+    })
+  })
+})
+
+describe('buildCompetitorReport target detection', () => {
+  const results = [
+    result('What is AEO?', [
+      'https://example.com/blog/aeo-guide',
+      'https://news.example.com/aeo',
+      'https://docs.example.com/aeo',
+      'https://example.org/aeo',
+    ]),
+  ]
+
+  it('only counts the target host in exact mode', () => {
+    const report = buildCompetitorReport([TARGET], results, 'exact')
+
+    expect(
+      report.domains.filter((d) => d.isTarget).map((d) => d.domain)
+    ).toEqual(['example.com'])
+    expect(report.targetShareOfVoice).toBe(25)
+  })
+
+  it('counts subdomains of the target site in domain mode', () => {
+    const report = buildCompetitorReport([TARGET], results, 'domain')
+
+    expect(
+      report.domains.filter((d) => !d.isTarget).map((d) => d.domain)
+    ).toEqual(['example.org'])
+    expect(report.targetShareOfVoice).toBe(75)
+  })
+
+  it('counts the hosts of every target alias', () => {
+    const report = buildCompetitorReport(
+      [TARGET, 'https://amp.example-cdn.net/aeo-guide'],
+      [result('What is AEO?', ['https://amp.example-cdn.net/aeo-guide'])]
+    )
+
+    expect(report.domains[0]).toMatchObject({
+      domain: 'amp.example-cdn.net',
+      isTarget: true,
+    })
+  })
+
+  it('does not treat other sites on a shared host as the target', () => {
+    const report = buildCompetitorReport(
+      ['https://alice.blogspot.com/aeo'],
+      [result('What is AEO?', ['https://bob.blogspot.com/aeo'])],
+      'domain'
+    )
+
+    expect(report.domains[0].isTarget).toBe(false)
+  })
+})
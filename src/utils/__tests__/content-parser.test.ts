@@ -0,0 +1,50 @@
+/**
+ * Soft paywall detection on saved pages: gates and subscribe prompts in the
+ * article container, schema.org isAccessibleForFree, and sign-up widgets
+ * that are not gates
+ */
+
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { parseArticleContent } from '@/utils/content-parser'
+
+function parseFixture(name: string) {
+  const html = readFileSync(
+    new URL(`./fixtures/paywall/${name}.html`, import.meta.url),
+    'utf8'
+  )
+  return parseArticleContent(html, 'https://example.com/')
+}
+
+describe('paywall detection', () => {
+  it('does not flag a short article with newsletter and membership widgets', () => {
+    const article = parseFixture('newsletter-widget')
+
+    expect(article.wordCount).toBeLessThan(300)
+    expect(article.content).toContain('Second, water from below.')
+    expect(article.partialContent).toBe(false)
+  })
+
+  it('flags a teaser behind a gate in the article body', () => {
+    const article = parseFixture('metered-article')
+
+    expect(article.content).toContain('two-berth expansion')
+    expect(article.partialContent).toBe(true)
+  })
+
+  it('flags a teaser marked isAccessibleForFree=false', () => {
+    const article = parseFixture('schema-teaser')
+
+    expect(article.content).toContain('eighteen trams')
+    expect(article.partialContent).toBe(true)
+  })
+
+  it('ignores gate-like class names outside the article container', () => {
+    const html = `<html><body>
+      <div class="paywall-promo">Subscribe to continue reading our premium guides.</div>
+      <article><p>${'A short but complete note about the harbour ferry timetable. '.repeat(4)}</p></article>
+    </body></html>`
+
+    expect(parseArticleContent(html).partialContent).toBe(false)
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * FAQ snippets: FAQPage JSON-LD that passes the schema.org checks, the
+ * validator's issues for broken data, and escaping in every output format
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildFaqPageJsonLd,
+  renderFaqHtml,
+  renderFaqJsonLdScript,
+  renderFaqMarkdown,
+  validateFaqPageJsonLd,
+} from '@/utils/faq-schema'
+
+const PAGE_URL = 'https://example.com/blog/aeo-guide'
+
+const faqs = [
+  {
+    question: '  What is   answer engine optimization? ',
+    answer: 'Making content easy for\nAI search engines to cite.',
+  },
+  { question: 'How long does it take?', answer: 'Usually a few weeks.' },
+]
+
+describe('buildFaqPageJsonLd', () => {
+  it('builds valid FAQPage JSON-LD with collapsed whitespace', () => {
+    const data = buildFaqPageJsonLd(faqs, PAGE_URL)
+
+    expect(data).toEqual({
+      '@context': 'https://schema.org',
+      '@type': 'FAQPage',
+      url: PAGE_URL,
+      mainEntity: [
+        {
+          '@type': 'Question',
+          name: 'What is answer engine optimization?',
+          acceptedAnswer: {
+            '@type': 'Answer',
+            text: 'Making content easy for AI search engines to cite.',
+          },
+        },
+        {
+          '@type': 'Question',
+          name: 'How long does it take?',
+          acceptedAnswer: { '@type': 'Answer', text: 'Usually a few weeks.' },
+        },
+      ],
+    })
+    expect(validateFaqPageJsonLd(data)).toEqual([])
+  })
+
+  it('leaves out the url when no page URL is given', () => {
+    expect(buildFaqPageJsonLd(faqs)).not.toHaveProperty('url')
+  })
+})
+
+describe('validateFaqPageJsonLd', () => {
+  it('rejects values that are not objects', () => {
+    expect(validateFaqPageJsonLd([])).toEqual([
+      { path: '$', message: 'Structured data must be a JSON object' },
+    ])
+  })
+
+  it('reports the wrong context, type, url and an empty mainEntity', () => {
+    const issues = validateFaqPageJsonLd({
+      '@context': 'http://schema.org',
+      '@type': 'WebPage',
+      url: '/blog/aeo-guide',
+      mainEntity: [],
+    })
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      '@context',
+      '@type',
+      'url',
+      'mainEntity',
+    ])
+  })
+
+  it('reports each broken question by its path', () => {
+    const data = buildFaqPageJsonLd([
+      { question: 'What is <b>AEO</b>?', answer: 'An approach to search.' },
+      { question: 'what is <b>aeo</b>?', answer: ' ' },
+      { question: '', answer: 'An answer without a question.' },
+    ])
+    const withoutAnswer = {
+      ...data,
+      mainEntity: [
+        ...data.mainEntity,
+        { '@type': 'Question', name: 'Who is it for?' },
+        { '@type': 'Answer', text: 'Not a question' },
+      ],
+    }
+
+    expect(validateFaqPageJsonLd(withoutAnswer)).toEqual([
+      { path: 'mainEntity[0].name', message: 'Question name must be plain text' },
+      { path: 'mainEntity[1].name', message: 'Question name must be plain text' },
+      { path: 'mainEntity[1].name', message: 'Questions must not be repeated' },
+      { path: 'mainEntity[1].acceptedAnswer.text', message: 'Answer text is required' },
+      { path: 'mainEntity[2].name', message: 'Question name is required' },
+      {
+        path: 'mainEntity[3].acceptedAnswer',
+        message: 'Each Question needs exactly one acceptedAnswer of type Answer',
+      },
+      { path: 'mainEntity[4]', message: 'Each item must be a Question' },
+    ])
+  })
+})
+
+describe('FAQ snippet rendering', () => {
+  const unsafe = [
+    {
+      question: 'Can I use <script> tags & *markdown*?',
+      answer: 'Yes: </script><script>alert(1)</script> # stays text',
+    },
+  ]
+
+  it('keeps answer text from closing the JSON-LD script element', () => {
+    const script = renderFaqJsonLdScript(buildFaqPageJsonLd(unsafe))
+
+    expect(script.match(/<\/script>/g)).toHaveLength(1)
+    expect(script).toContain('\\u003c/script>\\u003cscript>alert(1)')
+    const json = script
+      .replace('<script type="application/ld+json">', '')
+      .replace('</script>', '')
+    expect(JSON.parse(json).mainEntity[0].acceptedAnswer.text).toBe(
+      unsafe[0].answer
+    )
+  })
+
+  it('escapes HTML in the visible FAQ section', () => {
+    const html = renderFaqHtml(unsafe)
+
+    expect(html).toContain('<h2 id="faq-heading">Frequently Asked Questions</h2>')
+    expect(html).toContain('<h3>Can I use &lt;script&gt; tags &amp; *markdown*?</h3>')
+    expect(html).not.toContain('<script>')
+  })
+
+  it('escapes Markdown formatting in the visible FAQ section', () => {
+    expect(renderFaqMarkdown(unsafe)).toBe(
+      '## Frequently Asked Questions\n\n' +
+        '### Can I use \\<script\\> tags & \\*markdown\\*?\n\n' +
+        'Yes: \\</script\\>\\<script\\>alert(1)\\</script\\> \\# stays text'
+    )
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Feed parsing: sitemaps, sitemap indexes, RSS and Atom feeds read into
+ * absolute article URLs with ISO last-modified dates
+ */
+
+import { describe, expect, it } from 'vitest'
+import { parseFeedDocument } from '@/utils/feed-parser'
+import { ParsingError } from '@/types/scraping-errors'
+
+const BASE_URL = 'https://example.com/sitemap.xml'
+
+describe('parseFeedDocument', () => {
+  it('reads sitemap URLs with their lastmod dates', () => {
+    const feed = parseFeedDocument(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <url><loc>https://example.com/posts/first</loc><lastmod>2025-03-14</lastmod></url>
+  <url><loc> https://example.com/posts/second </loc></url>
+  <url><loc>javascript:alert(1)</loc></url>
+  <url><lastmod>2025-03-01</lastmod></url>
+</urlset>`,
+      BASE_URL
+    )
+
+    expect(feed).toEqual({
+      kind: 'sitemap',
+      articles: [
+        {
+          url: 'https://example.com/posts/first',
+          title: undefined,
+          lastModified: '2025-03-14T00:00:00.000Z',
+        },
+        {
+          url: 'https://example.com/posts/second',
+          title: undefined,
+          lastModified: undefined,
+        },
+      ],
+      sitemapUrls: [],
+    })
+  })
+
+  it('lists the child sitemaps of a sitemap index', () => {
+    const feed = parseFeedDocument(
+      `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap><loc>https://example.com/sitemap-posts.xml</loc></sitemap>
+  <sitemap><loc>/sitemap-pages.xml</loc></sitemap>
+</sitemapindex>`,
+      BASE_URL
+    )
+
+    expect(feed.kind).toBe('sitemapindex')
+    expect(feed.articles).toEqual([])
+    expect(feed.sitemapUrls).toEqual([
+      'https://example.com/sitemap-posts.xml',
+      'https://example.com/sitemap-pages.xml',
+    ])
+  })
+
+  it('reads RSS items, falling back to permalink guids and dc:date', () => {
+    const feed = parseFeedDocument(
+      `<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/"><channel>
+  <title>Kitchen Notes</title>
+  <link>https://example.com/</link>
+  <item>
+    <title>Keeping basil alive</title>
+    <link>/posts/basil</link>
+    <pubDate>Fri, 14 Mar 2025 09:30:00 +0100</pubDate>
+  </item>
+  <item>
+    <title>Sourdough starters</title>
+    <guid isPermaLink="true">https://example.com/posts/sourdough</guid>
+    <dc:date>2025-03-10T08:00:00Z</dc:date>
+  </item>
+  <item><title>No link</title><guid>post-42</guid></item>
+</channel></rss>`,
+      'https://example.com/feed.xml'
+    )
+
+    expect(feed.kind).toBe('rss')
+    expect(feed.articles).toEqual([
+      {
+        url: 'https://example.com/posts/basil',
+        title: 'Keeping basil alive',
+        lastModified: '2025-03-14T08:30:00.000Z',
+      },
+      {
+        url: 'https://example.com/posts/sourdough',
+        title: 'Sourdough starters',
+        lastModified: '2025-03-10T08:00:00.000Z',
+      },
+    ])
+  })
+
+  it('reads Atom entries from their alternate link', () => {
+    const feed = parseFeedDocument(
+      `<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Harbour Gazette</title>
+  <entry>
+    <title>Port expansion wins final approval</title>
+    <link rel="edit" href="https://example.com/api/posts/7"/>
+    <link rel="alternate" href="https://example.com/news/port-expansion"/>
+    <published>2025-03-01T10:00:00Z</published>
+    <updated>2025-03-02T10:00:00Z</updated>
+  </entry>
+  <entry>
+    <title>Tram depot tour</title>
+    <link href="https://example.com/news/tram-depot"/>
+    <updated>not a date</updated>
+  </entry>
+</feed>`,
+      'https://example.com/atom.xml'
+    )
+
+    expect(feed.kind).toBe('atom')
+    expect(feed.articles).toEqual([
+      {
+        url: 'https://example.com/news/port-expansion',
+        title: 'Port expansion wins final approval',
+        lastModified: '2025-03-02T10:00:00.000Z',
+      },
+      {
+        url: 'https://example.com/news/tram-depot',
+        title: 'Tram depot tour',
+        lastModified: undefined,
+      },
+    ])
+  })
+
+  it('rejects documents that are not sitemaps or feeds', () => {
+    expect(() =>
+      parseFeedDocument('<html><body><p>Hello</p></body></html>', BASE_URL)
+    ).toThrow(ParsingError)
+  })
+})
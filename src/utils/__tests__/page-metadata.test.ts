@@ -0,0 +1,156 @@
+/**
+ * Page metadata detection: JSON-LD (including @graph and broken blocks),
+ * microdata and OpenGraph/Twitter tags, and the markup checks built from them
+ */
+
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { buildMarkupReport, extractPageMetadata } from '@/utils/page-metadata'
+
+function metadataOf(head: string, body = '') {
+  const { document } = parseHTML(
+    `<html><head>${head}</head><body>${body}</body></html>`
+  )
+  return extractPageMetadata(document)
+}
+
+const jsonLd = (data: unknown) =>
+  `<script type="application/ld+json">${JSON.stringify(data)}</script>`
+
+describe('extractPageMetadata', () => {
+  it('reads article, FAQPage and HowTo nodes from a JSON-LD @graph', () => {
+    const metadata = metadataOf(
+      jsonLd({
+        '@context': 'https://schema.org',
+        '@graph': [
+          {
+            '@type': ['schema:BlogPosting'],
+            headline: ' Five ways to keep basil alive ',
+            author: [{ '@type': 'Person', name: 'Maya Ortiz' }, 'Sam Lee'],
+            datePublished: '2025-03-14',
+            dateModified: '2025-03-20',
+          },
+          {
+            '@type': 'FAQPage',
+            mainEntity: [{ '@type': 'Question' }, { '@type': 'Question' }],
+          },
+          { '@type': 'HowTo', name: 'Split a basil pot', step: [{}, {}, {}] },
+        ],
+      })
+    )
+
+    expect(metadata).toMatchObject({
+      jsonLdTypes: ['BlogPosting', 'Person', 'FAQPage', 'Question', 'HowTo'],
+      invalidJsonLdCount: 0,
+      author: 'Maya Ortiz, Sam Lee',
+      publishedAt: '2025-03-14',
+      modifiedAt: '2025-03-20',
+      article: {
+        source: 'json-ld',
+        type: 'BlogPosting',
+        headline: 'Five ways to keep basil alive',
+      },
+      faqPage: { source: 'json-ld', questionCount: 2 },
+      howTo: { source: 'json-ld', name: 'Split a basil pot', stepCount: 3 },
+    })
+    expect(metadata.product).toBeUndefined()
+  })
+
+  it('counts JSON-LD blocks that do not parse and unwraps commented ones', () => {
+    const metadata = metadataOf(
+      '<script type="application/ld+json">{"@type": "Article",}</script>' +
+        '<script type="application/ld+json"><!-- {"@type": "Product", "name": "Starter kit"} --></script>' +
+        '<script type="application/ld+json">   </script>'
+    )
+
+    expect(metadata.invalidJsonLdCount).toBe(1)
+    expect(metadata.product).toEqual({ source: 'json-ld', name: 'Starter kit' })
+    expect(metadata.article).toBeUndefined()
+  })
+
+  it('falls back to microdata when there is no JSON-LD', () => {
+    const metadata = metadataOf(
+      '',
+      `<article itemscope itemtype="https://schema.org/NewsArticle">
+        <h1 itemprop="headline">Port expansion wins final approval</h1>
+      </article>
+      <div itemscope itemtype="https://schema.org/FAQPage">
+        <div itemscope itemprop="mainEntity" itemtype="https://schema.org/Question"></div>
+        <div itemscope itemprop="mainEntity" itemtype="https://schema.org/Question"></div>
+      </div>
+      <div itemscope itemtype="http://schema.org/Product">
+        <meta itemprop="name" content="Tram pass">
+      </div>`
+    )
+
+    expect(metadata).toMatchObject({
+      microdataTypes: ['NewsArticle', 'FAQPage', 'Question', 'Product'],
+      article: {
+        source: 'microdata',
+        type: 'NewsArticle',
+        headline: 'Port expansion wins final approval',
+      },
+      faqPage: { source: 'microdata', questionCount: 2 },
+      product: { source: 'microdata', name: 'Tram pass' },
+    })
+  })
+
+  it('reads author, dates and social tags from meta tags', () => {
+    const metadata = metadataOf(
+      `<meta property="og:title" content="Basil on a windowsill">
+      <meta property="og:description" content="Keep it alive all summer.">
+      <meta property="og:title" content="Second title">
+      <meta name="twitter:card" content="summary_large_image">
+      <meta name="author" content="Maya Ortiz">
+      <meta property="article:published_time" content="2025-03-14T09:30:00Z">`
+    )
+
+    expect(metadata).toMatchObject({
+      openGraph: {
+        title: 'Basil on a windowsill',
+        description: 'Keep it alive all summer.',
+      },
+      twitter: { card: 'summary_large_image' },
+      description: 'Keep it alive all summer.',
+      author: 'Maya Ortiz',
+      publishedAt: '2025-03-14T09:30:00Z',
+    })
+  })
+})
+
+describe('buildMarkupReport', () => {
+  it('reports present and missing markup', () => {
+    const checks = buildMarkupReport(
+      metadataOf(
+        jsonLd({
+          '@context': 'https://schema.org',
+          '@type': 'FAQPage',
+          mainEntity: [{ '@type': 'Question' }, { '@type': 'Question' }],
+        }) + '<meta name="author" content="Maya Ortiz">'
+      )
+    )
+    const status = Object.fromEntries(
+      checks.map((check) => [check.id, check.status])
+    )
+
+    expect(status).toEqual({
+      'faq-page': 'present',
+      article: 'missing',
+      author: 'present',
+      'published-date': 'missing',
+      'open-graph': 'missing',
+      'twitter-card': 'missing',
+      product: 'missing',
+      'how-to': 'missing',
+    })
+    expect(checks[0].detail).toBe('2 questions (JSON-LD)')
+  })
+
+  it('leads with a check for JSON-LD that could not be parsed', () => {
+    const [first] = buildMarkupReport(
+      metadataOf('<script type="application/ld+json">{oops</script>')
+    )
+
+    expect(first).toMatchObject({ id: 'invalid-json-ld', status: 'invalid' })
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * PDF extraction on real files: compressed streams, an embedded font
+ * with a ToUnicode CMap, UTF-16 info strings and encryption
+ */
+
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { parsePdf } from '@/utils/pdf-parser'
+import { parsePdfDocument } from '@/utils/document-parser'
+import { ParsingError } from '@/types/scraping-errors'
+
+function readFixture(name: string): Uint8Array {
+  return new Uint8Array(
+    readFileSync(new URL(`./fixtures/pdf/${name}`, import.meta.url))
+  )
+}
+
+describe('parsePdf', () => {
+  it('extracts text drawn with an embedded font through its ToUnicode CMap', async () => {
+    const pdf = await parsePdf(readFixture('embedded-font.pdf'))
+
+    expect(pdf.pageCount).toBe(2)
+    expect(pdf.text).toMatch(/^Qualité de l’eau à Zürich\n/)
+    expect(pdf.text).toContain('99,97 % des échantillons')
+    expect(pdf.text).toContain('le fer et le manganèse')
+    expect(pdf.text).toContain('« eau propre »')
+    // Pages are separated by a blank line
+    expect(pdf.text).toMatch(/robinet\.\n\nPage deux : les résultats/)
+  })
+
+  it('decodes UTF-16 info strings and PDF dates', async () => {
+    const { info } = await parsePdf(readFixture('embedded-font.pdf'))
+
+    expect(info).toEqual({
+      title: 'Qualité de l’eau — rapport annuel 2024',
+      author: 'Zoë Brontë',
+      subject: 'Résultats des analyses d’eau potable à Zürich',
+      keywords: 'eau, qualité, 2024',
+      createdAt: '2024-05-02T09:30:00.000Z',
+      modifiedAt: '2024-06-15T14:00:00.000Z',
+    })
+  })
+
+  it('rejects password-protected PDFs', async () => {
+    const attempt = parsePdf(readFixture('encrypted.pdf'))
+
+    await expect(attempt).rejects.toBeInstanceOf(ParsingError)
+    await expect(attempt).rejects.toThrow('Encrypted PDFs are not supported')
+  })
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(
+      parsePdf(new TextEncoder().encode('<html><body>Not a PDF</body></html>'))
+    ).rejects.toThrow('Not a PDF document')
+  })
+})
+
+describe('parsePdfDocument', () => {
+  it('uses the info dictionary for the title and metadata', async () => {
+    const article = await parsePdfDocument(
+      readFixture('embedded-font.pdf'),
+      'https://example.com/reports/qualite-eau-2024.pdf'
+    )
+
+    expect(article.title).toBe('Qualité de l’eau — rapport annuel 2024')
+    expect(article.pageMetadata.author).toBe('Zoë Brontë')
+    expect(article.pageMetadata.publishedAt).toBe('2024-05-02T09:30:00.000Z')
+    expect(article.wordCount).toBeGreaterThan(50)
+  })
+})
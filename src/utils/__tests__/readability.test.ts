@@ -0,0 +1,117 @@
+/**
+ * Readability extraction on saved pages: article text, boilerplate left
+ * out, and confidence for article-like versus listing pages
+ */
+
+import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { parseHTML } from 'linkedom'
+import { parseArticleContent } from '@/utils/content-parser'
+import { extractReadableContent } from '@/utils/readability'
+
+const CONFIDENT = 0.8 // Article pages
+const UNCERTAIN = 0.5 // Link lists and other non-articles stay below this
+
+function parseFixture(name: string) {
+  const html = readFileSync(
+    new URL(`./fixtures/readability/${name}.html`, import.meta.url),
+    'utf8'
+  )
+  return parseArticleContent(html, 'https://example.com/')
+}
+
+describe('readability fixtures', () => {
+  it('extracts a news article without navigation, share or related links', () => {
+    const article = parseFixture('news-article')
+
+    expect(article.content).toMatch(/^The city council voted nine to two/)
+    expect(article.content).toContain(
+      'detailed designs are expected to be published in the autumn.'
+    )
+    expect(article.content).not.toMatch(
+      /Search the Gazette|morning briefing|Share on|Related stories|All rights reserved/
+    )
+    expect(article.extractionConfidence).toBeGreaterThanOrEqual(CONFIDENT)
+  })
+
+  it('extracts a blog post without its comments and sidebar', () => {
+    const article = parseFixture('blog-post')
+
+    expect(article.content).toContain('## How to convert yours')
+    expect(article.content).toContain(
+      '2.  Mix it with 50 grams of flour and 25 grams of water'
+    )
+    expect(article.content).not.toMatch(
+      /Leave a reply|Write your comment|rye starters|About me|Archives/
+    )
+    expect(article.extractionConfidence).toBeGreaterThanOrEqual(CONFIDENT)
+  })
+
+  it('keeps tables and code on a docs page but drops the feedback form', () => {
+    const article = parseFixture('docs-page')
+
+    expect(article.content).toContain('# Configuring retries')
+    expect(article.content).toContain('`max_retries`')
+    expect(article.content).toContain('queue = "orders"')
+    expect(article.content).not.toMatch(
+      /Was this page helpful|Tell us more|Installation|Dead-letter queues →/
+    )
+    expect(article.extractionConfidence).toBeGreaterThanOrEqual(CONFIDENT)
+  })
+
+  it('has low confidence for a listing page', () => {
+    const article = parseFixture('listing-page')
+
+    expect(article.content).toContain('Winter birds to look for')
+    expect(article.extractionConfidence).toBeLessThan(UNCERTAIN)
+  })
+
+  it('keeps a page wrapped in one big form and drops the form widgets in it', () => {
+    const article = parseFixture('form-wrapped-page')
+
+    expect(article.content).toMatch(/^Every year we test the drinking water/)
+    expect(article.content).toContain('Lead levels continued to fall')
+    expect(article.content).not.toMatch(
+      /Find your supply zone|Postcode|Look up|2023|wEPDwUK/
+    )
+    expect(article.extractionConfidence).toBeGreaterThanOrEqual(CONFIDENT)
+  })
+})
+
+describe('extractReadableContent', () => {
+  const paragraph = (n: number) =>
+    `<p>Paragraph ${n} of the report, which explains the findings, the method and the limits of the survey in plain words.</p>`
+
+  it('keeps article paragraphs placed directly in a page-wide form', () => {
+    const { document } = parseHTML(
+      `<html><body><form id="aspnetForm">
+        <input type="hidden" name="__VIEWSTATE" value="abc">
+        ${[1, 2, 3, 4, 5].map(paragraph).join('')}
+      </form></body></html>`
+    )
+
+    const readable = extractReadableContent(document)
+
+    expect(readable?.html).toContain('Paragraph 5 of the report')
+    expect(readable?.html).not.toContain('__VIEWSTATE')
+  })
+
+  it('drops link-heavy and control-heavy forms inside the article', () => {
+    const { document } = parseHTML(
+      `<html><body><article>
+        ${[1, 2, 3].map(paragraph).join('')}
+        <form action="/poll"><p>Did you find the report useful?</p>
+          <label><input type="radio" name="a"> Yes</label>
+          <label><input type="radio" name="a"> No</label></form>
+        <fieldset><p><a href="/a">Download the data</a> or <a href="/b">read the summary</a></p></fieldset>
+        ${[4, 5].map(paragraph).join('')}
+      </article></body></html>`
+    )
+
+    const readable = extractReadableContent(document)
+
+    expect(readable?.html).toContain('Paragraph 5 of the report')
+    expect(readable?.html).not.toContain('find the report useful')
+    expect(readable?.html).not.toContain('Download the data')
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * robots.txt matching (RFC 9309): group selection by exact product token,
+ * longest-rule precedence, wildcards, and missing files
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { isPathAllowed, parseRobotsTxt } from '@/utils/robots-txt'
+import { fetchRobotsTxt } from '@/services/scraper.service'
+
+describe('isPathAllowed group selection', () => {
+  const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /private/
+
+User-agent: GPTBot
+User-agent: OAI-SearchBot/1.0
+Disallow: /
+
+User-agent: GPT
+Allow: /
+`)
+
+  it('applies the group naming the product token, case-insensitively', () => {
+    expect(isPathAllowed(robots, 'gptbot', '/articles/1')).toBe(false)
+    expect(isPathAllowed(robots, 'GPTBot', '/articles/1')).toBe(false)
+  })
+
+  it('ignores a version after the token in the User-agent line', () => {
+    expect(isPathAllowed(robots, 'OAI-SearchBot', '/articles/1')).toBe(false)
+  })
+
+  it('does not apply a group whose token is only a substring', () => {
+    const substring = parseRobotsTxt(`
+User-agent: Bot
+Disallow: /
+
+User-agent: *
+Allow: /
+`)
+
+    expect(isPathAllowed(substring, 'GPTBot', '/articles/1')).toBe(true)
+    expect(isPathAllowed(robots, 'GPT', '/private/page')).toBe(true)
+  })
+
+  it('falls back to "*" only when no group names the token', () => {
+    expect(isPathAllowed(robots, 'PerplexityBot', '/articles/1')).toBe(true)
+    expect(isPathAllowed(robots, 'PerplexityBot', '/private/page')).toBe(false)
+    // GPT has its own group, so the "*" Disallow does not apply to it
+    expect(isPathAllowed(robots, 'GPT', '/private/page')).toBe(true)
+  })
+
+  it('combines every group that names the token', () => {
+    const split = parseRobotsTxt(`
+User-agent: ClaudeBot
+Disallow: /drafts/
+
+User-agent: ClaudeBot
+Disallow: /admin/
+`)
+
+    expect(isPathAllowed(split, 'ClaudeBot', '/drafts/1')).toBe(false)
+    expect(isPathAllowed(split, 'ClaudeBot', '/admin/')).toBe(false)
+    expect(isPathAllowed(split, 'ClaudeBot', '/posts/1')).toBe(true)
+  })
+})
+
+describe('isPathAllowed rule precedence', () => {
+  it('lets the longest matching rule win', () => {
+    const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /blog/
+Allow: /blog/public/
+Disallow: /blog/public/drafts/
+`)
+
+    expect(isPathAllowed(robots, 'GPTBot', '/blog/post')).toBe(false)
+    expect(isPathAllowed(robots, 'GPTBot', '/blog/public/post')).toBe(true)
+    expect(isPathAllowed(robots, 'GPTBot', '/blog/public/drafts/1')).toBe(false)
+  })
+
+  it('lets Allow win a tie with Disallow', () => {
+    const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /page
+Allow: /page
+`)
+
+    expect(isPathAllowed(robots, 'GPTBot', '/page')).toBe(true)
+  })
+
+  it('treats an empty Disallow as allowing everything', () => {
+    const robots = parseRobotsTxt(`
+User-agent: *
+Disallow:
+`)
+
+    expect(isPathAllowed(robots, 'GPTBot', '/anything')).toBe(true)
+  })
+})
+
+describe('isPathAllowed wildcards', () => {
+  const robots = parseRobotsTxt(`
+User-agent: *
+Disallow: /*.pdf$
+Disallow: /search*q=
+Allow: /files/*.pdf$
+`)
+
+  it('anchors "$" rules at the end of the path', () => {
+    expect(isPathAllowed(robots, 'GPTBot', '/report.pdf')).toBe(false)
+    expect(isPathAllowed(robots, 'GPTBot', '/report.pdf?download=1')).toBe(true)
+    expect(isPathAllowed(robots, 'GPTBot', '/report.pdf.html')).toBe(true)
+  })
+
+  it('matches "*" against any run of characters, query string included', () => {
+    expect(isPathAllowed(robots, 'GPTBot', '/search?q=ai')).toBe(false)
+    expect(isPathAllowed(robots, 'GPTBot', '/search/results?page=2&q=ai')).toBe(false)
+    expect(isPathAllowed(robots, 'GPTBot', '/search?page=2')).toBe(true)
+  })
+
+  it('compares wildcard rules by length like any other rule', () => {
+    expect(isPathAllowed(robots, 'GPTBot', '/files/guide.pdf')).toBe(true)
+  })
+})
+
+describe('missing robots.txt', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('allows everything when the file is empty', () => {
+    expect(isPathAllowed(parseRobotsTxt(''), 'GPTBot', '/')).toBe(true)
+  })
+
+  it('allows everything when the site has no robots.txt', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('Not Found', { status: 404 }))
+    )
+
+    const robots = await fetchRobotsTxt('https://no-robots.example.org')
+
+    expect(robots).not.toBeNull()
+    expect(isPathAllowed(robots!, 'ArticleAnalyzerBot', '/private/')).toBe(true)
+  })
+
+  it('reports an unreachable robots.txt as unknown', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('Unavailable', { status: 503 }))
+    )
+
+    expect(await fetchRobotsTxt('https://down.example.org')).toBeNull()
+  })
+})
@@ -0,0 +1,333 @@
+/**
+ * Article Analyzer - AI Readiness Audit
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: AI-readiness audit
+ *
+ * Scores the deterministic checks that affect how LLM crawlers see a page:
+ * robots.txt access for AI crawlers, llms.txt, meta robots, X-Robots-Tag,
+ * canonical consistency, content-to-boilerplate ratio and headings.
+ */
+
+import { matchTargetUrl } from '@/utils/citation-parser'
+import { isPathAllowed, type RobotsTxt } from '@/utils/robots-txt'
+import type { ParsedArticle } from '@/utils/content-parser'
+import {
+  AI_CRAWLERS,
+  type AiReadinessAudit,
+  type ReadinessCheck,
+  type ReadinessStatus,
+} from '@/types/ai-readiness'
+
+const BLOCKING_DIRECTIVES = ['noindex', 'none']
+const LIMITING_DIRECTIVES = ['nosnippet', 'max-snippet:0', 'noai']
+const GOOD_CONTENT_RATIO = 0.5
+const MIN_CONTENT_RATIO = 0.25
+
+/**
+ * What the audit is computed from
+ */
+export interface ReadinessAuditInput {
+  url: string // Submitted URL
+  article: ParsedArticle
+  robotsTxt: RobotsTxt | null // null when robots.txt could not be fetched
+  hasLlmsTxt: boolean | null // null when llms.txt could not be checked
+}
+
+/**
+ * Run every check and score the page out of 100
+ * A passing check earns its weight, a warning half of it
+ */
+export function buildReadinessAudit(
+  input: ReadinessAuditInput
+): AiReadinessAudit {
+  const pageUrl = input.article.finalUrl ?? input.url
+  const crawlerAccess = AI_CRAWLERS.map((crawler) => ({
+    userAgent: crawler.userAgent,
+    label: crawler.label,
+    allowed: input.robotsTxt
+      ? isPathAllowed(input.robotsTxt, crawler.userAgent, getRequestPath(pageUrl))
+      : null,
+  }))
+
+  const checks: ReadinessCheck[] = [
+    checkCrawlerAccess(crawlerAccess),
+    checkLlmsTxt(input.hasLlmsTxt),
+    checkMetaRobots(input.article.signals.metaRobots),
+    checkXRobotsTag(input.article.xRobotsTag),
+    checkCanonical(input.url, input.article),
+    checkContentRatio(input.article),
+    checkHeadings(input.article.signals.headings),
+  ]
+
+  const total = checks.reduce((sum, check) => sum + check.weight, 0)
+  const earned = checks.reduce(
+    (sum, check) =>
+      sum +
+      (check.status === 'pass'
+        ? check.weight
+        : check.status === 'warn'
+          ? check.weight / 2
+          : 0),
+    0
+  )
+
+  return {
+    score: total > 0 ? Math.round((earned / total) * 100) : 0,
+    checks,
+    crawlerAccess,
+    auditedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * robots.txt must let the AI crawlers fetch the page
+ */
+function checkCrawlerAccess(
+  access: AiReadinessAudit['crawlerAccess']
+): ReadinessCheck {
+  const check = { id: 'robots-txt', label: 'AI crawlers allowed by robots.txt', weight: 25 }
+  const blocked = access.filter((crawler) => crawler.allowed === false)
+
+  if (access.some((crawler) => crawler.allowed === null)) {
+    return {
+      ...check,
+      status: 'warn',
+      detail: 'robots.txt could not be fetched, so AI crawler access is unknown',
+    }
+  }
+
+  if (blocked.length === 0) {
+    return {
+      ...check,
+      status: 'pass',
+      detail: `All ${access.length} audited AI crawlers may fetch this page`,
+    }
+  }
+
+  return {
+    ...check,
+    status: blocked.length === access.length ? 'fail' : 'warn',
+    detail: `robots.txt blocks ${blocked.map((crawler) => crawler.userAgent).join(', ')}`,
+  }
+}
+
+/**
+ * llms.txt is an emerging convention, so a missing file is only a warning
+ */
+function checkLlmsTxt(hasLlmsTxt: boolean | null): ReadinessCheck {
+  const check = { id: 'llms-txt', label: 'llms.txt', weight: 5 }
+
+  if (hasLlmsTxt) {
+    return { ...check, status: 'pass', detail: '/llms.txt is published' }
+  }
+
+  return {
+    ...check,
+    status: 'warn',
+    detail:
+      hasLlmsTxt === null
+        ? '/llms.txt could not be checked'
+        : 'No /llms.txt; it gives LLMs a curated summary of the site',
+  }
+}
+
+/**
+ * Meta robots (generic, Googlebot or AI crawler specific) must not block indexing
+ */
+function checkMetaRobots(metaRobots: Record<string, string>): ReadinessCheck {
+  const check = { id: 'meta-robots', label: 'Meta robots', weight: 20 }
+  const tags = Object.entries(metaRobots)
+
+  if (tags.length === 0) {
+    return {
+      ...check,
+      status: 'pass',
+      detail: 'No meta robots tag (defaults to index, follow)',
+    }
+  }
+
+  const worst = tags
+    .map(([name, content]) => ({
+      name,
+      content,
+      status: classifyDirectives(content),
+    }))
+    .sort((a, b) => statusRank(a.status) - statusRank(b.status))[0]
+
+  return {
+    ...check,
+    status: worst.status,
+    detail:
+      worst.status === 'pass'
+        ? `No blocking directives (${tags.map(([name, content]) => `${name}: ${content}`).join('; ')})`
+        : `<meta name="${worst.name}" content="${worst.content}"> ${
+            worst.status === 'fail'
+              ? 'keeps the page out of search and AI answers'
+              : 'limits how much of the page AI answers can quote'
+          }`,
+  }
+}
+
+/**
+ * The X-Robots-Tag response header must not block indexing
+ */
+function checkXRobotsTag(header: string | undefined): ReadinessCheck {
+  const check = { id: 'x-robots-tag', label: 'X-Robots-Tag header', weight: 15 }
+
+  if (!header) {
+    return { ...check, status: 'pass', detail: 'No X-Robots-Tag header' }
+  }
+
+  const status = classifyDirectives(header)
+
+  return {
+    ...check,
+    status,
+    detail:
+      status === 'pass'
+        ? `X-Robots-Tag: ${header}`
+        : `X-Robots-Tag: ${header} ${
+            status === 'fail'
+              ? 'keeps the page out of search and AI answers'
+              : 'limits how much of the page AI answers can quote'
+          }`,
+  }
+}
+
+/**
+ * The canonical URL should point at the page itself
+ */
+function checkCanonical(url: string, article: ParsedArticle): ReadinessCheck {
+  const check = { id: 'canonical', label: 'Canonical URL', weight: 15 }
+  const { canonicalUrl, ogUrl } = article
+  const pageUrls = [url, article.finalUrl].filter(
+    (candidate): candidate is string => Boolean(candidate)
+  )
+  const isSelf = (candidate: string) =>
+    pageUrls.some((pageUrl) => matchTargetUrl(pageUrl, candidate) === 'exact')
+
+  if (!canonicalUrl) {
+    return {
+      ...check,
+      status: 'warn',
+      detail: 'No <link rel="canonical">; engines must guess which URL to cite',
+    }
+  }
+
+  if (!isSelf(canonicalUrl)) {
+    return {
+      ...check,
+      status: 'fail',
+      detail: `Canonical points to ${canonicalUrl}; AI engines may cite that URL instead`,
+    }
+  }
+
+  if (ogUrl && matchTargetUrl(canonicalUrl, ogUrl) !== 'exact') {
+    return {
+      ...check,
+      status: 'warn',
+      detail: `og:url (${ogUrl}) does not match the canonical URL`,
+    }
+  }
+
+  return { ...check, status: 'pass', detail: 'Canonical URL points to this page' }
+}
+
+/**
+ * Most of the page's text should be the article, not navigation and widgets
+ */
+function checkContentRatio(article: ParsedArticle): ReadinessCheck {
+  const check = { id: 'content-ratio', label: 'Content-to-boilerplate ratio', weight: 10 }
+  const pageWords = article.signals.pageWordCount
+  const ratio = pageWords > 0 ? Math.min(article.wordCount / pageWords, 1) : 0
+  const percent = Math.round(ratio * 100)
+
+  return {
+    ...check,
+    status:
+      ratio >= GOOD_CONTENT_RATIO
+        ? 'pass'
+        : ratio >= MIN_CONTENT_RATIO
+          ? 'warn'
+          : 'fail',
+    detail: `${percent}% of the page's text is article content (${article.wordCount} of ${pageWords} words)`,
+  }
+}
+
+/**
+ * One H1 and subheadings without skipped levels
+ */
+function checkHeadings(headings: { level: number }[]): ReadinessCheck {
+  const check = { id: 'headings', label: 'Heading structure', weight: 10 }
+
+  if (headings.length === 0) {
+    return {
+      ...check,
+      status: 'fail',
+      detail: 'No headings; engines rely on them to find answerable sections',
+    }
+  }
+
+  const h1Count = headings.filter((heading) => heading.level === 1).length
+  const skipped = headings.some(
+    (heading, index) =>
+      index > 0 && heading.level > headings[index - 1].level + 1
+  )
+  const problems = [
+    h1Count === 0 && 'no H1',
+    h1Count > 1 && `${h1Count} H1s`,
+    skipped && 'skipped heading levels',
+  ].filter((problem): problem is string => Boolean(problem))
+
+  return {
+    ...check,
+    status: problems.length > 0 ? 'warn' : 'pass',
+    detail:
+      problems.length > 0
+        ? `${headings.length} headings with ${problems.join(', ')}`
+        : `One H1 and ${headings.length - 1} subheadings with no skipped levels`,
+  }
+}
+
+/**
+ * Classify a comma-separated list of robots directives
+ * User-agent prefixes ("googlebot: noindex") are ignored
+ */
+function classifyDirectives(value: string): ReadinessStatus {
+  const directives = value
+    .toLowerCase()
+    .split(',')
+    .map((directive) =>
+      directive
+        .trim()
+        .replace(/^[a-z0-9_-]+:\s*(?=[a-z])/, '')
+        .replace(/\s+/g, '')
+    )
+
+  if (directives.some((directive) => BLOCKING_DIRECTIVES.includes(directive))) {
+    return 'fail'
+  }
+
+  if (directives.some((directive) => LIMITING_DIRECTIVES.includes(directive))) {
+    return 'warn'
+  }
+
+  return 'pass'
+}
+
+function statusRank(status: ReadinessStatus): number {
+  return status === 'fail' ? 0 : status === 'warn' ? 1 : 2
+}
+
+/**
+ * Path and query string as a crawler would request them
+ */
+function getRequestPath(url: string): string {
+  try {
+    const parsed = new URL(url)
+    return `${parsed.pathname}${parsed.search}`
+  } catch {
+    return '/'
+  }
+}
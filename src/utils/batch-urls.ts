@@ -0,0 +1,87 @@
+/**
+ * Batch URL Parser
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Batch submissions
+ *
+ * Extracts candidate URLs from a pasted list or CSV text.
+ * Results are unvalidated; the batch service sanitizes and validates them.
+ */
+
+const URL_LIKE_PATTERN = /^https?:\/\//i
+
+/**
+ * Split a pasted list into URLs (one per line or whitespace-separated)
+ */
+export function parseUrlList(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0)
+}
+
+/**
+ * Extract URLs from CSV text
+ *
+ * Uses the column headed `url` when present, otherwise the first cell
+ * in each row that looks like a URL.
+ */
+export function parseCsvUrls(text: string): string[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line) => parseCsvLine(line))
+    .filter((cells) => cells.some((cell) => cell.length > 0))
+
+  if (rows.length === 0) {
+    return []
+  }
+
+  const urlColumn = rows[0].findIndex(
+    (cell) => cell.toLowerCase() === 'url'
+  )
+
+  if (urlColumn >= 0) {
+    return rows
+      .slice(1)
+      .map((cells) => cells[urlColumn] ?? '')
+      .filter((cell) => cell.length > 0)
+  }
+
+  return rows
+    .map((cells) => cells.find((cell) => URL_LIKE_PATTERN.test(cell)))
+    .filter((cell): cell is string => cell !== undefined)
+}
+
+/**
+ * Split one CSV line into trimmed cells (supports quoted cells)
+ */
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        current += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  cells.push(current.trim())
+  return cells
+}
@@ -5,10 +5,14 @@
  * Stories: US-4.2, US-4.3
  *
  * Parses OpenAI Responses API output to extract citations and sources.
- * Detects if target URL appears in citations or sources.
+ * Detects if target URL appears in citations or sources (for any provider),
+ * matching the exact page, its section (path prefix) or its whole site.
  */
 
+import { getDomain } from 'tldts'
+import { MATCH_MODES } from '@/types/search-testing'
 import type {
+  MatchMode,
   CitationInfo,
   SourceInfo,
   ResponsesAPIOutput,
@@ -81,38 +85,207 @@ export function extractAllSources(response: ResponsesAPIOutput): string[] {
 }
 
 /**
- * Check if target URL is found in citations
+ * Check if target URL (or any of its aliases) is found in citations
+ * Returns the strictest match within the allowed mode (earliest position on ties)
  */
 export function isTargetInCitations(
-  targetUrl: string,
-  citations: CitationInfo[]
-): { found: boolean; position?: number } {
-  const normalizedTarget = normalizeUrl(targetUrl)
+  targetUrl: string | string[],
+  citations: CitationInfo[],
+  mode: MatchMode = 'exact'
+): { found: boolean; position?: number; matchType?: MatchMode } {
+  let best: { position: number; matchType: MatchMode } | null = null
 
   for (const citation of citations) {
-    const normalizedCitation = normalizeUrl(citation.url)
+    const matchType = matchAnyTarget(targetUrl, citation.url, mode)
 
-    if (normalizedCitation === normalizedTarget) {
-      return { found: true, position: citation.position }
+    if (matchType && (!best || isStricter(matchType, best.matchType))) {
+      best = { position: citation.position, matchType }
     }
   }
 
-  return { found: false }
+  return best ? { found: true, ...best } : { found: false }
 }
 
 /**
- * Check if target URL is found in sources
+ * Check if target URL (or any of its aliases) is found in sources
+ * Returns the strictest match within the allowed mode
  */
 export function isTargetInSources(
+  targetUrl: string | string[],
+  sources: string[],
+  mode: MatchMode = 'exact'
+): { found: boolean; matchType?: MatchMode } {
+  let best: MatchMode | undefined
+
+  for (const source of sources) {
+    const matchType = matchAnyTarget(targetUrl, source, mode)
+
+    if (matchType && (!best || isStricter(matchType, best))) {
+      best = matchType
+    }
+  }
+
+  return best ? { found: true, matchType: best } : { found: false }
+}
+
+/**
+ * Compare a URL against the target
+ * Returns the strictest mode that matches, or null if none up to `mode` does
+ */
+export function matchTargetUrl(
   targetUrl: string,
-  sources: string[]
-): boolean {
-  const normalizedTarget = normalizeUrl(targetUrl)
+  url: string,
+  mode: MatchMode = 'exact'
+): MatchMode | null {
+  if (normalizeUrl(url) === normalizeUrl(targetUrl)) {
+    return 'exact'
+  }
+
+  if (mode === 'exact') {
+    return null
+  }
+
+  const target = parseUrl(targetUrl)
+  const candidate = parseUrl(url)
+
+  if (!target || !candidate) {
+    return null
+  }
+
+  const prefix = getPathPrefix(target.pathname)
+  if (
+    prefix &&
+    candidate.hostname === target.hostname &&
+    withTrailingSlash(candidate.pathname).startsWith(prefix)
+  ) {
+    return 'path_prefix'
+  }
+
+  if (
+    mode === 'domain' &&
+    getRegistrableDomain(candidate.hostname) ===
+      getRegistrableDomain(target.hostname)
+  ) {
+    return 'domain'
+  }
 
-  return sources.some((source) => {
-    const normalizedSource = normalizeUrl(source)
-    return normalizedSource === normalizedTarget
-  })
+  return null
+}
+
+/**
+ * Collect the submitted URL and its known aliases (deduplicated)
+ * AI engines often cite the canonical or post-redirect URL instead
+ */
+export function getTargetUrls(
+  url: string,
+  aliases?: {
+    finalUrl?: string
+    canonicalUrl?: string
+    ampUrl?: string
+    ogUrl?: string
+  } | null
+): string[] {
+  const candidates = [
+    url,
+    aliases?.finalUrl,
+    aliases?.canonicalUrl,
+    aliases?.ogUrl,
+    aliases?.ampUrl,
+  ]
+  const seen = new Set<string>()
+  const urls: string[] = []
+
+  for (const candidate of candidates) {
+    if (candidate && !seen.has(normalizeUrl(candidate))) {
+      seen.add(normalizeUrl(candidate))
+      urls.push(candidate)
+    }
+  }
+
+  return urls
+}
+
+/**
+ * Check whether a value is a supported match mode
+ */
+export function isMatchMode(value: unknown): value is MatchMode {
+  return (
+    typeof value === 'string' &&
+    (MATCH_MODES as readonly string[]).includes(value)
+  )
+}
+
+/**
+ * Get the registrable domain of a hostname (e.g. blog.example.co.uk -> example.co.uk)
+ * Uses the Public Suffix List, private section included, so sites on shared
+ * hosts (alice.github.io, shop.myshopify.com) are separate domains
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+
+  // IP addresses and single-label hosts have no registrable parent
+  return getDomain(host, { allowPrivateDomains: true }) ?? host
+}
+
+/**
+ * Strictest match of a URL against any of the target URLs
+ */
+function matchAnyTarget(
+  targetUrl: string | string[],
+  url: string,
+  mode: MatchMode
+): MatchMode | null {
+  let best: MatchMode | null = null
+
+  for (const target of Array.isArray(targetUrl) ? targetUrl : [targetUrl]) {
+    const matchType = matchTargetUrl(target, url, mode)
+    if (matchType && (!best || isStricter(matchType, best))) {
+      best = matchType
+    }
+  }
+
+  return best
+}
+
+/**
+ * Whether match mode a is stricter than b
+ */
+function isStricter(a: MatchMode, b: MatchMode): boolean {
+  return MATCH_MODES.indexOf(a) < MATCH_MODES.indexOf(b)
+}
+
+/**
+ * Directory of a path, used as the section prefix (e.g. /blog/post -> /blog/)
+ * Returns null for top-level pages, where the prefix would be the whole site
+ */
+function getPathPrefix(pathname: string): string | null {
+  const trimmed = pathname.replace(/\/+$/, '')
+  const prefix = trimmed.substring(0, trimmed.lastIndexOf('/') + 1)
+
+  return prefix.length > 1 ? prefix : null
+}
+
+/**
+ * Ensure a path ends with a slash so prefixes match whole segments
+ */
+function withTrailingSlash(pathname: string): string {
+  return pathname.endsWith('/') ? pathname : `${pathname}/`
+}
+
+/**
+ * Parse a URL into a www-less hostname and pathname
+ */
+function parseUrl(url: string): { hostname: string; pathname: string } | null {
+  try {
+    const parsed = new URL(url)
+    let hostname = parsed.hostname.toLowerCase()
+    if (hostname.startsWith('www.')) {
+      hostname = hostname.substring(4)
+    }
+    return { hostname, pathname: parsed.pathname }
+  } catch {
+    return null
+  }
 }
 
 /**
@@ -143,9 +316,22 @@ function normalizeUrl(url: string): string {
   }
 }
 
+/**
+ * Extract the hostname of a URL without the www prefix
+ * Returns null if the URL cannot be parsed
+ */
+export function extractDomain(url: string): string | null {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase()
+    return hostname.startsWith('www.') ? hostname.substring(4) : hostname
+  } catch {
+    return null
+  }
+}
+
 /**
  * Clean URL by removing trailing punctuation and whitespace
  */
-function cleanUrl(url: string): string {
+export function cleanUrl(url: string): string {
   return url.replace(/[,\.\)\]\>]+$/, '').trim()
 }
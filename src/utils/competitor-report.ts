@@ -0,0 +1,205 @@
+/**
+ * Competitor Report Builder
+ *
+ * Epic: Epic 5 - Results Display
+ * Stories: Competitor share-of-voice
+ *
+ * Aggregates stored citations and sources by domain to show which sites
+ * AI search engines cite instead of the target, per question and overall.
+ */
+
+import { extractDomain, getRegistrableDomain } from '@/utils/citation-parser'
+import type { CitationInfo, MatchMode } from '@/types/search-testing'
+import type {
+  CompetitorReport,
+  DomainShare,
+  QuestionCompetitors,
+} from '@/types/competitor-report'
+
+/**
+ * Minimal result shape needed for the report (matches stored rows)
+ */
+export interface CompetitorReportInput {
+  question: string
+  provider: string
+  allCitations: unknown
+  allSources: unknown
+}
+
+interface DomainAccumulator {
+  citationCount: number
+  sourceCount: number
+  positionTotal: number
+  questions: Set<string>
+}
+
+/**
+ * Build a share-of-voice report for a submission's results
+ * All target URLs (the submission and its aliases) count as the target.
+ * In domain match mode, so does every host on the target's registrable
+ * domain (news.example.com for example.com), as citations there count too.
+ */
+export function buildCompetitorReport(
+  targetUrls: string[],
+  results: CompetitorReportInput[],
+  matchMode: MatchMode = 'exact'
+): CompetitorReport {
+  const isTarget = createTargetMatcher(targetUrls, matchMode)
+  const targetDomain = targetUrls.length > 0 ? extractDomain(targetUrls[0]) : null
+  const overall = new Map<string, DomainAccumulator>()
+  const questions: QuestionCompetitors[] = []
+
+  for (const result of results) {
+    const perQuestion = new Map<string, DomainAccumulator>()
+    const questionKey = `${result.provider}:${result.question}`
+
+    accumulate(result, questionKey, perQuestion)
+    accumulate(result, questionKey, overall)
+
+    const domains = toDomainShares(perQuestion, isTarget)
+    const totalCitations = sumCitations(perQuestion)
+
+    questions.push({
+      question: result.question,
+      provider: result.provider,
+      totalCitations,
+      targetShareOfVoice: getTargetShare(domains),
+      domains,
+    })
+  }
+
+  const domains = toDomainShares(overall, isTarget)
+
+  return {
+    targetDomain,
+    totalCitations: sumCitations(overall),
+    targetShareOfVoice: getTargetShare(domains),
+    domains,
+    questions,
+  }
+}
+
+/**
+ * Check whether a report domain belongs to the target
+ */
+function createTargetMatcher(
+  targetUrls: string[],
+  matchMode: MatchMode
+): (domain: string) => boolean {
+  const targetDomains = new Set(
+    targetUrls.map(extractDomain).filter((d): d is string => d !== null)
+  )
+  const targetSites = new Set(Array.from(targetDomains, getRegistrableDomain))
+
+  return (domain) =>
+    targetDomains.has(domain) ||
+    (matchMode === 'domain' && targetSites.has(getRegistrableDomain(domain)))
+}
+
+/**
+ * Add one result's citations and sources to a domain map
+ */
+function accumulate(
+  result: CompetitorReportInput,
+  questionKey: string,
+  map: Map<string, DomainAccumulator>
+): void {
+  const citations = Array.isArray(result.allCitations)
+    ? (result.allCitations as CitationInfo[])
+    : []
+  const sources = Array.isArray(result.allSources)
+    ? (result.allSources as string[])
+    : []
+
+  for (const citation of citations) {
+    const entry = getEntry(map, extractDomain(citation.url))
+    if (entry) {
+      entry.citationCount++
+      entry.positionTotal += citation.position
+      entry.questions.add(questionKey)
+    }
+  }
+
+  for (const source of sources) {
+    const entry = getEntry(map, extractDomain(source))
+    if (entry) {
+      entry.sourceCount++
+    }
+  }
+}
+
+/**
+ * Get or create the accumulator for a domain
+ */
+function getEntry(
+  map: Map<string, DomainAccumulator>,
+  domain: string | null
+): DomainAccumulator | null {
+  if (!domain) {
+    return null
+  }
+
+  let entry = map.get(domain)
+  if (!entry) {
+    entry = {
+      citationCount: 0,
+      sourceCount: 0,
+      positionTotal: 0,
+      questions: new Set(),
+    }
+    map.set(domain, entry)
+  }
+  return entry
+}
+
+/**
+ * Convert accumulators to sorted domain shares
+ */
+function toDomainShares(
+  map: Map<string, DomainAccumulator>,
+  isTarget: (domain: string) => boolean
+): DomainShare[] {
+  const totalCitations = sumCitations(map)
+
+  return Array.from(map.entries())
+    .map(([domain, entry]) => ({
+      domain,
+      citationCount: entry.citationCount,
+      sourceCount: entry.sourceCount,
+      averagePosition:
+        entry.citationCount > 0
+          ? Math.round((entry.positionTotal / entry.citationCount) * 10) / 10
+          : undefined,
+      shareOfVoice:
+        totalCitations > 0
+          ? Math.round((entry.citationCount / totalCitations) * 1000) / 10
+          : 0,
+      questionCount: entry.questions.size,
+      isTarget: isTarget(domain),
+    }))
+    .sort(
+      (a, b) =>
+        b.citationCount - a.citationCount || b.sourceCount - a.sourceCount
+    )
+}
+
+/**
+ * Total citations in a domain map
+ */
+function sumCitations(map: Map<string, DomainAccumulator>): number {
+  let total = 0
+  for (const entry of map.values()) {
+    total += entry.citationCount
+  }
+  return total
+}
+
+/**
+ * Combined share of voice for the target domains (0 if never cited)
+ */
+function getTargetShare(domains: DomainShare[]): number {
+  const share = domains
+    .filter((d) => d.isTarget)
+    .reduce((sum, d) => sum + d.shareOfVoice, 0)
+  return Math.round(share * 10) / 10
+}
@@ -5,14 +5,45 @@
  * Stories: US-2.1, US-2.2
  *
  * Parses HTML content to extract article text and metadata.
- * Uses heuristics to identify main content and filter noise.
+ * Uses a Readability-style scorer to identify main content and filter noise.
  */
 
 import { parseHTML } from 'linkedom'
 import TurndownService from 'turndown'
 import { ParsingError, ContentNotFoundError } from '@/types/scraping-errors'
+import type { PageMetadata } from '@/types/page-metadata'
+import { AI_CRAWLERS, type PageSignals } from '@/types/ai-readiness'
+import { extractPageMetadata } from '@/utils/page-metadata'
+import { extractReadableContent } from '@/utils/readability'
 
 const MIN_CONTENT_LENGTH = 100 // Minimum characters for valid article
+const FALLBACK_CONFIDENCE = 0.1 // Whole body used as content
+const TRUNCATED_WORD_COUNT = 300 // Paywalled pages with fewer words are teasers
+
+// Soft paywall markers: overlay/gate class names and subscribe prompts
+const PAYWALL_CLASS_PATTERN =
+  /paywall|regwall|piano-|tp-modal|tp-container-inner|subscriber-only|subscribers-only|content-gate|article-gate|meter-wall|premium-gate/i
+const PAYWALL_TEXT_PATTERN =
+  /subscribe to (continue|keep) reading|to continue reading,? (please )?(subscribe|sign in|log in)|already a subscriber\?|(this|the rest of this) (article|content|story) is (only )?(available )?(for|to) (paid )?(subscribers|members)|become a (member|subscriber) to (read|continue)|create a free account to (continue|keep) reading/i
+// Semantic containers of the article body, most specific first
+const ARTICLE_CONTAINERS = ['[itemprop="articleBody"]', 'article', 'main']
+// Sign-up widgets within the article that are not gates
+const WIDGET_PATTERN = /newsletter|sign-?up|promo/i
+const MAX_HEADINGS = 100 // Headings kept for the AI-readiness audit
+const TEXT_NODE = 3
+const INVISIBLE_TAGS = ['script', 'style', 'noscript', 'template', 'svg']
+const MAX_APP_SHELL_TEXT = 200 // Visible characters below which a page may be an app shell
+const APP_SHELL_MOUNTS = [
+  '#root',
+  '#app',
+  '#__next',
+  '#__nuxt',
+  '#___gatsby',
+  '#svelte',
+  'app-root',
+  '[ng-app]',
+  '[data-reactroot]',
+]
 
 // Initialize Turndown service for HTML to Markdown conversion
 const turndownService = new TurndownService({
@@ -29,12 +60,26 @@ export interface ParsedArticle {
   title: string
   content: string
   wordCount: number
+  extractionConfidence: number // 0-1: how confident we are the content is the article body
+  partialContent: boolean // Soft paywall detected: content is only the teaser
+  finalUrl?: string // Response URL after redirects (set by the scraper)
+  canonicalUrl?: string // <link rel="canonical">
+  ampUrl?: string // <link rel="amphtml">
+  ogUrl?: string // <meta property="og:url">
+  pageMetadata: PageMetadata // Existing JSON-LD, microdata and social tags
+  signals: PageSignals // Meta robots, headings and page size for the AI-readiness audit
+  xRobotsTag?: string // X-Robots-Tag response header (set by the scraper)
+  renderedWith?: string // Renderer used for an app-shell page (set by the scraper)
 }
 
 /**
  * Parse HTML and extract article content
+ * Relative canonical/AMP/og URLs are resolved against baseUrl when given
  */
-export function parseArticleContent(html: string): ParsedArticle {
+export function parseArticleContent(
+  html: string,
+  baseUrl?: string
+): ParsedArticle {
   try {
     // Use linkedom for Cloudflare Workers compatibility
     const { document } = parseHTML(html)
@@ -42,24 +87,51 @@ export function parseArticleContent(html: string): ParsedArticle {
     // Extract title
     const title = extractTitle(document)
 
+    // Extract declared alternate URLs (before any elements are removed)
+    const declaredUrls = extractDeclaredUrls(document, baseUrl)
+
+    // Extract structured data (before scripts are removed)
+    const pageMetadata = extractPageMetadata(document)
+
+    // Extract crawl signals (before boilerplate is removed)
+    const signals = extractPageSignals(document)
+
+    // Look for soft paywall markers (before scripts and overlays are removed)
+    const paywallMarkers = findPaywallMarkers(document)
+
     // Extract main content
-    const content = extractMainContent(document)
+    const { content, confidence: extractionConfidence } =
+      extractMainContent(document)
 
-    // Validate content length
-    if (content.length < MIN_CONTENT_LENGTH) {
+    // Calculate word count
+    const wordCount = content.split(/\s+/).filter((word) => word.length > 0)
+      .length
+
+    // A truncated body behind paywall markers is the teaser of the article
+    const partialContent =
+      paywallMarkers.length > 0 &&
+      (wordCount < TRUNCATED_WORD_COUNT ||
+        paywallMarkers.includes('isAccessibleForFree'))
+
+    // Validate content length (a paywall teaser only needs some content)
+    if (
+      content.length < MIN_CONTENT_LENGTH &&
+      !(partialContent && content.length > 0)
+    ) {
       throw new ContentNotFoundError(
         `Article content too short (${content.length} characters). Minimum ${MIN_CONTENT_LENGTH} required.`
       )
     }
 
-    // Calculate word count
-    const wordCount = content.split(/\s+/).filter((word) => word.length > 0)
-      .length
-
     return {
       title,
       content,
       wordCount,
+      ...declaredUrls,
+      extractionConfidence,
+      partialContent,
+      pageMetadata,
+      signals,
     }
   } catch (error) {
     if (
@@ -74,6 +146,25 @@ export function parseArticleContent(html: string): ParsedArticle {
   }
 }
 
+/**
+ * Check whether static HTML looks like a single-page-app shell: almost no
+ * visible text, plus a framework mount point or scripts that build the page
+ */
+export function looksLikeAppShell(html: string): boolean {
+  const { document } = parseHTML(html)
+  const body = document.querySelector('body')
+  const text = body ? cleanText(visibleText(body)) : ''
+
+  if (text.length >= MAX_APP_SHELL_TEXT) {
+    return false
+  }
+
+  return (
+    APP_SHELL_MOUNTS.some((selector) => document.querySelector(selector)) ||
+    document.querySelectorAll('script[src]').length > 0
+  )
+}
+
 /**
  * Extract article title from document
  */
@@ -100,51 +191,224 @@ function extractTitle(document: Document): string {
 }
 
 /**
- * Extract main article content from document and convert to Markdown
+ * Extract canonical, AMP and og:url URLs declared by the page
  */
-function extractMainContent(document: Document): string {
-  // Remove unwanted elements
-  removeUnwantedElements(document)
-
-  // Try semantic HTML5 tags first
-  const article =
-    document.querySelector('article') || document.querySelector('main')
+function extractDeclaredUrls(
+  document: Document,
+  baseUrl?: string
+): Pick<ParsedArticle, 'canonicalUrl' | 'ampUrl' | 'ogUrl'> {
+  const canonical = document
+    .querySelector('link[rel="canonical"]')
+    ?.getAttribute('href')
+  const amp = document.querySelector('link[rel="amphtml"]')?.getAttribute('href')
+  const og = document
+    .querySelector('meta[property="og:url"]')
+    ?.getAttribute('content')
 
-  if (article) {
-    const html = article.innerHTML
-    return convertToMarkdown(html)
+  return {
+    canonicalUrl: resolveUrl(canonical, baseUrl),
+    ampUrl: resolveUrl(amp, baseUrl),
+    ogUrl: resolveUrl(og, baseUrl),
   }
+}
 
-  // Try common content class names
-  const contentSelectors = [
-    '.article-content',
-    '.post-content',
-    '.entry-content',
-    '.content',
-    '#content',
-    '.article-body',
-    '.post-body',
+/**
+ * Extract meta robots directives, the heading outline and the page's word count
+ */
+function extractPageSignals(document: Document): PageSignals {
+  const robotsNames = [
+    'robots',
+    'googlebot',
+    ...AI_CRAWLERS.map((crawler) => crawler.userAgent.toLowerCase()),
   ]
+  const metaRobots: Record<string, string> = {}
 
-  for (const selector of contentSelectors) {
-    const element = document.querySelector(selector)
-    if (element) {
-      const html = element.innerHTML
-      const markdown = convertToMarkdown(html)
-      if (markdown.length >= MIN_CONTENT_LENGTH) {
-        return markdown
-      }
+  document.querySelectorAll('meta[name]').forEach((meta) => {
+    const name = meta.getAttribute('name')?.trim().toLowerCase() ?? ''
+    const content = meta.getAttribute('content')?.trim()
+
+    if (content && robotsNames.includes(name)) {
+      metaRobots[name] = metaRobots[name]
+        ? `${metaRobots[name]}, ${content}`
+        : content
+    }
+  })
+
+  const headings = Array.from(
+    document.querySelectorAll('h1, h2, h3, h4, h5, h6')
+  )
+    .slice(0, MAX_HEADINGS)
+    .map((heading) => ({
+      level: Number(heading.tagName.slice(1)),
+      text: cleanText(heading.textContent || '').slice(0, 150),
+    }))
+
+  const body = document.querySelector('body')
+  const pageWordCount = body
+    ? visibleText(body).split(/\s+/).filter((word) => word.length > 0).length
+    : 0
+
+  return { metaRobots, headings, pageWordCount }
+}
+
+/**
+ * Text a reader would see, without scripts, styles and other invisible nodes
+ * (and without elements the optional skip test rejects)
+ */
+function visibleText(node: Node, skip?: (el: Element) => boolean): string {
+  if (node.nodeType === TEXT_NODE) {
+    return node.textContent || ''
+  }
+
+  const el = node as Element
+  if (
+    INVISIBLE_TAGS.includes(el.tagName?.toLowerCase()) ||
+    (el.tagName && skip?.(el))
+  ) {
+    return ''
+  }
+
+  return Array.from(node.childNodes)
+    .map((child) => visibleText(child, skip))
+    .join(' ')
+}
+
+/**
+ * Find soft paywall markers: schema.org isAccessibleForFree=false anywhere
+ * on the page, and gate class names or subscribe-to-continue prompts within
+ * the article container. Asides and newsletter sign-up widgets are left out:
+ * their "subscribe" and "premium" offers say nothing about the article
+ */
+function findPaywallMarkers(document: Document): string[] {
+  const markers: string[] = []
+
+  const notFree = Array.from(
+    document.querySelectorAll('script[type="application/ld+json"]')
+  ).some((script) =>
+    /"isAccessibleForFree"\s*:\s*(false|"false")/i.test(script.textContent || '')
+  )
+  if (notFree) {
+    markers.push('isAccessibleForFree')
+  }
+
+  const container = findArticleContainer(document)
+  if (!container) {
+    return markers
+  }
+
+  const candidates = [
+    container,
+    ...Array.from(container.querySelectorAll('[class], [id]')),
+  ].filter((el) => !isWidget(el, container))
+  const gate = candidates.find((el) => PAYWALL_CLASS_PATTERN.test(hints(el)))
+  if (gate) {
+    markers.push('paywall-element')
+  }
+
+  const text = cleanText(visibleText(container, (el) => isWidget(el, container)))
+  if (PAYWALL_TEXT_PATTERN.test(text)) {
+    markers.push('subscribe-prompt')
+  }
+
+  return markers
+}
+
+/**
+ * Whether an element is (or sits inside) an aside or sign-up widget below
+ * the article container
+ */
+function isWidget(el: Element, container: Element): boolean {
+  for (
+    let current: Element | null = el;
+    current && current !== container;
+    current = current.parentElement
+  ) {
+    if (
+      current.tagName.toLowerCase() === 'aside' ||
+      WIDGET_PATTERN.test(hints(current))
+    ) {
+      return true
+    }
+  }
+
+  return false
+}
+
+/**
+ * Class and id of an element, for class-name hints
+ */
+function hints(el: Element): string {
+  return `${el.getAttribute('class') ?? ''} ${el.getAttribute('id') ?? ''}`
+}
+
+/**
+ * The element holding the article: its semantic container, or the body
+ * of pages without one
+ */
+function findArticleContainer(document: Document): Element | null {
+  for (const selector of ARTICLE_CONTAINERS) {
+    const container = document.querySelector(selector)
+    if (container) {
+      return container
+    }
+  }
+
+  return document.querySelector('body')
+}
+
+/**
+ * Resolve a possibly relative http(s) URL, dropping anything unparseable
+ */
+function resolveUrl(
+  value: string | null | undefined,
+  baseUrl?: string
+): string | undefined {
+  if (!value?.trim()) {
+    return undefined
+  }
+
+  try {
+    const resolved = new URL(value.trim(), baseUrl)
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:'
+      ? resolved.toString()
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Extract main article content from document and convert to Markdown
+ * Falls back to the whole body (with low confidence) when no article-like
+ * content is found
+ */
+function extractMainContent(document: Document): {
+  content: string
+  confidence: number
+} {
+  // Remove unwanted elements
+  removeUnwantedElements(document)
+
+  // Score candidate nodes by text and link density (Readability-style)
+  const readable = extractReadableContent(document)
+
+  if (readable) {
+    const content = convertToMarkdown(readable.html)
+    if (content.length >= MIN_CONTENT_LENGTH) {
+      return { content, confidence: readable.confidence }
     }
   }
 
   // Fallback: get body content
   const body = document.querySelector('body')
   if (body) {
-    const html = body.innerHTML
-    return convertToMarkdown(html)
+    return {
+      content: convertToMarkdown(body.innerHTML),
+      confidence: FALLBACK_CONFIDENCE,
+    }
   }
 
-  return ''
+  return { content: '', confidence: 0 }
 }
 
 /**
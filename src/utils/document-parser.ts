@@ -0,0 +1,325 @@
+/**
+ * Article Analyzer - Document Parser Utility
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Non-HTML document analysis
+ *
+ * Extracts articles from non-HTML documents (PDF, plain text and Markdown).
+ * Each extractor returns the same ParsedArticle shape as the HTML parser,
+ * with the title and metadata taken from the document's own properties
+ * (PDF info dictionary, Markdown front matter), so FAQ generation and
+ * search testing work unchanged.
+ */
+
+import { ContentNotFoundError } from '@/types/scraping-errors'
+import type { PageMetadata } from '@/types/page-metadata'
+import type { ParsedArticle } from '@/utils/content-parser'
+import { parsePdf } from '@/utils/pdf-parser'
+
+const MIN_CONTENT_LENGTH = 100 // Minimum characters for valid article
+const MAX_TITLE_LENGTH = 150 // Longer first lines are not used as a title
+const MAX_HEADINGS = 100 // Headings kept for the AI-readiness audit
+const PDF_CONFIDENCE = 0.8 // PDF text order and spacing are reconstructed
+const TEXT_CONFIDENCE = 1 // The whole document is the article
+const SNIFF_BYTES = 1024 // Bytes checked for binary content
+
+/**
+ * Kinds of document the scraper can analyze
+ */
+export type DocumentType = 'html' | 'pdf' | 'markdown' | 'text'
+
+/**
+ * Title, properties and text of a non-HTML document
+ */
+interface DocumentContent {
+  title?: string
+  content: string
+  description?: string
+  author?: string
+  publishedAt?: string
+  modifiedAt?: string
+  headings: { level: number; text: string }[]
+}
+
+/**
+ * Work out the document type from the Content-Type header, falling back
+ * to the URL's file extension and the PDF signature for generic types
+ * Returns null for types we cannot analyze
+ */
+export function detectDocumentType(
+  contentType: string | null,
+  url: string,
+  bytes?: Uint8Array
+): DocumentType | null {
+  const mimeType = getMimeType(contentType)
+  const extension = /\.([a-z0-9]+)$/i
+    .exec(new URL(url).pathname)?.[1]
+    ?.toLowerCase()
+
+  switch (mimeType) {
+    case 'text/html':
+    case 'application/xhtml+xml':
+      return 'html'
+    case 'application/pdf':
+    case 'application/x-pdf':
+      return 'pdf'
+    case 'text/markdown':
+    case 'text/x-markdown':
+      return 'markdown'
+    case 'text/plain':
+      // Many servers send Markdown files as plain text
+      return extension === 'md' || extension === 'markdown' ? 'markdown' : 'text'
+  }
+
+  if (bytes && startsWithPdfSignature(bytes)) {
+    return 'pdf'
+  }
+
+  // Missing or generic types: trust the extension, then assume HTML
+  if (!mimeType || mimeType === 'application/octet-stream') {
+    if (extension === 'pdf') return 'pdf'
+    if (extension === 'md' || extension === 'markdown') return 'markdown'
+    if (extension === 'txt') return 'text'
+    return mimeType ? null : 'html'
+  }
+
+  return null
+}
+
+/**
+ * Check whether a Content-Type is binary (images, media, archives, PDFs...)
+ * Missing and generic types are not: the body is sniffed instead
+ */
+export function isBinaryContentType(contentType: string | null): boolean {
+  const mimeType = getMimeType(contentType)
+
+  if (!mimeType || mimeType === 'application/octet-stream') {
+    return false
+  }
+
+  return !(
+    mimeType.startsWith('text/') ||
+    /^application\/(x-)?([\w.-]+\+)?(xml|json|javascript)$/.test(mimeType)
+  )
+}
+
+/**
+ * Check whether a body looks binary: NUL bytes never appear in text
+ * (UTF-16 with a byte order mark aside)
+ */
+export function looksBinary(bytes: Uint8Array): boolean {
+  if (
+    (bytes[0] === 0xfe && bytes[1] === 0xff) ||
+    (bytes[0] === 0xff && bytes[1] === 0xfe)
+  ) {
+    return false
+  }
+
+  return bytes.subarray(0, SNIFF_BYTES).includes(0)
+}
+
+/**
+ * Parse a PDF document, using its info dictionary for title and metadata
+ */
+export async function parsePdfDocument(
+  bytes: Uint8Array,
+  url: string
+): Promise<ParsedArticle> {
+  const { text, info } = await parsePdf(bytes)
+
+  return toParsedArticle(
+    {
+      title: info.title,
+      content: text,
+      description: info.subject,
+      author: info.author,
+      publishedAt: info.createdAt,
+      modifiedAt: info.modifiedAt,
+      headings: [],
+    },
+    url,
+    PDF_CONFIDENCE
+  )
+}
+
+/**
+ * Parse a Markdown document, using its front matter (if any) for title
+ * and metadata, and its first heading as the title otherwise
+ */
+export function parseMarkdownDocument(
+  markdown: string,
+  url: string
+): ParsedArticle {
+  const { frontMatter, body } = splitFrontMatter(markdown)
+  const headings = extractMarkdownHeadings(body)
+
+  return toParsedArticle(
+    {
+      title: frontMatter.title || headings.find((h) => h.level === 1)?.text,
+      content: body.replace(/\n{3,}/g, '\n\n').trim(),
+      description: frontMatter.description || frontMatter.summary,
+      author: frontMatter.author,
+      publishedAt: frontMatter.date || frontMatter.published,
+      modifiedAt: frontMatter.updated || frontMatter.lastmod,
+      headings,
+    },
+    url,
+    TEXT_CONFIDENCE
+  )
+}
+
+/**
+ * Parse a plain text document; the first line is the title when short
+ */
+export function parseTextDocument(text: string, url: string): ParsedArticle {
+  const content = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+
+  return toParsedArticle({ content, headings: [] }, url, TEXT_CONFIDENCE)
+}
+
+/**
+ * Build the ParsedArticle shared by every document type
+ */
+function toParsedArticle(
+  document: DocumentContent,
+  url: string,
+  extractionConfidence: number
+): ParsedArticle {
+  const { content } = document
+
+  if (content.length < MIN_CONTENT_LENGTH) {
+    throw new ContentNotFoundError(
+      `Document content too short (${content.length} characters). Minimum ${MIN_CONTENT_LENGTH} required.`
+    )
+  }
+
+  const wordCount = content.split(/\s+/).filter((word) => word.length > 0)
+    .length
+
+  const pageMetadata: PageMetadata = {
+    jsonLdTypes: [],
+    invalidJsonLdCount: 0,
+    microdataTypes: [],
+    openGraph: {},
+    twitter: {},
+    description: document.description,
+    author: document.author,
+    publishedAt: document.publishedAt,
+    modifiedAt: document.modifiedAt,
+  }
+
+  return {
+    title: document.title || firstLine(content) || titleFromUrl(url),
+    content,
+    wordCount,
+    extractionConfidence,
+    partialContent: false,
+    pageMetadata,
+    signals: {
+      metaRobots: {},
+      headings: document.headings.slice(0, MAX_HEADINGS),
+      pageWordCount: wordCount,
+    },
+  }
+}
+
+/**
+ * Split YAML front matter ("---" fenced block at the top) from the body
+ * Only flat "key: value" pairs are read
+ */
+function splitFrontMatter(markdown: string): {
+  frontMatter: Record<string, string>
+  body: string
+} {
+  const normalized = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n')
+  const match = /^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/.exec(normalized)
+
+  if (!match) {
+    return { frontMatter: {}, body: normalized }
+  }
+
+  const frontMatter: Record<string, string> = {}
+  for (const line of match[1].split('\n')) {
+    const pair = /^([A-Za-z_][\w-]*)\s*:\s*(.+)$/.exec(line)
+    if (pair) {
+      frontMatter[pair[1].toLowerCase()] = pair[2]
+        .trim()
+        .replace(/^(['"])(.*)\1$/, '$2')
+    }
+  }
+
+  return { frontMatter, body: normalized.slice(match[0].length) }
+}
+
+/**
+ * ATX headings ("# Title") outside fenced code blocks
+ */
+function extractMarkdownHeadings(
+  markdown: string
+): { level: number; text: string }[] {
+  const headings: { level: number; text: string }[] = []
+  let inCodeBlock = false
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock
+      continue
+    }
+
+    const match = !inCodeBlock && /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line)
+    if (match) {
+      headings.push({ level: match[1].length, text: match[2] })
+    }
+  }
+
+  return headings
+}
+
+/**
+ * First line of the content, when it is short enough to be a title
+ */
+function firstLine(content: string): string | undefined {
+  const line = content
+    .split('\n')[0]
+    .replace(/^#+\s*/, '')
+    .trim()
+  return line && line.length <= MAX_TITLE_LENGTH ? line : undefined
+}
+
+/**
+ * Title from the URL's file name ("annual-report_2024.pdf" -> "annual report 2024"),
+ * or its host name
+ */
+function titleFromUrl(url: string): string {
+  const { hostname, pathname } = new URL(url)
+  const name = decodeURIComponent(pathname.split('/').pop() ?? '')
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/[-_]+/g, ' ')
+    .trim()
+
+  return name || hostname
+}
+
+/**
+ * Lowercased media type of a Content-Type header, without parameters
+ */
+function getMimeType(contentType: string | null): string {
+  return (contentType ?? '').split(';')[0].trim().toLowerCase()
+}
+
+/**
+ * Check for the "%PDF-" signature at the start of the bytes
+ */
+function startsWithPdfSignature(bytes: Uint8Array): boolean {
+  return (
+    bytes[0] === 0x25 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x44 &&
+    bytes[3] === 0x46 &&
+    bytes[4] === 0x2d
+  )
+}
@@ -0,0 +1,238 @@
+/**
+ * Article Analyzer - FAQ Schema Generator
+ *
+ * Epic: Epic 3 - FAQ Generation & Testing
+ * Stories: FAQ schema snippets
+ *
+ * Turns generated FAQs into snippets users can publish on their page:
+ * schema.org FAQPage JSON-LD, semantic HTML and Markdown.
+ * The JSON-LD is checked against the schema.org FAQPage rules (and
+ * Google's rich result requirements) before it is offered.
+ * Has no server-only imports so the results view can use it directly.
+ */
+
+import { escapeHtml } from '@/lib/shared/utils'
+
+/**
+ * Minimal FAQ shape needed for snippets (matches stored generatedFaqs)
+ */
+export interface FaqSnippetInput {
+  question: string
+  answer: string
+}
+
+/**
+ * schema.org FAQPage structured data
+ */
+export interface FaqPageJsonLd {
+  '@context': 'https://schema.org'
+  '@type': 'FAQPage'
+  url?: string
+  mainEntity: Array<{
+    '@type': 'Question'
+    name: string
+    acceptedAnswer: {
+      '@type': 'Answer'
+      text: string
+    }
+  }>
+}
+
+/**
+ * A structured data problem, with the JSON path it applies to
+ */
+export interface FaqSchemaIssue {
+  path: string
+  message: string
+}
+
+const HEADING = 'Frequently Asked Questions'
+const HTML_TAG_PATTERN = /<[^>]+>/
+
+/**
+ * Build FAQPage JSON-LD from FAQs
+ * Whitespace is collapsed; empty questions or answers are left for
+ * validateFaqPageJsonLd to report
+ */
+export function buildFaqPageJsonLd(
+  faqs: FaqSnippetInput[],
+  pageUrl?: string
+): FaqPageJsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'FAQPage',
+    ...(pageUrl ? { url: pageUrl } : {}),
+    mainEntity: faqs.map((faq) => ({
+      '@type': 'Question',
+      name: collapseWhitespace(faq.question),
+      acceptedAnswer: {
+        '@type': 'Answer',
+        text: collapseWhitespace(faq.answer),
+      },
+    })),
+  }
+}
+
+/**
+ * Check FAQPage JSON-LD against the schema.org rules
+ * Returns an empty array when the structured data is valid
+ */
+export function validateFaqPageJsonLd(data: unknown): FaqSchemaIssue[] {
+  const issues: FaqSchemaIssue[] = []
+
+  if (!isRecord(data)) {
+    return [{ path: '$', message: 'Structured data must be a JSON object' }]
+  }
+
+  if (data['@context'] !== 'https://schema.org') {
+    issues.push({
+      path: '@context',
+      message: '@context must be "https://schema.org"',
+    })
+  }
+
+  if (data['@type'] !== 'FAQPage') {
+    issues.push({ path: '@type', message: '@type must be "FAQPage"' })
+  }
+
+  if (data.url !== undefined && !isAbsoluteUrl(data.url)) {
+    issues.push({ path: 'url', message: 'url must be an absolute URL' })
+  }
+
+  const mainEntity = data.mainEntity
+
+  if (!Array.isArray(mainEntity) || mainEntity.length === 0) {
+    issues.push({
+      path: 'mainEntity',
+      message: 'mainEntity must list at least one Question',
+    })
+    return issues
+  }
+
+  const seen = new Set<string>()
+
+  mainEntity.forEach((question, index) => {
+    const path = `mainEntity[${index}]`
+
+    if (!isRecord(question) || question['@type'] !== 'Question') {
+      issues.push({ path, message: 'Each item must be a Question' })
+      return
+    }
+
+    const name = question.name
+
+    if (!isNonEmptyString(name)) {
+      issues.push({ path: `${path}.name`, message: 'Question name is required' })
+    } else {
+      if (HTML_TAG_PATTERN.test(name)) {
+        issues.push({
+          path: `${path}.name`,
+          message: 'Question name must be plain text',
+        })
+      }
+
+      const key = name.trim().toLowerCase()
+      if (seen.has(key)) {
+        issues.push({
+          path: `${path}.name`,
+          message: 'Questions must not be repeated',
+        })
+      }
+      seen.add(key)
+    }
+
+    const answer = question.acceptedAnswer
+
+    if (!isRecord(answer) || answer['@type'] !== 'Answer') {
+      issues.push({
+        path: `${path}.acceptedAnswer`,
+        message: 'Each Question needs exactly one acceptedAnswer of type Answer',
+      })
+      return
+    }
+
+    if (!isNonEmptyString(answer.text)) {
+      issues.push({
+        path: `${path}.acceptedAnswer.text`,
+        message: 'Answer text is required',
+      })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * JSON-LD wrapped in a script tag, safe to paste into a page's HTML
+ */
+export function renderFaqJsonLdScript(data: FaqPageJsonLd): string {
+  // Escape "<" so answer text can never close the script element
+  const json = JSON.stringify(data, null, 2).replace(/</g, '\\u003c')
+  return `<script type="application/ld+json">\n${json}\n</script>`
+}
+
+/**
+ * Semantic HTML for the visible FAQ section
+ * Google requires the marked-up questions to be visible on the page;
+ * no microdata is added so it does not duplicate the JSON-LD
+ */
+export function renderFaqHtml(faqs: FaqSnippetInput[]): string {
+  const items = faqs
+    .map(
+      (faq) =>
+        `  <h3>${escapeHtml(collapseWhitespace(faq.question))}</h3>\n` +
+        `  <p>${escapeHtml(collapseWhitespace(faq.answer))}</p>`
+    )
+    .join('\n')
+
+  return (
+    '<section class="faq" aria-labelledby="faq-heading">\n' +
+    `  <h2 id="faq-heading">${HEADING}</h2>\n` +
+    `${items}\n` +
+    '</section>'
+  )
+}
+
+/**
+ * Markdown for the visible FAQ section
+ */
+export function renderFaqMarkdown(faqs: FaqSnippetInput[]): string {
+  const items = faqs.map(
+    (faq) =>
+      `### ${escapeMarkdown(collapseWhitespace(faq.question))}\n\n` +
+      escapeMarkdown(collapseWhitespace(faq.answer))
+  )
+
+  return [`## ${HEADING}`, ...items].join('\n\n')
+}
+
+function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Escape characters that would turn plain text into Markdown formatting
+ */
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
+
+function isAbsoluteUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false
+  }
+
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
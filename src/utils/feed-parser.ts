@@ -0,0 +1,202 @@
+/**
+ * Article Analyzer - Feed Parser Utility
+ *
+ * Epic: Epic 1 - Article Submission & Validation
+ * Stories: Sitemap and feed discovery
+ *
+ * Parses sitemaps, sitemap indexes and RSS/Atom feeds into article URLs
+ * with their last-modified dates.
+ */
+
+import { DOMParser } from 'linkedom'
+import { ParsingError } from '@/types/scraping-errors'
+import type { DiscoveredArticle, ParsedFeed } from '@/types/discovery'
+
+/**
+ * Parse a sitemap or feed document
+ * Relative links are resolved against baseUrl; unparseable links are skipped
+ */
+export function parseFeedDocument(xml: string, baseUrl: string): ParsedFeed {
+  let document: Document
+
+  try {
+    // Use linkedom for Cloudflare Workers compatibility
+    // (its XMLDocument type does not extend the DOM lib's Document)
+    document = new DOMParser().parseFromString(
+      xml,
+      'text/xml'
+    ) as unknown as Document
+  } catch (error) {
+    throw new ParsingError(
+      `Failed to parse feed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    )
+  }
+
+  const root = document.documentElement
+
+  switch (root ? localName(root) : undefined) {
+    case 'urlset':
+      return {
+        kind: 'sitemap',
+        articles: collectArticles(root, 'url', baseUrl, (entry) => ({
+          url: childText(entry, 'loc'),
+          lastModified: childText(entry, 'lastmod'),
+        })),
+        sitemapUrls: [],
+      }
+
+    case 'sitemapindex':
+      return {
+        kind: 'sitemapindex',
+        articles: [],
+        sitemapUrls: children(root, 'sitemap')
+          .map((entry) => resolveUrl(childText(entry, 'loc'), baseUrl))
+          .filter((url): url is string => url !== undefined),
+      }
+
+    case 'rss':
+    case 'rdf':
+      return {
+        kind: 'rss',
+        articles: collectArticles(root, 'item', baseUrl, (entry) => ({
+          url: childText(entry, 'link') ?? permalinkGuid(entry),
+          title: childText(entry, 'title'),
+          lastModified: childText(entry, 'pubDate') ?? childText(entry, 'date'),
+        })),
+        sitemapUrls: [],
+      }
+
+    case 'feed':
+      return {
+        kind: 'atom',
+        articles: collectArticles(root, 'entry', baseUrl, (entry) => ({
+          url: atomLink(entry),
+          title: childText(entry, 'title'),
+          lastModified:
+            childText(entry, 'updated') ?? childText(entry, 'published'),
+        })),
+        sitemapUrls: [],
+      }
+
+    default:
+      throw new ParsingError(
+        'Not a sitemap or RSS/Atom feed. Enter the URL of a sitemap.xml or feed.'
+      )
+  }
+}
+
+/**
+ * Read every entry element of a feed into an article
+ */
+function collectArticles(
+  root: Element,
+  entryName: string,
+  baseUrl: string,
+  read: (entry: Element) => {
+    url?: string
+    title?: string
+    lastModified?: string
+  }
+): DiscoveredArticle[] {
+  const articles: DiscoveredArticle[] = []
+
+  for (const entry of descendants(root, entryName)) {
+    const { url, title, lastModified } = read(entry)
+    const resolved = resolveUrl(url, baseUrl)
+
+    if (!resolved) {
+      continue
+    }
+
+    articles.push({
+      url: resolved,
+      title: title || undefined,
+      lastModified: normalizeDate(lastModified),
+    })
+  }
+
+  return articles
+}
+
+/**
+ * Atom entries link to the article with rel="alternate" (or no rel)
+ */
+function atomLink(entry: Element): string | undefined {
+  const links = children(entry, 'link')
+  const alternate =
+    links.find((link) => (link.getAttribute('rel') ?? 'alternate') === 'alternate') ??
+    links[0]
+
+  return alternate?.getAttribute('href') ?? undefined
+}
+
+/**
+ * RSS items without a <link> may use an absolute URL as their <guid>
+ */
+function permalinkGuid(entry: Element): string | undefined {
+  const guid = childText(entry, 'guid')
+  return guid && /^https?:\/\//i.test(guid) ? guid : undefined
+}
+
+/**
+ * Direct children with a local name (ignores namespace prefixes)
+ */
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(
+    (child) => localName(child) === name.toLowerCase()
+  )
+}
+
+/**
+ * All descendants with a local name (RSS items sit inside <channel>)
+ */
+function descendants(parent: Element, name: string): Element[] {
+  return Array.from(parent.querySelectorAll('*')).filter(
+    (element) => localName(element) === name.toLowerCase()
+  )
+}
+
+/**
+ * Lowercase element name without its namespace prefix (e.g. dc:date -> date)
+ */
+function localName(element: Element): string {
+  return (element.localName.split(':').pop() ?? '').toLowerCase()
+}
+
+/**
+ * Trimmed text of the first child with a local name
+ */
+function childText(parent: Element, name: string): string | undefined {
+  const text = children(parent, name)[0]?.textContent?.trim()
+  return text || undefined
+}
+
+/**
+ * Resolve a possibly relative link to an absolute http(s) URL
+ */
+function resolveUrl(url: string | undefined, baseUrl: string): string | undefined {
+  if (!url) {
+    return undefined
+  }
+
+  try {
+    const resolved = new URL(url, baseUrl)
+    return ['http:', 'https:'].includes(resolved.protocol)
+      ? resolved.toString()
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Convert a feed date (W3C or RFC 822) to ISO, dropping invalid dates
+ */
+function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
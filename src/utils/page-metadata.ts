@@ -0,0 +1,377 @@
+/**
+ * Article Analyzer - Page Metadata Extractor
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Structured data detection
+ *
+ * Extracts existing JSON-LD, microdata and OpenGraph/Twitter metadata
+ * (author, dates, FAQPage, Article, Product, HowTo) from a scraped page,
+ * and turns it into the markup checks shown on the results page.
+ */
+
+import type {
+  MarkupCheck,
+  PageMetadata,
+  StructuredDataSource,
+} from '@/types/page-metadata'
+
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle']
+const MAX_JSON_LD_DEPTH = 6
+
+type JsonLdNode = Record<string, unknown>
+
+/**
+ * Extract structured data and social metadata from a parsed page
+ * Call before scripts are stripped from the document
+ */
+export function extractPageMetadata(document: Document): PageMetadata {
+  const { nodes, invalidCount } = readJsonLd(document)
+  const microdata = Array.from(document.querySelectorAll('[itemtype]'))
+  const meta = readMetaTags(document)
+
+  const jsonLdOf = (types: string[]) =>
+    nodes.find((node) => getTypes(node).some((t) => types.includes(t)))
+  const microdataOf = (types: string[]) =>
+    microdata.find((el) => getItemTypes(el).some((t) => types.includes(t)))
+
+  const article = jsonLdOf(ARTICLE_TYPES)
+  const faq = jsonLdOf(['FAQPage'])
+  const product = jsonLdOf(['Product'])
+  const howTo = jsonLdOf(['HowTo'])
+
+  const metadata: PageMetadata = {
+    jsonLdTypes: unique(nodes.flatMap(getTypes)),
+    invalidJsonLdCount: invalidCount,
+    microdataTypes: unique(microdata.flatMap(getItemTypes)),
+    openGraph: meta.openGraph,
+    twitter: meta.twitter,
+    description: meta.description ?? meta.openGraph.description,
+    author:
+      personName(article?.author) ?? meta.author ?? meta.articleAuthor,
+    publishedAt: asString(article?.datePublished) ?? meta.publishedTime,
+    modifiedAt: asString(article?.dateModified) ?? meta.modifiedTime,
+  }
+
+  if (article) {
+    metadata.article = {
+      source: 'json-ld',
+      type: getTypes(article).find((t) => ARTICLE_TYPES.includes(t)) ?? 'Article',
+      headline: asString(article.headline),
+    }
+  } else {
+    const element = microdataOf(ARTICLE_TYPES)
+    if (element) {
+      metadata.article = {
+        source: 'microdata',
+        type: getItemTypes(element).find((t) => ARTICLE_TYPES.includes(t)) ?? 'Article',
+        headline: itemProp(element, 'headline'),
+      }
+    }
+  }
+
+  if (faq) {
+    metadata.faqPage = {
+      source: 'json-ld',
+      questionCount: toArray(faq.mainEntity).length,
+    }
+  } else if (microdataOf(['FAQPage'])) {
+    metadata.faqPage = {
+      source: 'microdata',
+      questionCount: microdata.filter((el) =>
+        getItemTypes(el).includes('Question')
+      ).length,
+    }
+  }
+
+  if (product) {
+    metadata.product = { source: 'json-ld', name: asString(product.name) }
+  } else {
+    const element = microdataOf(['Product'])
+    if (element) {
+      metadata.product = {
+        source: 'microdata',
+        name: itemProp(element, 'name'),
+      }
+    }
+  }
+
+  if (howTo) {
+    metadata.howTo = {
+      source: 'json-ld',
+      name: asString(howTo.name),
+      stepCount: toArray(howTo.step).length,
+    }
+  } else {
+    const element = microdataOf(['HowTo'])
+    if (element) {
+      metadata.howTo = {
+        source: 'microdata',
+        name: itemProp(element, 'name'),
+        stepCount: element.querySelectorAll('[itemprop="step"]').length,
+      }
+    }
+  }
+
+  return metadata
+}
+
+/**
+ * Report which AI-relevant markup the page has or is missing
+ */
+export function buildMarkupReport(metadata: PageMetadata): MarkupCheck[] {
+  const checks: MarkupCheck[] = []
+  const og = metadata.openGraph
+  const twitter = metadata.twitter
+
+  if (metadata.invalidJsonLdCount > 0) {
+    checks.push({
+      id: 'invalid-json-ld',
+      label: 'Valid JSON-LD',
+      status: 'invalid',
+      importance: 'recommended',
+      detail: `${metadata.invalidJsonLdCount} JSON-LD block(s) could not be parsed and are ignored by search engines`,
+    })
+  }
+
+  checks.push(
+    {
+      id: 'faq-page',
+      label: 'FAQPage structured data',
+      status: metadata.faqPage ? 'present' : 'missing',
+      importance: 'recommended',
+      detail: metadata.faqPage
+        ? `${metadata.faqPage.questionCount} questions (${sourceLabel(metadata.faqPage.source)})`
+        : 'Publish the generated FAQs with FAQPage JSON-LD so AI engines can match questions to your page',
+    },
+    {
+      id: 'article',
+      label: 'Article structured data',
+      status: metadata.article ? 'present' : 'missing',
+      importance: 'recommended',
+      detail: metadata.article
+        ? `${metadata.article.type} (${sourceLabel(metadata.article.source)})`
+        : 'Article, NewsArticle or BlogPosting markup tells engines what the page is and who wrote it',
+    },
+    {
+      id: 'author',
+      label: 'Author',
+      status: metadata.author ? 'present' : 'missing',
+      importance: 'recommended',
+      detail:
+        metadata.author ??
+        'A named author helps AI engines judge expertise and attribute citations',
+    },
+    {
+      id: 'published-date',
+      label: 'Publish date',
+      status: metadata.publishedAt ? 'present' : 'missing',
+      importance: 'recommended',
+      detail:
+        [metadata.publishedAt, metadata.modifiedAt && `updated ${metadata.modifiedAt}`]
+          .filter(Boolean)
+          .join(', ') ||
+        'Dates let engines prefer fresh content for time-sensitive questions',
+    },
+    {
+      id: 'open-graph',
+      label: 'OpenGraph tags',
+      status: og.title && og.description ? 'present' : 'missing',
+      importance: 'recommended',
+      detail:
+        og.title && og.description
+          ? `og:title, og:description${og.image ? ', og:image' : ''}`
+          : 'og:title and og:description provide a clean title and summary when the page is shared or previewed',
+    },
+    {
+      id: 'twitter-card',
+      label: 'Twitter card',
+      status: twitter.card ? 'present' : 'missing',
+      importance: 'optional',
+      detail: twitter.card
+        ? `twitter:card = ${twitter.card}`
+        : 'Optional: twitter:card controls link previews on X/Twitter',
+    },
+    {
+      id: 'product',
+      label: 'Product structured data',
+      status: metadata.product ? 'present' : 'missing',
+      importance: 'optional',
+      detail: metadata.product
+        ? `${metadata.product.name ?? 'Product'} (${sourceLabel(metadata.product.source)})`
+        : 'Only needed if the page sells or reviews a product',
+    },
+    {
+      id: 'how-to',
+      label: 'HowTo structured data',
+      status: metadata.howTo ? 'present' : 'missing',
+      importance: 'optional',
+      detail: metadata.howTo
+        ? `${metadata.howTo.stepCount} steps (${sourceLabel(metadata.howTo.source)})`
+        : 'Only needed for step-by-step instructions',
+    }
+  )
+
+  return checks
+}
+
+/**
+ * Parse every JSON-LD script and flatten it into typed nodes
+ */
+function readJsonLd(document: Document): {
+  nodes: JsonLdNode[]
+  invalidCount: number
+} {
+  const nodes: JsonLdNode[] = []
+  let invalidCount = 0
+
+  document
+    .querySelectorAll('script[type="application/ld+json"]')
+    .forEach((script) => {
+      const text = (script.textContent ?? '')
+        .replace(/^\s*(<!--|<!\[CDATA\[)/, '')
+        .replace(/(-->|\]\]>)\s*$/, '')
+        .trim()
+
+      if (!text) {
+        return
+      }
+
+      try {
+        collectNodes(JSON.parse(text), nodes, 0)
+      } catch {
+        invalidCount++
+      }
+    })
+
+  return { nodes, invalidCount }
+}
+
+/**
+ * Collect objects with an @type from arrays, @graph and nested values
+ */
+function collectNodes(value: unknown, nodes: JsonLdNode[], depth: number): void {
+  if (depth > MAX_JSON_LD_DEPTH || value === null || typeof value !== 'object') {
+    return
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodes(item, nodes, depth + 1))
+    return
+  }
+
+  const node = value as JsonLdNode
+
+  if (getTypes(node).length > 0) {
+    nodes.push(node)
+  }
+
+  Object.entries(node).forEach(([key, child]) => {
+    if (key !== '@context') {
+      collectNodes(child, nodes, depth + 1)
+    }
+  })
+}
+
+/**
+ * Read OpenGraph, Twitter and author/date meta tags
+ */
+function readMetaTags(document: Document) {
+  const openGraph: Record<string, string> = {}
+  const twitter: Record<string, string> = {}
+  const named: Record<string, string> = {}
+
+  document.querySelectorAll('meta').forEach((meta) => {
+    const key = (
+      meta.getAttribute('property') ?? meta.getAttribute('name') ?? ''
+    ).toLowerCase()
+    const content = meta.getAttribute('content')?.trim()
+
+    if (!key || !content) {
+      return
+    }
+
+    if (key.startsWith('og:')) {
+      openGraph[key.slice(3)] ??= content
+    } else if (key.startsWith('twitter:')) {
+      twitter[key.slice(8)] ??= content
+    } else {
+      named[key] ??= content
+    }
+  })
+
+  return {
+    openGraph,
+    twitter,
+    description: named.description,
+    author: named.author,
+    articleAuthor: named['article:author'],
+    publishedTime: named['article:published_time'],
+    modifiedTime: named['article:modified_time'],
+  }
+}
+
+/**
+ * schema.org types of a JSON-LD node (prefixes like "schema:" removed)
+ */
+function getTypes(node: JsonLdNode): string[] {
+  return toArray(node['@type'])
+    .filter((t): t is string => typeof t === 'string')
+    .map(stripSchemaPrefix)
+}
+
+/**
+ * schema.org type names of a microdata element's itemtype URLs
+ */
+function getItemTypes(element: Element): string[] {
+  return (element.getAttribute('itemtype') ?? '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(stripSchemaPrefix)
+}
+
+function stripSchemaPrefix(type: string): string {
+  return type.split(/[/:#]/).pop() ?? type
+}
+
+/**
+ * Text of a microdata property within an item
+ */
+function itemProp(element: Element, name: string): string | undefined {
+  const prop = element.querySelector(`[itemprop="${name}"]`)
+  const value = prop?.getAttribute('content') ?? prop?.textContent
+  return value?.trim() || undefined
+}
+
+/**
+ * Author name from a string, Person/Organization or list of them
+ */
+function personName(value: unknown): string | undefined {
+  const names = toArray(value)
+    .map((item) =>
+      typeof item === 'string'
+        ? item
+        : item && typeof item === 'object'
+          ? asString((item as JsonLdNode).name)
+          : undefined
+    )
+    .filter((name): name is string => Boolean(name?.trim()))
+
+  return names.length > 0 ? names.join(', ') : undefined
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values))
+}
+
+function sourceLabel(source: StructuredDataSource): string {
+  return source === 'json-ld' ? 'JSON-LD' : 'microdata'
+}
@@ -0,0 +1,185 @@
+/**
+ * Article Analyzer - PDF Parser Utility
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: Non-HTML document analysis
+ *
+ * PDF text extraction for Cloudflare Workers, built on unpdf (the
+ * serverless build of Mozilla's PDF.js). Reads the document information
+ * dictionary (title, author, dates) and the text of each page, in page
+ * order. Encrypted PDFs that need a password are rejected; scanned
+ * (image-only) pages have no extractable text.
+ */
+
+import { getDocumentProxy } from 'unpdf'
+import { ParsingError } from '@/types/scraping-errors'
+
+const MAX_PAGES = 500 // Pages read from one document
+const PDFJS_ERRORS = 0 // PDF.js verbosity level that logs errors only
+
+/**
+ * Text and document properties extracted from a PDF
+ */
+export interface PdfDocument {
+  text: string // Page texts separated by blank lines
+  pageCount: number
+  info: PdfInfo
+}
+
+/**
+ * Entries of the PDF document information dictionary
+ */
+export interface PdfInfo {
+  title?: string
+  author?: string
+  subject?: string
+  keywords?: string
+  createdAt?: string // ISO 8601
+  modifiedAt?: string // ISO 8601
+}
+
+type PdfDocumentProxy = Awaited<ReturnType<typeof getDocumentProxy>>
+
+/**
+ * Extract text and document properties from PDF bytes
+ * Throws ParsingError for files that are not PDFs or are encrypted
+ */
+export async function parsePdf(bytes: Uint8Array): Promise<PdfDocument> {
+  const pdf = await openPdf(bytes)
+
+  try {
+    const pageTexts: string[] = []
+    const pageCount = Math.min(pdf.numPages, MAX_PAGES)
+
+    for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+      const text = cleanPageText(await getPageText(pdf, pageNumber))
+      if (text) {
+        pageTexts.push(text)
+      }
+    }
+
+    const { info } = await pdf.getMetadata()
+
+    return {
+      text: pageTexts.join('\n\n'),
+      pageCount: pdf.numPages,
+      info: readInfo(info as Record<string, unknown>),
+    }
+  } catch (error) {
+    throw toParsingError(error)
+  } finally {
+    await pdf.loadingTask.destroy()
+  }
+}
+
+/**
+ * Load a PDF, mapping PDF.js load failures to ParsingError
+ */
+async function openPdf(bytes: Uint8Array): Promise<PdfDocumentProxy> {
+  try {
+    // PDF.js takes ownership of (and may detach) the buffer it is given;
+    // its recoverable-damage warnings are not logged
+    return await getDocumentProxy(bytes.slice(), { verbosity: PDFJS_ERRORS })
+  } catch (error) {
+    throw toParsingError(error)
+  }
+}
+
+/**
+ * Text of one page, with PDF.js's end-of-line markers as line breaks
+ */
+async function getPageText(
+  pdf: PdfDocumentProxy,
+  pageNumber: number
+): Promise<string> {
+  const page = await pdf.getPage(pageNumber)
+  const { items } = await page.getTextContent()
+
+  return items
+    .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+    .join('')
+}
+
+/**
+ * Map a PDF.js error to a ParsingError with a user-facing message
+ */
+function toParsingError(error: unknown): ParsingError {
+  if (error instanceof ParsingError) {
+    return error
+  }
+
+  const name = error instanceof Error ? error.name : ''
+
+  if (name === 'PasswordException') {
+    return new ParsingError('Encrypted PDFs are not supported')
+  }
+
+  if (name === 'InvalidPDFException') {
+    return new ParsingError('Not a PDF document')
+  }
+
+  return new ParsingError(
+    `Failed to read PDF: ${error instanceof Error ? error.message : 'Unknown error'}`
+  )
+}
+
+/**
+ * Read the information dictionary (PDF.js has already decoded its
+ * PDFDocEncoding and UTF-16 text strings)
+ */
+function readInfo(info: Record<string, unknown>): PdfInfo {
+  const entry = (key: string): string | undefined => {
+    const value = info[key]
+    if (typeof value !== 'string') {
+      return undefined
+    }
+
+    return value.replace(/\s+/g, ' ').trim() || undefined
+  }
+
+  return {
+    title: entry('Title'),
+    author: entry('Author'),
+    subject: entry('Subject'),
+    keywords: entry('Keywords'),
+    createdAt: parsePdfDate(entry('CreationDate')),
+    modifiedAt: parsePdfDate(entry('ModDate')),
+  }
+}
+
+/**
+ * Convert a PDF date (D:YYYYMMDDHHmmSSOHH'mm) to ISO 8601
+ */
+function parsePdfDate(value?: string): string | undefined {
+  const match =
+    /^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(?:([Zz+-])(\d{2})?'?(\d{2})?)?/.exec(
+      value ?? ''
+    )
+  if (!match) {
+    return undefined
+  }
+
+  const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00'] =
+    match
+  const [sign, offsetHours = '00', offsetMinutes = '00'] = match.slice(7)
+  const offset =
+    sign === '+' || sign === '-' ? `${sign}${offsetHours}:${offsetMinutes}` : 'Z'
+  const date = new Date(
+    `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`
+  )
+
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+/**
+ * Normalize extracted page text: rejoin hyphenated line breaks and drop
+ * blank and whitespace-only lines
+ */
+function cleanPageText(text: string): string {
+  return text
+    .replace(/(\w)-\n(\w)/g, '$1$2')
+    .split('\n')
+    .map((line) => line.replace(/[ \t\f]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
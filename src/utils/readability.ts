@@ -0,0 +1,385 @@
+/**
+ * Article Analyzer - Readability Extractor
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: US-2.2, Readability-grade extraction
+ *
+ * Finds the main content of a page in the style of Mozilla Readability:
+ * paragraphs are scored by length and commas, their scores propagate to
+ * their ancestors, and the best ancestor (discounted by link density) wins,
+ * together with siblings that look like part of the same article.
+ * Forms are judged inside the chosen content only, as Readability does:
+ * pages wrapped in one big <form> (ASP.NET WebForms) keep their article,
+ * while search, sign-up and comment forms within it are dropped.
+ * Runs on linkedom, so it works in Cloudflare Workers.
+ */
+
+// Class/id hints for boilerplate and for content containers
+const UNLIKELY_CANDIDATES =
+  /-ad-|ai2html|banner|breadcrumbs|combx|comment|community|consent|cookie|cover-wrap|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|pager|pagination|paywall|popup|promo|regwall|related|remark|replies|rss|share|shoutbox|sidebar|signup|skyscraper|social|sponsor|subscribe|supplemental|yom-remote/i
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i
+const POSITIVE_HINTS =
+  /article|body|content|entry|hentry|h-entry|main|page|pagination|post|text|blog|story/i
+const NEGATIVE_HINTS =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|cookie|foot|footer|footnote|gdpr|masthead|media|meta|modal|newsletter|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|subscribe|tags|tool|widget/i
+
+// Interactive and hidden elements that never belong to the article
+const NOISE_SELECTORS = [
+  'button',
+  'dialog',
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[aria-modal="true"]',
+  '[hidden]',
+  '[aria-hidden="true"]',
+]
+
+// Cleaned from the chosen content: forms only when they look like widgets,
+// form controls always (they are kept until then to judge their forms)
+const CONDITIONAL_SELECTOR = 'form, fieldset'
+const FORM_CONTROL_SELECTOR = 'input, select, textarea'
+const MIN_CONTENT_COMMAS = 10 // Forms this wordy are kept as content
+
+const BLOCK_TAGS = ['a', 'blockquote', 'dl', 'div', 'img', 'ol', 'p', 'pre', 'table', 'ul', 'section', 'article']
+const SCORED_TAGS = ['p', 'pre', 'td', 'blockquote', 'section']
+const MIN_PARAGRAPH_LENGTH = 25
+const MAX_ANCESTOR_LEVELS = 5
+const MAX_UNLIKELY_TEXT_SHARE = 0.5 // Boilerplate never holds most of the page's text
+
+// Confidence targets: a typical article has several real paragraphs
+const CONFIDENT_PARAGRAPH_COUNT = 5
+const CONFIDENT_TEXT_LENGTH = 1500
+
+/**
+ * Main content chosen by the extractor
+ */
+export interface ReadableContent {
+  html: string // Top candidate and related siblings
+  confidence: number // 0-1: how article-like the chosen content is
+}
+
+/**
+ * Extract the main content of a document
+ * Mutates the document (boilerplate is removed); returns null when no
+ * paragraph-like content was found
+ */
+export function extractReadableContent(
+  document: Document
+): ReadableContent | null {
+  const body = document.querySelector('body')
+  if (!body) {
+    return null
+  }
+
+  removeBoilerplate(body)
+
+  const scores = scoreParagraphs(body)
+  if (scores.size === 0) {
+    return null
+  }
+
+  // Discount each candidate by how much of its text is links
+  let top: Element | null = null
+  let topScore = 0
+
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - getLinkDensity(element))
+    scores.set(element, adjusted)
+
+    if (adjusted > topScore) {
+      top = element
+      topScore = adjusted
+    }
+  })
+
+  if (!top) {
+    return null
+  }
+
+  const selected = collectWithSiblings(top, topScore, scores)
+  selected.forEach(cleanForms)
+
+  return {
+    html: selected.map((element) => element.outerHTML).join('\n'),
+    confidence: getConfidence(selected),
+  }
+}
+
+/**
+ * Remove hidden/interactive nodes and unlikely candidates (banners,
+ * related rails, newsletter and cookie boxes) by their class/id hints
+ */
+function removeBoilerplate(body: Element): void {
+  NOISE_SELECTORS.forEach((selector) => {
+    body.querySelectorAll(selector).forEach((el) => el.remove())
+  })
+
+  const pageTextLength = getInnerText(body).length
+
+  Array.from(body.querySelectorAll('*')).forEach((el) => {
+    const tag = el.tagName.toLowerCase()
+    if (tag === 'article' || tag === 'main' || tag === 'a') {
+      return
+    }
+
+    const hints = `${el.getAttribute('class') ?? ''} ${el.getAttribute('id') ?? ''}`
+    if (!UNLIKELY_CANDIDATES.test(hints) || MAYBE_CANDIDATE.test(hints)) {
+      return
+    }
+
+    // Page wrappers with misleading classes still hold the article
+    if (
+      el.querySelector('article, main, [itemprop="articleBody"]') ||
+      getInnerText(el).length > pageTextLength * MAX_UNLIKELY_TEXT_SHARE
+    ) {
+      return
+    }
+
+    el.remove()
+  })
+}
+
+/**
+ * Score paragraphs and propagate the scores to their ancestors
+ * Divs without block children count as paragraphs
+ */
+function scoreParagraphs(body: Element): Map<Element, number> {
+  const scores = new Map<Element, number>()
+
+  const paragraphs = Array.from(body.querySelectorAll('*')).filter((el) => {
+    const tag = el.tagName.toLowerCase()
+    return (
+      SCORED_TAGS.includes(tag) ||
+      (tag === 'div' &&
+        !Array.from(el.children).some((child) =>
+          BLOCK_TAGS.includes(child.tagName.toLowerCase())
+        ))
+    )
+  })
+
+  paragraphs.forEach((paragraph) => {
+    const text = getInnerText(paragraph)
+    if (text.length < MIN_PARAGRAPH_LENGTH) {
+      return
+    }
+
+    // One point for the paragraph, one per comma, one per 100 chars (max 3)
+    const score =
+      text.split(/[,，、]/).length + Math.min(Math.floor(text.length / 100), 3)
+
+    let ancestor = paragraph.parentElement
+    for (let level = 0; ancestor && level < MAX_ANCESTOR_LEVELS; level++) {
+      if (ancestor.tagName.toLowerCase() === 'html') {
+        break
+      }
+
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, getInitialScore(ancestor))
+      }
+
+      // Parent gets the full score, grandparent half, then score / (level * 3)
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3
+      scores.set(ancestor, (scores.get(ancestor) ?? 0) + score / divider)
+      ancestor = ancestor.parentElement
+    }
+  })
+
+  return scores
+}
+
+/**
+ * Starting score of a candidate from its tag and class/id hints
+ */
+function getInitialScore(element: Element): number {
+  let score = getClassWeight(element)
+
+  switch (element.tagName.toLowerCase()) {
+    case 'article':
+    case 'main':
+      score += 10
+      break
+    case 'div':
+      score += 5
+      break
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      score += 3
+      break
+    case 'address':
+    case 'ol':
+    case 'ul':
+    case 'dl':
+    case 'dd':
+    case 'dt':
+    case 'li':
+    case 'form':
+      score -= 3
+      break
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6':
+    case 'th':
+      score -= 5
+      break
+  }
+
+  return score
+}
+
+function getClassWeight(element: Element): number {
+  let weight = 0
+
+  for (const hint of [element.getAttribute('class'), element.getAttribute('id')]) {
+    if (!hint) continue
+    if (NEGATIVE_HINTS.test(hint)) weight -= 25
+    if (POSITIVE_HINTS.test(hint)) weight += 25
+  }
+
+  if (element.getAttribute('itemprop') === 'articleBody') {
+    weight += 25
+  }
+
+  return weight
+}
+
+/**
+ * Add siblings of the top candidate that look like part of the article
+ * (well-scored containers, or long paragraphs with few links)
+ */
+function collectWithSiblings(
+  top: Element,
+  topScore: number,
+  scores: Map<Element, number>
+): Element[] {
+  const parent = top.parentElement
+  if (!parent) {
+    return [top]
+  }
+
+  const threshold = Math.max(10, topScore * 0.2)
+
+  return Array.from(parent.children).filter((sibling) => {
+    if (sibling === top) {
+      return true
+    }
+
+    if ((scores.get(sibling) ?? -Infinity) >= threshold) {
+      return true
+    }
+
+    if (sibling.tagName.toLowerCase() !== 'p') {
+      return false
+    }
+
+    const text = getInnerText(sibling)
+    const linkDensity = getLinkDensity(sibling)
+
+    return (
+      (text.length > 80 && linkDensity < 0.25) ||
+      (text.length > 0 && linkDensity === 0 && /\.( |$)/.test(text))
+    )
+  })
+}
+
+/**
+ * Remove widget-like forms and fieldsets from chosen content, innermost
+ * first, then the form controls left in the content that remains
+ */
+function cleanForms(element: Element): void {
+  Array.from(element.querySelectorAll(CONDITIONAL_SELECTOR))
+    .reverse()
+    .forEach((form) => {
+      if (isWidgetForm(form)) {
+        form.remove()
+      }
+    })
+
+  element.querySelectorAll(FORM_CONTROL_SELECTOR).forEach((el) => el.remove())
+}
+
+/**
+ * Readability's conditional cleaning test: negative class hints, or little
+ * text with more controls, list items or links than paragraphs support
+ */
+function isWidgetForm(form: Element): boolean {
+  const weight = getClassWeight(form)
+  if (weight < 0) {
+    return true
+  }
+
+  const text = getInnerText(form)
+  if (text.split(/[,，、]/).length - 1 >= MIN_CONTENT_COMMAS) {
+    return false
+  }
+
+  const paragraphs = form.querySelectorAll('p').length
+  const images = form.querySelectorAll('img').length
+  const listItems = form.querySelectorAll('li').length - 100
+  // Hidden inputs (view state, CSRF tokens) say nothing about the form
+  const inputs = form.querySelectorAll(
+    'input:not([type="hidden"]), select, textarea'
+  ).length
+  const linkDensity = getLinkDensity(form)
+
+  return (
+    (images > 1 && paragraphs / images < 0.5) ||
+    listItems > paragraphs ||
+    inputs > Math.floor(paragraphs / 3) ||
+    (text.length < MIN_PARAGRAPH_LENGTH && images === 0) ||
+    (weight < 25 && linkDensity > 0.2) ||
+    (weight >= 25 && linkDensity > 0.5)
+  )
+}
+
+/**
+ * Confidence from paragraph count, text length and link density
+ */
+function getConfidence(elements: Element[]): number {
+  const text = elements.map(getInnerText).join(' ')
+  const linkText = elements.reduce(
+    (sum, element) => sum + getLinkDensity(element) * getInnerText(element).length,
+    0
+  )
+  const paragraphs = elements.reduce(
+    (count, element) =>
+      count +
+      Array.from(element.querySelectorAll('p')).filter(
+        (p) => getInnerText(p).length >= MIN_PARAGRAPH_LENGTH
+      ).length +
+      (element.tagName.toLowerCase() === 'p' ? 1 : 0),
+    0
+  )
+  const linkDensity = text.length > 0 ? linkText / text.length : 1
+
+  const confidence =
+    0.4 * Math.min(paragraphs / CONFIDENT_PARAGRAPH_COUNT, 1) +
+    0.3 * Math.min(text.length / CONFIDENT_TEXT_LENGTH, 1) +
+    0.3 * (1 - linkDensity)
+
+  return Math.round(confidence * 100) / 100
+}
+
+/**
+ * Share of an element's text that is inside links
+ */
+function getLinkDensity(element: Element): number {
+  const textLength = getInnerText(element).length
+  if (textLength === 0) {
+    return 0
+  }
+
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce(
+    (sum, link) => sum + getInnerText(link).length,
+    0
+  )
+
+  return Math.min(linkLength / textLength, 1)
+}
+
+function getInnerText(element: Element): string {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim()
+}
@@ -0,0 +1,143 @@
+/**
+ * Article Analyzer - robots.txt Parser
+ *
+ * Epic: Epic 2 - Article Content Scraping
+ * Stories: AI-readiness audit
+ *
+ * Parses robots.txt files and matches paths against them following
+ * RFC 9309: the groups naming the crawler's product token apply (the "*"
+ * group only when none does), the longest matching rule wins and Allow
+ * wins ties.
+ */
+
+/**
+ * Rules for one or more user agents
+ */
+export interface RobotsGroup {
+  userAgents: string[] // Lowercased product tokens, "*" for any
+  rules: { allow: boolean; path: string }[]
+}
+
+/**
+ * Parsed robots.txt file
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+  sitemaps: string[]
+}
+
+/**
+ * Parse a robots.txt file; unknown lines are ignored
+ */
+export function parseRobotsTxt(text: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  const sitemaps: string[] = []
+  let current: RobotsGroup | null = null
+  let collectingAgents = false
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+
+    if (separator === -1) {
+      continue
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [] }
+        groups.push(current)
+      }
+      current.userAgents.push(parseProductToken(value))
+      collectingAgents = true
+    } else if (field === 'allow' || field === 'disallow') {
+      collectingAgents = false
+      // An empty Disallow allows everything, so it adds no rule
+      if (current && value) {
+        current.rules.push({ allow: field === 'allow', path: value })
+      }
+    } else if (field === 'sitemap' && value) {
+      sitemaps.push(value)
+    }
+  }
+
+  return { groups, sitemaps }
+}
+
+/**
+ * Check whether a crawler may fetch a path (plus query string)
+ * `productToken` is the crawler's robots.txt name (e.g. "GPTBot"), matched
+ * case-insensitively and exactly: "GPTBot" rules do not apply to "GPT"
+ */
+export function isPathAllowed(
+  robots: RobotsTxt,
+  productToken: string,
+  path: string
+): boolean {
+  const token = productToken.toLowerCase()
+  let groups = robots.groups.filter((group) =>
+    group.userAgents.includes(token)
+  )
+
+  if (groups.length === 0) {
+    groups = robots.groups.filter((group) => group.userAgents.includes('*'))
+  }
+
+  let best: { allow: boolean; length: number } | null = null
+
+  for (const rule of groups.flatMap((group) => group.rules)) {
+    if (!matchesRule(rule.path, path)) {
+      continue
+    }
+
+    const length = rule.path.length
+    if (
+      !best ||
+      length > best.length ||
+      (length === best.length && rule.allow && !best.allow)
+    ) {
+      best = { allow: rule.allow, length }
+    }
+  }
+
+  return best?.allow ?? true
+}
+
+/**
+ * Product token of a User-agent line, lowercased; a version or comment
+ * after the token ("ExampleBot/1.0") is ignored
+ */
+function parseProductToken(value: string): string {
+  return (/^(\*|[A-Za-z_-]+)/.exec(value)?.[1] ?? value).toLowerCase()
+}
+
+/**
+ * Match a path against a rule with "*" wildcards and a "$" end anchor
+ */
+function matchesRule(rule: string, path: string): boolean {
+  const decoded = safeDecode(rule)
+  const anchored = decoded.endsWith('$')
+  const pattern = (anchored ? decoded.slice(0, -1) : decoded)
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  return new RegExp(`^${pattern}${anchored ? '$' : ''}`).test(
+    safeDecode(path)
+  )
+}
+
+/**
+ * Compare rules and paths percent-decoded, so either spelling matches
+ */
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path)
+  } catch {
+    return path
+  }
+}
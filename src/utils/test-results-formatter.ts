@@ -9,7 +9,14 @@
 
 import type { SearchTestResult } from '@/types/search-testing'
 import type { FAQTestMetrics } from '@/types/faq-generation'
-import type { TestMetricsData } from '@/db/schema'
+import { isTargetInCitations } from '@/utils/citation-parser'
+import type {
+  TestMetricsData,
+  ProviderMetricsData,
+  CitationInfo,
+} from '@/db/schema'
+import type { BatchTierRates } from '@/types/batch'
+import type { MatchMode } from '@/types/search-testing'
 
 /**
  * Calculate 3-tier metrics from individual FAQ test results
@@ -59,6 +66,33 @@ export function formatMetricsForStorage(
   }
 }
 
+/**
+ * Calculate storage metrics across several search providers
+ *
+ * Top-level counts are summed over all providers; the submission is
+ * accessible if any provider passed its control test.
+ */
+export function calculateProviderMetrics(
+  results: SearchTestResult[],
+  accessibility: Record<string, boolean>
+): TestMetricsData {
+  const providerMetrics: Record<string, ProviderMetricsData> = {}
+
+  for (const [provider, isAccessible] of Object.entries(accessibility)) {
+    const providerResults = results.filter((r) => r.provider === provider)
+    providerMetrics[provider] = formatMetricsForStorage(
+      calculateTestMetrics(providerResults, isAccessible)
+    )
+  }
+
+  const isAccessible = Object.values(accessibility).some(Boolean)
+
+  return {
+    ...formatMetricsForStorage(calculateTestMetrics(results, isAccessible)),
+    providerMetrics,
+  }
+}
+
 /**
  * Calculate success rates from metrics
  */
@@ -104,6 +138,100 @@ export function formatMetricsForAPI(metrics: TestMetricsData) {
   }
 }
 
+/**
+ * Results page statistics for a submission's test results
+ * Shared by the results API and the live results view
+ */
+export function calculateResultStatistics(
+  results: Array<{
+    targetUrlFound: boolean
+    foundInSources: boolean
+    foundInCitations: boolean
+    citations: unknown
+    sources: unknown
+  }>,
+  targetUrls: string[],
+  matchMode: MatchMode
+) {
+  const totalTests = results.length
+  const citedCount = results.filter((r) => r.foundInCitations).length
+  const mentionedCount = results.filter((r) => r.foundInSources).length
+  const notFoundCount = results.filter((r) => !r.targetUrlFound).length
+
+  // Total sources and citations across all results
+  const totalSources = results.reduce(
+    (sum, r) => sum + (Array.isArray(r.sources) ? r.sources.length : 0),
+    0
+  )
+  const totalCitations = results.reduce(
+    (sum, r) => sum + (Array.isArray(r.citations) ? r.citations.length : 0),
+    0
+  )
+
+  const citationPositions = results
+    .filter(
+      (r) =>
+        r.foundInCitations &&
+        Array.isArray(r.citations) &&
+        r.citations.length > 0
+    )
+    .map((r) => {
+      const { position } = isTargetInCitations(
+        targetUrls,
+        r.citations as CitationInfo[],
+        matchMode
+      )
+      return position ?? 999
+    })
+
+  const averagePosition =
+    citationPositions.length > 0
+      ? citationPositions.reduce((sum, pos) => sum + pos, 0) /
+        citationPositions.length
+      : undefined
+
+  return {
+    totalTests,
+    citedCount,
+    mentionedCount,
+    notFoundCount,
+    citationRate: totalTests > 0 ? (citedCount / totalTests) * 100 : 0,
+    averagePosition,
+    totalSources,
+    totalCitations,
+  }
+}
+
+/**
+ * Aggregate 3-tier metrics across the submissions of a batch
+ * Tier 2/3 rates are weighted by FAQ count, not averaged per submission
+ */
+export function aggregateBatchMetrics(
+  metricsList: TestMetricsData[]
+): BatchTierRates {
+  const totals = metricsList.reduce(
+    (acc, metrics) => ({
+      accessibleCount: acc.accessibleCount + (metrics.isAccessible ? 1 : 0),
+      inSourcesCount: acc.inSourcesCount + metrics.inSourcesCount,
+      inCitationsCount: acc.inCitationsCount + metrics.inCitationsCount,
+      totalFaqs: acc.totalFaqs + metrics.totalFaqs,
+    }),
+    { accessibleCount: 0, inSourcesCount: 0, inCitationsCount: 0, totalFaqs: 0 }
+  )
+
+  const tier1PassRate =
+    metricsList.length > 0
+      ? (totals.accessibleCount / metricsList.length) * 100
+      : 0
+
+  return {
+    analyzedCount: metricsList.length,
+    tier1PassRate: Math.round(tier1PassRate * 10) / 10,
+    ...calculateSuccessRates(totals),
+    totalFaqs: totals.totalFaqs,
+  }
+}
+
 /**
  * Get performance summary text
  */
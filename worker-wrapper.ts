@@ -0,0 +1,28 @@
+/**
+ * Worker Wrapper for datagum.ai
+ *
+ * Extends the OpenNext-generated worker with a Cloudflare Queue consumer and
+ * a cron handler for scheduled re-tests, so the Next.js app and background
+ * processing deploy as one Worker.
+ * wrangler.jsonc points `main` at this file instead of .open-next/worker.js.
+ */
+
+import worker from './.open-next/worker.js'
+import { queueHandler } from './src/queue/handler'
+import { runDueRetests } from './src/services/retest-scheduler.service'
+
+export default {
+  ...worker,
+
+  async queue(batch: MessageBatch<unknown>, env: CloudflareEnv) {
+    return queueHandler(batch, env)
+  },
+
+  async scheduled(
+    controller: ScheduledController,
+    env: CloudflareEnv,
+    ctx: ExecutionContext
+  ) {
+    ctx.waitUntil(runDueRetests(env, new Date(controller.scheduledTime)))
+  },
+} satisfies ExportedHandler<CloudflareEnv>